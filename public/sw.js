@@ -0,0 +1,53 @@
+// Service worker for browser push notifications. Pushes come from the
+// send-push-notification edge function; clicking one opens
+// /notifications/:id, which the app resolves to the page the notification is
+// about.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  const url = data.notification_id ? `/notifications/${data.notification_id}` : "/notifications";
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Trevor", {
+      body: data.body || "You have a new notification",
+      icon: "/Trevor.png",
+      badge: "/Trevor.png",
+      tag: data.notification_id,
+      data: { url },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/notifications";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app when there is one; tabs this worker
+      // doesn't control yet can't be navigated, so open a new one instead
+      const client = windows.find((w) => new URL(w.url).origin === self.location.origin);
+      if (client) {
+        return client
+          .focus()
+          .then((focused) => focused.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    }),
+  );
+});
@@ -0,0 +1,154 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ESTIMATE_GROUPINGS,
+  EstimateGroup,
+  EstimateGrouping,
+  EstimateReportTask,
+  fetchEstimateReport,
+  getEstimateVariance,
+  groupEstimates,
+  summarizeEstimates,
+} from "@/lib/estimates";
+
+interface EstimateAccuracyCardProps {
+  organizationId: string;
+  dateRange: "week" | "month" | "year";
+}
+
+const getSince = (dateRange: EstimateAccuracyCardProps["dateRange"]) => {
+  const since = new Date();
+  if (dateRange === "week") {
+    since.setDate(since.getDate() - 7);
+  } else if (dateRange === "month") {
+    since.setMonth(since.getMonth() - 1);
+  } else {
+    since.setFullYear(since.getFullYear() - 1);
+  }
+  return since.toISOString();
+};
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+function Variance({ group }: { group: EstimateGroup }) {
+  const variance = getEstimateVariance(group);
+  if (variance === null) return <span className="text-muted-foreground">—</span>;
+
+  const percent = Math.round(variance * 100);
+  return (
+    <span className={cn("font-medium", percent > 10 ? "text-destructive" : percent < -10 ? "text-primary" : "text-success")}>
+      {percent > 0 ? "+" : ""}
+      {percent}%
+    </span>
+  );
+}
+
+// Estimated hours against the time logged on tasks created in the range
+export function EstimateAccuracyCard({ organizationId, dateRange }: EstimateAccuracyCardProps) {
+  const [tasks, setTasks] = useState<EstimateReportTask[]>([]);
+  const [grouping, setGrouping] = useState<EstimateGrouping>("project");
+  const [completedOnly, setCompletedOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        setTasks(await fetchEstimateReport(organizationId, getSince(dateRange)));
+      } catch (error) {
+        console.error("Error fetching estimate report:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [organizationId, dateRange]);
+
+  const reportTasks = useMemo(
+    () => (completedOnly ? tasks.filter((t) => t.status === "done") : tasks),
+    [tasks, completedOnly]
+  );
+  const groups = useMemo(() => groupEstimates(reportTasks, grouping), [reportTasks, grouping]);
+  const total = useMemo(() => summarizeEstimates(reportTasks), [reportTasks]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="w-5 h-5" />
+              Estimate vs Actual
+            </CardTitle>
+            <CardDescription>
+              Estimated hours against the time logged on tasks created this {dateRange}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="estimates-completed-only" checked={completedOnly} onCheckedChange={setCompletedOnly} />
+            <Label htmlFor="estimates-completed-only" className="text-sm">
+              Completed tasks only
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={grouping} onValueChange={(value) => setGrouping(value as EstimateGrouping)}>
+          <TabsList>
+            {ESTIMATE_GROUPINGS.map((g) => (
+              <TabsTrigger key={g.value} value={g.value}>
+                By {g.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No estimated or tracked tasks in this period
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{ESTIMATE_GROUPINGS.find((g) => g.value === grouping)?.label}</TableHead>
+                <TableHead className="text-right">Estimated Tasks</TableHead>
+                <TableHead className="text-right">Estimated</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">Unestimated Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...groups, total].map((group) => (
+                <TableRow key={group.key} className={cn(group === total && "font-semibold bg-muted/50")}>
+                  <TableCell>{group.label}</TableCell>
+                  <TableCell className="text-right">
+                    {group.estimatedTasks} / {group.tasks}
+                  </TableCell>
+                  <TableCell className="text-right">{formatHours(group.estimatedHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(group.actualHours)}</TableCell>
+                  <TableCell className="text-right">
+                    <Variance group={group} />
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatHours(group.unestimatedHours)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { addLocalDays, formatTimeInZone, getZonedDateTime } from "@/lib/timezone";
+import { adjustAttendance, getAttendanceError } from "@/lib/attendance";
+
+interface AdjustAttendanceDialogProps {
+  // The check-in being adjusted; the dialog is open while it is set
+  record: {
+    id: string;
+    clock_in_at: string;
+    clock_out_at?: string | null;
+    local_date: string;
+  } | null;
+  memberName: string;
+  onOpenChange: (open: boolean) => void;
+  timeZone: string;
+  onAdjusted?: () => void;
+}
+
+export function AdjustAttendanceDialog({ record, memberName, onOpenChange, timeZone, onAdjusted }: AdjustAttendanceDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (record) {
+      setDate(record.local_date);
+      setClockIn(formatTimeInZone(new Date(record.clock_in_at), timeZone, false));
+      setClockOut(record.clock_out_at ? formatTimeInZone(new Date(record.clock_out_at), timeZone, false) : "");
+      setReason("");
+    }
+  }, [record, timeZone]);
+
+  const handleSubmit = async () => {
+    if (!record) return;
+
+    if (!date || !clockIn || !clockOut) {
+      toast({
+        title: "Error",
+        description: "Please enter the date and both times",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for the change",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A clock-out time not after the clock-in time is on the next day
+    const clockInAt = getZonedDateTime(date, timeZone, clockIn);
+    const clockOutAt = getZonedDateTime(clockOut <= clockIn ? addLocalDays(date, 1) : date, timeZone, clockOut);
+
+    setSubmitting(true);
+    try {
+      await adjustAttendance(record.id, clockInAt, clockOutAt, reason.trim());
+
+      toast({
+        title: "Success",
+        description: `Attendance of ${memberName} adjusted`,
+      });
+      onOpenChange(false);
+      onAdjusted?.();
+    } catch (error) {
+      console.error("Error adjusting attendance:", error);
+      const known = getAttendanceError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to adjust attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!record} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adjust Attendance</DialogTitle>
+          <DialogDescription>
+            Change the recorded times of {memberName}. Times are in {timeZone}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="adjust-date">Date</Label>
+              <Input id="adjust-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjust-clock-in">Clock In</Label>
+              <Input id="adjust-clock-in" type="time" value={clockIn} onChange={(e) => setClockIn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjust-clock-out">Clock Out</Label>
+              <Input id="adjust-clock-out" type="time" value={clockOut} onChange={(e) => setClockOut(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjust-reason">
+              Reason <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="adjust-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Clock-out confirmed with the member's supervisor"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              The previous times and the reason are kept in the audit trail
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
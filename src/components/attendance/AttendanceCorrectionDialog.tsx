@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { addLocalDays, formatTimeInZone, getZonedDateTime } from "@/lib/timezone";
+import {
+  AttendanceCorrectionType,
+  AttendanceSession,
+  CORRECTION_TYPES,
+  getAttendanceError,
+  getCorrectionTypeLabel,
+} from "@/lib/attendance";
+
+interface AttendanceCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  userId: string;
+  timeZone: string;
+  defaultDate: string;
+  defaultType?: AttendanceCorrectionType;
+  onSubmitted?: () => void;
+}
+
+export function AttendanceCorrectionDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  userId,
+  timeZone,
+  defaultDate,
+  defaultType,
+  onSubmitted,
+}: AttendanceCorrectionDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(defaultDate);
+  const [correctionType, setCorrectionType] = useState<AttendanceCorrectionType>(defaultType ?? "missing_clock_in");
+  const [recorded, setRecorded] = useState<AttendanceSession | null>(null);
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDate(defaultDate);
+      setCorrectionType(defaultType ?? "missing_clock_in");
+      setReason("");
+    }
+  }, [open, defaultDate, defaultType]);
+
+  // Prefill the times with what was recorded on the chosen date
+  useEffect(() => {
+    if (!open || !date) return;
+
+    const fetchRecorded = async () => {
+      const { data, error } = await supabase
+        .from("attendance_checkins")
+        .select("id, clock_in_at, clock_out_at, local_date, source, auto_closed")
+        .eq("org_id", organizationId)
+        .eq("user_id", userId)
+        .eq("local_date", date)
+        .order("clock_in_at")
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching attendance:", error);
+        return;
+      }
+
+      const session = data as AttendanceSession | null;
+      setRecorded(session);
+      setClockIn(session ? formatTimeInZone(new Date(session.clock_in_at), timeZone, false) : "09:00");
+      setClockOut(
+        session?.clock_out_at && !session.auto_closed
+          ? formatTimeInZone(new Date(session.clock_out_at), timeZone, false)
+          : session ? "" : "17:00"
+      );
+    };
+
+    fetchRecorded();
+  }, [open, date, organizationId, userId, timeZone]);
+
+  const needsClockIn = correctionType !== "missing_clock_out";
+  const needsClockOut = correctionType !== "wrong_time" || !!recorded?.clock_out_at;
+
+  const handleSubmit = async () => {
+    if (!date || (correctionType !== "wrong_time" && !(needsClockIn ? clockIn : clockOut))) {
+      toast({
+        title: "Error",
+        description: "Please choose a date and enter the missing time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please explain why the attendance needs correcting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A clock-out time not after the clock-in time is on the next day
+    const startTime = needsClockIn && clockIn
+      ? clockIn
+      : recorded ? formatTimeInZone(new Date(recorded.clock_in_at), timeZone, false) : "00:00";
+    const clockInAt = needsClockIn && clockIn ? getZonedDateTime(date, timeZone, clockIn) : null;
+    const clockOutAt = needsClockOut && clockOut
+      ? getZonedDateTime(clockOut <= startTime ? addLocalDays(date, 1) : date, timeZone, clockOut)
+      : null;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("attendance_corrections").insert({
+        organization_id: organizationId,
+        user_id: userId,
+        local_date: date,
+        correction_type: correctionType,
+        requested_clock_in_at: clockInAt?.toISOString() ?? null,
+        requested_clock_out_at: clockOutAt?.toISOString() ?? null,
+        reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Correction Requested",
+        description: `Your ${getCorrectionTypeLabel(correctionType).toLowerCase()} correction was sent for approval`,
+      });
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      console.error("Error requesting attendance correction:", error);
+      const known = getAttendanceError(error);
+      const isDuplicate = (error as { code?: string } | null)?.code === "23505";
+      toast({
+        title: known?.title ?? (isDuplicate ? "Already Requested" : "Error"),
+        description:
+          known?.description ??
+          (isDuplicate ? "A correction for this day is already waiting for approval" : "Failed to request the correction"),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Correction</DialogTitle>
+          <DialogDescription>
+            Your supervisor reviews the change before it is applied. Times are in {timeZone}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="correction-date">Date</Label>
+              <Input id="correction-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction-type">Problem</Label>
+              <Select
+                value={correctionType}
+                onValueChange={(value) => setCorrectionType(value as AttendanceCorrectionType)}
+              >
+                <SelectTrigger id="correction-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CORRECTION_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {recorded
+              ? `Recorded: ${formatTimeInZone(new Date(recorded.clock_in_at), timeZone, false)} – ${
+                  recorded.clock_out_at
+                    ? `${formatTimeInZone(new Date(recorded.clock_out_at), timeZone, false)}${recorded.auto_closed ? " (auto-closed)" : ""}`
+                    : "no clock-out"
+                }`
+              : "No attendance recorded on this date"}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {needsClockIn && (
+              <div className="space-y-2">
+                <Label htmlFor="correction-clock-in">Clock In</Label>
+                <Input id="correction-clock-in" type="time" value={clockIn} onChange={(e) => setClockIn(e.target.value)} />
+              </div>
+            )}
+            {needsClockOut && (
+              <div className="space-y-2">
+                <Label htmlFor="correction-clock-out">Clock Out</Label>
+                <Input id="correction-clock-out" type="time" value={clockOut} onChange={(e) => setClockOut(e.target.value)} />
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correction-reason">
+              Reason <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="correction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={CORRECTION_TYPES.find((t) => t.value === correctionType)?.description}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Sending..." : "Request Correction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
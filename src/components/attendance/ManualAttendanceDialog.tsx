@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { addLocalDays, getZonedDateTime } from "@/lib/timezone";
+import { getAttendanceError, recordManualAttendance } from "@/lib/attendance";
+
+interface Member {
+  user_id: string;
+  role: string;
+  users: {
+    full_name?: string | null;
+    email: string;
+  };
+}
+
+interface ManualAttendanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  members: Member[];
+  defaultDate: string;
+  timeZone: string;
+  onRecorded?: () => void;
+}
+
+export function ManualAttendanceDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  members,
+  defaultDate,
+  timeZone,
+  onRecorded,
+}: ManualAttendanceDialogProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState("");
+  const [date, setDate] = useState(defaultDate);
+  const [clockIn, setClockIn] = useState("09:00");
+  const [clockOut, setClockOut] = useState("17:00");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setUserId("");
+      setDate(defaultDate);
+      setClockIn("09:00");
+      setClockOut("17:00");
+      setNote("");
+    }
+  }, [open, defaultDate]);
+
+  const sortedMembers = [...members].sort((a, b) =>
+    (a.users.full_name || a.users.email).localeCompare(b.users.full_name || b.users.email)
+  );
+
+  const handleSubmit = async () => {
+    if (!userId || !date || !clockIn || !clockOut) {
+      toast({
+        title: "Error",
+        description: "Please choose a member, a date and both times",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!note.trim()) {
+      toast({
+        title: "Error",
+        description: "Please note why the attendance is entered manually",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A clock-out time not after the clock-in time is on the next day
+    const clockInAt = getZonedDateTime(date, timeZone, clockIn);
+    const clockOutDate = clockOut <= clockIn ? addLocalDays(date, 1) : date;
+    const clockOutAt = getZonedDateTime(clockOutDate, timeZone, clockOut);
+
+    setSubmitting(true);
+    try {
+      await recordManualAttendance(organizationId, userId, clockInAt, clockOutAt, note.trim());
+
+      toast({
+        title: "Success",
+        description: "Attendance recorded",
+      });
+      onOpenChange(false);
+      onRecorded?.();
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      const known = getAttendanceError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to record attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Attendance</DialogTitle>
+          <DialogDescription>
+            Enter attendance for a member who could not clock in. Times are in {timeZone}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>
+              Member <span className="text-destructive">*</span>
+            </Label>
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedMembers.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.users.full_name || member.users.email}{" "}
+                    <span className="text-muted-foreground capitalize">({member.role})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="manual-date">Date</Label>
+              <Input id="manual-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-clock-in">Clock In</Label>
+              <Input id="manual-clock-in" type="time" value={clockIn} onChange={(e) => setClockIn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-clock-out">Clock Out</Label>
+              <Input id="manual-clock-out" type="time" value={clockOut} onChange={(e) => setClockOut(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual-note">
+              Note <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="manual-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Forgot to clock in, confirmed by supervisor"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              Manual entries are marked as such in attendance reports
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Saving..." : "Record Attendance"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
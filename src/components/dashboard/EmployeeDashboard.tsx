@@ -9,8 +9,11 @@ import { ModeToggle } from "@/components/mode-toggle";
 import { Progress } from "@/components/ui/progress";
 import { OnlinePresence } from "./shared/OnlinePresence";
 import { InvitationManager } from "./shared/InvitationManager";
-import { ClockOutButton } from "./shared/ClockOutButton";
+import { ClockInWidget } from "./shared/ClockInWidget";
 import { NotificationBell } from "./shared/NotificationBell";
+import { NotificationSummary } from "./shared/NotificationSummary";
+import { TaskTimerIndicator } from "./shared/TaskTimerIndicator";
+import { AnnouncementsFeed } from "./shared/AnnouncementsFeed";
 import { cn } from "@/lib/utils";
 import { 
   Calendar, 
@@ -35,11 +38,19 @@ import {
   Gift,
   Wrench,
   FolderOpen,
-  CalendarClock
+  CalendarClock,
+  ArrowRightLeft,
+  Plane,
+  History,
+  FileSpreadsheet,
+  Building2
 } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { assignedOrCollaboratingFilter, awardCompletionPoints, fetchCollaboratingTaskIds } from "@/lib/collaborators";
+import { TaskTimeTotal, fetchTaskTimeTotals, getTaskTimeError, startTaskTimer, stopTaskTimer, subscribeToTaskTimers } from "@/lib/taskTime";
+import { TaskTimeSpent } from "@/components/tasks/TaskTimeSpent";
 
 type UserRole = "owner" | "admin" | "supervisor" | "employee";
 type TaskStatus = "todo" | "in_progress" | "blocked" | "done";
@@ -65,7 +76,7 @@ interface Task extends Tables<"tasks"> {
 interface EmployeeDashboardProps {
   organization: OrganizationWithRole;
   onLogout: () => void;
-  onClockOut: () => void;
+  onSwitchOrganization: () => void;
 }
 
 const statusColors = {
@@ -82,9 +93,10 @@ const priorityColors = {
   urgent: "border-l-priority-urgent",
 };
 
-export function EmployeeDashboard({ organization, onLogout, onClockOut }: EmployeeDashboardProps) {
+export function EmployeeDashboard({ organization, onLogout, onSwitchOrganization }: EmployeeDashboardProps) {
   const { toast } = useToast();
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [timeTotals, setTimeTotals] = useState<Record<string, TaskTimeTotal>>({});
   const [userId, setUserId] = useState<string>("");
   const [stats, setStats] = useState({
     ongoing: 0,
@@ -109,10 +121,20 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
     fetchUserStats();
   }, [organization.id]);
 
+  // Keep the timers on the cards in step with the header and other tabs
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToTaskTimers(userId, fetchUserTasks);
+  }, [userId, organization.id]);
+
   const fetchUserTasks = async () => {
     try {
       const { data: user } = await supabase.auth.getUser();
-      
+      if (!user.user) return;
+
+      // Include tasks the employee collaborates on
+      const collaboratingTaskIds = await fetchCollaboratingTaskIds(user.user.id);
+
       const { data, error } = await supabase
         .from("tasks")
         .select(`
@@ -120,7 +142,7 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
           project:projects!inner(name, organization_id),
           phase:phases(name)
         `)
-        .eq("assignee_id", user.user?.id)
+        .or(assignedOrCollaboratingFilter(user.user.id, collaboratingTaskIds))
         .eq("project.organization_id", organization.id)
         .neq("status", "done")
         .order("priority", { ascending: false })
@@ -128,6 +150,7 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
 
       if (error) throw error;
       setTasks(data || []);
+      setTimeTotals(await fetchTaskTimeTotals((data || []).map((task) => task.id)));
     } catch (error) {
       console.error("Error fetching tasks:", error);
     }
@@ -158,10 +181,11 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
       // Check if user is currently clocked in
       const { data: clockInData } = await supabase
         .from('attendance_checkins')
-        .select('id, clock_out_at, local_date')
+        .select('id')
+        .eq('org_id', organization.id)
         .eq('user_id', user.id)
-        .eq('local_date', new Date().toISOString().split('T')[0])
         .is('clock_out_at', null)
+        .limit(1)
         .maybeSingle();
 
       const isClockedIn = !!clockInData;
@@ -267,6 +291,13 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // The timer is started or stopped first so its errors leave the status as is
+      if (action === "start") {
+        await startTaskTimer(taskId);
+      } else {
+        await stopTaskTimer(taskId, action);
+      }
+
       let newStatus: TaskStatus;
       switch (action) {
         case "start":
@@ -282,15 +313,6 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
 
       // If completing a task, award points
       if (action === "complete") {
-        // Get the task details to check for completion points
-        const { data: taskData, error: taskError } = await supabase
-          .from("tasks")
-          .select("completion_points")
-          .eq("id", taskId)
-          .single();
-
-        if (taskError) throw taskError;
-
         // Update task status
         const { error: updateError } = await supabase
           .from("tasks")
@@ -302,23 +324,13 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
 
         if (updateError) throw updateError;
 
-        // Award points if the task has completion points
-        if (taskData.completion_points && taskData.completion_points > 0) {
-          const { error: pointsError } = await supabase
-            .from("points_ledger")
-            .insert({
-              user_id: user.id,
-              delta: taskData.completion_points,
-              reason_code: "task_completion",
-              task_id: taskId,
-            });
-
-          if (pointsError) throw pointsError;
-
+        // Award points to the assignee and collaborators
+        const earnedPoints = await awardCompletionPoints(taskId);
+        if (earnedPoints > 0) {
           // Show success notification with points earned
           toast({
             title: "Task Completed! 🎉",
-            description: `You earned ${taskData.completion_points} points!`,
+            description: `You earned ${earnedPoints} points!`,
           });
         } else {
           // Show completion message without points
@@ -328,73 +340,73 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
           });
         }
       } else {
-        // For start and pause, just update the status
+        // For start and pause, just update the status; overdue tasks stay
+        // overdue until they are completed
         const { error: updateError } = await supabase
           .from("tasks")
           .update({ 
             status: newStatus,
             updated_at: new Date().toISOString()
           })
-          .eq("id", taskId);
+          .eq("id", taskId)
+          .neq("status", "overdue");
 
         if (updateError) throw updateError;
       }
 
-      // Create time log entry
-      if (action === "start" || action === "pause" || action === "complete") {
-        await supabase
-          .from("time_logs")
-          .insert({
-            task_id: taskId,
-            user_id: user.id,
-            action: action === "complete" ? "complete" : action,
-          });
-      }
-
       await fetchUserTasks();
       await fetchUserStats();
     } catch (error) {
       console.error("Error updating task:", error);
+      const known = getTaskTimeError(error);
+      if (known) {
+        toast({
+          title: known.title,
+          description: known.description,
+          variant: "destructive",
+        });
+      }
     }
   };
 
   const getActionButton = (task: Task) => {
-    switch (task.status) {
-      case "todo":
-        return (
+    if (task.status !== "todo" && task.status !== "in_progress" && task.status !== "overdue") return null;
+
+    const total = timeTotals[task.id];
+    // A task stays in progress when its timer is paused from the header
+    return (
+      <div className="flex gap-2">
+        {total?.running_since ? (
+          <Button
+            variant="pause"
+            size="sm"
+            onClick={() => handleTaskAction(task.id, "pause")}
+          >
+            <Pause className="w-3 h-3" />
+            Pause
+          </Button>
+        ) : (
           <Button
             variant="start"
             size="sm"
             onClick={() => handleTaskAction(task.id, "start")}
           >
             <Play className="w-3 h-3" />
-            Start
+            {total?.total_seconds ? "Resume" : "Start"}
           </Button>
-        );
-      case "in_progress":
-        return (
-          <div className="flex gap-2">
-            <Button
-              variant="pause"
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "pause")}
-            >
-              <Pause className="w-3 h-3" />
-              Pause
-            </Button>
-            <Button
-              variant="complete"
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "complete")}
-            >
-              <CheckCircle2 className="w-3 h-3" />
-              Complete
-            </Button>
-          </div>
-        );
-      default:
-        return null;
-    }
+        )}
+        {(task.status === "in_progress" || task.status === "overdue") && (
+          <Button
+            variant="complete"
+            size="sm"
+            onClick={() => handleTaskAction(task.id, "complete")}
+          >
+            <CheckCircle2 className="w-3 h-3" />
+            Complete
+          </Button>
+        )}
+      </div>
+    );
   };
 
   if (loading) {
@@ -426,6 +438,7 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
             
             <div className="flex items-center gap-4">
               <ModeToggle />
+              {userId && <TaskTimerIndicator userId={userId} organizationId={organization.id} />}
               {userId && <NotificationBell userId={userId} />}
               <Link to="/employee/shop">
                 <Card variant="points" padding="sm" className="flex items-center gap-2 cursor-pointer hover:opacity-90 transition-opacity">
@@ -433,17 +446,23 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
                   <span className="font-semibold">{stats.points}</span>
                 </Card>
               </Link>
-              <ClockOutButton 
-                organizationId={organization.id}
-                organizationName={organization.name}
-                onClockOut={onClockOut}
-              />
+              <Button variant="outline" onClick={onSwitchOrganization}>
+                <Building2 className="w-4 h-4 mr-2" />
+                Switch Organization
+              </Button>
             </div>
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
+        <AnnouncementsFeed organizationId={organization.id} userRole="employee" />
+        <ClockInWidget
+          organizationId={organization.id}
+          organizationName={organization.name}
+          onChange={() => fetchUserStats()}
+        />
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Link to="/employee/time-management" className="group">
@@ -553,6 +572,30 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
                       <span>Extension Requests</span>
                     </Link>
                   </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/employee/transfer-requests">
+                      <ArrowRightLeft className="w-6 h-6" />
+                      <span>Transfer Requests</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/employee/leave">
+                      <Plane className="w-6 h-6" />
+                      <span>Leave</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/employee/attendance-corrections">
+                      <History className="w-6 h-6" />
+                      <span>Corrections</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/employee/timesheets">
+                      <FileSpreadsheet className="w-6 h-6" />
+                      <span>Timesheets</span>
+                    </Link>
+                  </Button>
                   <Button variant="outline" className="h-20 flex-col gap-2" asChild>
                     <Link to="/employee/my-rewards">
                       <Trophy className="w-6 h-6" />
@@ -626,6 +669,7 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
                                   {format(new Date(task.due_date), "MMM d")}
                                 </span>
                               )}
+                              <TaskTimeSpent total={timeTotals[task.id]} estimatedHours={task.estimated_hours} />
                             </div>
 
                             {task.description && (
@@ -659,6 +703,7 @@ export function EmployeeDashboard({ organization, onLogout, onClockOut }: Employ
           {/* Sidebar */}
           <div className="space-y-6">
             <OnlinePresence organizationId={organization.id} />
+            {userId && <NotificationSummary userId={userId} />}
           </div>
         </div>
       </div>
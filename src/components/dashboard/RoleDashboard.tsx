@@ -17,20 +17,20 @@ interface OrganizationWithRole {
 interface RoleDashboardProps {
   organization: OrganizationWithRole;
   onLogout: () => void;
-  onClockOut: () => void;
+  onSwitchOrganization: () => void;
 }
 
-export function RoleDashboard({ organization, onLogout, onClockOut }: RoleDashboardProps) {
+export function RoleDashboard({ organization, onLogout, onSwitchOrganization }: RoleDashboardProps) {
   // Render the appropriate dashboard based on user role
   switch (organization.role) {
     case "owner":
-      return <OwnerDashboard organization={organization} onLogout={onLogout} onClockOut={onClockOut} />;
+      return <OwnerDashboard organization={organization} onLogout={onLogout} onSwitchOrganization={onSwitchOrganization} />;
     case "admin":
-      return <AdminDashboard organization={organization} onLogout={onLogout} onClockOut={onClockOut} />;
+      return <AdminDashboard organization={organization} onLogout={onLogout} onSwitchOrganization={onSwitchOrganization} />;
     case "supervisor":
-      return <SupervisorDashboard organization={organization} onLogout={onLogout} onClockOut={onClockOut} />;
+      return <SupervisorDashboard organization={organization} onLogout={onLogout} onSwitchOrganization={onSwitchOrganization} />;
     case "employee":
     default:
-      return <EmployeeDashboard organization={organization} onLogout={onLogout} onClockOut={onClockOut} />;
+      return <EmployeeDashboard organization={organization} onLogout={onLogout} onSwitchOrganization={onSwitchOrganization} />;
   }
 }
\ No newline at end of file
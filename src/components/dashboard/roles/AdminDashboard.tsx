@@ -6,9 +6,14 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ModeToggle } from "@/components/mode-toggle";
 import { OnlinePresence } from "../shared/OnlinePresence";
 import { InvitationManager } from "../shared/InvitationManager";
-import { ClockOutButton } from "../shared/ClockOutButton";
+import { ClockInWidget } from "../shared/ClockInWidget";
 import { NotificationBell } from "../shared/NotificationBell";
+import { NotificationSummary } from "../shared/NotificationSummary";
+import { TaskTimerIndicator } from "../shared/TaskTimerIndicator";
+import { AnnouncementsFeed } from "../shared/AnnouncementsFeed";
+import { RecentActivity } from "../shared/RecentActivity";
 import { Link } from "react-router-dom";
+import { fetchTodayAttendanceStatuses, isAttended } from "@/lib/attendanceStatus";
 import { 
   Shield, 
   Users, 
@@ -17,13 +22,15 @@ import {
   Settings, 
   Coins,
   TrendingUp,
-  Calendar,
   Clock,
   CheckCircle2,
   Gift,
   LogOut,
   User,
-  UsersRound
+  UsersRound,
+  Plane,
+  History,
+  FileSpreadsheet
 } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer } from "recharts";
 
@@ -39,11 +46,12 @@ interface Organization {
 interface AdminDashboardProps {
   organization: Organization;
   onLogout: () => void;
-  onClockOut: () => void;
+  onSwitchOrganization: () => void;
 }
 
 interface AdminStats {
   attendanceToday: number;
+  absentToday: number;
   totalMembers: number;
   managedProjects: number;
   totalTeams: number;
@@ -51,10 +59,11 @@ interface AdminStats {
   totalPoints: number;
 }
 
-export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDashboardProps) {
+export function AdminDashboard({ organization, onLogout, onSwitchOrganization }: AdminDashboardProps) {
   const [userId, setUserId] = useState<string>("");
   const [stats, setStats] = useState<AdminStats>({
     attendanceToday: 0,
+    absentToday: 0,
     totalMembers: 0,
     managedProjects: 0,
     totalTeams: 0,
@@ -74,16 +83,13 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
 
   const fetchAdminStats = async () => {
     try {
-      // Get today's date
-      const today = new Date().toISOString().split('T')[0];
-      
       // Fetch admin-specific statistics
       const [attendanceData, membersData, projectsData, teamsData, completedTasksData] = await Promise.all([
-        supabase
-          .from('attendance_checkins')
-          .select('user_id', { count: 'exact', head: false })
-          .eq('org_id', organization.id)
-          .eq('local_date', today),
+        // Statuses on the organization's current date, as in the attendance pages
+        fetchTodayAttendanceStatuses(organization.id).catch((error) => {
+          console.error('Error fetching attendance statuses:', error);
+          return [];
+        }),
         supabase
           .from('organization_members')
           .select('user_id')
@@ -104,7 +110,8 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
           .eq('status', 'done')
       ]);
 
-      const attendanceToday = attendanceData.data?.length || 0;
+      const attendanceToday = attendanceData.filter((row) => isAttended(row.status)).length;
+      const absentToday = attendanceData.filter((row) => row.status === "absent").length;
       const totalMembers = membersData.data?.length || 0;
       const managedProjects = projectsData.data?.length || 0;
       const totalTeams = teamsData.data?.length || 0;
@@ -121,6 +128,7 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
 
       setStats({
         attendanceToday,
+        absentToday,
         totalMembers,
         managedProjects,
         totalTeams,
@@ -166,23 +174,30 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
             
             <div className="flex items-center gap-4">
               <ModeToggle />
+              {userId && <TaskTimerIndicator userId={userId} organizationId={organization.id} />}
               {userId && <NotificationBell userId={userId} />}
               <Link to="/admin/shop/manage">
                 <Button variant="ghost" size="icon" aria-label="Manage Shop">
                   <Gift className="w-5 h-5" />
                 </Button>
               </Link>
-              <ClockOutButton 
-                organizationId={organization.id}
-                organizationName={organization.name}
-                onClockOut={onClockOut}
-              />
+              <Button variant="outline" onClick={onSwitchOrganization}>
+                <Building2 className="w-4 h-4 mr-2" />
+                Switch Organization
+              </Button>
             </div>
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
+        <AnnouncementsFeed organizationId={organization.id} userRole="admin" />
+        <ClockInWidget
+          organizationId={organization.id}
+          organizationName={organization.name}
+          onChange={() => fetchAdminStats()}
+        />
+
         {/* Admin Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Link to="/admin/time-logging">
@@ -192,6 +207,7 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Attendance Today</p>
                     <p className="text-2xl font-bold">{stats.attendanceToday}</p>
+                    <p className="text-xs text-muted-foreground">{stats.absentToday} absent</p>
                   </div>
                   <div className="w-12 h-12 relative">
                     <ResponsiveContainer width="100%" height="100%">
@@ -199,7 +215,7 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
                         <Pie
                           data={[
                             { name: "Present", value: stats.attendanceToday },
-                            { name: "Absent", value: Math.max(0, stats.totalMembers - stats.attendanceToday) },
+                            { name: "Absent", value: stats.absentToday },
                           ]}
                           cx="50%"
                           cy="50%"
@@ -322,6 +338,24 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
                       <span>Time Logging</span>
                     </Button>
                   </Link>
+                  <Link to="/admin/leave">
+                    <Button variant="outline" className="h-20 flex-col gap-2 w-full">
+                      <Plane className="w-6 h-6" />
+                      <span>Leave</span>
+                    </Button>
+                  </Link>
+                  <Link to="/admin/attendance-corrections">
+                    <Button variant="outline" className="h-20 flex-col gap-2 w-full">
+                      <History className="w-6 h-6" />
+                      <span>Corrections</span>
+                    </Button>
+                  </Link>
+                  <Link to="/admin/timesheets">
+                    <Button variant="outline" className="h-20 flex-col gap-2 w-full">
+                      <FileSpreadsheet className="w-6 h-6" />
+                      <span>Timesheets</span>
+                    </Button>
+                  </Link>
                   <Link to="/admin/shop/manage">
                     <Button variant="outline" className="h-20 flex-col gap-2 w-full">
                       <Gift className="w-6 h-6" />
@@ -361,46 +395,13 @@ export function AdminDashboard({ organization, onLogout, onClockOut }: AdminDash
             </Card>
 
             {/* Recent Admin Activity */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Calendar className="w-5 h-5" />
-                  Recent Administrative Activity
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-primary rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">Role updated for Alice Smith (Employee → Supervisor)</p>
-                      <p className="text-xs text-muted-foreground">30 minutes ago</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-success rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">New team member Mike Johnson added to Design Team</p>
-                      <p className="text-xs text-muted-foreground">2 hours ago</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-warning rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">Project "Q4 Campaign" deadline extended</p>
-                      <p className="text-xs text-muted-foreground">1 day ago</p>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <RecentActivity organizationId={organization.id} title="Recent Administrative Activity" activityPath="/admin/activity" />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
             <OnlinePresence organizationId={organization.id} />
+            {userId && <NotificationSummary userId={userId} />}
             <InvitationManager organizationId={organization.id} userRole="admin" />
           </div>
         </div>
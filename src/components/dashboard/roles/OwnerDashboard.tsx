@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
+import { fetchTodayAttendanceStatuses, isAttended } from "@/lib/attendanceStatus";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
 import { Button } from "@/components/ui/enhanced-button";
@@ -7,8 +8,12 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { OnlinePresence } from "../shared/OnlinePresence";
 import { ModeToggle } from "@/components/mode-toggle";
 import { InvitationManager } from "../shared/InvitationManager";
-import { ClockOutButton } from "../shared/ClockOutButton";
+import { ClockInWidget } from "../shared/ClockInWidget";
 import { NotificationBell } from "../shared/NotificationBell";
+import { NotificationSummary } from "../shared/NotificationSummary";
+import { TaskTimerIndicator } from "../shared/TaskTimerIndicator";
+import { AnnouncementsFeed } from "../shared/AnnouncementsFeed";
+import { RecentActivity } from "../shared/RecentActivity";
 import { 
   Crown, 
   Building2, 
@@ -17,13 +22,15 @@ import {
   Settings, 
   Coins,
   Target,
-  Calendar,
   BarChart3,
   Gift,
   LogOut,
   Wrench,
   UsersRound,
-  Clock
+  Clock,
+  Plane,
+  History,
+  FileSpreadsheet
 } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer } from "recharts";
 
@@ -39,11 +46,12 @@ interface Organization {
 interface OwnerDashboardProps {
   organization: Organization;
   onLogout: () => void;
-  onClockOut: () => void;
+  onSwitchOrganization: () => void;
 }
 
 interface OrgStats {
   attendanceToday: number;
+  absentToday: number;
   totalMembers: number;
   activeProjects: number;
   totalTasks: number;
@@ -51,10 +59,11 @@ interface OrgStats {
   totalTeams: number;
 }
 
-export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDashboardProps) {
+export function OwnerDashboard({ organization, onLogout, onSwitchOrganization }: OwnerDashboardProps) {
   const [userId, setUserId] = useState<string>("");
   const [stats, setStats] = useState<OrgStats>({
     attendanceToday: 0,
+    absentToday: 0,
     totalMembers: 0,
     activeProjects: 0,
     totalTasks: 0,
@@ -74,16 +83,13 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
 
   const fetchOrgStats = async () => {
     try {
-      // Get today's date
-      const today = new Date().toISOString().split('T')[0];
-      
       // Fetch organization statistics
       const [attendanceData, membersData, projectsData, tasksData, teamsData] = await Promise.all([
-        supabase
-          .from('attendance_checkins')
-          .select('user_id', { count: 'exact', head: false })
-          .eq('org_id', organization.id)
-          .eq('local_date', today),
+        // Statuses on the organization's current date, as in the attendance pages
+        fetchTodayAttendanceStatuses(organization.id).catch((error) => {
+          console.error('Error fetching attendance statuses:', error);
+          return [];
+        }),
         supabase
           .from('organization_members')
           .select('user_id')
@@ -103,7 +109,8 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
           .eq('organization_id', organization.id)
       ]);
 
-      const attendanceToday = attendanceData.data?.length || 0;
+      const attendanceToday = attendanceData.filter((row) => isAttended(row.status)).length;
+      const absentToday = attendanceData.filter((row) => row.status === "absent").length;
       const totalMembers = membersData.data?.length || 0;
       const activeProjects = projectsData.data?.length || 0;
       const totalTasks = tasksData.data?.length || 0;
@@ -113,6 +120,7 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
 
       setStats({
         attendanceToday,
+        absentToday,
         totalMembers,
         activeProjects,
         totalTasks,
@@ -157,6 +165,7 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
             </div>
             
             <div className="flex items-center gap-4">
+              {userId && <TaskTimerIndicator userId={userId} organizationId={organization.id} />}
               {userId && <NotificationBell userId={userId} />}
               <Link to="/owner/shop/manage">
                 <Button variant="ghost" size="icon" aria-label="Shop">
@@ -164,17 +173,23 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
                 </Button>
               </Link>
               <ModeToggle />
-              <ClockOutButton 
-                organizationId={organization.id}
-                organizationName={organization.name}
-                onClockOut={onClockOut}
-              />
+              <Button variant="outline" onClick={onSwitchOrganization}>
+                <Building2 className="w-4 h-4 mr-2" />
+                Switch Organization
+              </Button>
             </div>
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
+        <AnnouncementsFeed organizationId={organization.id} userRole="owner" />
+        <ClockInWidget
+          organizationId={organization.id}
+          organizationName={organization.name}
+          onChange={() => fetchOrgStats()}
+        />
+
         {/* Organization Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <Link to="/owner/time-logging">
@@ -184,6 +199,7 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Attendance Today</p>
                   <p className="text-2xl font-bold">{stats.attendanceToday}</p>
+                  <p className="text-xs text-muted-foreground">{stats.absentToday} absent</p>
                 </div>
                 <div className="w-12 h-12 relative">
                   <ResponsiveContainer width="100%" height="100%">
@@ -191,7 +207,7 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
                       <Pie
                         data={[
                           { name: "Present", value: stats.attendanceToday },
-                          { name: "Absent", value: Math.max(0, stats.totalMembers - stats.attendanceToday) },
+                          { name: "Absent", value: stats.absentToday },
                         ]}
                         cx="50%"
                         cy="50%"
@@ -313,6 +329,24 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
                       <span>Time Logging</span>
                     </Link>
                   </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/owner/leave">
+                      <Plane className="w-6 h-6" />
+                      <span>Leave</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/owner/attendance-corrections">
+                      <History className="w-6 h-6" />
+                      <span>Corrections</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/owner/timesheets">
+                      <FileSpreadsheet className="w-6 h-6" />
+                      <span>Timesheets</span>
+                    </Link>
+                  </Button>
                   <Button variant="outline" className="h-20 flex-col gap-2" asChild>
                     <Link to="/owner/shop/manage">
                       <Gift className="w-6 h-6" />
@@ -330,46 +364,13 @@ export function OwnerDashboard({ organization, onLogout, onClockOut }: OwnerDash
             </Card>
 
             {/* Recent Activity */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Calendar className="w-5 h-5" />
-                  Recent Organization Activity
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-success rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">New project "Mobile App Redesign" created</p>
-                      <p className="text-xs text-muted-foreground">2 hours ago</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-primary rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">John Doe joined the organization</p>
-                      <p className="text-xs text-muted-foreground">1 day ago</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="w-2 h-2 bg-warning rounded-full mt-2"></div>
-                    <div>
-                      <p className="text-sm font-medium">Task deadline approaching for "API Integration"</p>
-                      <p className="text-xs text-muted-foreground">3 days ago</p>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <RecentActivity organizationId={organization.id} title="Recent Organization Activity" activityPath="/owner/activity" />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
             <OnlinePresence organizationId={organization.id} />
+            {userId && <NotificationSummary userId={userId} />}
             <InvitationManager organizationId={organization.id} userRole="owner" />
           </div>
         </div>
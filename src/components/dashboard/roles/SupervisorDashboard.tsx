@@ -6,8 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ModeToggle } from "@/components/mode-toggle";
 import { OnlinePresence } from "../shared/OnlinePresence";
-import { ClockOutButton } from "../shared/ClockOutButton";
+import { ClockInWidget } from "../shared/ClockInWidget";
 import { NotificationBell } from "../shared/NotificationBell";
+import { NotificationSummary } from "../shared/NotificationSummary";
+import { TaskTimerIndicator } from "../shared/TaskTimerIndicator";
+import { AnnouncementsFeed } from "../shared/AnnouncementsFeed";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { 
@@ -29,11 +32,19 @@ import {
   Pause,
   MessageSquare,
   Paperclip,
-  Award
+  Award,
+  ArrowRightLeft,
+  Plane,
+  History,
+  FileSpreadsheet,
+  Building2
 } from "lucide-react";
 import { format } from "date-fns";
 import { Tables } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { assignedOrCollaboratingFilter, awardCompletionPoints, fetchCollaboratingTaskIds } from "@/lib/collaborators";
+import { TaskTimeTotal, fetchTaskTimeTotals, getTaskTimeError, startTaskTimer, stopTaskTimer, subscribeToTaskTimers } from "@/lib/taskTime";
+import { TaskTimeSpent } from "@/components/tasks/TaskTimeSpent";
 
 type UserRole = "owner" | "admin" | "supervisor" | "employee";
 type TaskStatus = "todo" | "in_progress" | "blocked" | "done";
@@ -48,7 +59,7 @@ interface Organization {
 interface SupervisorDashboardProps {
   organization: Organization;
   onLogout: () => void;
-  onClockOut: () => void;
+  onSwitchOrganization: () => void;
 }
 
 interface Task extends Tables<"tasks"> {
@@ -85,10 +96,11 @@ interface SupervisorStats {
   totalPoints: number;
 }
 
-export function SupervisorDashboard({ organization, onLogout, onClockOut }: SupervisorDashboardProps) {
+export function SupervisorDashboard({ organization, onLogout, onSwitchOrganization }: SupervisorDashboardProps) {
   const { toast } = useToast();
   const [userId, setUserId] = useState<string>("");
   const [assignments, setAssignments] = useState<Task[]>([]);
+  const [timeTotals, setTimeTotals] = useState<Record<string, TaskTimeTotal>>({});
   const [stats, setStats] = useState<SupervisorStats>({
     isClockedIn: false,
     totalProjects: 0,
@@ -110,11 +122,20 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
     fetchAssignments();
   }, [organization.id]);
 
+  // Keep the timers on the cards in step with the header and other tabs
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToTaskTimers(userId, fetchAssignments);
+  }, [userId, organization.id]);
+
   const fetchAssignments = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Include assignments the supervisor collaborates on
+      const collaboratingTaskIds = await fetchCollaboratingTaskIds(user.id);
+
       const { data, error } = await supabase
         .from("tasks")
         .select(`
@@ -122,7 +143,7 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
           project:projects!inner(name, organization_id),
           phase:phases(name)
         `)
-        .eq("assignee_id", user.id)
+        .or(assignedOrCollaboratingFilter(user.id, collaboratingTaskIds))
         .eq("project.organization_id", organization.id)
         .eq("task_type", "assignment")
         .neq("status", "done")
@@ -131,6 +152,7 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
 
       if (error) throw error;
       setAssignments(data || []);
+      setTimeTotals(await fetchTaskTimeTotals((data || []).map((task) => task.id)));
     } catch (error) {
       console.error("Error fetching assignments:", error);
     }
@@ -141,6 +163,13 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // The timer is started or stopped first so its errors leave the status as is
+      if (action === "start") {
+        await startTaskTimer(taskId);
+      } else {
+        await stopTaskTimer(taskId, action);
+      }
+
       let newStatus: TaskStatus;
       switch (action) {
         case "start":
@@ -156,15 +185,6 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
 
       // If completing an assignment, award points
       if (action === "complete") {
-        // Get the assignment details to check for completion points
-        const { data: taskData, error: taskError } = await supabase
-          .from("tasks")
-          .select("completion_points")
-          .eq("id", taskId)
-          .single();
-
-        if (taskError) throw taskError;
-
         // Update task status
         const { error: updateError } = await supabase
           .from("tasks")
@@ -176,23 +196,13 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
 
         if (updateError) throw updateError;
 
-        // Award points if the assignment has completion points
-        if (taskData.completion_points && taskData.completion_points > 0) {
-          const { error: pointsError } = await supabase
-            .from("points_ledger")
-            .insert({
-              user_id: user.id,
-              delta: taskData.completion_points,
-              reason_code: "assignment_completion",
-              task_id: taskId,
-            });
-
-          if (pointsError) throw pointsError;
-
+        // Award points to the assignee and collaborators
+        const earnedPoints = await awardCompletionPoints(taskId);
+        if (earnedPoints > 0) {
           // Show success notification with points earned
           toast({
             title: "Assignment Completed! 🎉",
-            description: `You earned ${taskData.completion_points} points!`,
+            description: `You earned ${earnedPoints} points!`,
           });
         } else {
           // Show completion message without points
@@ -202,73 +212,73 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
           });
         }
       } else {
-        // For start and pause, just update the status
+        // For start and pause, just update the status; overdue tasks stay
+        // overdue until they are completed
         const { error: updateError } = await supabase
           .from("tasks")
           .update({ 
             status: newStatus,
             updated_at: new Date().toISOString()
           })
-          .eq("id", taskId);
+          .eq("id", taskId)
+          .neq("status", "overdue");
 
         if (updateError) throw updateError;
       }
 
-      // Create time log entry
-      if (action === "start" || action === "pause" || action === "complete") {
-        await supabase
-          .from("time_logs")
-          .insert({
-            task_id: taskId,
-            user_id: user.id,
-            action: action === "complete" ? "complete" : action,
-          });
-      }
-
       await fetchAssignments();
       await fetchSupervisorStats();
     } catch (error) {
       console.error("Error updating task:", error);
+      const known = getTaskTimeError(error);
+      if (known) {
+        toast({
+          title: known.title,
+          description: known.description,
+          variant: "destructive",
+        });
+      }
     }
   };
 
   const getActionButton = (task: Task) => {
-    switch (task.status) {
-      case "todo":
-        return (
+    if (task.status !== "todo" && task.status !== "in_progress" && task.status !== "overdue") return null;
+
+    const total = timeTotals[task.id];
+    // A task stays in progress when its timer is paused from the header
+    return (
+      <div className="flex gap-2">
+        {total?.running_since ? (
+          <Button
+            variant="pause"
+            size="sm"
+            onClick={() => handleTaskAction(task.id, "pause")}
+          >
+            <Pause className="w-3 h-3" />
+            Pause
+          </Button>
+        ) : (
           <Button
             variant="start"
             size="sm"
             onClick={() => handleTaskAction(task.id, "start")}
           >
             <Play className="w-3 h-3" />
-            Start
+            {total?.total_seconds ? "Resume" : "Start"}
           </Button>
-        );
-      case "in_progress":
-        return (
-          <div className="flex gap-2">
-            <Button
-              variant="pause"
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "pause")}
-            >
-              <Pause className="w-3 h-3" />
-              Pause
-            </Button>
-            <Button
-              variant="complete"
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "complete")}
-            >
-              <CheckCircle2 className="w-3 h-3" />
-              Complete
-            </Button>
-          </div>
-        );
-      default:
-        return null;
-    }
+        )}
+        {(task.status === "in_progress" || task.status === "overdue") && (
+          <Button
+            variant="complete"
+            size="sm"
+            onClick={() => handleTaskAction(task.id, "complete")}
+          >
+            <CheckCircle2 className="w-3 h-3" />
+            Complete
+          </Button>
+        )}
+      </div>
+    );
   };
 
   const fetchSupervisorStats = async () => {
@@ -296,10 +306,11 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
         // Check if user is currently clocked in
         supabase
           .from('attendance_checkins')
-          .select('id, clock_out_at, local_date')
+          .select('id')
+          .eq('org_id', organization.id)
           .eq('user_id', user.id)
-          .eq('local_date', new Date().toISOString().split('T')[0])
           .is('clock_out_at', null)
+          .limit(1)
           .maybeSingle(),
         // Fetch teams where this supervisor is the supervisor_id
         (supabase as any)
@@ -390,6 +401,7 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
             
             <div className="flex items-center gap-4">
               <ModeToggle />
+              {userId && <TaskTimerIndicator userId={userId} organizationId={organization.id} />}
               {userId && <NotificationBell userId={userId} />}
               <Link to="/supervisor/shop">
                 <Card variant="points" padding="sm" className="flex items-center gap-2 cursor-pointer hover:opacity-90 transition-opacity">
@@ -397,17 +409,23 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
                   <span className="font-semibold">{stats.totalPoints}</span>
                 </Card>
               </Link>
-              <ClockOutButton 
-                organizationId={organization.id}
-                organizationName={organization.name}
-                onClockOut={onClockOut}
-              />
+              <Button variant="outline" onClick={onSwitchOrganization}>
+                <Building2 className="w-4 h-4 mr-2" />
+                Switch Organization
+              </Button>
             </div>
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
+        <AnnouncementsFeed organizationId={organization.id} userRole="supervisor" />
+        <ClockInWidget
+          organizationId={organization.id}
+          organizationName={organization.name}
+          onChange={() => fetchSupervisorStats()}
+        />
+
         {/* Supervisor Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Link to="/supervisor/time-management" className="group">
@@ -529,6 +547,30 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
                       <span>Extension Requests</span>
                     </Link>
                   </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/supervisor/transfer-requests">
+                      <ArrowRightLeft className="w-6 h-6" />
+                      <span>Transfer Requests</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/supervisor/leave">
+                      <Plane className="w-6 h-6" />
+                      <span>Leave</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/supervisor/attendance-corrections">
+                      <History className="w-6 h-6" />
+                      <span>Corrections</span>
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="h-20 flex-col gap-2" asChild>
+                    <Link to="/supervisor/timesheets">
+                      <FileSpreadsheet className="w-6 h-6" />
+                      <span>Timesheets</span>
+                    </Link>
+                  </Button>
                   <Button variant="outline" className="h-20 flex-col gap-2" asChild>
                     <Link to="/supervisor/my-rewards">
                       <Award className="w-6 h-6" />
@@ -591,6 +633,7 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
                                   {format(new Date(assignment.due_date), "MMM d")}
                                 </span>
                               )}
+                              <TaskTimeSpent total={timeTotals[assignment.id]} estimatedHours={assignment.estimated_hours} />
                             </div>
 
                             {assignment.description && (
@@ -661,6 +704,7 @@ export function SupervisorDashboard({ organization, onLogout, onClockOut }: Supe
           {/* Sidebar */}
           <div className="space-y-6">
             <OnlinePresence organizationId={organization.id} />
+            {userId && <NotificationSummary userId={userId} />}
           </div>
         </div>
       </div>
@@ -0,0 +1,528 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Megaphone, Pin, PinOff, Plus, Eye, Trash2, Check, CheckCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, formatDistanceToNow } from "date-fns";
+
+type UserRole = "owner" | "admin" | "supervisor" | "employee";
+
+interface Announcement {
+  id: string;
+  title: string;
+  content: string;
+  pinned: boolean;
+  target_role: UserRole | null;
+  target_team_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  author: {
+    full_name: string | null;
+  } | null;
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface Recipient {
+  user_id: string;
+  full_name: string;
+  role: UserRole;
+  read_at: string | null;
+}
+
+interface AnnouncementsFeedProps {
+  organizationId: string;
+  userRole: UserRole;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Owners",
+  admin: "Admins",
+  supervisor: "Supervisors",
+  employee: "Employees",
+};
+
+// Number of unpinned announcements shown before "Show all"
+const RECENT_LIMIT = 3;
+
+export function AnnouncementsFeed({ organizationId, userRole }: AnnouncementsFeedProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [readIds, setReadIds] = useState<Set<string>>(new Set());
+  const [myTeamIds, setMyTeamIds] = useState<string[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  const [isComposeOpen, setIsComposeOpen] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [draft, setDraft] = useState({ title: "", content: "", audience: "everyone", pinned: false });
+
+  const [receiptsFor, setReceiptsFor] = useState<Announcement | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [loadingReceipts, setLoadingReceipts] = useState(false);
+
+  const canManage = userRole === "owner" || userRole === "admin";
+
+  useEffect(() => {
+    fetchAnnouncements();
+
+    const channel = supabase
+      .channel(`announcements-${organizationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "announcements",
+          filter: `organization_id=eq.${organizationId}`,
+        },
+        () => fetchAnnouncements()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId]);
+
+  const fetchAnnouncements = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data, error } = await supabase
+        .from("announcements")
+        .select(`
+          id, title, content, pinned, target_role, target_team_id, created_by, created_at,
+          author:users!announcements_created_by_fkey(full_name)
+        `)
+        .eq("organization_id", organizationId)
+        .order("pinned", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      const list = (data as Announcement[]) || [];
+      setAnnouncements(list);
+
+      const [{ data: readsData }, { data: teamsData }, { data: membershipData }] = await Promise.all([
+        list.length > 0
+          ? supabase
+              .from("announcement_reads")
+              .select("announcement_id")
+              .eq("user_id", user.id)
+              .in("announcement_id", list.map((a) => a.id))
+          : Promise.resolve({ data: [] as { announcement_id: string }[] }),
+        supabase
+          .from("teams")
+          .select("id, name")
+          .eq("organization_id", organizationId)
+          .order("name"),
+        supabase
+          .from("team_members")
+          .select("team_id")
+          .eq("user_id", user.id),
+      ]);
+
+      setReadIds(new Set((readsData || []).map((r) => r.announcement_id)));
+      setTeams(teamsData || []);
+      setMyTeamIds((membershipData || []).map((m) => m.team_id));
+    } catch (error) {
+      console.error("Error fetching announcements:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Mirrors is_announcement_recipient(); managers also see announcements
+  // addressed to other roles/teams but do not get receipts for them
+  const isRecipient = (announcement: Announcement) =>
+    (!announcement.target_role || announcement.target_role === userRole) &&
+    (!announcement.target_team_id || myTeamIds.includes(announcement.target_team_id));
+
+  const isUnread = (announcement: Announcement) =>
+    announcement.created_by !== userId && isRecipient(announcement) && !readIds.has(announcement.id);
+
+  const markAsRead = async (announcementId: string) => {
+    if (!userId) return;
+
+    try {
+      const { error } = await supabase
+        .from("announcement_reads")
+        .upsert({ announcement_id: announcementId, user_id: userId }, { onConflict: "announcement_id,user_id", ignoreDuplicates: true });
+
+      if (error) throw error;
+      setReadIds((prev) => new Set(prev).add(announcementId));
+    } catch (error) {
+      console.error("Error marking announcement as read:", error);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!userId || !draft.title.trim() || !draft.content.trim()) return;
+
+    setPosting(true);
+    try {
+      const [kind, value] = draft.audience.split(":");
+
+      const { error } = await supabase.from("announcements").insert({
+        organization_id: organizationId,
+        created_by: userId,
+        title: draft.title.trim(),
+        content: draft.content.trim(),
+        pinned: draft.pinned,
+        target_role: kind === "role" ? (value as UserRole) : null,
+        target_team_id: kind === "team" ? value : null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Announcement posted",
+        description: "Recipients have been notified",
+      });
+      setDraft({ title: "", content: "", audience: "everyone", pinned: false });
+      setIsComposeOpen(false);
+      fetchAnnouncements();
+    } catch (error) {
+      console.error("Error posting announcement:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post announcement",
+        variant: "destructive",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const togglePinned = async (announcement: Announcement) => {
+    try {
+      const { error } = await supabase
+        .from("announcements")
+        .update({ pinned: !announcement.pinned })
+        .eq("id", announcement.id);
+
+      if (error) throw error;
+      fetchAnnouncements();
+    } catch (error) {
+      console.error("Error updating announcement:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update announcement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteAnnouncement = async (announcementId: string) => {
+    try {
+      const { error } = await supabase.from("announcements").delete().eq("id", announcementId);
+      if (error) throw error;
+
+      setAnnouncements((prev) => prev.filter((a) => a.id !== announcementId));
+      toast({
+        title: "Announcement deleted",
+      });
+    } catch (error) {
+      console.error("Error deleting announcement:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete announcement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openReceipts = async (announcement: Announcement) => {
+    setReceiptsFor(announcement);
+    setRecipients([]);
+    setLoadingReceipts(true);
+
+    try {
+      const { data, error } = await supabase.rpc("get_announcement_recipients", {
+        p_announcement: announcement.id,
+      });
+
+      if (error) throw error;
+      setRecipients(data || []);
+    } catch (error) {
+      console.error("Error fetching read receipts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load read receipts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingReceipts(false);
+    }
+  };
+
+  const getAudienceLabel = (announcement: Announcement) => {
+    if (announcement.target_team_id) {
+      return teams.find((t) => t.id === announcement.target_team_id)?.name ?? "Team";
+    }
+    if (announcement.target_role) {
+      return ROLE_LABELS[announcement.target_role];
+    }
+    return "Everyone";
+  };
+
+  const pinned = announcements.filter((a) => a.pinned);
+  const unpinned = announcements.filter((a) => !a.pinned);
+  const visible = [...pinned, ...(showAll ? unpinned : unpinned.slice(0, RECENT_LIMIT))];
+  const unreadCount = announcements.filter(isUnread).length;
+  const readCount = recipients.filter((r) => r.read_at).length;
+
+  if (loading || (announcements.length === 0 && !canManage)) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            Announcements
+            {unreadCount > 0 && <Badge variant="destructive">{unreadCount} new</Badge>}
+          </CardTitle>
+          {canManage && (
+            <Dialog open={isComposeOpen} onOpenChange={setIsComposeOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="w-4 h-4 mr-1" />
+                  New Announcement
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>New Announcement</DialogTitle>
+                  <DialogDescription>
+                    Recipients are notified immediately and can mark the announcement as read
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="announcement-title">Title</Label>
+                    <Input
+                      id="announcement-title"
+                      value={draft.title}
+                      onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                      placeholder="Office closed on Friday"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="announcement-content">Message</Label>
+                    <Textarea
+                      id="announcement-content"
+                      value={draft.content}
+                      onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                      rows={5}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Audience</Label>
+                    <Select value={draft.audience} onValueChange={(value) => setDraft({ ...draft, audience: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="everyone">Everyone</SelectItem>
+                        {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                          <SelectItem key={role} value={`role:${role}`}>
+                            All {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                        {teams.map((team) => (
+                          <SelectItem key={team.id} value={`team:${team.id}`}>
+                            Team: {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="announcement-pinned">Pin to dashboards</Label>
+                      <p className="text-xs text-muted-foreground">Pinned announcements always stay on top</p>
+                    </div>
+                    <Switch
+                      id="announcement-pinned"
+                      checked={draft.pinned}
+                      onCheckedChange={(checked) => setDraft({ ...draft, pinned: checked })}
+                    />
+                  </div>
+                  <Button
+                    onClick={handlePost}
+                    disabled={posting || !draft.title.trim() || !draft.content.trim()}
+                    className="w-full"
+                  >
+                    {posting ? "Posting..." : "Post Announcement"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {announcements.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No announcements yet. Share news with your organization.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((announcement) => {
+              const unread = isUnread(announcement);
+
+              return (
+                <div
+                  key={announcement.id}
+                  className={`p-4 border rounded-lg ${
+                    announcement.pinned ? "border-primary/40 bg-primary/5" : unread ? "bg-muted/50" : ""
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {announcement.pinned && <Pin className="w-4 h-4 text-primary" />}
+                        <p className="font-medium">{announcement.title}</p>
+                        {unread && <Badge variant="secondary">New</Badge>}
+                        <Badge variant="outline" className="text-xs">
+                          {getAudienceLabel(announcement)}
+                        </Badge>
+                      </div>
+                      <p className="text-sm mt-1 whitespace-pre-wrap">{announcement.content}</p>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {announcement.author?.full_name || "Unknown"} •{" "}
+                        {formatDistanceToNow(new Date(announcement.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {unread && (
+                        <Button variant="outline" size="sm" onClick={() => markAsRead(announcement.id)}>
+                          <Check className="w-4 h-4 mr-1" />
+                          Mark as read
+                        </Button>
+                      )}
+                      {canManage && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Read receipts"
+                            onClick={() => openReceipts(announcement)}
+                          >
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title={announcement.pinned ? "Unpin" : "Pin"}
+                            onClick={() => togglePinned(announcement)}
+                          >
+                            {announcement.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" title="Delete">
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete announcement?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{announcement.title}" and its read receipts will be removed for everyone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteAnnouncement(announcement.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {unpinned.length > RECENT_LIMIT && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                  {showAll ? "Show less" : `Show all (${announcements.length})`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!receiptsFor} onOpenChange={(open) => !open && setReceiptsFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Read receipts</DialogTitle>
+            <DialogDescription>
+              {receiptsFor?.title}
+              {!loadingReceipts && ` • ${readCount} of ${recipients.length} read`}
+            </DialogDescription>
+          </DialogHeader>
+          {loadingReceipts ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : recipients.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No recipients</p>
+          ) : (
+            <ScrollArea className="max-h-80">
+              <div className="space-y-2">
+                {recipients.map((recipient) => (
+                  <div key={recipient.user_id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium">{recipient.full_name || "Unknown"}</p>
+                      <p className="text-xs text-muted-foreground capitalize">{recipient.role}</p>
+                    </div>
+                    {recipient.read_at ? (
+                      <span className="flex items-center gap-1 text-xs text-green-600" title={format(new Date(recipient.read_at), "PPpp")}>
+                        <CheckCheck className="w-4 h-4" />
+                        Read {formatDistanceToNow(new Date(recipient.read_at), { addSuffix: true })}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Not read yet</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
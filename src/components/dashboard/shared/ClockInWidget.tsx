@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Clock, Coffee, LogIn, LogOut, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_TIMEZONE, formatTimeInZone } from "@/lib/timezone";
+import {
+  AttendanceSession,
+  clockIn,
+  clockOut,
+  endBreak,
+  fetchCurrentAttendance,
+  formatDuration,
+  getAttendanceError,
+  getBreakMilliseconds,
+  getOpenBreak,
+  getWorkedMilliseconds,
+  startBreak,
+} from "@/lib/attendance";
+
+interface ClockInWidgetProps {
+  organizationId: string;
+  organizationName: string;
+  // Called after every clock-in, clock-out and break change
+  onChange?: (session: AttendanceSession | null) => void;
+}
+
+export function ClockInWidget({ organizationId, organizationName, onChange }: ClockInWidgetProps) {
+  const { toast } = useToast();
+  const [session, setSession] = useState<AttendanceSession | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [confirmClockOut, setConfirmClockOut] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+
+  const isClockedIn = !!session && !session.clock_out_at;
+  const openBreak = isClockedIn ? getOpenBreak(session) : null;
+
+  useEffect(() => {
+    fetchSession();
+  }, [organizationId]);
+
+  // Tick the worked time while clocked in
+  useEffect(() => {
+    if (!isClockedIn) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isClockedIn]);
+
+  const fetchSession = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [current, { data: orgTimeZone }] = await Promise.all([
+        fetchCurrentAttendance(organizationId, user.id),
+        supabase.rpc("get_org_timezone", { p_org: organizationId }),
+      ]);
+      setSession(current);
+      if (orgTimeZone) setTimeZone(orgTimeZone);
+      return current;
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load your attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, success: { title: string; description: string }) => {
+    setWorking(true);
+    try {
+      await action();
+      const current = await fetchSession();
+      onChange?.(current ?? null);
+      toast(success);
+    } catch (error) {
+      console.error("Error updating attendance:", error);
+      const known = getAttendanceError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to update your attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleClockIn = () => {
+    if (!userId) return;
+    runAction(
+      () => clockIn(organizationId, userId),
+      { title: "Clocked In", description: `You are clocked in to ${organizationName}` }
+    );
+  };
+
+  const handleClockOut = () => {
+    if (!userId) return;
+    setConfirmClockOut(false);
+    runAction(
+      () => clockOut(organizationId, userId),
+      { title: "Clocked Out", description: `You are clocked out of ${organizationName}` }
+    );
+  };
+
+  const handleStartBreak = () =>
+    runAction(() => startBreak(organizationId), { title: "Break Started", description: "Enjoy your break" });
+
+  const handleEndBreak = () =>
+    runAction(() => endBreak(organizationId), { title: "Break Ended", description: "Welcome back" });
+
+  if (loading) {
+    return (
+      <Card className="mb-8">
+        <CardContent className="p-6 flex justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const workedMs = session ? getWorkedMilliseconds(session, now) : 0;
+  const breakMs = session ? getBreakMilliseconds(session.breaks, session.clock_out_at ? new Date(session.clock_out_at) : now) : 0;
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div
+                className={`w-12 h-12 rounded-lg flex items-center justify-center ${
+                  openBreak ? "bg-warning/10" : isClockedIn ? "bg-green-500/10" : "bg-muted/50"
+                }`}
+              >
+                {openBreak ? (
+                  <Coffee className="w-6 h-6 text-warning" />
+                ) : (
+                  <Clock className={`w-6 h-6 ${isClockedIn ? "text-green-600" : "text-muted-foreground"}`} />
+                )}
+              </div>
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold">
+                    {openBreak ? "On Break" : isClockedIn ? "Working" : "Not Clocked In"}
+                  </p>
+                  {session && (
+                    <Badge variant="outline" className="text-xs">
+                      Since {formatTimeInZone(new Date(session.clock_in_at), timeZone, false)}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {session
+                    ? `Worked ${formatDuration(workedMs)}${breakMs > 0 ? ` · Breaks ${formatDuration(breakMs)}` : ""}${
+                        session.clock_out_at ? ` · Clocked out at ${formatTimeInZone(new Date(session.clock_out_at), timeZone, false)}` : ""
+                      }`
+                    : "Clock in when you start work"}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {!isClockedIn ? (
+                <Button onClick={handleClockIn} disabled={working}>
+                  <LogIn className="w-4 h-4 mr-2" />
+                  {session ? "Clock In Again" : "Clock In"}
+                </Button>
+              ) : (
+                <>
+                  {openBreak ? (
+                    <Button variant="outline" onClick={handleEndBreak} disabled={working}>
+                      <Play className="w-4 h-4 mr-2" />
+                      End Break
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={handleStartBreak} disabled={working}>
+                      <Coffee className="w-4 h-4 mr-2" />
+                      Start Break
+                    </Button>
+                  )}
+                  <Button variant="destructive" onClick={() => setConfirmClockOut(true)} disabled={working}>
+                    <LogOut className="w-4 h-4 mr-2" />
+                    Clock Out
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmClockOut} onOpenChange={setConfirmClockOut}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clock Out</AlertDialogTitle>
+            <AlertDialogDescription>
+              Do you want to clock out from <strong>{organizationName}</strong>? You have worked{" "}
+              <strong>{formatDuration(workedMs)}</strong> so far. You can clock in again later today; the time in between
+              counts as a break.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClockOut}>Clock Out</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
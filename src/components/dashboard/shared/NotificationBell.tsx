@@ -8,56 +8,22 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import {
-  Bell,
-  BellOff,
-  CheckCircle2,
-  XCircle,
-  CalendarClock,
-  Trash2,
-  Check,
-  UserPlus,
-  AlertTriangle,
-  Coins,
-  Users,
-} from "lucide-react";
+import { Bell, BellOff, Trash2, Check, Coins, Building2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useOrganization } from "@/contexts/OrganizationContext";
-
-interface Notification {
-  id: string;
-  type: string;
-  payload: {
-    extension_request_id?: string;
-    task_id?: string;
-    task_title?: string;
-    task_type?: string;
-    priority?: string;
-    due_date?: string;
-    requester_name?: string;
-    decider_name?: string;
-    decision_note?: string;
-    status?: string;
-    assigned_by?: string;
-    assigner_name?: string;
-    hours_until_due?: number;
-    points?: number;
-    reason_code?: string;
-    project_id?: string;
-    project_name?: string;
-    new_member_id?: string;
-    new_member_name?: string;
-    member_role?: string;
-    organization_id?: string;
-    organization_name?: string;
-    message: string;
-  };
-  read_at: string | null;
-  created_at: string;
-}
+import { NotificationIcon } from "@/components/notifications/NotificationIcon";
+import {
+  AppNotification,
+  OrganizationUnreadCount,
+  fetchUnreadCountsByOrganization,
+  getNotificationColor,
+  getNotificationPath,
+  isNotificationInOrganization,
+  notificationOrganizationFilter,
+} from "@/lib/notifications";
 
 interface NotificationBellProps {
   userId: string;
@@ -65,32 +31,40 @@ interface NotificationBellProps {
 
 export function NotificationBell({ userId }: NotificationBellProps) {
   const { toast } = useToast();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
+  const [otherOrganizations, setOtherOrganizations] = useState<OrganizationUnreadCount[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
-  const { organization } = useOrganization();
+  const { organization, switchOrganization } = useOrganization();
+  const organizationId = organization?.id;
 
   useEffect(() => {
-    if (userId) {
-      fetchNotifications();
-      subscribeToNotifications();
-    }
-  }, [userId]);
+    if (!userId || !organizationId) return;
 
+    fetchNotifications();
+    fetchOtherOrganizations();
+    return subscribeToNotifications();
+  }, [userId, organizationId]);
+
+  // Only the current organization's notifications are listed
   const fetchNotifications = async () => {
+    if (!organizationId) return;
+
     try {
       const { data, error } = await supabase
         .from("notifications")
         .select("*")
         .eq("user_id", userId)
+        .or(notificationOrganizationFilter(organizationId))
+        .is("archived_at", null)
         .order("created_at", { ascending: false })
         .limit(50);
 
       if (error) throw error;
 
-      setNotifications((data || []) as unknown as Notification[]);
+      setNotifications((data || []) as unknown as AppNotification[]);
       setUnreadCount((data || []).filter((n) => !n.read_at).length);
     } catch (error) {
       console.error("Error fetching notifications:", error);
@@ -99,9 +73,19 @@ export function NotificationBell({ userId }: NotificationBellProps) {
     }
   };
 
+  // Other organizations with unread notifications, to switch to
+  const fetchOtherOrganizations = async () => {
+    try {
+      const counts = await fetchUnreadCountsByOrganization();
+      setOtherOrganizations(counts.filter((c) => c.organization_id !== organizationId));
+    } catch (error) {
+      console.error("Error fetching unread notification counts:", error);
+    }
+  };
+
   const subscribeToNotifications = () => {
     const channel = supabase
-      .channel("notifications")
+      .channel(`notifications:${userId}:${organizationId}`)
       .on(
         "postgres_changes",
         {
@@ -111,7 +95,12 @@ export function NotificationBell({ userId }: NotificationBellProps) {
           filter: `user_id=eq.${userId}`,
         },
         (payload) => {
-          const newNotification = payload.new as Notification;
+          const newNotification = payload.new as AppNotification;
+          if (!organizationId || !isNotificationInOrganization(newNotification, organizationId)) {
+            fetchOtherOrganizations();
+            return;
+          }
+
           setNotifications((prev) => [newNotification, ...prev]);
           setUnreadCount((prev) => prev + 1);
           toast({
@@ -183,49 +172,7 @@ export function NotificationBell({ userId }: NotificationBellProps) {
     }
   };
 
-  const getNotificationIcon = (type: string) => {
-    switch (type) {
-      case "extension_requested":
-        return <CalendarClock className="w-5 h-5 text-primary" />;
-      case "extension_approved":
-        return <CheckCircle2 className="w-5 h-5 text-green-600" />;
-      case "extension_rejected":
-        return <XCircle className="w-5 h-5 text-red-600" />;
-      case "task_assigned":
-        return <UserPlus className="w-5 h-5 text-blue-600" />;
-      case "task_due_reminder":
-        return <AlertTriangle className="w-5 h-5 text-orange-600" />;
-      case "points_earned":
-        return <Coins className="w-5 h-5 text-yellow-600" />;
-      case "member_joined":
-        return <Users className="w-5 h-5 text-purple-600" />;
-      default:
-        return <Bell className="w-5 h-5 text-muted-foreground" />;
-    }
-  };
-
-  const getNotificationColor = (type: string) => {
-    switch (type) {
-      case "extension_requested":
-        return "bg-primary/10 border-primary/20";
-      case "extension_approved":
-        return "bg-green-50 border-green-200";
-      case "extension_rejected":
-        return "bg-red-50 border-red-200";
-      case "task_assigned":
-        return "bg-blue-50 border-blue-200";
-      case "task_due_reminder":
-        return "bg-orange-50 border-orange-200";
-      case "points_earned":
-        return "bg-yellow-50 border-yellow-200";
-      case "member_joined":
-        return "bg-purple-50 border-purple-200";
-      default:
-        return "bg-muted/50 border-muted";
-    }
-  };
-
-  const handleNotificationClick = async (n: Notification) => {
+  const handleNotificationClick = async (n: AppNotification) => {
     // Mark as read, close popover, then navigate
     await markAsRead(n.id);
     setIsOpen(false);
@@ -233,97 +180,22 @@ export function NotificationBell({ userId }: NotificationBellProps) {
     const role = organization?.role;
     if (!role) return;
 
-    // Route based on notification type
-    if (n.type === "extension_requested") {
-      navigate(`/${role}/extension-requests?tab=pending`);
-      return;
-    }
-    if (n.type === "extension_approved") {
-      navigate(`/${role}/extension-requests?tab=approved`);
-      return;
-    }
-    if (n.type === "extension_rejected") {
-      navigate(`/${role}/extension-requests?tab=rejected`);
-      return;
-    }
-
-    // For task-related notifications, navigate to the project detail page
-    if (n.type === "task_assigned" || n.type === "task_due_reminder") {
-      if (n.payload.task_id) {
-        try {
-          // Fetch the task to get the project_id and task_type
-          const { data: taskData, error: taskError } = await supabase
-            .from("tasks")
-            .select("project_id, task_type")
-            .eq("id", n.payload.task_id)
-            .single();
-
-          if (taskError || !taskData?.project_id) {
-            console.error("Error fetching task:", taskError);
-            // Fallback to general projects page
-            navigateToFallbackProjectPage(role);
-            return;
-          }
-
-          // Fetch the project to get its name
-          const { data: projectData, error: projectError } = await supabase
-            .from("projects")
-            .select("name")
-            .eq("id", taskData.project_id)
-            .single();
-
-          if (projectError || !projectData?.name) {
-            console.error("Error fetching project:", projectError);
-            // Fallback to general projects page
-            navigateToFallbackProjectPage(role);
-            return;
-          }
-
-          // Determine which tab to show based on task_type
-          // task_type 'assignment' -> assignments tab, otherwise -> tasks tab
-          const tab = taskData.task_type === 'assignment' ? 'assignments' : 'tasks';
-
-          // Navigate to the specific project detail page with the correct tab
-          navigate(`/${role}/projects/${encodeURIComponent(projectData.name)}?tab=${tab}`);
-        } catch (error) {
-          console.error("Error navigating to project:", error);
-          // Fallback to general projects page
-          navigateToFallbackProjectPage(role);
-        }
-      } else {
-        // No task_id available, fallback to general page
-        navigateToFallbackProjectPage(role);
-      }
-      return;
-    }
-
-    // For points earned notifications, navigate to shop
-    if (n.type === "points_earned") {
-      navigate(`/${role}/shop`);
-      return;
-    }
-
-    // For member joined notifications, navigate to team management
-    if (n.type === "member_joined") {
-      if (role === "owner") {
-        navigate("/owner/team");
-      } else if (role === "admin") {
-        navigate("/admin/manage-team");
-      }
-      return;
-    }
+    const path = await getNotificationPath(n, role);
+    if (path) navigate(path);
   };
 
-  const navigateToFallbackProjectPage = (role: string) => {
-    // Fallback navigation if we can't find the project
-    if (role === "employee") {
-      navigate(`/employee/projects`);
-    } else if (role === "supervisor") {
-      navigate(`/supervisor/projects`);
-    } else if (role === "admin") {
-      navigate(`/admin/task-assignment`);
-    } else if (role === "owner") {
-      navigate(`/owner/task-assignment`);
+  const handleSwitchOrganization = async (targetId: string) => {
+    try {
+      await switchOrganization(targetId);
+      setIsOpen(false);
+      navigate("/notifications");
+    } catch (error) {
+      console.error("Error switching organization:", error);
+      toast({
+        title: "Error",
+        description: "Failed to switch organization",
+        variant: "destructive",
+      });
     }
   };
 
@@ -384,12 +256,17 @@ export function NotificationBell({ userId }: NotificationBellProps) {
                 >
                   <div className="flex items-start gap-3">
                     <div className="mt-0.5">
-                      {getNotificationIcon(notification.type)}
+                      <NotificationIcon type={notification.type} />
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium mb-1">
                         {notification.payload.message}
                       </p>
+                      {notification.payload.excerpt && (
+                        <p className="text-xs text-muted-foreground mb-2 italic line-clamp-2">
+                          "{notification.payload.excerpt}"
+                        </p>
+                      )}
                       {notification.payload.decision_note && (
                         <p className="text-xs text-muted-foreground mb-2 italic">
                           Note: {notification.payload.decision_note}
@@ -444,6 +321,43 @@ export function NotificationBell({ userId }: NotificationBellProps) {
             </div>
           )}
         </ScrollArea>
+        {otherOrganizations.length > 0 && (
+          <div className="border-t p-2 space-y-1">
+            <p className="px-2 pt-1 text-xs font-semibold uppercase text-muted-foreground">
+              Other organizations
+            </p>
+            {otherOrganizations.map((org) => (
+              <Button
+                key={org.organization_id}
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between text-xs"
+                onClick={() => handleSwitchOrganization(org.organization_id)}
+              >
+                <span className="flex items-center gap-2 truncate">
+                  <Building2 className="w-3 h-3" />
+                  {org.organization_name}
+                </span>
+                <Badge variant="destructive" className="text-xs">
+                  {org.unread_count}
+                </Badge>
+              </Button>
+            ))}
+          </div>
+        )}
+        <div className="border-t p-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => {
+              setIsOpen(false);
+              navigate("/notifications");
+            }}
+          >
+            View all notifications
+          </Button>
+        </div>
       </PopoverContent>
     </Popover>
   );
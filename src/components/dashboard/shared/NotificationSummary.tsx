@@ -0,0 +1,80 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Bell } from "lucide-react";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import {
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  fetchUnreadCountsByCategory,
+  subscribeToNotifications,
+} from "@/lib/notifications";
+
+interface NotificationSummaryProps {
+  userId: string;
+}
+
+// Unread notifications of the current organization per category, each
+// linking to the notification center
+export function NotificationSummary({ userId }: NotificationSummaryProps) {
+  const { organization } = useOrganization();
+  const [counts, setCounts] = useState<Record<NotificationCategory, number> | null>(null);
+  const organizationId = organization?.id;
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    const fetchCounts = async () => {
+      try {
+        setCounts(await fetchUnreadCountsByCategory(organizationId));
+      } catch (error) {
+        console.error("Error fetching unread notification counts:", error);
+      }
+    };
+
+    fetchCounts();
+    return subscribeToNotifications(userId, fetchCounts);
+  }, [userId, organizationId]);
+
+  const total = counts ? Object.values(counts).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="w-5 h-5" />
+            Notifications
+          </CardTitle>
+          <Link to="/notifications">
+            <Button variant="ghost" size="sm">View all</Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!counts ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : total === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up!</p>
+        ) : (
+          <div className="space-y-1">
+            {NOTIFICATION_CATEGORIES.filter((category) => counts[category.value] > 0).map((category) => (
+              <Link
+                key={category.value}
+                to={`/notifications?category=${category.value}&read=unread`}
+                className="flex items-center justify-between p-2 rounded-lg hover:bg-muted/50"
+              >
+                <span className="text-sm">{category.label}</span>
+                <Badge variant="destructive">{counts[category.value]}</Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
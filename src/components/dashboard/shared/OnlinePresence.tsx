@@ -1,29 +1,64 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { 
-  DropdownMenu, 
-  DropdownMenuContent, 
-  DropdownMenuItem, 
-  DropdownMenuTrigger 
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Users, Crown, Shield, Eye, User, Circle, Settings } from "lucide-react";
-import { PresenceProvider } from "@/contexts/PresenceContext";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Crown, Shield, Eye, User, MessageSquare } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchRunningTaskTimer, subscribeToTaskTimers } from "@/lib/taskTime";
+import {
+  MAX_STATUS_MESSAGE_LENGTH,
+  MemberPresence,
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_STATUSES,
+  PresenceMeta,
+  PresenceStatus,
+  ReceivedPresenceMeta,
+  STATUS_DURATIONS,
+  fetchSavedStatus,
+  getLatestPresenceMeta,
+  isPresent,
+  isStatusExpired,
+  joinOrganizationPresence,
+  mergePresence,
+  saveStatus,
+} from "@/lib/presence";
 
 type UserRole = "owner" | "admin" | "supervisor" | "employee";
 
-interface OnlineUser {
+interface Member {
   id: string;
   full_name: string;
   email: string;
   avatar_url?: string;
   role: UserRole;
-  status: "online" | "idle" | "offline" | "do_not_disturb";
-  current_task_id?: string;
-  current_task_title?: string;
+}
+
+// What this user picked, shared by all their tabs
+interface PickedStatus {
+  status: PresenceStatus;
+  status_message: string | null;
+  status_expires_at: string | null;
+  status_set_at: string;
 }
 
 interface OnlinePresenceProps {
@@ -32,7 +67,7 @@ interface OnlinePresenceProps {
 
 const roleIcons = {
   owner: Crown,
-  admin: Shield, 
+  admin: Shield,
   supervisor: Eye,
   employee: User,
 };
@@ -44,306 +79,252 @@ const roleColors = {
   employee: "bg-gradient-to-r from-green-400 to-emerald-500",
 };
 
-const statusColors = {
+const statusColors: Record<PresenceStatus, string> = {
   online: "bg-green-500",
-  idle: "bg-yellow-500", 
+  idle: "bg-yellow-500",
   offline: "bg-gray-400",
   do_not_disturb: "bg-red-500",
 };
 
-const statusShapes = {
+const statusShapes: Record<PresenceStatus, string> = {
   online: "rounded-full",
-  idle: "rounded-full", 
+  idle: "rounded-full",
   offline: "rounded-full",
   do_not_disturb: "rounded-sm",
 };
 
-function OnlinePresenceComponent({ organizationId }: OnlinePresenceProps) {
-  const [onlineUsers, setOnlineUsers] = useState<Record<UserRole, OnlineUser[]>>({
-    owner: [],
-    admin: [],
-    supervisor: [],
-    employee: [],
-  });
-  const [loading, setLoading] = useState(true);
-  const [currentUserStatus, setCurrentUserStatus] = useState<"online" | "idle" | "offline" | "do_not_disturb">("online");
+const statusLabels: Record<PresenceStatus, string> = {
+  online: "Available",
+  idle: "Idle",
+  do_not_disturb: "Do Not Disturb",
+  offline: "Offline",
+};
 
-  useEffect(() => {
-    fetchOnlineUsers();
-    
-    // Set up real-time subscription for presence updates
-    const channel = supabase
-      .channel('presence-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'user_presence'
-        },
-        () => {
-          fetchOnlineUsers();
-        }
-      )
-      .subscribe();
-
-    // Update our own presence
-    updatePresence();
-
-    // Set up periodic presence updates and idle detection
-    const presenceInterval = setInterval(() => {
-      updatePresence();
-      fetchOnlineUsers(); // Refresh to update idle/offline status
-    }, 30000); // Update every 30 seconds
-
-    // Set up idle detection
-    let idleTimer: NodeJS.Timeout;
-    const resetIdleTimer = () => {
-      clearTimeout(idleTimer);
-      idleTimer = setTimeout(async () => {
-        // Set user as idle after 20 minutes of inactivity
-        try {
-          const { data: user } = await supabase.auth.getUser();
-          if (user.user) {
-            await supabase
-              .from('user_presence')
-              .upsert({
-                user_id: user.user.id,
-                status: 'idle',
-                updated_at: new Date().toISOString(),
-              });
-          }
-        } catch (error) {
-          console.error('Error setting idle status:', error);
-        }
-      }, 20 * 60 * 1000); // 20 minutes
-    };
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keypress", "scroll", "touchstart"];
 
-    // Track user activity
-    const activityEvents = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart'];
-    activityEvents.forEach(event => {
-      document.addEventListener(event, resetIdleTimer, true);
-    });
+// Activity republishes this tab at most this often between heartbeats
+const ACTIVITY_PUBLISH_MS = 60 * 1000;
 
-    resetIdleTimer();
+const DEFAULT_PICKED_STATUS: PickedStatus = {
+  status: "online",
+  status_message: null,
+  status_expires_at: null,
+  status_set_at: new Date(0).toISOString(),
+};
 
-    return () => {
-      supabase.removeChannel(channel);
-      clearInterval(presenceInterval);
-      clearTimeout(idleTimer);
-      activityEvents.forEach(event => {
-        document.removeEventListener(event, resetIdleTimer, true);
-      });
-    };
+export function OnlinePresence({ organizationId }: OnlinePresenceProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [presenceState, setPresenceState] = useState<Record<string, ReceivedPresenceMeta[]>>({});
+  const [picked, setPicked] = useState<PickedStatus>(DEFAULT_PICKED_STATUS);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+  const [messageDialogOpen, setMessageDialogOpen] = useState(false);
+  const [messageDraft, setMessageDraft] = useState("");
+  const [durationDraft, setDurationDraft] = useState("60");
+
+  // The presence callbacks outlive renders, so they read these
+  const tabId = useRef(crypto.randomUUID());
+  const pickedRef = useRef<PickedStatus>(DEFAULT_PICKED_STATUS);
+  const taskRef = useRef<{ id: string; title: string } | null>(null);
+  const lastActiveRef = useRef(Date.now());
+  const lastPublishedRef = useRef(0);
+  const publishRef = useRef<((meta: PresenceMeta) => void) | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    fetchMembers();
   }, [organizationId]);
 
-  const fetchOnlineUsers = async () => {
+  const fetchMembers = async () => {
     try {
-      console.log('Fetching users for organization:', organizationId);
-      
-      // First, let's try a simple query to get organization members
       const { data: membersData, error: membersError } = await supabase
-        .from('organization_members')
-        .select('user_id, role')
-        .eq('organization_id', organizationId);
-      
-      console.log('Simple members query:', { membersData, membersError });
-      
-      if (membersError) {
-        console.error('Error fetching organization members:', membersError);
-        throw membersError;
-      }
-      
-      if (!membersData || membersData.length === 0) {
-        console.log('No organization members found');
-        setOnlineUsers({
-          owner: [],
-          admin: [],
-          supervisor: [],
-          employee: [],
-        });
+        .from("organization_members")
+        .select("user_id, role")
+        .eq("organization_id", organizationId);
+
+      if (membersError) throw membersError;
+
+      const userIds = (membersData || []).map((member) => member.user_id);
+      if (userIds.length === 0) {
+        setMembers([]);
         return;
       }
-      
-      // Get user details for each member
-      const userIds = membersData.map(member => member.user_id);
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('id, full_name, email, avatar_url')
-        .in('id', userIds);
-      
-      console.log('Users query:', { usersData, usersError });
-      
-      if (usersError) {
-        console.error('Error fetching users:', usersError);
-        throw usersError;
-      }
-      
-      // Get attendance data for today
-      const today = new Date().toISOString().split('T')[0];
-      const { data: attendanceData, error: attendanceError } = await supabase
-        .from('attendance_checkins')
-        .select('user_id, clock_in_at, clock_out_at, local_date')
-        .eq('org_id', organizationId)
-        .eq('local_date', today);
-      
-      console.log('Attendance query:', { attendanceData, attendanceError });
-      
-      // Get presence data
-      const { data: presenceData, error: presenceError } = await supabase
-        .from('user_presence')
-        .select('user_id, status, updated_at, current_task_id')
-        .in('user_id', userIds);
-      
-      console.log('Presence query:', { presenceData, presenceError });
-
-      const usersByRole: Record<UserRole, OnlineUser[]> = {
-        owner: [],
-        admin: [],
-        supervisor: [],
-        employee: [],
-      };
-
-      console.log('Processing members:', membersData.length, 'members found');
-      
-      membersData.forEach((member: any) => {
-        const user = usersData?.find(u => u.id === member.user_id);
-        if (!user) return;
-        
-        const attendance = attendanceData?.find(a => a.user_id === member.user_id);
-        const presence = presenceData?.find(p => p.user_id === member.user_id);
-        
-        // Determine user status based on attendance and activity
-        let userStatus: "online" | "idle" | "offline" | "do_not_disturb" = 'offline';
-        
-        // Check if user is currently clocked in (no clock_out_at for today)
-        const isClockedIn = attendance && 
-          attendance.clock_in_at && 
-          !attendance.clock_out_at;
-        
-        if (isClockedIn) {
-          // User is clocked in, determine status based on activity
-          if (presence?.updated_at) {
-            const timeSinceUpdate = Date.now() - new Date(presence.updated_at).getTime();
-            const twentyMinutes = 20 * 60 * 1000; // 20 minutes for idle
-            
-            if (timeSinceUpdate < twentyMinutes) {
-              // Recent activity - use the stored status or default to online
-              userStatus = presence.status as "online" | "idle" | "offline" | "do_not_disturb" || 'online';
-            } else {
-              // Idle if no activity for more than 20 minutes
-              userStatus = 'idle';
-            }
-          } else {
-            // No presence data, default to online if clocked in
-            userStatus = 'online';
-          }
-        } else {
-          // User is not clocked in or has clocked out
-          userStatus = 'offline';
-        }
-        
-        const onlineUser: OnlineUser = {
-          id: user.id,
-          full_name: user.full_name,
-          email: user.email,
-          avatar_url: user.avatar_url,
-          role: member.role,
-          status: userStatus,
-          current_task_id: presence?.current_task_id,
-          current_task_title: undefined, // We'll add task fetching later if needed
-        };
-
-        console.log('Created user:', onlineUser);
-        usersByRole[member.role as UserRole].push(onlineUser);
-      });
 
-      console.log('Final users by role:', usersByRole);
-      setOnlineUsers(usersByRole);
+      const { data: usersData, error: usersError } = await supabase
+        .from("users")
+        .select("id, full_name, email, avatar_url")
+        .in("id", userIds);
+
+      if (usersError) throw usersError;
+
+      setMembers(
+        (membersData || []).flatMap((member) => {
+          const user = usersData?.find((u) => u.id === member.user_id);
+          return user ? [{ ...user, role: member.role as UserRole }] : [];
+        })
+      );
     } catch (error) {
-      console.error('Error fetching online users:', error);
+      console.error("Error fetching organization members:", error);
     } finally {
       setLoading(false);
     }
   };
 
-  const updatePresence = async (status: "online" | "idle" | "offline" | "do_not_disturb" = "online") => {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) return;
-
-      await supabase
-        .from('user_presence')
-        .upsert({
-          user_id: user.user.id,
-          status: status,
-          updated_at: new Date().toISOString(),
-        });
-      
-      setCurrentUserStatus(status);
-    } catch (error) {
-      console.error('Error updating presence:', error);
-    }
+  const publish = () => {
+    if (!userId || !publishRef.current) return;
+
+    const timestamp = new Date().toISOString();
+    lastPublishedRef.current = Date.now();
+    publishRef.current({
+      tab_id: tabId.current,
+      user_id: userId,
+      ...pickedRef.current,
+      current_task_id: taskRef.current?.id ?? null,
+      current_task_title: taskRef.current?.title ?? null,
+      last_active_at: new Date(lastActiveRef.current).toISOString(),
+      heartbeat_at: timestamp,
+    });
   };
 
-  const handleStatusChange = async (newStatus: "online" | "idle" | "offline" | "do_not_disturb") => {
-    await updatePresence(newStatus);
+  const applyPicked = (next: PickedStatus) => {
+    pickedRef.current = next;
+    setPicked(next);
+    publish();
   };
 
-  // Function to set user status to online when they clock in
-  const setUserOnline = async () => {
+  // Picks a status in this tab; the other tabs adopt it from the channel
+  const pickStatus = async (status: Omit<PickedStatus, "status_set_at">) => {
+    if (!userId) return;
+
+    applyPicked({ ...status, status_set_at: new Date().toISOString() });
     try {
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) return;
-
-      await supabase
-        .from('user_presence')
-        .upsert({
-          user_id: user.user.id,
-          status: 'online',
-          updated_at: new Date().toISOString(),
-        });
-      
-      setCurrentUserStatus('online');
-      // Refresh the user list to show updated status
-      fetchOnlineUsers();
+      await saveStatus(userId, status);
     } catch (error) {
-      console.error('Error setting user online:', error);
+      console.error("Error saving status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your status",
+        variant: "destructive",
+      });
     }
   };
 
-  // Function to set user status to offline when they clock out
-  const setUserOffline = async () => {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) return;
-
-      await supabase
-        .from('user_presence')
-        .upsert({
-          user_id: user.user.id,
-          status: 'offline',
-          updated_at: new Date().toISOString(),
+  useEffect(() => {
+    if (!userId) return;
+
+    const { publish: publishMeta, leave } = joinOrganizationPresence(organizationId, userId, (state) => {
+      setPresenceState(state);
+
+      // A status picked in another tab replaces this tab's
+      const latest = getLatestPresenceMeta(state[userId] ?? []);
+      if (latest && latest.tab_id !== tabId.current && latest.status_set_at > pickedRef.current.status_set_at) {
+        applyPicked({
+          status: latest.status,
+          status_message: latest.status_message,
+          status_expires_at: latest.status_expires_at,
+          status_set_at: latest.status_set_at,
         });
-      
-      setCurrentUserStatus('offline');
-      // Refresh the user list to show updated status
-      fetchOnlineUsers();
-    } catch (error) {
-      console.error('Error setting user offline:', error);
-    }
-  };
+      }
+    });
+    publishRef.current = publishMeta;
+
+    fetchSavedStatus(userId)
+      .then((saved) => {
+        const setAt = saved.updated_at
+          ? new Date(saved.updated_at).toISOString()
+          : DEFAULT_PICKED_STATUS.status_set_at;
+        if (setAt > pickedRef.current.status_set_at) {
+          applyPicked({
+            status: saved.status,
+            status_message: saved.status_message,
+            status_expires_at: saved.status_expires_at,
+            status_set_at: setAt,
+          });
+        } else {
+          publish();
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching status:", error);
+        publish();
+      });
 
-  const getTotalOnline = () => {
-    return Object.values(onlineUsers).flat().filter(user => 
-      user.status === 'online' || user.status === 'idle' || user.status === 'do_not_disturb'
-    ).length;
+    const heartbeat = setInterval(() => {
+      if (isStatusExpired(pickedRef.current.status_expires_at)) {
+        pickStatus({ status: "online", status_message: null, status_expires_at: null });
+      } else {
+        publish();
+      }
+      setNow(Date.now());
+    }, PRESENCE_HEARTBEAT_MS);
+
+    // Idle is worked out from the newest activity across the user's tabs
+    const handleActivity = () => {
+      lastActiveRef.current = Date.now();
+      if (lastActiveRef.current - lastPublishedRef.current > ACTIVITY_PUBLISH_MS) publish();
+    };
+    ACTIVITY_EVENTS.forEach((event) => document.addEventListener(event, handleActivity, true));
+
+    return () => {
+      clearInterval(heartbeat);
+      ACTIVITY_EVENTS.forEach((event) => document.removeEventListener(event, handleActivity, true));
+      publishRef.current = null;
+      leave();
+    };
+  }, [organizationId, userId]);
+
+  // "Working on" follows the running task timer
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchCurrentTask = async () => {
+      try {
+        const timer = await fetchRunningTaskTimer(organizationId);
+        const task = timer ? { id: timer.task_id, title: timer.task_title } : null;
+        if (task?.id === taskRef.current?.id) return;
+
+        taskRef.current = task;
+        publish();
+      } catch (error) {
+        console.error("Error fetching running task timer:", error);
+      }
+    };
+
+    fetchCurrentTask();
+    return subscribeToTaskTimers(userId, fetchCurrentTask);
+  }, [organizationId, userId]);
+
+  const openMessageDialog = () => {
+    setMessageDraft(picked.status_message ?? "");
+    setDurationDraft("60");
+    setMessageDialogOpen(true);
   };
 
-  const getTotalMembers = () => {
-    return Object.values(onlineUsers).flat().length;
+  const handleSaveMessage = async () => {
+    const minutes = durationDraft === "never" ? null : Number(durationDraft);
+    await pickStatus({
+      status: picked.status,
+      status_message: messageDraft.trim() || null,
+      status_expires_at: minutes ? new Date(Date.now() + minutes * 60 * 1000).toISOString() : null,
+    });
+    setMessageDialogOpen(false);
   };
 
+  const getPresence = (memberId: string): MemberPresence => mergePresence(presenceState[memberId] ?? [], now);
+
+  const membersByRole = (Object.keys(roleIcons) as UserRole[]).map((role) => ({
+    role,
+    users: members
+      .filter((member) => member.role === role)
+      .map((member) => ({ ...member, presence: getPresence(member.id) })),
+  }));
+  const totalOnline = membersByRole.flatMap((group) => group.users).filter((u) => isPresent(u.presence)).length;
+
   if (loading) {
     return (
       <Card>
@@ -382,43 +363,55 @@ function OnlinePresenceComponent({ organizationId }: OnlinePresenceProps) {
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm" className="h-8 px-2">
-                  <div className={`w-2 h-2 rounded-full ${statusColors[currentUserStatus]} mr-2`}></div>
-                  <span className="text-xs capitalize">{currentUserStatus.replace('_', ' ')}</span>
+                  <div className={`w-2 h-2 rounded-full ${statusColors[picked.status]} mr-2`}></div>
+                  <span className="text-xs">
+                    {PRESENCE_STATUSES.find((s) => s.value === picked.status)?.label}
+                  </span>
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => handleStatusChange('online')}>
-                  <div className="w-2 h-2 rounded-full bg-green-500 mr-2"></div>
-                  Online
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleStatusChange('idle')}>
-                  <div className="w-2 h-2 rounded-full bg-yellow-500 mr-2"></div>
-                  Idle
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleStatusChange('do_not_disturb')}>
-                  <div className="w-2 h-2 rounded-full bg-red-500 mr-2"></div>
-                  Do Not Disturb
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleStatusChange('offline')}>
-                  <div className="w-2 h-2 rounded-full bg-gray-400 mr-2"></div>
-                  Offline
+                {PRESENCE_STATUSES.map((status) => (
+                  <DropdownMenuItem
+                    key={status.value}
+                    onClick={() =>
+                      pickStatus({
+                        status: status.value,
+                        status_message: picked.status_message,
+                        status_expires_at: picked.status_expires_at,
+                      })
+                    }
+                  >
+                    <div className={`w-2 h-2 rounded-full ${status.color} mr-2`}></div>
+                    {status.label}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={openMessageDialog}>
+                  <MessageSquare className="w-3 h-3 mr-2" />
+                  {picked.status_message ? "Edit status message" : "Set status message"}
                 </DropdownMenuItem>
+                {(picked.status_message || picked.status !== "online") && (
+                  <DropdownMenuItem
+                    onClick={() => pickStatus({ status: "online", status_message: null, status_expires_at: null })}
+                  >
+                    Clear status
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
             <Badge variant="outline" className="text-xs">
-              {getTotalOnline()}/{getTotalMembers()} online
+              {totalOnline}/{members.length} online
             </Badge>
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {(Object.keys(onlineUsers) as UserRole[]).map((role) => {
-          const users = onlineUsers[role];
+        {membersByRole.map(({ role, users }) => {
           if (users.length === 0) return null;
 
           const RoleIcon = roleIcons[role];
-          const onlineCount = users.filter(u => u.status === 'online' || u.status === 'idle' || u.status === 'do_not_disturb').length;
-          
+          const onlineCount = users.filter((u) => isPresent(u.presence)).length;
+
           return (
             <div key={role}>
               <div className="flex items-center gap-2 mb-3">
@@ -430,9 +423,9 @@ function OnlinePresenceComponent({ organizationId }: OnlinePresenceProps) {
                   ({onlineCount}/{users.length})
                 </span>
               </div>
-              
+
               <div className="space-y-1 ml-6">
-                {users.map((user) => (
+                {users.map(({ presence, ...user }) => (
                   <div key={user.id} className="flex items-center gap-3 py-1 hover:bg-muted/50 rounded-md px-2 transition-colors">
                     <div className="relative">
                       <Avatar className="w-8 h-8">
@@ -441,28 +434,31 @@ function OnlinePresenceComponent({ organizationId }: OnlinePresenceProps) {
                           {user.full_name.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase()}
                         </AvatarFallback>
                       </Avatar>
-                      <div className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 border-2 border-background ${statusColors[user.status]} ${statusShapes[user.status]} flex items-center justify-center`}>
-                        {user.status === 'do_not_disturb' && (
+                      <div className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 border-2 border-background ${statusColors[presence.status]} ${statusShapes[presence.status]} flex items-center justify-center`}>
+                        {presence.status === 'do_not_disturb' && (
                           <div className="w-1.5 h-0.5 bg-white rounded-full"></div>
                         )}
-                        {user.status === 'idle' && (
+                        {presence.status === 'idle' && (
                           <div className="w-2 h-2 bg-yellow-500 rounded-full border border-white"></div>
                         )}
                       </div>
                     </div>
-                    
+
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium truncate">{user.full_name}</p>
-                      {user.current_task_title ? (
+                      {presence.status_message && (
+                        <p className="text-xs text-muted-foreground truncate italic">
+                          {presence.status_message}
+                        </p>
+                      )}
+                      {presence.current_task_title ? (
                         <p className="text-xs text-muted-foreground truncate">
-                          Working on: {user.current_task_title}
+                          Working on: {presence.current_task_title}
                         </p>
                       ) : (
-                        <p className="text-xs text-muted-foreground">
-                          {user.status === 'online' ? 'Available' : 
-                           user.status === 'idle' ? 'Idle' : 
-                           user.status === 'do_not_disturb' ? 'Do Not Disturb' : 'Offline'}
-                        </p>
+                        !presence.status_message && (
+                          <p className="text-xs text-muted-foreground">{statusLabels[presence.status]}</p>
+                        )
                       )}
                     </div>
                   </div>
@@ -472,56 +468,50 @@ function OnlinePresenceComponent({ organizationId }: OnlinePresenceProps) {
           );
         })}
       </CardContent>
+
+      <Dialog open={messageDialogOpen} onOpenChange={setMessageDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Status message</DialogTitle>
+            <DialogDescription>
+              Let your team know what you're up to. Your status and message clear themselves when they expire.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="status-message">Message</Label>
+              <Input
+                id="status-message"
+                placeholder="In a meeting"
+                value={messageDraft}
+                maxLength={MAX_STATUS_MESSAGE_LENGTH}
+                onChange={(e) => setMessageDraft(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Clear after</Label>
+              <Select value={durationDraft} onValueChange={setDurationDraft}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.label} value={duration.value === null ? "never" : String(duration.value)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMessageDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveMessage}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
-
-export function OnlinePresence({ organizationId }: OnlinePresenceProps) {
-  const [setUserOnline, setUserOffline] = useState<{
-    setUserOnline: () => Promise<void>;
-    setUserOffline: () => Promise<void>;
-  } | null>(null);
-
-  const handleSetUserOnline = async () => {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) return;
-
-      await supabase
-        .from('user_presence')
-        .upsert({
-          user_id: user.user.id,
-          status: 'online',
-          updated_at: new Date().toISOString(),
-        });
-    } catch (error) {
-      console.error('Error setting user online:', error);
-    }
-  };
-
-  const handleSetUserOffline = async () => {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) return;
-
-      await supabase
-        .from('user_presence')
-        .upsert({
-          user_id: user.user.id,
-          status: 'offline',
-          updated_at: new Date().toISOString(),
-        });
-    } catch (error) {
-      console.error('Error setting user offline:', error);
-    }
-  };
-
-  return (
-    <PresenceProvider 
-      setUserOnline={handleSetUserOnline}
-      setUserOffline={handleSetUserOffline}
-    >
-      <OnlinePresenceComponent organizationId={organizationId} />
-    </PresenceProvider>
-  );
-}
\ No newline at end of file
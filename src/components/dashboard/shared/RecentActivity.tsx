@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Calendar } from "lucide-react";
+import { ActivityEvent, ACTIVITY_EVENT_SELECT, describeActivityEvent, getActivityColor } from "@/lib/activity";
+
+interface RecentActivityProps {
+  organizationId: string;
+  title: string;
+  activityPath: string;
+  limit?: number;
+}
+
+export function RecentActivity({ organizationId, title, activityPath, limit = 5 }: RecentActivityProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRecentActivity = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("events")
+          .select(ACTIVITY_EVENT_SELECT)
+          .eq("organization_id", organizationId)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        setEvents((data as unknown as ActivityEvent[]) || []);
+      } catch (error) {
+        console.error("Error fetching recent activity:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecentActivity();
+  }, [organizationId, limit]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="w-5 h-5" />
+            {title}
+          </CardTitle>
+          <Link to={activityPath}>
+            <Button variant="ghost" size="sm">View all</Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No activity recorded yet</p>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event) => (
+              <div key={event.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+                <div className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${getActivityColor(event.action)}`}></div>
+                <div>
+                  <p className="text-sm font-medium">
+                    {event.actor?.full_name || "System"} {describeActivityEvent(event)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Pause, Timer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  RunningTaskTimer,
+  fetchRunningTaskTimer,
+  formatTimerClock,
+  getTaskTimeError,
+  getTaskTimeSpent,
+  stopTaskTimer,
+  subscribeToTaskTimers,
+} from "@/lib/taskTime";
+
+interface TaskTimerIndicatorProps {
+  userId: string;
+  organizationId: string;
+}
+
+// The task the user's timer is running on, shown in the dashboard header.
+// The timer lives in the database, so it survives reloads and follows
+// changes made in other tabs.
+export function TaskTimerIndicator({ userId, organizationId }: TaskTimerIndicatorProps) {
+  const { toast } = useToast();
+  const [timer, setTimer] = useState<RunningTaskTimer | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [pausing, setPausing] = useState(false);
+
+  useEffect(() => {
+    const fetchTimer = async () => {
+      try {
+        setTimer(await fetchRunningTaskTimer(organizationId));
+      } catch (error) {
+        console.error("Error fetching running timer:", error);
+      }
+    };
+
+    fetchTimer();
+    return subscribeToTaskTimers(userId, fetchTimer);
+  }, [userId, organizationId]);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const handlePause = async () => {
+    if (!timer) return;
+    setPausing(true);
+    try {
+      await stopTaskTimer(timer.task_id, "pause");
+      setTimer(null);
+    } catch (error) {
+      console.error("Error pausing timer:", error);
+      const known = getTaskTimeError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to pause the timer",
+        variant: "destructive",
+      });
+    } finally {
+      setPausing(false);
+    }
+  };
+
+  if (!timer) return null;
+
+  return (
+    <div
+      className="flex items-center gap-2 rounded-full border border-primary/30 bg-primary/10 pl-3 pr-1 py-1"
+      title={`${timer.task_title} · ${timer.project_name}`}
+    >
+      <Timer className="w-4 h-4 text-primary animate-pulse" />
+      <span className="hidden md:inline max-w-[10rem] truncate text-sm">{timer.task_title}</span>
+      <span className="font-mono text-sm tabular-nums">{formatTimerClock(getTaskTimeSpent(timer, now))}</span>
+      <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full" onClick={handlePause} disabled={pausing}>
+        <Pause className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import {
+  AlertTriangle,
+  ArrowRightLeft,
+  AtSign,
+  Bell,
+  CalendarClock,
+  CheckCircle2,
+  Coins,
+  Gift,
+  History,
+  Megaphone,
+  MessageSquare,
+  Plane,
+  UserPlus,
+  Users,
+  XCircle,
+} from "lucide-react";
+
+interface NotificationIconProps {
+  type: string;
+}
+
+export function NotificationIcon({ type }: NotificationIconProps) {
+  switch (type) {
+    case "extension_requested":
+      return <CalendarClock className="w-5 h-5 text-primary" />;
+    case "extension_approved":
+      return <CheckCircle2 className="w-5 h-5 text-green-600" />;
+    case "extension_rejected":
+      return <XCircle className="w-5 h-5 text-red-600" />;
+    case "task_assigned":
+      return <UserPlus className="w-5 h-5 text-blue-600" />;
+    case "task_due_reminder":
+      return <AlertTriangle className="w-5 h-5 text-orange-600" />;
+    case "task_overdue":
+      return <AlertTriangle className="w-5 h-5 text-red-600" />;
+    case "points_earned":
+      return <Coins className="w-5 h-5 text-yellow-600" />;
+    case "member_joined":
+      return <Users className="w-5 h-5 text-purple-600" />;
+    case "task_commented":
+      return <MessageSquare className="w-5 h-5 text-teal-600" />;
+    case "mention":
+      return <AtSign className="w-5 h-5 text-indigo-600" />;
+    case "announcement":
+      return <Megaphone className="w-5 h-5 text-amber-600" />;
+    case "transfer_requested":
+      return <ArrowRightLeft className="w-5 h-5 text-primary" />;
+    case "transfer_approved":
+      return <ArrowRightLeft className="w-5 h-5 text-green-600" />;
+    case "transfer_rejected":
+      return <ArrowRightLeft className="w-5 h-5 text-red-600" />;
+    case "reward_confirmed":
+      return <Gift className="w-5 h-5 text-primary" />;
+    case "reward_fulfilled":
+      return <Gift className="w-5 h-5 text-green-600" />;
+    case "reward_cancelled":
+      return <Gift className="w-5 h-5 text-red-600" />;
+    case "leave_requested":
+      return <Plane className="w-5 h-5 text-primary" />;
+    case "leave_approved":
+      return <Plane className="w-5 h-5 text-green-600" />;
+    case "leave_rejected":
+      return <Plane className="w-5 h-5 text-red-600" />;
+    case "correction_requested":
+      return <History className="w-5 h-5 text-primary" />;
+    case "correction_approved":
+      return <History className="w-5 h-5 text-green-600" />;
+    case "correction_rejected":
+      return <History className="w-5 h-5 text-red-600" />;
+    default:
+      return <Bell className="w-5 h-5 text-muted-foreground" />;
+  }
+}
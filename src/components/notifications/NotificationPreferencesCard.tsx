@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Bell } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCE,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationPreference,
+  NotificationType,
+  fetchNotificationPreferences,
+  getNotificationTypesForRole,
+  saveNotificationPreference,
+} from "@/lib/notifications";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+
+interface NotificationPreferencesCardProps {
+  role: "owner" | "admin" | "supervisor" | "employee";
+}
+
+// Per notification type, whether it shows in the app, is emailed and/or is
+// part of the daily digest. Changes are saved as they are made.
+export function NotificationPreferencesCard({ role }: NotificationPreferencesCardProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<Partial<Record<NotificationType, NotificationPreference>>>({});
+  const [loading, setLoading] = useState(true);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushSaving, setPushSaving] = useState(false);
+
+  const types = getNotificationTypesForRole(role);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        setUserId(user.id);
+        setPreferences(await fetchNotificationPreferences(user.id));
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load notification preferences",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const fetchPushState = async () => {
+      try {
+        setPushEnabled(!!(await getPushSubscription()));
+      } catch (error) {
+        console.error("Error checking push subscription:", error);
+      }
+    };
+
+    fetchPreferences();
+    fetchPushState();
+  }, []);
+
+  const getPreference = (type: NotificationType) => preferences[type] ?? DEFAULT_NOTIFICATION_PREFERENCE;
+
+  const handleToggle = async (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    if (!userId) return;
+
+    const previous = preferences[type];
+    const preference = { ...getPreference(type), [channel]: enabled };
+    setPreferences((current) => ({ ...current, [type]: preference }));
+
+    try {
+      await saveNotificationPreference(userId, type, preference);
+    } catch (error) {
+      console.error("Error saving notification preference:", error);
+      setPreferences((current) => ({ ...current, [type]: previous }));
+      toast({
+        title: "Error",
+        description: "Failed to save notification preference",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePushToggle = async (enabled: boolean) => {
+    setPushSaving(true);
+    try {
+      if (enabled) {
+        const subscribed = await subscribeToPush();
+        setPushEnabled(subscribed);
+        if (!subscribed) {
+          toast({
+            title: "Notifications blocked",
+            description: "Allow notifications for this site in your browser to turn on push",
+            variant: "destructive",
+          });
+        }
+      } else {
+        await unsubscribeFromPush();
+        setPushEnabled(false);
+      }
+    } catch (error) {
+      console.error("Error updating push subscription:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update push notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setPushSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of notification. Digests are emailed once a day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPushSupported() && (
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="push-notifications">Push notifications on this device</Label>
+              <p className="text-sm text-muted-foreground">
+                Show your in-app notifications as browser notifications, even when the app is closed
+              </p>
+            </div>
+            <Switch
+              id="push-notifications"
+              checked={pushEnabled}
+              disabled={pushSaving}
+              onCheckedChange={handlePushToggle}
+            />
+          </div>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Notification</TableHead>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <TableHead key={channel.value} className="text-center w-28">
+                    {channel.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {NOTIFICATION_CATEGORIES.map((category) => {
+                const categoryTypes = types.filter((t) => t.category === category.value);
+                if (categoryTypes.length === 0) return null;
+
+                return [
+                  <TableRow key={category.value} className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={NOTIFICATION_CHANNELS.length + 1} className="py-2 text-xs font-semibold uppercase text-muted-foreground">
+                      {category.label}
+                    </TableCell>
+                  </TableRow>,
+                  ...categoryTypes.map((type) => (
+                    <TableRow key={type.value}>
+                      <TableCell className="text-sm">{type.label}</TableCell>
+                      {NOTIFICATION_CHANNELS.map((channel) => (
+                        <TableCell key={channel.value} className="text-center">
+                          <Switch
+                            checked={getPreference(type.value)[channel.value]}
+                            onCheckedChange={(enabled) => handleToggle(type.value, channel.value, enabled)}
+                            aria-label={`${type.label}: ${channel.label}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )),
+                ];
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+
+interface Holiday {
+  id: string;
+  holiday_date: string;
+  name: string;
+}
+
+export function HolidaysCard() {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const yearOptions = [year - 1, year, year + 1];
+
+  useEffect(() => {
+    if (organization) {
+      fetchHolidays();
+    }
+  }, [organization, year]);
+
+  const fetchHolidays = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("holidays")
+        .select("id, holiday_date, name")
+        .eq("organization_id", organization.id)
+        .gte("holiday_date", `${year}-01-01`)
+        .lte("holiday_date", `${year}-12-31`)
+        .order("holiday_date");
+
+      if (error) throw error;
+      setHolidays(data || []);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load holidays",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!organization) return;
+
+    const name = newName.trim();
+    if (!newDate || !name) {
+      toast({
+        title: "Error",
+        description: "Please enter a date and a name for the holiday",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("holidays")
+        .insert({
+          organization_id: organization.id,
+          holiday_date: newDate,
+          name,
+          created_by: user?.id,
+        });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Error",
+            description: "There is already a holiday on this date",
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `${name} added`,
+      });
+
+      setNewDate("");
+      setNewName("");
+      const addedYear = parseISO(newDate).getFullYear();
+      if (addedYear !== year) {
+        setYear(addedYear);
+      } else {
+        fetchHolidays();
+      }
+    } catch (error) {
+      console.error("Error adding holiday:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add holiday",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    try {
+      const { error } = await supabase
+        .from("holidays")
+        .delete()
+        .eq("id", holiday.id);
+
+      if (error) throw error;
+
+      setHolidays((prev) => prev.filter((h) => h.id !== holiday.id));
+      toast({
+        title: "Success",
+        description: `${holiday.name} removed`,
+      });
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove holiday",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="w-5 h-5" />
+              Holidays
+            </CardTitle>
+            <CardDescription>
+              Nobody is expected at work on a holiday. Holidays never count as absences or as leave days.
+            </CardDescription>
+          </div>
+          <Select value={year.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {yearOptions.map((y) => (
+                <SelectItem key={y} value={y.toString()}>
+                  {y}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[180px_1fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="holiday_date">Date</Label>
+            <Input id="holiday_date" type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday_name">Name</Label>
+            <Input
+              id="holiday_name"
+              placeholder="e.g. New Year's Day"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No holidays in {year}</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between gap-2 px-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{holiday.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(parseISO(holiday.holiday_date), "EEEE, MMMM d")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  title="Remove"
+                  onClick={() => handleDelete(holiday)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,12 +9,12 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Building, Users, Crown, ShieldCheck, UserCheck, UserIcon, Plus, Key, LogOut, Clock, Upload, Mail, Eye, EyeOff, Shield, Phone } from "lucide-react";
+import { Building, Users, Crown, ShieldCheck, UserCheck, UserIcon, Plus, Key, LogOut, Upload, Mail, Eye, EyeOff, Shield, Phone, Bell } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { usePresence } from "@/contexts/PresenceContext";
 import { ModeToggle } from "@/components/mode-toggle";
+import { fetchUnreadCountsByOrganization } from "@/lib/notifications";
 
 type Organization = Tables<"my_organizations">;
 type UserRole = "owner" | "admin" | "supervisor" | "employee";
@@ -43,12 +43,10 @@ const roleColors = {
 
 export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelectorProps) {
   const [organizations, setOrganizations] = useState<OrganizationWithRole[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [joinDialogOpen, setJoinDialogOpen] = useState(false);
-  const [clockInDialogOpen, setClockInDialogOpen] = useState(false);
-  const [selectedOrgForClockIn, setSelectedOrgForClockIn] = useState<OrganizationWithRole | null>(null);
-  const [currentTime, setCurrentTime] = useState(new Date());
   const [orgName, setOrgName] = useState("");
   const [orgDescription, setOrgDescription] = useState("");
   const [inviteCode, setInviteCode] = useState("");
@@ -66,20 +64,11 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
   const [profile, setProfile] = useState<{ id: string; full_name: string; email: string; avatar_url?: string; phone?: string | null } | null>(null);
   const [profileForm, setProfileForm] = useState<{ full_name: string; phone: string }>({ full_name: "", phone: "" });
   const [passwordData, setPasswordData] = useState({ newPassword: "", confirmPassword: "" });
-  const [clockingIn, setClockingIn] = useState(false);
   const { toast } = useToast();
-  
-  // Try to get presence context, but don't fail if not available
-  let presenceContext;
-  try {
-    presenceContext = usePresence();
-  } catch (error) {
-    // Presence context not available, that's okay
-    presenceContext = null;
-  }
 
   useEffect(() => {
     fetchOrganizations();
+    fetchUnreadCounts();
   }, []);
 
   // Load profile when settings dialog opens
@@ -104,27 +93,6 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
     if (settingsOpen) loadProfile();
   }, [settingsOpen]);
 
-  // Update current time every second when clock in dialog is open
-  useEffect(() => {
-    if (!clockInDialogOpen) return;
-    
-    // Update immediately when dialog opens
-    setCurrentTime(new Date());
-    
-    const interval = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [clockInDialogOpen]);
-
-  const formatTime = (date: Date) => {
-    const hours = date.getHours().toString().padStart(2, '0');
-    const minutes = date.getMinutes().toString().padStart(2, '0');
-    const seconds = date.getSeconds().toString().padStart(2, '0');
-    return `${hours}:${minutes}:${seconds}`;
-  };
-
   const fetchOrganizations = async () => {
     try {
       const { data, error } = await supabase
@@ -152,62 +120,39 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
     }
   };
 
-  const handleSelectOrganization = (org: OrganizationWithRole) => {
-    // Show clock in confirmation dialog
-    setSelectedOrgForClockIn(org);
-    setClockInDialogOpen(true);
+  const fetchUnreadCounts = async () => {
+    try {
+      const counts = await fetchUnreadCountsByOrganization();
+      setUnreadCounts(Object.fromEntries(counts.map((c) => [c.organization_id, c.unread_count])));
+    } catch (error) {
+      console.error("Error fetching unread notification counts:", error);
+    }
   };
 
-  const handleConfirmClockIn = async () => {
-    if (!selectedOrgForClockIn) return;
-    
-    setClockingIn(true);
+  // Members clock in explicitly from their dashboard, so opening an
+  // organization only remembers it as the last one selected
+  const rememberSelectedOrganization = async (userId: string, orgId: string) => {
+    const { error } = await supabase.rpc("switch_organization", {
+      p_org_id: orgId,
+      p_user_id: userId,
+    });
+
+    if (error) throw error;
+  };
+
+  const handleSelectOrganization = async (org: OrganizationWithRole) => {
     try {
       const user = (await supabase.auth.getUser()).data.user;
       if (!user) throw new Error("User not found");
 
-      // Clock in
-      const { error: clockInError } = await supabase.rpc('create_daily_checkin', {
-        p_org_id: selectedOrgForClockIn.id,
-        p_user_id: user.id,
-        p_source: 'web'
-      });
-
-      if (clockInError) throw clockInError;
-
-      // Update last_selected for this organization
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: false })
-        .eq("user_id", user.id);
-
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: true })
-        .eq("user_id", user.id)
-        .eq("organization_id", selectedOrgForClockIn.id);
-
-      // Set user presence to online
-      if (presenceContext?.setUserOnline) {
-        await presenceContext.setUserOnline();
-      }
-
-      toast({
-        title: "Clocked In",
-        description: `Successfully clocked in to ${selectedOrgForClockIn.name}`,
-      });
-
-      onOrganizationSelect(selectedOrgForClockIn);
-      setClockInDialogOpen(false);
+      await rememberSelectedOrganization(user.id, org.id);
+      onOrganizationSelect(org);
     } catch (error: any) {
       toast({
         title: "Error",
-        description: error.message || "Failed to clock in",
+        description: error.message || "Failed to open organization",
         variant: "destructive",
       });
-    } finally {
-      setClockingIn(false);
-      setSelectedOrgForClockIn(null);
     }
   };
 
@@ -239,37 +184,14 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
 
       if (fetchError) throw fetchError;
 
-      // Auto clock-in for newly created organization
       const authUser = (await supabase.auth.getUser()).data.user;
       if (!authUser) throw new Error("User not found");
 
-      const { error: clockInError } = await supabase.rpc('create_daily_checkin', {
-        p_org_id: newOrg.id,
-        p_user_id: authUser.id,
-        p_source: 'web'
-      });
-      if (clockInError) throw clockInError;
-
-      // Update last_selected flags
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: false })
-        .eq("user_id", authUser.id);
-
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: true })
-        .eq("user_id", authUser.id)
-        .eq("organization_id", newOrg.id);
-
-      // Set presence online
-      if (presenceContext?.setUserOnline) {
-        await presenceContext.setUserOnline();
-      }
+      await rememberSelectedOrganization(authUser.id, newOrg.id);
 
       toast({
-        title: "Clocked In",
-        description: `Organization created and clocked in to ${newOrg.name}`,
+        title: "Organization Created",
+        description: `${newOrg.name} is ready. Clock in from your dashboard when you start work.`,
       });
 
       // Select the new organization
@@ -319,37 +241,14 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
 
       if (fetchError) throw fetchError;
 
-      // Auto clock-in for newly joined organization
       const authUser = (await supabase.auth.getUser()).data.user;
       if (!authUser) throw new Error("User not found");
 
-      const { error: clockInError } = await supabase.rpc('create_daily_checkin', {
-        p_org_id: org.id,
-        p_user_id: authUser.id,
-        p_source: 'web'
-      });
-      if (clockInError) throw clockInError;
-
-      // Update last_selected flags
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: false })
-        .eq("user_id", authUser.id);
-
-      await supabase
-        .from("organization_members")
-        .update({ last_selected: true })
-        .eq("user_id", authUser.id)
-        .eq("organization_id", org.id);
-
-      // Set presence online
-      if (presenceContext?.setUserOnline) {
-        await presenceContext.setUserOnline();
-      }
+      await rememberSelectedOrganization(authUser.id, org.id);
 
       toast({
-        title: "Clocked In",
-        description: `Successfully joined and clocked in to ${org.name}`,
+        title: "Joined Organization",
+        description: `Welcome to ${org.name}. Clock in from your dashboard when you start work.`,
       });
 
       // Select the organization
@@ -669,36 +568,6 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
           </CardContent>
         </Card>
 
-        <AlertDialog open={clockInDialogOpen} onOpenChange={setClockInDialogOpen}>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Clock In</AlertDialogTitle>
-              <AlertDialogDescription className="space-y-3">
-                <p>
-                  Do you want to clock in to <strong>{selectedOrgForClockIn?.name}</strong>? This will start tracking your time for this organization.
-                </p>
-                <div className="flex items-center justify-center gap-2 p-4 bg-muted rounded-lg">
-                  <Clock className="w-5 h-5 text-primary" />
-                  <span className="text-2xl font-mono font-bold text-foreground">
-                    {formatTime(currentTime)}
-                  </span>
-                </div>
-                <p className="text-xs text-muted-foreground text-center">
-                  This is the time that will be recorded for your clock in
-                </p>
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => setSelectedOrgForClockIn(null)}>
-                Cancel
-              </AlertDialogCancel>
-              <AlertDialogAction onClick={handleConfirmClockIn} disabled={clockingIn}>
-                {clockingIn ? "Clocking In..." : "Clock In"}
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-
         <AlertDialog open={logoutDialogOpen} onOpenChange={setLogoutDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -855,6 +724,12 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
                         <RoleIcon className="w-3 h-3 mr-1" />
                         {org.role}
                       </Badge>
+                      {unreadCounts[org.id] > 0 && (
+                        <Badge variant="destructive" className="text-xs">
+                          <Bell className="w-3 h-3 mr-1" />
+                          {unreadCounts[org.id]} unread
+                        </Badge>
+                      )}
                     </div>
                     {org.description && (
                       <p className="text-sm text-muted-foreground">{org.description}</p>
@@ -954,36 +829,6 @@ export function OrganizationSelector({ onOrganizationSelect }: OrganizationSelec
 
         </div>
 
-        <AlertDialog open={clockInDialogOpen} onOpenChange={setClockInDialogOpen}>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Clock In</AlertDialogTitle>
-              <AlertDialogDescription className="space-y-3">
-                <p>
-                  Do you want to clock in to <strong>{selectedOrgForClockIn?.name}</strong>? This will start tracking your time for this organization.
-                </p>
-                <div className="flex items-center justify-center gap-2 p-4 bg-muted rounded-lg">
-                  <Clock className="w-5 h-5 text-primary" />
-                  <span className="text-2xl font-mono font-bold text-foreground">
-                    {formatTime(currentTime)}
-                  </span>
-                </div>
-                <p className="text-xs text-muted-foreground text-center">
-                  This is the time that will be recorded for your clock in
-                </p>
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => setSelectedOrgForClockIn(null)}>
-                Cancel
-              </AlertDialogCancel>
-              <AlertDialogAction onClick={handleConfirmClockIn} disabled={clockingIn}>
-                {clockingIn ? "Clocking In..." : "Clock In"}
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-
         <AlertDialog open={logoutDialogOpen} onOpenChange={setLogoutDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -0,0 +1,648 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { CalendarClock, Pencil, Plus, Trash2, UserPlus, Users, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { WEEKDAYS, WorkSchedule, WorkScheduleDay, crossesMidnight, describeSchedule, fetchWorkSchedules } from "@/lib/workSchedules";
+
+interface ScheduleAssignment {
+  id: string;
+  schedule_id: string;
+  team_id: string | null;
+  user_id: string | null;
+  team: { name: string } | null;
+  user: { full_name: string } | null;
+}
+
+interface MemberOption {
+  user_id: string;
+  full_name: string;
+  email: string;
+}
+
+interface TeamOption {
+  id: string;
+  name: string;
+}
+
+interface DayForm {
+  working: boolean;
+  start_time: string;
+  end_time: string;
+}
+
+const emptyDays = (): Record<number, DayForm> =>
+  Object.fromEntries(
+    WEEKDAYS.map((day) => [
+      day.value,
+      // Monday to Friday, 9 to 5
+      { working: day.value >= 1 && day.value <= 5, start_time: "09:00", end_time: "17:00" },
+    ])
+  );
+
+export function WorkSchedulesCard() {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [assignments, setAssignments] = useState<ScheduleAssignment[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<WorkSchedule | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+    early_threshold_minutes: 15,
+    late_threshold_minutes: 15,
+  });
+  const [days, setDays] = useState<Record<number, DayForm>>(emptyDays);
+
+  const [assignSchedule, setAssignSchedule] = useState<WorkSchedule | null>(null);
+  const [assignMode, setAssignMode] = useState<"team" | "member">("team");
+  const [selectedTeamId, setSelectedTeamId] = useState("");
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  useEffect(() => {
+    if (organization) {
+      fetchData();
+    }
+  }, [organization]);
+
+  const fetchData = async () => {
+    if (!organization) return;
+
+    try {
+      const [schedulesData, assignmentsResult, membersResult, teamsResult] = await Promise.all([
+        fetchWorkSchedules(organization.id),
+        supabase
+          .from("work_schedule_assignments")
+          .select("id, schedule_id, team_id, user_id, team:teams(name), user:users!work_schedule_assignments_user_id_fkey(full_name)")
+          .eq("organization_id", organization.id),
+        supabase
+          .from("organization_members")
+          .select("user_id, users!inner(full_name, email)")
+          .eq("organization_id", organization.id),
+        supabase
+          .from("teams")
+          .select("id, name")
+          .eq("organization_id", organization.id)
+          .order("name"),
+      ]);
+
+      if (assignmentsResult.error) throw assignmentsResult.error;
+      if (membersResult.error) throw membersResult.error;
+      if (teamsResult.error) throw teamsResult.error;
+
+      setSchedules(schedulesData);
+      setAssignments((assignmentsResult.data || []) as ScheduleAssignment[]);
+      setMembers(
+        (membersResult.data || [])
+          .map((m) => ({
+            user_id: m.user_id,
+            full_name: m.users?.full_name || "Unknown",
+            email: m.users?.email || "",
+          }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+      setTeams(teamsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching work schedules:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load work schedules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openScheduleDialog = (schedule: WorkSchedule | null) => {
+    setEditingSchedule(schedule);
+    setFormData({
+      name: schedule?.name || "",
+      description: schedule?.description || "",
+      early_threshold_minutes: schedule?.early_threshold_minutes ?? 15,
+      late_threshold_minutes: schedule?.late_threshold_minutes ?? 15,
+    });
+
+    const nextDays = emptyDays();
+    if (schedule) {
+      WEEKDAYS.forEach((weekday) => {
+        const day = schedule.days.find((d) => d.weekday === weekday.value);
+        nextDays[weekday.value] = day
+          ? { working: true, start_time: day.start_time.slice(0, 5), end_time: day.end_time.slice(0, 5) }
+          : { ...nextDays[weekday.value], working: false };
+      });
+    }
+    setDays(nextDays);
+    setScheduleDialogOpen(true);
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayForm>) => {
+    setDays((prev) => ({ ...prev, [weekday]: { ...prev[weekday], ...changes } }));
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!organization) return;
+
+    const name = formData.name.trim();
+    if (!name) {
+      toast({
+        title: "Error",
+        description: "Schedule name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const workingDays: WorkScheduleDay[] = WEEKDAYS.filter((weekday) => days[weekday.value].working).map((weekday) => ({
+      weekday: weekday.value,
+      start_time: days[weekday.value].start_time,
+      end_time: days[weekday.value].end_time,
+    }));
+
+    if (workingDays.some((day) => day.start_time === day.end_time)) {
+      toast({
+        title: "Error",
+        description: "A working day cannot start and end at the same time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name,
+        description: formData.description.trim() || null,
+        early_threshold_minutes: formData.early_threshold_minutes,
+        late_threshold_minutes: formData.late_threshold_minutes,
+      };
+
+      let scheduleId: string;
+      if (editingSchedule?.id) {
+        const { error } = await supabase
+          .from("work_schedules")
+          .update(values)
+          .eq("id", editingSchedule.id);
+
+        if (error) throw error;
+        scheduleId = editingSchedule.id;
+
+        const { error: deleteError } = await supabase
+          .from("work_schedule_days")
+          .delete()
+          .eq("schedule_id", scheduleId);
+
+        if (deleteError) throw deleteError;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data, error } = await supabase
+          .from("work_schedules")
+          .insert({ ...values, organization_id: organization.id, created_by: user?.id })
+          .select("id")
+          .single();
+
+        if (error) throw error;
+        scheduleId = data.id;
+      }
+
+      if (workingDays.length > 0) {
+        const { error } = await supabase
+          .from("work_schedule_days")
+          .insert(workingDays.map((day) => ({ ...day, schedule_id: scheduleId })));
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: editingSchedule ? "Schedule updated successfully" : "Schedule created successfully",
+      });
+
+      setScheduleDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error saving work schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: WorkSchedule) => {
+    if (!schedule.id) return;
+
+    try {
+      const { error } = await supabase
+        .from("work_schedules")
+        .delete()
+        .eq("id", schedule.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${schedule.name} deleted`,
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting work schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openAssignDialog = (schedule: WorkSchedule) => {
+    setAssignSchedule(schedule);
+    setAssignMode("team");
+    setSelectedTeamId("");
+    setSelectedUserId("");
+  };
+
+  const handleAssign = async () => {
+    if (!organization || !assignSchedule?.id) return;
+
+    const targetId = assignMode === "team" ? selectedTeamId : selectedUserId;
+    if (!targetId) {
+      toast({
+        title: "Error",
+        description: assignMode === "team" ? "Please select a team" : "Please select a member",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const column = assignMode === "team" ? "team_id" : "user_id";
+
+      // A team or member follows one schedule; assigning replaces the previous one
+      const { error: deleteError } = await supabase
+        .from("work_schedule_assignments")
+        .delete()
+        .eq("organization_id", organization.id)
+        .eq(column, targetId);
+
+      if (deleteError) throw deleteError;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("work_schedule_assignments")
+        .insert({
+          organization_id: organization.id,
+          schedule_id: assignSchedule.id,
+          ...(assignMode === "team" ? { team_id: targetId } : { user_id: targetId }),
+          assigned_by: user?.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${assignSchedule.name} assigned`,
+      });
+
+      setAssignSchedule(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error assigning work schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to assign schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnassign = async (assignment: ScheduleAssignment) => {
+    try {
+      const { error } = await supabase
+        .from("work_schedule_assignments")
+        .delete()
+        .eq("id", assignment.id);
+
+      if (error) throw error;
+      setAssignments((prev) => prev.filter((a) => a.id !== assignment.id));
+    } catch (error) {
+      console.error("Error removing schedule assignment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove assignment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const currentScheduleName = (column: "team_id" | "user_id", id: string) => {
+    const assignment = assignments.find((a) => a[column] === id);
+    return schedules.find((s) => s.id === assignment?.schedule_id)?.name;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5" />
+              Work Schedules
+            </CardTitle>
+            <CardDescription>
+              Weekday hours, night shifts and days off for teams or individual members. Everyone else follows the working hours above.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openScheduleDialog(null)}>
+            <Plus className="w-4 h-4 mr-1" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No work schedules yet</p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => {
+              const scheduleAssignments = assignments.filter((a) => a.schedule_id === schedule.id);
+
+              return (
+                <div key={schedule.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">{schedule.name}</p>
+                      {schedule.description && (
+                        <p className="text-sm text-muted-foreground">{schedule.description}</p>
+                      )}
+                      <p className="text-sm mt-1">{describeSchedule(schedule)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Early {schedule.early_threshold_minutes} min before start, late {schedule.late_threshold_minutes} min after start
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Assign" onClick={() => openAssignDialog(schedule)}>
+                        <UserPlus className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" onClick={() => openScheduleDialog(schedule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {schedule.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Teams and members on this schedule go back to the organization working hours.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteSchedule(schedule)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+
+                  {scheduleAssignments.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {scheduleAssignments.map((assignment) => (
+                        <Badge key={assignment.id} variant="secondary" className="gap-1 pr-1">
+                          {assignment.team_id && <Users className="w-3 h-3" />}
+                          {assignment.team?.name || assignment.user?.full_name || "Unknown"}
+                          <button
+                            type="button"
+                            className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                            title="Remove assignment"
+                            onClick={() => handleUnassign(assignment)}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Not assigned to anyone yet</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={scheduleDialogOpen} onOpenChange={setScheduleDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+            <DialogDescription>
+              Turn off the days this schedule does not work. A shift ending before it starts runs into the next day.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule_name">Name</Label>
+              <Input
+                id="schedule_name"
+                placeholder="e.g. Night Shift"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule_description">Description</Label>
+              <Textarea
+                id="schedule_description"
+                rows={2}
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Hours</Label>
+              <div className="divide-y border rounded-lg">
+                {WEEKDAYS.map((weekday) => {
+                  const day = days[weekday.value];
+                  const overnight = day.working && day.start_time !== day.end_time && crossesMidnight({ weekday: weekday.value, ...day });
+
+                  return (
+                    <div key={weekday.value} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                      <Switch
+                        checked={day.working}
+                        onCheckedChange={(checked) => updateDay(weekday.value, { working: checked })}
+                      />
+                      <span className="w-24 text-sm">{weekday.label}</span>
+                      {day.working ? (
+                        <>
+                          <Input
+                            type="time"
+                            className="w-28"
+                            value={day.start_time}
+                            onChange={(e) => updateDay(weekday.value, { start_time: e.target.value })}
+                          />
+                          <span className="text-sm text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            className="w-28"
+                            value={day.end_time}
+                            onChange={(e) => updateDay(weekday.value, { end_time: e.target.value })}
+                          />
+                          {overnight && <span className="text-xs text-muted-foreground">next day</span>}
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Day off</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule_early">Early Threshold (minutes)</Label>
+                <Input
+                  id="schedule_early"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={formData.early_threshold_minutes}
+                  onChange={(e) => setFormData({ ...formData, early_threshold_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule_late">Late Threshold (minutes)</Label>
+                <Input
+                  id="schedule_late"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={formData.late_threshold_minutes}
+                  onChange={(e) => setFormData({ ...formData, late_threshold_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSchedule} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!assignSchedule} onOpenChange={(open) => !open && setAssignSchedule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign {assignSchedule?.name}</DialogTitle>
+            <DialogDescription>
+              A member's own schedule takes priority over their team's schedule
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <Tabs value={assignMode} onValueChange={(value) => setAssignMode(value as "team" | "member")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="team">Team</TabsTrigger>
+                <TabsTrigger value="member">Member</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {assignMode === "team" ? (
+              <div className="space-y-2">
+                <Label>Team</Label>
+                <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={teams.length === 0 ? "No teams available" : "Select a team"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map((team) => {
+                      const current = currentScheduleName("team_id", team.id);
+                      return (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}{current ? ` (${current})` : ""}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Member</Label>
+                <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => {
+                      const current = currentScheduleName("user_id", member.user_id);
+                      return (
+                        <SelectItem key={member.user_id} value={member.user_id}>
+                          {member.full_name} ({member.email}){current ? ` – ${current}` : ""}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              A team or member that already has a schedule is moved to this one
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignSchedule(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={saving}>
+              {saving ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Users, UserPlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { PROJECT_ROLES, ProjectMember, ProjectRole, addTeamToProject } from "@/lib/projectMembers";
+
+interface ProjectMembersCardProps {
+  projectId: string;
+  canManage: boolean;
+  onChanged?: () => void;
+}
+
+interface MemberOption {
+  user_id: string;
+  full_name: string;
+  email: string;
+  role: ProjectRole;
+}
+
+interface TeamOption {
+  id: string;
+  name: string;
+}
+
+export function ProjectMembersCard({ projectId, canManage, onChanged }: ProjectMembersCardProps) {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [orgMembers, setOrgMembers] = useState<MemberOption[]>([]);
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [addMode, setAddMode] = useState<"person" | "team">("person");
+  const [selectedUserId, setSelectedUserId] = useState("");
+  const [selectedTeamId, setSelectedTeamId] = useState("");
+  const [selectedRole, setSelectedRole] = useState<ProjectRole>("employee");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (canManage && organization) {
+      fetchOptions();
+    }
+  }, [canManage, organization]);
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("project_members")
+        .select("user_id, role, user:users!project_members_user_id_fkey(full_name, email)")
+        .eq("project_id", projectId);
+
+      if (error) throw error;
+      setMembers(
+        ((data || []) as ProjectMember[]).sort((a, b) =>
+          (a.user?.full_name || "").localeCompare(b.user?.full_name || "")
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching project members:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load project members",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    if (!organization) return;
+
+    try {
+      const [membersResult, teamsResult] = await Promise.all([
+        supabase
+          .from("organization_members")
+          .select("user_id, role, users!inner(full_name, email)")
+          .eq("organization_id", organization.id)
+          .neq("role", "owner"),
+        supabase
+          .from("teams")
+          .select("id, name")
+          .eq("organization_id", organization.id)
+          .order("name"),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (teamsResult.error) throw teamsResult.error;
+
+      setOrgMembers(
+        (membersResult.data || [])
+          .map((m) => ({
+            user_id: m.user_id,
+            role: m.role,
+            full_name: m.users?.full_name || "Unknown",
+            email: m.users?.email || "",
+          }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+      setTeams(teamsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching members and teams:", error);
+    }
+  };
+
+  const openAddDialog = () => {
+    setAddMode("person");
+    setSelectedUserId("");
+    setSelectedTeamId("");
+    setSelectedRole("employee");
+    setDialogOpen(true);
+  };
+
+  const handleSelectPerson = (userId: string) => {
+    setSelectedUserId(userId);
+    // Default the project role to the member's organization role
+    const member = orgMembers.find((m) => m.user_id === userId);
+    if (member && PROJECT_ROLES.some((r) => r.value === member.role)) {
+      setSelectedRole(member.role);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (addMode === "person" ? !selectedUserId : !selectedTeamId) {
+      toast({
+        title: "Error",
+        description: addMode === "person" ? "Please select a person" : "Please select a team",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let description: string;
+
+      if (addMode === "person") {
+        const { error } = await supabase
+          .from("project_members")
+          .insert({ project_id: projectId, user_id: selectedUserId, role: selectedRole });
+
+        if (error) throw error;
+        description = "Member added to the project";
+      } else {
+        const added = await addTeamToProject(projectId, selectedTeamId, selectedRole);
+        description = added > 0
+          ? `${added} team member${added === 1 ? "" : "s"} added to the project`
+          : "Everyone in this team is already on the project";
+      }
+
+      toast({
+        title: "Success",
+        description,
+      });
+
+      setDialogOpen(false);
+      fetchMembers();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error adding project members:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add project members",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangeRole = async (userId: string, role: ProjectRole) => {
+    try {
+      const { error } = await supabase
+        .from("project_members")
+        .update({ role })
+        .eq("project_id", projectId)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      setMembers((prev) => prev.map((m) => (m.user_id === userId ? { ...m, role } : m)));
+    } catch (error) {
+      console.error("Error updating project role:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update project role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    try {
+      const { error } = await supabase
+        .from("project_members")
+        .delete()
+        .eq("project_id", projectId)
+        .eq("user_id", member.user_id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${member.user?.full_name || "Member"} removed from the project and unassigned from its tasks`,
+      });
+
+      fetchMembers();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error removing project member:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove project member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const availableMembers = orgMembers.filter((m) => !members.some((pm) => pm.user_id === m.user_id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Project Members
+            </CardTitle>
+            <CardDescription>
+              Only members can see this project and be assigned its tasks
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button variant="outline" size="sm" onClick={openAddDialog}>
+              <UserPlus className="w-4 h-4 mr-1" />
+              Add Members
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No members on this project yet</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {members.map((member) => (
+              <div key={member.user_id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{member.user?.full_name || "Unknown"}</p>
+                  <p className="text-xs text-muted-foreground truncate">{member.user?.email}</p>
+                </div>
+                {canManage ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => handleChangeRole(member.user_id, value as ProjectRole)}
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROJECT_ROLES.map((role) => (
+                          <SelectItem key={role.value} value={role.value}>
+                            {role.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      title="Remove from project"
+                      onClick={() => handleRemove(member)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground capitalize shrink-0">{member.role}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Project Members</DialogTitle>
+            <DialogDescription>
+              Add a single person or everyone in a team with a project role
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <Tabs value={addMode} onValueChange={(value) => setAddMode(value as "person" | "team")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="person">Person</TabsTrigger>
+                <TabsTrigger value="team">Team</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {addMode === "person" ? (
+              <div className="space-y-2">
+                <Label>Person</Label>
+                <Select value={selectedUserId} onValueChange={handleSelectPerson}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={availableMembers.length === 0 ? "Everyone is already a member" : "Select a person"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableMembers.map((m) => (
+                      <SelectItem key={m.user_id} value={m.user_id}>
+                        {m.full_name} ({m.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Team</Label>
+                <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={teams.length === 0 ? "No teams available" : "Select a team"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Team members already on the project keep their current role
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Project Role</Label>
+              <Select value={selectedRole} onValueChange={(value) => setSelectedRole(value as ProjectRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={saving}>
+              {saving ? "Adding..." : "Add"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
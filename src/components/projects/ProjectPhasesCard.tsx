@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { GitBranch, Plus, Pencil, Trash2, ChevronUp, ChevronDown, ArrowRight, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_PROJECT_PHASES,
+  PHASE_GATED_HINT,
+  PhaseTask,
+  ProjectPhase,
+  getPhaseProgress,
+  sortPhases,
+} from "@/lib/phases";
+
+interface ProjectPhasesCardProps {
+  projectId: string;
+  currentPhaseId?: string | null;
+  phases: ProjectPhase[];
+  tasks: PhaseTask[];
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+export function ProjectPhasesCard({ projectId, currentPhaseId, phases, tasks, canManage, onChanged }: ProjectPhasesCardProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPhase, setEditingPhase] = useState<ProjectPhase | null>(null);
+  const [phaseName, setPhaseName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const orderedPhases = sortPhases(phases);
+  const currentIndex = orderedPhases.findIndex((p) => p.id === currentPhaseId);
+  const currentPhase = currentIndex >= 0 ? orderedPhases[currentIndex] : null;
+  const nextPhase = currentIndex >= 0 ? orderedPhases[currentIndex + 1] : orderedPhases[0];
+
+  // Tasks that block moving to the given phase (open tasks in earlier phases)
+  const getBlockingTaskCount = (target: ProjectPhase) => {
+    const earlierIds = new Set(orderedPhases.filter((p) => p.sort_order < target.sort_order).map((p) => p.id));
+    return tasks.filter((t) => t.phase_id && earlierIds.has(t.phase_id) && t.status !== "done").length;
+  };
+
+  const openAddDialog = () => {
+    setEditingPhase(null);
+    setPhaseName("");
+    setDialogOpen(true);
+  };
+
+  const openRenameDialog = (phase: ProjectPhase) => {
+    setEditingPhase(phase);
+    setPhaseName(phase.name);
+    setDialogOpen(true);
+  };
+
+  const handleSavePhase = async () => {
+    const name = phaseName.trim();
+    if (!name) {
+      toast({
+        title: "Error",
+        description: "Phase name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingPhase) {
+        const { error } = await supabase
+          .from("phases")
+          .update({ name })
+          .eq("id", editingPhase.id);
+
+        if (error) throw error;
+      } else {
+        const lastOrder = orderedPhases.length > 0 ? orderedPhases[orderedPhases.length - 1].sort_order : -1;
+        const { error } = await supabase
+          .from("phases")
+          .insert({ project_id: projectId, name, sort_order: lastOrder + 1 });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: editingPhase ? "Phase renamed successfully" : "Phase added successfully",
+      });
+
+      setDialogOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error saving phase:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save phase",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseDefaultPhases = async () => {
+    try {
+      const { error } = await supabase
+        .from("phases")
+        .insert(DEFAULT_PROJECT_PHASES.map((name, index) => ({ project_id: projectId, name, sort_order: index })));
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Default phases added",
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error("Error adding default phases:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add default phases",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMovePhase = async (index: number, direction: -1 | 1) => {
+    const phase = orderedPhases[index];
+    const other = orderedPhases[index + direction];
+    if (!phase || !other) return;
+
+    try {
+      const { error } = await supabase.rpc("swap_project_phases", { p_phase: phase.id, p_other: other.id });
+
+      if (error) {
+        // Raised by check_project_phase_order()
+        if (error.hint === PHASE_GATED_HINT) {
+          toast({
+            title: "Phase not finished",
+            description: error.message,
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      onChanged();
+    } catch (error) {
+      console.error("Error reordering phases:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder phases",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeletePhase = async (phase: ProjectPhase) => {
+    try {
+      const { error } = await supabase
+        .from("phases")
+        .delete()
+        .eq("id", phase.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Phase deleted successfully",
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting phase:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete phase",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetCurrentPhase = async (phase: ProjectPhase) => {
+    try {
+      const { error } = await supabase
+        .from("projects")
+        .update({ current_phase_id: phase.id })
+        .eq("id", projectId);
+
+      if (error) {
+        // Raised by apply_project_phase_change()
+        if (error.hint === PHASE_GATED_HINT) {
+          toast({
+            title: "Phase not finished",
+            description: error.message,
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Project moved to ${phase.name}`,
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error("Error updating phase:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update phase",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const nextPhaseBlockers = nextPhase ? getBlockingTaskCount(nextPhase) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="w-5 h-5" />
+              Project Phases
+            </CardTitle>
+            <CardDescription>
+              {currentPhase ? (
+                <>Project is currently in: <span className="font-medium text-primary">{currentPhase.name}</span></>
+              ) : (
+                "Track the project through its phases"
+              )}
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button variant="outline" size="sm" onClick={openAddDialog}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Phase
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {orderedPhases.length === 0 ? (
+          <div className="text-center py-6 space-y-3">
+            <p className="text-sm text-muted-foreground">No phases defined for this project yet</p>
+            {canManage && (
+              <Button variant="outline" size="sm" onClick={handleUseDefaultPhases}>
+                Use Default Phases
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {orderedPhases.map((phase, index) => {
+              const progress = getPhaseProgress(tasks, phase.id);
+              const isCurrent = phase.id === currentPhaseId;
+              const isCompleted = currentIndex >= 0 && index < currentIndex;
+
+              return (
+                <div
+                  key={phase.id}
+                  className={`rounded-lg border p-3 space-y-2 ${isCurrent ? "border-primary bg-primary/5" : ""}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                      <span className="font-medium text-sm truncate">{phase.name}</span>
+                      {isCurrent && <Badge className="text-xs">Current</Badge>}
+                      {isCompleted && <Badge variant="secondary" className="text-xs">Completed</Badge>}
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        {!isCurrent && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => handleSetCurrentPhase(phase)}
+                          >
+                            Set Current
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Move up"
+                          disabled={index === 0}
+                          onClick={() => handleMovePhase(index, -1)}
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Move down"
+                          disabled={index === orderedPhases.length - 1}
+                          onClick={() => handleMovePhase(index, 1)}
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Rename"
+                          onClick={() => openRenameDialog(phase)}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-destructive hover:text-destructive hover:bg-destructive/10"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Phase</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{phase.name}"? Its tasks will be kept without a phase.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDeletePhase(phase)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Progress value={progress.percentage} className="h-2 flex-1" />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {progress.total > 0 ? `${progress.done}/${progress.total} tasks` : "No tasks"}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canManage && nextPhase && (
+          <div className="flex items-center justify-between gap-2 pt-2 border-t">
+            {nextPhaseBlockers > 0 ? (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Lock className="w-3 h-3" />
+                {nextPhaseBlockers} open task{nextPhaseBlockers === 1 ? "" : "s"} must be completed first
+              </p>
+            ) : (
+              <span />
+            )}
+            <Button
+              size="sm"
+              disabled={nextPhaseBlockers > 0}
+              onClick={() => handleSetCurrentPhase(nextPhase)}
+            >
+              {currentPhase ? "Advance to" : "Start"} {nextPhase.name}
+              <ArrowRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPhase ? "Rename Phase" : "Add Phase"}</DialogTitle>
+            <DialogDescription>
+              {editingPhase ? "Change the name of this phase" : "New phases are added at the end of the list"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="phase-name">
+              Phase Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="phase-name"
+              value={phaseName}
+              onChange={(e) => setPhaseName(e.target.value)}
+              placeholder="e.g., Quality Assurance Phase"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSavePhase();
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePhase} disabled={saving}>
+              {editingPhase ? "Save" : "Add Phase"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
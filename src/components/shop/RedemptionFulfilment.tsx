@@ -0,0 +1,246 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { CheckCircle2, Coins, Gift, PackageCheck, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { REDEMPTION_STATUSES, RedemptionStatus, updateRedemptionStatus } from "@/lib/rewards";
+
+interface Redemption {
+  id: string;
+  status: RedemptionStatus;
+  points_spent: number;
+  code: string | null;
+  created_at: string;
+  approved_at: string | null;
+  fulfilled_at: string | null;
+  cancelled_at: string | null;
+  used_at: string | null;
+  reward: { id: string; title: string } | null;
+  user: { full_name: string; email: string } | null;
+  fulfiller: { full_name: string } | null;
+}
+
+const STATUS_BADGE_VARIANTS: Record<RedemptionStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  confirmed: "secondary",
+  fulfilled: "default",
+  cancelled: "destructive",
+};
+
+export function RedemptionFulfilment() {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [activeStatus, setActiveStatus] = useState<RedemptionStatus>("pending");
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (organization) {
+      fetchRedemptions();
+    }
+  }, [organization]);
+
+  const fetchRedemptions = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("redemptions")
+        .select(`
+          id, status, points_spent, code, created_at, approved_at, fulfilled_at, cancelled_at, used_at,
+          reward:rewards!inner(id, title),
+          user:users!redemptions_user_id_fkey(full_name, email),
+          fulfiller:users!redemptions_fulfilled_by_fkey(full_name)
+        `)
+        .eq("reward.organization_id", organization.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setRedemptions((data || []) as Redemption[]);
+    } catch (error) {
+      console.error("Error fetching redemptions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load redemptions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateStatus = async (redemption: Redemption, status: RedemptionStatus) => {
+    setProcessingId(redemption.id);
+    try {
+      const updated = await updateRedemptionStatus(redemption.id, status);
+
+      const descriptions: Partial<Record<RedemptionStatus, string>> = {
+        confirmed: `Redemption confirmed with code ${updated?.code}`,
+        fulfilled: "Redemption marked as fulfilled",
+        cancelled: `Redemption cancelled and ${redemption.points_spent} points refunded`,
+      };
+
+      toast({
+        title: "Success",
+        description: descriptions[status],
+      });
+
+      fetchRedemptions();
+    } catch (error) {
+      console.error("Error updating redemption:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update redemption",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const visibleRedemptions = redemptions.filter((r) => r.status === activeStatus);
+  // Newest first once a redemption has been handled
+  if (activeStatus === "fulfilled" || activeStatus === "cancelled") {
+    visibleRedemptions.reverse();
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={activeStatus} onValueChange={(value) => setActiveStatus(value as RedemptionStatus)}>
+        <TabsList className="grid w-full max-w-xl grid-cols-4">
+          {REDEMPTION_STATUSES.map((status) => (
+            <TabsTrigger key={status.value} value={status.value}>
+              {status.label} ({redemptions.filter((r) => r.status === status.value).length})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {visibleRedemptions.length === 0 ? (
+        <Card className="py-12">
+          <CardContent className="flex flex-col items-center justify-center text-center">
+            <PackageCheck className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground font-medium">No {activeStatus} redemptions</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {visibleRedemptions.map((redemption) => {
+            const isOpen = redemption.status === "pending" || redemption.status === "confirmed";
+            const processing = processingId === redemption.id;
+
+            return (
+              <Card key={redemption.id}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Gift className="w-4 h-4 text-primary shrink-0" />
+                        <span className="font-semibold truncate">{redemption.reward?.title || "Deleted reward"}</span>
+                        <Badge variant={STATUS_BADGE_VARIANTS[redemption.status]} className="capitalize">
+                          {redemption.status}
+                        </Badge>
+                      </div>
+                      <p className="text-sm">
+                        {redemption.user?.full_name || "Unknown"}
+                        {redemption.user?.email && (
+                          <span className="text-muted-foreground"> ({redemption.user.email})</span>
+                        )}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Coins className="w-3 h-3" />
+                          {redemption.points_spent} points
+                        </span>
+                        <span>Redeemed {format(new Date(redemption.created_at), "MMM d, yyyy h:mm a")}</span>
+                        {redemption.fulfilled_at && (
+                          <span>
+                            Fulfilled {format(new Date(redemption.fulfilled_at), "MMM d, yyyy")}
+                            {redemption.fulfiller?.full_name && ` by ${redemption.fulfiller.full_name}`}
+                          </span>
+                        )}
+                        {redemption.cancelled_at && (
+                          <span>Cancelled {format(new Date(redemption.cancelled_at), "MMM d, yyyy")}</span>
+                        )}
+                        {redemption.used_at && (
+                          <span>Used {format(new Date(redemption.used_at), "MMM d, yyyy")}</span>
+                        )}
+                      </div>
+                      {redemption.code && (
+                        <p className="text-sm">
+                          Code: <span className="font-mono font-semibold tracking-wider">{redemption.code}</span>
+                        </p>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <div className="flex flex-wrap gap-2 shrink-0">
+                        {redemption.status === "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={processing}
+                            onClick={() => handleUpdateStatus(redemption, "confirmed")}
+                          >
+                            <CheckCircle2 className="w-4 h-4 mr-1" />
+                            Confirm
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          disabled={processing}
+                          onClick={() => handleUpdateStatus(redemption, "fulfilled")}
+                        >
+                          <PackageCheck className="w-4 h-4 mr-1" />
+                          Mark Fulfilled
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="destructive" disabled={processing}>
+                              <XCircle className="w-4 h-4 mr-1" />
+                              Cancel
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Cancel Redemption</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {redemption.user?.full_name || "The employee"} will be refunded{" "}
+                                {redemption.points_spent} points and the reward goes back in stock.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleUpdateStatus(redemption, "cancelled")}>
+                                Cancel and Refund
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Checkbox } from "@/components/ui/checkbox";
+
+export interface CollaboratorCandidate {
+  user_id: string;
+  full_name: string;
+  role?: string;
+}
+
+interface CollaboratorPickerProps {
+  candidates: CollaboratorCandidate[];
+  selected: string[];
+  onChange: (userIds: string[]) => void;
+  // Usually the assignee, who cannot also be a collaborator
+  excludeUserId?: string;
+  disabled?: boolean;
+}
+
+export function CollaboratorPicker({ candidates, selected, onChange, excludeUserId, disabled }: CollaboratorPickerProps) {
+  const available = candidates.filter((c) => c.user_id !== excludeUserId);
+
+  const toggle = (userId: string, checked: boolean) => {
+    onChange(checked ? [...selected, userId] : selected.filter((id) => id !== userId));
+  };
+
+  if (available.length === 0) {
+    return <p className="text-sm text-muted-foreground">No other members available</p>;
+  }
+
+  return (
+    <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+      {available.map((candidate) => (
+        <label
+          key={candidate.user_id}
+          htmlFor={`collaborator-${candidate.user_id}`}
+          className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50"
+        >
+          <Checkbox
+            id={`collaborator-${candidate.user_id}`}
+            checked={selected.includes(candidate.user_id)}
+            onCheckedChange={(value) => toggle(candidate.user_id, value === true)}
+            disabled={disabled}
+          />
+          <span className="text-sm">{candidate.full_name}</span>
+          {candidate.role && (
+            <span className="text-xs text-muted-foreground capitalize">({candidate.role})</span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
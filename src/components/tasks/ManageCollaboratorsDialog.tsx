@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { CollaboratorCandidate, CollaboratorPicker } from "@/components/tasks/CollaboratorPicker";
+import { addTaskCollaborators } from "@/lib/collaborators";
+
+interface ManageCollaboratorsDialogProps {
+  task: { id: string; title: string; assignee_id?: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function ManageCollaboratorsDialog({ task, onOpenChange, onSaved }: ManageCollaboratorsDialogProps) {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [candidates, setCandidates] = useState<CollaboratorCandidate[]>([]);
+  const [initial, setInitial] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (task) {
+      fetchData();
+    }
+  }, [task?.id]);
+
+  const fetchData = async () => {
+    if (!task || !organization) return;
+
+    setLoading(true);
+    try {
+      const [membersResult, collaboratorsResult] = await Promise.all([
+        supabase
+          .from("organization_members")
+          .select("user_id, role, users!inner(full_name)")
+          .eq("organization_id", organization.id)
+          .in("role", ["supervisor", "employee"]),
+        supabase
+          .from("task_collaborators")
+          .select("user_id")
+          .eq("task_id", task.id),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (collaboratorsResult.error) throw collaboratorsResult.error;
+
+      setCandidates(
+        (membersResult.data || [])
+          .map((m) => ({ user_id: m.user_id, role: m.role, full_name: m.users?.full_name || "Unknown" }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+
+      const current = (collaboratorsResult.data || []).map((c) => c.user_id);
+      setInitial(current);
+      setSelected(current);
+    } catch (error) {
+      console.error("Error fetching collaborators:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load collaborators",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!task) return;
+
+    const added = selected.filter((id) => !initial.includes(id));
+    const removed = initial.filter((id) => !selected.includes(id));
+
+    setSaving(true);
+    try {
+      await addTaskCollaborators(task.id, added);
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from("task_collaborators")
+          .delete()
+          .eq("task_id", task.id)
+          .in("user_id", removed);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Collaborators updated successfully",
+      });
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error("Error updating collaborators:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update collaborators",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>
+            Choose who works on <strong>{task?.title}</strong> together with the assignee
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <CollaboratorPicker
+              candidates={candidates}
+              selected={selected}
+              onChange={setSelected}
+              excludeUserId={task?.assignee_id || undefined}
+              disabled={saving}
+            />
+          )}
+          <p className="text-xs text-muted-foreground mt-2">
+            Collaborators can update the task status, log time and earn completion points
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getLocalDate, getZonedDateTime } from "@/lib/timezone";
+import { MAX_MANUAL_ENTRY_MINUTES, addManualTimeEntry, getTaskTimeError } from "@/lib/taskTime";
+
+interface ManualTimeEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taskId: string;
+  timeZone: string;
+  onLogged?: () => void;
+}
+
+export function ManualTimeEntryDialog({ open, onOpenChange, taskId, timeZone, onLogged }: ManualTimeEntryDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("09:00");
+  const [hours, setHours] = useState("1");
+  const [minutes, setMinutes] = useState("0");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDate(getLocalDate(new Date(), timeZone));
+      setStartTime("09:00");
+      setHours("1");
+      setMinutes("0");
+      setNote("");
+    }
+  }, [open, timeZone]);
+
+  const handleSubmit = async () => {
+    const totalMinutes = (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
+
+    if (!date || !startTime) {
+      toast({
+        title: "Error",
+        description: "Please choose when you worked on the task",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (totalMinutes <= 0 || totalMinutes > MAX_MANUAL_ENTRY_MINUTES) {
+      toast({
+        title: "Error",
+        description: "A time entry lasts between one minute and 24 hours",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!note.trim()) {
+      toast({
+        title: "Error",
+        description: "Please note what the time was spent on",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await addManualTimeEntry(taskId, getZonedDateTime(date, timeZone, startTime), totalMinutes, note.trim());
+
+      toast({
+        title: "Success",
+        description: "Time logged",
+      });
+      onOpenChange(false);
+      onLogged?.();
+    } catch (error) {
+      console.error("Error logging time:", error);
+      const known = getTaskTimeError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to log time",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Log Time</DialogTitle>
+          <DialogDescription>
+            Add time you spent on this task without the timer. Times are in {timeZone}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-date">Date</Label>
+              <Input id="time-entry-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-start">Started At</Label>
+              <Input id="time-entry-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-hours">Hours</Label>
+              <Input
+                id="time-entry-hours"
+                type="number"
+                min="0"
+                max="24"
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-minutes">Minutes</Label>
+              <Input
+                id="time-entry-minutes"
+                type="number"
+                min="0"
+                max="59"
+                step="5"
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="time-entry-note">
+              Note <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="time-entry-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Reviewed the drawings on site"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Saving..." : "Log Time"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { fetchProjectMemberIds } from "@/lib/projectMembers";
+
+interface Colleague {
+  user_id: string;
+  full_name: string;
+  role: string;
+}
+
+interface RequestTransferDialogProps {
+  task: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onRequested?: () => void;
+}
+
+export function RequestTransferDialog({ task, onOpenChange, onRequested }: RequestTransferDialogProps) {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [colleagues, setColleagues] = useState<Colleague[]>([]);
+  const [toUserId, setToUserId] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (task) {
+      setToUserId("");
+      setReason("");
+      fetchColleagues();
+    }
+  }, [task?.id]);
+
+  const fetchColleagues = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !organization || !task) return;
+
+      // Only members of the task's project can take it over
+      const { data: taskData, error: taskError } = await supabase
+        .from("tasks")
+        .select("project_id")
+        .eq("id", task.id)
+        .single();
+
+      if (taskError) throw taskError;
+      const memberIds = await fetchProjectMemberIds(taskData.project_id);
+
+      const { data, error } = await supabase
+        .from("organization_members")
+        .select("user_id, role, users!inner(full_name)")
+        .eq("organization_id", organization.id)
+        .neq("user_id", user.id)
+        .in("role", ["supervisor", "employee"]);
+
+      if (error) throw error;
+
+      setColleagues(
+        (data || [])
+          .filter((m) => memberIds.includes(m.user_id))
+          .map((m) => ({ user_id: m.user_id, role: m.role, full_name: m.users?.full_name || "Unknown" }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+    } catch (error) {
+      console.error("Error fetching colleagues:", error);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!task || !toUserId) {
+      toast({
+        title: "Error",
+        description: "Please choose a colleague to hand the task to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please provide a reason for the transfer request",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("transfer_requests")
+        .insert({
+          task_id: task.id,
+          from_user_id: user.id,
+          to_user_id: toUserId,
+          reason: reason.trim(),
+        });
+
+      if (error) {
+        // idx_transfer_requests_one_pending_per_task
+        if (error.code === "23505") {
+          toast({
+            title: "Request already pending",
+            description: "This task already has a transfer request waiting for review",
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Transfer Request Sent",
+        description: "Your request has been sent to your colleague and reviewers for approval",
+      });
+
+      onOpenChange(false);
+      onRequested?.();
+    } catch (error) {
+      console.error("Error requesting transfer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to request transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Task Transfer</DialogTitle>
+          <DialogDescription>
+            Ask to hand over: <strong>{task?.title}</strong>
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>
+              Transfer to <span className="text-destructive">*</span>
+            </Label>
+            <Select value={toUserId} onValueChange={setToUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a colleague" />
+              </SelectTrigger>
+              <SelectContent>
+                {colleagues.map((colleague) => (
+                  <SelectItem key={colleague.user_id} value={colleague.user_id}>
+                    {colleague.full_name} <span className="text-muted-foreground capitalize">({colleague.role})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-reason">
+              Reason <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="transfer-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Explain why this task should be handed over..."
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">
+              The task stays assigned to you until a supervisor, admin or owner approves the request
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Sending..." : "Send Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,466 @@
+import { useState, useEffect, useRef, DragEvent } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Paperclip, Upload, Download, Trash2, Eye, FileText, FileImage, File as FileIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+  DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+  TASK_ATTACHMENTS_BUCKET,
+  formatFileSize,
+  isAllowedAttachmentType,
+  isImageAttachment,
+  isPdfAttachment,
+} from "@/lib/attachments";
+
+type UserRole = "owner" | "admin" | "supervisor" | "employee";
+
+interface Attachment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  filename: string;
+  file_url: string;
+  file_size: number;
+  content_type: string | null;
+  created_at: string;
+  uploader: {
+    full_name: string;
+  } | null;
+}
+
+interface AttachmentLimits {
+  maxSizeMb: number;
+  allowedTypes: string[];
+}
+
+// Client-side mirror of can_manage_roles() used to decide whether to show delete
+const canManageRole = (managerRole?: UserRole, targetRole?: UserRole) => {
+  if (!managerRole) return false;
+  if (managerRole === "owner") return true;
+  if (!targetRole) return managerRole === "admin";
+  if (managerRole === "admin") return targetRole === "supervisor" || targetRole === "employee";
+  if (managerRole === "supervisor") return targetRole === "employee";
+  return false;
+};
+
+const getFileIcon = (contentType: string | null) => {
+  if (isImageAttachment(contentType)) return <FileImage className="w-5 h-5 text-blue-600" />;
+  if (isPdfAttachment(contentType)) return <FileText className="w-5 h-5 text-red-600" />;
+  return <FileIcon className="w-5 h-5 text-muted-foreground" />;
+};
+
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+export function TaskAttachments({ taskId }: TaskAttachmentsProps) {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [memberRoles, setMemberRoles] = useState<Record<string, UserRole>>({});
+  const [limits, setLimits] = useState<AttachmentLimits>({
+    maxSizeMb: DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+    allowedTypes: DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+  });
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [preview, setPreview] = useState<{ attachment: Attachment; url: string } | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!organization) return;
+    fetchOrganizationSettings();
+  }, [organization]);
+
+  useEffect(() => {
+    if (!taskId) return;
+    setLoading(true);
+    fetchAttachments();
+  }, [taskId]);
+
+  const fetchOrganizationSettings = async () => {
+    if (!organization) return;
+
+    try {
+      const [{ data: orgData }, { data: membersData }] = await Promise.all([
+        supabase.from("organizations").select("*").eq("id", organization.id).single(),
+        supabase.from("organization_members").select("user_id, role").eq("organization_id", organization.id),
+      ]);
+
+      if (orgData) {
+        setLimits({
+          maxSizeMb: orgData.attachment_max_size_mb || DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+          allowedTypes: orgData.attachment_allowed_types || DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+        });
+      }
+
+      const roles: Record<string, UserRole> = {};
+      (membersData || []).forEach((m) => {
+        roles[m.user_id] = m.role;
+      });
+      setMemberRoles(roles);
+    } catch (error) {
+      console.error("Error fetching attachment settings:", error);
+    }
+  };
+
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("attachments")
+        .select(`
+          id,
+          task_id,
+          user_id,
+          filename,
+          file_url,
+          file_size,
+          content_type,
+          created_at,
+          uploader:users!attachments_user_id_fkey(full_name)
+        `)
+        .eq("task_id", taskId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const list = (data || []) as Attachment[];
+      setAttachments(list);
+
+      // Signed thumbnails for images (bucket is private)
+      const imagePaths = list.filter((a) => isImageAttachment(a.content_type)).map((a) => a.file_url);
+      if (imagePaths.length > 0) {
+        const { data: signed } = await supabase.storage
+          .from(TASK_ATTACHMENTS_BUCKET)
+          .createSignedUrls(imagePaths, 60 * 60);
+
+        const map: Record<string, string> = {};
+        (signed || []).forEach((s) => {
+          if (s.path && s.signedUrl) map[s.path] = s.signedUrl;
+        });
+        setThumbnails(map);
+      } else {
+        setThumbnails({});
+      }
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load attachments",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateFile = (file: File) => {
+    if (file.size > limits.maxSizeMb * 1024 * 1024) {
+      return `${file.name} is larger than ${limits.maxSizeMb} MB`;
+    }
+    if (!isAllowedAttachmentType(file.type || "application/octet-stream", limits.allowedTypes)) {
+      return `${file.name} is not an allowed file type`;
+    }
+    return null;
+  };
+
+  const uploadFiles = async (files: File[]) => {
+    if (!organization || !currentUserId || files.length === 0) return;
+
+    const rejected = files.map(validateFile).filter(Boolean) as string[];
+    if (rejected.length > 0) {
+      toast({
+        title: "Some files were not uploaded",
+        description: rejected.join(". "),
+        variant: "destructive",
+      });
+    }
+
+    const accepted = files.filter((f) => !validateFile(f));
+    if (accepted.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+
+    for (const file of accepted) {
+      const safeName = file.name.replace(/[^\w.-]+/g, "_");
+      const path = `${organization.id}/${taskId}/${crypto.randomUUID()}-${safeName}`;
+      // The storage policy checks the same type as the attachment row
+      const contentType = file.type || "application/octet-stream";
+
+      try {
+        const { error: uploadError } = await supabase.storage
+          .from(TASK_ATTACHMENTS_BUCKET)
+          .upload(path, file, { contentType });
+
+        if (uploadError) throw uploadError;
+
+        const { error: insertError } = await supabase
+          .from("attachments")
+          .insert({
+            task_id: taskId,
+            user_id: currentUserId,
+            filename: file.name,
+            file_url: path,
+            file_size: file.size,
+            content_type: contentType,
+          });
+
+        if (insertError) {
+          // Don't leave orphaned objects behind when the metadata is rejected;
+          // uploaders may delete their objects that have no attachment row
+          await supabase.storage.from(TASK_ATTACHMENTS_BUCKET).remove([path]);
+          throw insertError;
+        }
+
+        uploaded++;
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        toast({
+          title: "Upload failed",
+          description: (error as { message?: string }).message || `Failed to upload ${file.name}`,
+          variant: "destructive",
+        });
+      }
+    }
+
+    setUploading(false);
+
+    if (uploaded > 0) {
+      toast({
+        title: "Files uploaded",
+        description: `${uploaded} file${uploaded === 1 ? "" : "s"} attached`,
+      });
+      fetchAttachments();
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(TASK_ATTACHMENTS_BUCKET)
+        .createSignedUrl(attachment.file_url, 60, { download: attachment.filename });
+
+      if (error) throw error;
+      window.open(data.signedUrl, "_blank");
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePreview = async (attachment: Attachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(TASK_ATTACHMENTS_BUCKET)
+        .createSignedUrl(attachment.file_url, 60 * 10);
+
+      if (error) throw error;
+      setPreview({ attachment, url: data.signedUrl });
+    } catch (error) {
+      console.error("Error previewing attachment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open preview",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      // Remove the object first: storage policies look up the attachment row
+      const { error: storageError } = await supabase.storage
+        .from(TASK_ATTACHMENTS_BUCKET)
+        .remove([attachment.file_url]);
+
+      if (storageError) throw storageError;
+
+      const { error } = await supabase
+        .from("attachments")
+        .delete()
+        .eq("id", attachment.id);
+
+      if (error) throw error;
+
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+      toast({
+        title: "File deleted",
+        description: `${attachment.filename} was removed`,
+      });
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canDelete = (attachment: Attachment) =>
+    attachment.user_id === currentUserId ||
+    canManageRole(organization?.role, memberRoles[attachment.user_id]);
+
+  return (
+    <div className="flex flex-col gap-4 h-full min-h-0">
+      <div
+        className={cn(
+          "border-2 border-dashed rounded-lg p-6 text-center transition-colors cursor-pointer",
+          dragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+        <p className="text-sm font-medium">
+          {uploading ? "Uploading..." : "Drop files here or click to browse"}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Up to {limits.maxSizeMb} MB per file
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={limits.allowedTypes.join(",")}
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files || []));
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 pr-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : attachments.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <Paperclip className="w-12 h-12 mb-2 opacity-50" />
+            <p className="font-medium">No files attached</p>
+            <p className="text-sm">Deliverables you upload will appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {attachments.map((attachment) => {
+              const previewable = isImageAttachment(attachment.content_type) || isPdfAttachment(attachment.content_type);
+
+              return (
+                <div key={attachment.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                  <div className="w-12 h-12 rounded bg-muted flex items-center justify-center overflow-hidden shrink-0">
+                    {thumbnails[attachment.file_url] ? (
+                      <img
+                        src={thumbnails[attachment.file_url]}
+                        alt={attachment.filename}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      getFileIcon(attachment.content_type)
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{attachment.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(attachment.file_size)} · {attachment.uploader?.full_name || "Unknown"} ·{" "}
+                      {formatDistanceToNow(new Date(attachment.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {previewable && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Preview" onClick={() => handlePreview(attachment)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Download" onClick={() => handleDownload(attachment)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {canDelete(attachment) && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete File</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{attachment.filename}"? This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(attachment)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{preview?.attachment.filename}</DialogTitle>
+            <DialogDescription>
+              {preview && formatFileSize(preview.attachment.file_size)}
+            </DialogDescription>
+          </DialogHeader>
+          {preview && isImageAttachment(preview.attachment.content_type) && (
+            <img src={preview.url} alt={preview.attachment.filename} className="max-h-[70vh] w-full object-contain rounded" />
+          )}
+          {preview && isPdfAttachment(preview.attachment.content_type) && (
+            <iframe src={preview.url} title={preview.attachment.filename} className="w-full h-[70vh] rounded border" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,577 @@
+import { useState, useEffect, useMemo, useRef, KeyboardEvent } from "react";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { MessageSquare, Reply, Pencil, Trash2, Send, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { cn } from "@/lib/utils";
+
+interface CommentAuthor {
+  full_name: string;
+  avatar_url: string | null;
+}
+
+interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  parent_id: string | null;
+  content: string;
+  mentioned_user_ids: string[];
+  created_at: string;
+  updated_at: string;
+  author: CommentAuthor | null;
+}
+
+interface MentionableMember {
+  user_id: string;
+  full_name: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Returns the ids of every member whose "@Full Name" appears in the text
+const extractMentions = (content: string, members: MentionableMember[]) =>
+  members
+    .filter((m) => m.full_name && content.includes(`@${m.full_name}`))
+    .map((m) => m.user_id);
+
+// Turns "@Full Name" into a mention: link so the renderer can highlight it
+const linkMentions = (content: string, members: MentionableMember[], mentionedIds: string[]) => {
+  // Longest names first so "@Ann Lee" wins over "@Ann"
+  const mentioned = members
+    .filter((m) => mentionedIds.includes(m.user_id))
+    .sort((a, b) => b.full_name.length - a.full_name.length);
+
+  return mentioned.reduce(
+    (text, m) =>
+      text.replace(
+        new RegExp(`@${escapeRegExp(m.full_name)}(?![\\w])`, "g"),
+        `[@${m.full_name}](mention:${m.user_id})`
+      ),
+    content
+  );
+};
+
+const getInitials = (name?: string) => (name || "?").substring(0, 2).toUpperCase();
+
+interface CommentComposerProps {
+  members: MentionableMember[];
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({
+  members,
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [value, setValue] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionStart, setMentionStart] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const q = mentionQuery.toLowerCase();
+    return members
+      .filter((m) => m.full_name.toLowerCase().includes(q))
+      .slice(0, 6);
+  }, [mentionQuery, members]);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    // Look back from the caret for an "@" that starts a word on the same line
+    const beforeCaret = text.slice(0, caret);
+    const match = beforeCaret.match(/(^|\s)@([^@\n]{0,40})$/);
+    if (match) {
+      setMentionQuery(match[2]);
+      setMentionStart(caret - match[2].length - 1);
+      setHighlighted(0);
+    } else {
+      setMentionQuery(null);
+    }
+  };
+
+  const insertMention = (member: MentionableMember) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const next = `${value.slice(0, mentionStart)}@${member.full_name} ${value.slice(caret)}`;
+    setValue(next);
+    setMentionQuery(null);
+
+    const nextCaret = mentionStart + member.full_name.length + 2;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!value.trim() || submitting) return;
+    setSubmitting(true);
+    const ok = await onSubmit(value.trim());
+    setSubmitting(false);
+    if (ok) {
+      setValue("");
+      setMentionQuery(null);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setHighlighted((prev) => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setHighlighted((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          autoFocus={autoFocus}
+          onChange={(e) => {
+            setValue(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+          placeholder={placeholder}
+          rows={3}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover shadow-md p-1">
+            {suggestions.map((member, index) => (
+              <button
+                key={member.user_id}
+                type="button"
+                className={cn(
+                  "w-full flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-left",
+                  index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                )}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+              >
+                <Avatar className="w-6 h-6">
+                  <AvatarFallback className="text-[10px]">{getInitials(member.full_name)}</AvatarFallback>
+                </Avatar>
+                {member.full_name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Markdown supported · type @ to mention · Ctrl+Enter to send
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={!value.trim() || submitting}>
+            <Send className="w-3 h-3 mr-1" />
+            {submitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CommentBody({ comment, members }: { comment: TaskComment; members: MentionableMember[] }) {
+  const markdown = useMemo(
+    () => linkMentions(comment.content, members, comment.mentioned_user_ids || []),
+    [comment.content, comment.mentioned_user_ids, members]
+  );
+
+  return (
+    <div className="text-sm break-words space-y-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:bg-muted [&_pre]:p-2 [&_pre]:rounded [&_pre]:overflow-x-auto [&_code]:bg-muted [&_code]:px-1 [&_code]:rounded [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground">
+      <ReactMarkdown
+        urlTransform={(url) => (url.startsWith("mention:") ? url : defaultUrlTransform(url))}
+        components={{
+          a: ({ href, children }) =>
+            href?.startsWith("mention:") ? (
+              <span className="font-medium text-primary bg-primary/10 rounded px-1">{children}</span>
+            ) : (
+              <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+                {children}
+              </a>
+            ),
+        }}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+interface TaskCommentThreadProps {
+  taskId: string;
+}
+
+export function TaskCommentThread({ taskId }: TaskCommentThreadProps) {
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [members, setMembers] = useState<MentionableMember[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const canModerate = organization?.role === "owner" || organization?.role === "admin";
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!organization) return;
+    fetchMembers();
+  }, [organization]);
+
+  useEffect(() => {
+    if (!taskId) return;
+    setLoading(true);
+    fetchComments();
+
+    // Keep the thread live while it is open
+    const channel = supabase
+      .channel(`task-comments-${taskId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "comments",
+          filter: `task_id=eq.${taskId}`,
+        },
+        () => fetchComments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId]);
+
+  const fetchMembers = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("organization_members")
+        .select("user_id, users!inner(full_name)")
+        .eq("organization_id", organization.id);
+
+      if (error) throw error;
+
+      setMembers(
+        (data || [])
+          .map((m) => ({ user_id: m.user_id, full_name: m.users?.full_name || "" }))
+          .filter((m) => m.full_name)
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+    } catch (error) {
+      console.error("Error fetching organization members:", error);
+    }
+  };
+
+  const fetchComments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("comments")
+        .select(`
+          id,
+          task_id,
+          user_id,
+          parent_id,
+          content,
+          mentioned_user_ids,
+          created_at,
+          updated_at,
+          author:users!comments_user_id_fkey(full_name, avatar_url)
+        `)
+        .eq("task_id", taskId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setComments((data || []) as TaskComment[]);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load comments",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateComment = async (content: string, parentId: string | null = null) => {
+    if (!currentUserId) return false;
+
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .insert({
+          task_id: taskId,
+          user_id: currentUserId,
+          parent_id: parentId,
+          content,
+          mentioned_user_ids: extractMentions(content, members),
+        });
+
+      if (error) throw error;
+
+      setReplyingTo(null);
+      await fetchComments();
+      return true;
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleUpdateComment = async (commentId: string, content: string) => {
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .update({
+          content,
+          mentioned_user_ids: extractMentions(content, members),
+        })
+        .eq("id", commentId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      await fetchComments();
+      return true;
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .delete()
+        .eq("id", commentId);
+
+      if (error) throw error;
+
+      setComments((prev) => prev.filter((c) => c.id !== commentId && c.parent_id !== commentId));
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const topLevelComments = comments.filter((c) => !c.parent_id);
+  const repliesByParent = useMemo(() => {
+    const map = new Map<string, TaskComment[]>();
+    comments
+      .filter((c) => c.parent_id)
+      .forEach((c) => {
+        map.set(c.parent_id!, [...(map.get(c.parent_id!) || []), c]);
+      });
+    return map;
+  }, [comments]);
+
+  const renderComment = (comment: TaskComment, isReply = false) => {
+    const isAuthor = comment.user_id === currentUserId;
+    const wasEdited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+    return (
+      <div key={comment.id} id={`comment-${comment.id}`} className="flex gap-3">
+        <Avatar className={isReply ? "w-7 h-7" : "w-8 h-8"}>
+          <AvatarImage src={comment.author?.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+            {getInitials(comment.author?.full_name)}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-semibold text-sm">{comment.author?.full_name || "Unknown"}</span>
+            <span className="text-muted-foreground">
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            </span>
+            {wasEdited && <span className="text-muted-foreground italic">(edited)</span>}
+          </div>
+
+          {editingId === comment.id ? (
+            <CommentComposer
+              members={members}
+              initialValue={comment.content}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={(content) => handleUpdateComment(comment.id, content)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <CommentBody comment={comment} members={members} />
+          )}
+
+          {editingId !== comment.id && (
+            <div className="flex items-center gap-1 -ml-2">
+              {!isReply && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                >
+                  <Reply className="w-3 h-3 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {isAuthor && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingId(comment.id)}>
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {(isAuthor || canModerate) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-7 text-xs text-destructive hover:text-destructive">
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Comment</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Are you sure you want to delete this comment{!isReply && " and its replies"}? This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDeleteComment(comment.id)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          )}
+
+          {!isReply && (
+            <div className="space-y-3 pt-1">
+              {(repliesByParent.get(comment.id) || []).map((reply) => renderComment(reply, true))}
+              {replyingTo === comment.id && (
+                <CommentComposer
+                  members={members}
+                  placeholder={`Reply to ${comment.author?.full_name || "comment"}...`}
+                  submitLabel="Reply"
+                  autoFocus
+                  onSubmit={(content) => handleCreateComment(content, comment.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4 h-full min-h-0">
+      <ScrollArea className="flex-1 min-h-0 pr-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : topLevelComments.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <MessageSquare className="w-12 h-12 mb-2 opacity-50" />
+            <p className="font-medium">No comments yet</p>
+            <p className="text-sm">Start the conversation below</p>
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {topLevelComments.map((comment) => renderComment(comment))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="border-t pt-4">
+        <CommentComposer
+          members={members}
+          placeholder="Write a comment..."
+          submitLabel="Comment"
+          onSubmit={(content) => handleCreateComment(content)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MessageSquare, Paperclip, History, Timer } from "lucide-react";
+import { TaskCommentThread } from "@/components/tasks/TaskComments";
+import { TaskAttachments } from "@/components/tasks/TaskAttachments";
+import { TaskHistory } from "@/components/tasks/TaskHistory";
+import { TaskTimeLog } from "@/components/tasks/TaskTimeLog";
+
+export type TaskDetailTab = "comments" | "files" | "time" | "history";
+
+interface TaskDetailSheetProps {
+  taskId: string | null;
+  taskTitle?: string;
+  tab?: TaskDetailTab;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaskDetailSheet({ taskId, taskTitle, tab = "comments", onOpenChange }: TaskDetailSheetProps) {
+  return (
+    <Sheet open={!!taskId} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{taskTitle || "Task"}</SheetTitle>
+          <SheetDescription>Discussion, files, time and history for this task</SheetDescription>
+        </SheetHeader>
+        {taskId && (
+          <Tabs key={`${taskId}-${tab}`} defaultValue={tab} className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="comments" className="flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                Comments
+              </TabsTrigger>
+              <TabsTrigger value="files" className="flex items-center gap-2">
+                <Paperclip className="w-4 h-4" />
+                Files
+              </TabsTrigger>
+              <TabsTrigger value="time" className="flex items-center gap-2">
+                <Timer className="w-4 h-4" />
+                Time
+              </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                History
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="comments" className="flex-1 min-h-0 data-[state=active]:flex flex-col">
+              <TaskCommentThread taskId={taskId} />
+            </TabsContent>
+            <TabsContent value="files" className="flex-1 min-h-0 data-[state=active]:flex flex-col">
+              <TaskAttachments taskId={taskId} />
+            </TabsContent>
+            <TabsContent value="time" className="flex-1 min-h-0 data-[state=active]:flex flex-col">
+              <TaskTimeLog taskId={taskId} />
+            </TabsContent>
+            <TabsContent value="history" className="flex-1 min-h-0 data-[state=active]:flex flex-col">
+              <TaskHistory taskId={taskId} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History } from "lucide-react";
+import { ActivityEvent, ACTIVITY_EVENT_SELECT, describeActivityEvent, getActivityColor } from "@/lib/activity";
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+export function TaskHistory({ taskId }: TaskHistoryProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("events")
+          .select(ACTIVITY_EVENT_SELECT)
+          .eq("entity", "task")
+          .eq("entity_id", taskId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        setEvents((data as unknown as ActivityEvent[]) || []);
+      } catch (error) {
+        console.error("Error fetching task history:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [taskId]);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center py-8 text-center">
+        <History className="w-10 h-10 text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">No changes recorded for this task yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="flex-1 -mx-6 px-6">
+      <div className="space-y-3 py-2">
+        {events.map((event) => (
+          <div key={event.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+            <div className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${getActivityColor(event.action)}`}></div>
+            <div className="min-w-0">
+              <p className="text-sm">
+                <span className="font-medium">{event.actor?.full_name || "System"}</span>{" "}
+                {describeActivityEvent(event, false)}
+              </p>
+              {typeof event.payload?.decision_note === "string" && event.payload.decision_note && (
+                <p className="text-xs text-muted-foreground italic mt-1">"{event.payload.decision_note}"</p>
+              )}
+              <p className="text-xs text-muted-foreground" title={format(new Date(event.created_at), "PPpp")}>
+                {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
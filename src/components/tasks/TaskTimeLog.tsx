@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Plus, Timer } from "lucide-react";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { ManualTimeEntryDialog } from "@/components/tasks/ManualTimeEntryDialog";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
+import {
+  TaskTimeEntry,
+  TaskTimeTotal,
+  fetchTaskTimeEntries,
+  fetchTaskTimeTotals,
+  formatEstimate,
+  formatTimeSpent,
+  getTaskTimeSpent,
+  isOverEstimate,
+} from "@/lib/taskTime";
+
+interface TaskTimeLogProps {
+  taskId: string;
+}
+
+export function TaskTimeLog({ taskId }: TaskTimeLogProps) {
+  const { organization } = useOrganization();
+  const [entries, setEntries] = useState<TaskTimeEntry[]>([]);
+  const [total, setTotal] = useState<TaskTimeTotal | undefined>();
+  const [estimatedHours, setEstimatedHours] = useState<number | null>(null);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchTime();
+  }, [taskId]);
+
+  useEffect(() => {
+    if (!organization) return;
+    supabase.rpc("get_org_timezone", { p_org: organization.id }).then(({ data }) => {
+      if (data) setTimeZone(data);
+    });
+  }, [organization?.id]);
+
+  const fetchTime = async () => {
+    try {
+      const [timeEntries, totals, { data: task, error: taskError }] = await Promise.all([
+        fetchTaskTimeEntries(taskId),
+        fetchTaskTimeTotals([taskId]),
+        supabase.from("tasks").select("estimated_hours").eq("id", taskId).single(),
+      ]);
+
+      if (taskError) throw taskError;
+      setEntries(timeEntries);
+      setTotal(totals[taskId]);
+      setEstimatedHours(task?.estimated_hours ?? null);
+    } catch (error) {
+      console.error("Error fetching task time:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const spent = getTaskTimeSpent(total);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+        <div>
+          <p className={`text-lg font-semibold ${isOverEstimate(spent, estimatedHours) ? "text-destructive" : ""}`}>
+            {formatTimeSpent(spent)}
+            {estimatedHours && (
+              <span className="text-sm font-normal text-muted-foreground"> of {formatEstimate(estimatedHours)} estimated</span>
+            )}
+          </p>
+          {total?.running_since && <p className="text-xs text-muted-foreground">Your timer is running</p>}
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Log Time
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center py-8 text-center">
+          <Timer className="w-10 h-10 text-muted-foreground mb-2" />
+          <p className="text-sm text-muted-foreground">No time logged on this task yet</p>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-3 py-2">
+            {entries.map((entry) => {
+              const endedAt = new Date(entry.timestamp);
+              const startedAt = new Date(endedAt.getTime() - (entry.duration ?? 0) * 1000);
+              return (
+                <div key={entry.id} className="flex items-start justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm">
+                      <span className="font-medium">{entry.user?.full_name || "Unknown"}</span>
+                      {entry.action === "manual" && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          Manual
+                        </Badge>
+                      )}
+                    </p>
+                    {entry.note && <p className="text-xs text-muted-foreground italic mt-1">"{entry.note}"</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {format(startedAt, "MMM d, p")} – {format(endedAt, "p")}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium whitespace-nowrap">{formatTimeSpent(entry.duration ?? 0)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      <ManualTimeEntryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        taskId={taskId}
+        timeZone={timeZone}
+        onLogged={fetchTime}
+      />
+    </div>
+  );
+}
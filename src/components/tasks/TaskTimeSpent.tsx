@@ -0,0 +1,30 @@
+import { Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { TaskTimeTotal, formatEstimate, formatTimeSpent, getTaskTimeSpent, isOverEstimate } from "@/lib/taskTime";
+
+interface TaskTimeSpentProps {
+  total?: TaskTimeTotal;
+  estimatedHours?: number | null;
+  className?: string;
+}
+
+// Time logged on a task against its estimate, e.g. "1h 30m / 4h"
+export function TaskTimeSpent({ total, estimatedHours, className }: TaskTimeSpentProps) {
+  const spent = getTaskTimeSpent(total);
+  if (spent === 0 && !estimatedHours) return null;
+
+  return (
+    <span
+      className={cn(
+        "flex items-center gap-1",
+        className,
+        isOverEstimate(spent, estimatedHours) && "text-destructive"
+      )}
+      title={estimatedHours ? "Time spent / estimate" : "Time spent"}
+    >
+      <Timer className={cn("w-3 h-3", total?.running_since && "text-primary animate-pulse")} />
+      {formatTimeSpent(spent)}
+      {estimatedHours ? ` / ${formatEstimate(estimatedHours)}` : ""}
+    </span>
+  );
+}
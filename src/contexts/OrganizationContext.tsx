@@ -13,6 +13,7 @@ interface OrganizationWithRole {
 interface OrganizationContextType {
   organization: OrganizationWithRole | null;
   setOrganization: (org: OrganizationWithRole | null) => void;
+  switchOrganization: (organizationId: string) => Promise<OrganizationWithRole>;
   loading: boolean;
 }
 
@@ -58,8 +59,40 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
     loadOrganization();
   }, []);
 
+  // Remembers another organization as the user's current one and opens it
+  const switchOrganization = async (organizationId: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not found");
+
+    const { error } = await supabase.rpc("switch_organization", {
+      p_org_id: organizationId,
+      p_user_id: user.id,
+    });
+
+    if (error) throw error;
+
+    const { data, error: memberError } = await supabase
+      .from("organization_members")
+      .select(`
+        role,
+        organization:organizations(*)
+      `)
+      .eq("user_id", user.id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (memberError) throw memberError;
+
+    const org = {
+      ...data.organization,
+      role: data.role,
+    } as OrganizationWithRole;
+    setOrganization(org);
+    return org;
+  };
+
   return (
-    <OrganizationContext.Provider value={{ organization, setOrganization, loading }}>
+    <OrganizationContext.Provider value={{ organization, setOrganization, switchOrganization, loading }}>
       {children}
     </OrganizationContext.Provider>
   );
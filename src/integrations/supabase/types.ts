@@ -14,6 +14,39 @@ export type Database = {
   }
   public: {
     Tables: {
+      announcement_reads: {
+        Row: {
+          announcement_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          announcement_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          announcement_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcement_reads_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "announcement_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       announcements: {
         Row: {
           content: string
@@ -21,6 +54,9 @@ export type Database = {
           created_by: string | null
           id: string
           organization_id: string | null
+          pinned: boolean
+          target_role: Database["public"]["Enums"]["user_role"] | null
+          target_team_id: string | null
           title: string
         }
         Insert: {
@@ -29,6 +65,9 @@ export type Database = {
           created_by?: string | null
           id?: string
           organization_id?: string | null
+          pinned?: boolean
+          target_role?: Database["public"]["Enums"]["user_role"] | null
+          target_team_id?: string | null
           title: string
         }
         Update: {
@@ -37,6 +76,9 @@ export type Database = {
           created_by?: string | null
           id?: string
           organization_id?: string | null
+          pinned?: boolean
+          target_role?: Database["public"]["Enums"]["user_role"] | null
+          target_team_id?: string | null
           title?: string
         }
         Relationships: [
@@ -61,10 +103,18 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "announcements_target_team_id_fkey"
+            columns: ["target_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
         ]
       }
       attachments: {
         Row: {
+          content_type: string | null
           created_at: string
           file_size: number
           file_url: string
@@ -74,6 +124,7 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          content_type?: string | null
           created_at?: string
           file_size: number
           file_url: string
@@ -83,6 +134,7 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          content_type?: string | null
           created_at?: string
           file_size?: number
           file_url?: string
@@ -108,41 +160,166 @@ export type Database = {
           },
         ]
       }
+      attendance_audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          checkin_id: string | null
+          created_at: string
+          id: string
+          local_date: string | null
+          new_clock_in_at: string | null
+          new_clock_out_at: string | null
+          old_clock_in_at: string | null
+          old_clock_out_at: string | null
+          organization_id: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          checkin_id?: string | null
+          created_at?: string
+          id?: string
+          local_date?: string | null
+          new_clock_in_at?: string | null
+          new_clock_out_at?: string | null
+          old_clock_in_at?: string | null
+          old_clock_out_at?: string | null
+          organization_id: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          checkin_id?: string | null
+          created_at?: string
+          id?: string
+          local_date?: string | null
+          new_clock_in_at?: string | null
+          new_clock_out_at?: string | null
+          old_clock_in_at?: string | null
+          old_clock_out_at?: string | null
+          organization_id?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_breaks: {
+        Row: {
+          checkin_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+        }
+        Insert: {
+          checkin_id: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+        }
+        Update: {
+          checkin_id?: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_breaks_checkin_id_fkey"
+            columns: ["checkin_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_checkins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_checkins: {
         Row: {
+          auto_closed: boolean
           clock_in_at: string
           clock_out_at: string | null
           created_at: string | null
+          entered_by: string | null
           id: string
           local_date: string | null
+          note: string | null
           org_id: string
-          source: string | null
+          source: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          auto_closed?: boolean
           clock_in_at?: string
           clock_out_at?: string | null
           created_at?: string | null
+          entered_by?: string | null
           id?: string
           local_date?: string | null
+          note?: string | null
           org_id: string
-          source?: string | null
+          source?: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          auto_closed?: boolean
           clock_in_at?: string
           clock_out_at?: string | null
           created_at?: string | null
+          entered_by?: string | null
           id?: string
           local_date?: string | null
+          note?: string | null
           org_id?: string
-          source?: string | null
+          source?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "attendance_checkins_entered_by_fkey"
+            columns: ["entered_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_checkins_org_id_fkey"
             columns: ["org_id"]
@@ -159,11 +336,103 @@ export type Database = {
           },
         ]
       }
+      attendance_corrections: {
+        Row: {
+          checkin_id: string | null
+          correction_type: Database["public"]["Enums"]["attendance_correction_type"]
+          created_at: string
+          id: string
+          local_date: string
+          organization_id: string
+          reason: string
+          requested_clock_in_at: string | null
+          requested_clock_out_at: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["request_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          checkin_id?: string | null
+          correction_type: Database["public"]["Enums"]["attendance_correction_type"]
+          created_at?: string
+          id?: string
+          local_date: string
+          organization_id: string
+          reason: string
+          requested_clock_in_at?: string | null
+          requested_clock_out_at?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          checkin_id?: string | null
+          correction_type?: Database["public"]["Enums"]["attendance_correction_type"]
+          created_at?: string
+          id?: string
+          local_date?: string
+          organization_id?: string
+          reason?: string
+          requested_clock_in_at?: string | null
+          requested_clock_out_at?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_corrections_checkin_id_fkey"
+            columns: ["checkin_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_checkins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
           id: string
+          mentioned_user_ids: string[]
+          parent_id: string | null
           task_id: string | null
           updated_at: string
           user_id: string | null
@@ -172,6 +441,8 @@ export type Database = {
           content: string
           created_at?: string
           id?: string
+          mentioned_user_ids?: string[]
+          parent_id?: string | null
           task_id?: string | null
           updated_at?: string
           user_id?: string | null
@@ -180,6 +451,8 @@ export type Database = {
           content?: string
           created_at?: string
           id?: string
+          mentioned_user_ids?: string[]
+          parent_id?: string | null
           task_id?: string | null
           updated_at?: string
           user_id?: string | null
@@ -327,148 +600,128 @@ export type Database = {
           },
         ]
       }
-      notifications: {
-        Row: {
-          created_at: string
-          id: string
-          payload: Json
-          read_at: string | null
-          type: Database["public"]["Enums"]["notification_type"]
-          user_id: string | null
-        }
-        Insert: {
-          created_at?: string
-          id?: string
-          payload?: Json
-          read_at?: string | null
-          type: Database["public"]["Enums"]["notification_type"]
-          user_id?: string | null
-        }
-        Update: {
-          created_at?: string
-          id?: string
-          payload?: Json
-          read_at?: string | null
-          type?: Database["public"]["Enums"]["notification_type"]
-          user_id?: string | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
-      org_invites: {
+      holidays: {
         Row: {
-          code: string
           created_at: string
           created_by: string | null
-          email: string | null
-          expires_at: string
+          holiday_date: string
           id: string
+          name: string
           organization_id: string
-          role: Database["public"]["Enums"]["user_role"]
-          used_at: string | null
-          used_by: string | null
         }
         Insert: {
-          code?: string
           created_at?: string
           created_by?: string | null
-          email?: string | null
-          expires_at?: string
+          holiday_date: string
           id?: string
+          name: string
           organization_id: string
-          role?: Database["public"]["Enums"]["user_role"]
-          used_at?: string | null
-          used_by?: string | null
         }
         Update: {
-          code?: string
           created_at?: string
           created_by?: string | null
-          email?: string | null
-          expires_at?: string
+          holiday_date?: string
           id?: string
+          name?: string
           organization_id?: string
-          role?: Database["public"]["Enums"]["user_role"]
-          used_at?: string | null
-          used_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "org_invites_created_by_fkey"
+            foreignKeyName: "holidays_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "org_invites_organization_id_fkey"
+            foreignKeyName: "holidays_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "my_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "org_invites_organization_id_fkey"
+            foreignKeyName: "holidays_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "org_invites_used_by_fkey"
-            columns: ["used_by"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      organization_members: {
+      leave_requests: {
         Row: {
           created_at: string
-          last_selected: boolean
+          days: number
+          end_date: string
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
           organization_id: string
-          role: Database["public"]["Enums"]["user_role"]
+          reason: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          last_selected?: boolean
+          days?: number
+          end_date: string
+          id?: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
           organization_id: string
-          role?: Database["public"]["Enums"]["user_role"]
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          last_selected?: boolean
+          days?: number
+          end_date?: string
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type"]
           organization_id?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "organization_members_organization_id_fkey"
+            foreignKeyName: "leave_requests_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "my_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "organization_members_organization_id_fkey"
+            foreignKeyName: "leave_requests_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "organization_members_user_id_fkey"
+            foreignKeyName: "leave_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -476,33 +729,332 @@ export type Database = {
           },
         ]
       }
-      organizations: {
+      notification_deliveries: {
         Row: {
+          attempts: number
+          channel: string
           created_at: string
-          created_by: string | null
-          description: string | null
           id: string
-          logo_url: string | null
-          name: string
-          updated_at: string
-        }
-        Insert: {
+          last_error: string | null
+          payload: Json
+          sent_at: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          payload?: Json
+          sent_at?: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          payload?: Json
+          sent_at?: string | null
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          digest: boolean
+          email: boolean
+          in_app: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          digest?: boolean
+          email?: boolean
+          in_app?: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          digest?: boolean
+          email?: boolean
+          in_app?: boolean
+          type?: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          organization_id: string | null
+          payload: Json
+          read_at: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          payload?: Json
+          read_at?: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          payload?: Json
+          read_at?: string | null
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["user_role"]
+          used_at: string | null
+          used_by: string | null
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["user_role"]
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_invites_used_by_fkey"
+            columns: ["used_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          last_selected: boolean
+          organization_id: string
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_selected?: boolean
+          organization_id: string
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_selected?: boolean
+          organization_id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          annual_leave_days: number
+          attachment_allowed_types: string[]
+          attachment_max_size_mb: number
+          attendance_auto_close_hours: number | null
+          collaborator_points_mode: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_reminder_offsets: number[]
+          early_threshold_minutes: number | null
+          id: string
+          late_threshold_minutes: number | null
+          logo_url: string | null
+          name: string
+          notify_supervisor_on_overdue: boolean
+          sick_leave_days: number
+          timesheet_period: string
+          timesheet_period_anchor: string
+          timezone: string
+          updated_at: string
+          work_end_time: string | null
+          work_start_time: string | null
+          working_weekdays: number[]
+        }
+        Insert: {
+          annual_leave_days?: number
+          attachment_allowed_types?: string[]
+          attachment_max_size_mb?: number
+          attendance_auto_close_hours?: number | null
+          collaborator_points_mode?: string
           created_at?: string
           created_by?: string | null
           description?: string | null
+          due_reminder_offsets?: number[]
+          early_threshold_minutes?: number | null
           id?: string
+          late_threshold_minutes?: number | null
           logo_url?: string | null
           name: string
+          notify_supervisor_on_overdue?: boolean
+          sick_leave_days?: number
+          timesheet_period?: string
+          timesheet_period_anchor?: string
+          timezone?: string
           updated_at?: string
+          work_end_time?: string | null
+          work_start_time?: string | null
+          working_weekdays?: number[]
         }
         Update: {
+          annual_leave_days?: number
+          attachment_allowed_types?: string[]
+          attachment_max_size_mb?: number
+          attendance_auto_close_hours?: number | null
+          collaborator_points_mode?: string
           created_at?: string
           created_by?: string | null
           description?: string | null
+          due_reminder_offsets?: number[]
+          early_threshold_minutes?: number | null
           id?: string
+          late_threshold_minutes?: number | null
           logo_url?: string | null
           name?: string
+          notify_supervisor_on_overdue?: boolean
+          sick_leave_days?: number
+          timesheet_period?: string
+          timesheet_period_anchor?: string
+          timezone?: string
           updated_at?: string
+          work_end_time?: string | null
+          work_start_time?: string | null
+          working_weekdays?: number[]
         }
         Relationships: [
           {
@@ -630,24 +1182,34 @@ export type Database = {
       }
       project_members: {
         Row: {
+          added_by: string | null
           created_at: string
           project_id: string
           role: Database["public"]["Enums"]["user_role"]
           user_id: string
         }
         Insert: {
+          added_by?: string | null
           created_at?: string
           project_id: string
           role?: Database["public"]["Enums"]["user_role"]
           user_id: string
         }
         Update: {
+          added_by?: string | null
           created_at?: string
           project_id?: string
           role?: Database["public"]["Enums"]["user_role"]
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "project_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "project_members_project_id_fkey"
             columns: ["project_id"]
@@ -675,6 +1237,7 @@ export type Database = {
           owner_id: string
           updated_at: string
           current_phase: string | null
+          current_phase_id: string | null
         }
         Insert: {
           created_at?: string
@@ -686,6 +1249,7 @@ export type Database = {
           owner_id: string
           updated_at?: string
           current_phase?: string | null
+          current_phase_id?: string | null
         }
         Update: {
           created_at?: string
@@ -697,8 +1261,16 @@ export type Database = {
           owner_id?: string
           updated_at?: string
           current_phase?: string | null
+          current_phase_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "projects_current_phase_id_fkey"
+            columns: ["current_phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "projects_organization_id_fkey"
             columns: ["organization_id"]
@@ -722,35 +1294,82 @@ export type Database = {
           },
         ]
       }
-      redemptions: {
+      push_subscriptions: {
         Row: {
-          approved_at: string | null
-          code: string | null
+          auth: string
           created_at: string
-          fulfilled_by: string | null
+          endpoint: string
           id: string
-          points_spent: number
-          reward_id: string | null
-          status: Database["public"]["Enums"]["redemption_status"]
-          used_at: string | null
-          user_id: string | null
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
         }
         Insert: {
-          approved_at?: string | null
-          code?: string | null
+          auth: string
           created_at?: string
-          fulfilled_by?: string | null
+          endpoint: string
           id?: string
-          points_spent: number
-          reward_id?: string | null
-          status?: Database["public"]["Enums"]["redemption_status"]
-          used_at?: string | null
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      redemptions: {
+        Row: {
+          approved_at: string | null
+          cancelled_at: string | null
+          code: string | null
+          created_at: string
+          fulfilled_at: string | null
+          fulfilled_by: string | null
+          id: string
+          points_spent: number
+          reward_id: string | null
+          status: Database["public"]["Enums"]["redemption_status"]
+          used_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          cancelled_at?: string | null
+          code?: string | null
+          created_at?: string
+          fulfilled_at?: string | null
+          fulfilled_by?: string | null
+          id?: string
+          points_spent: number
+          reward_id?: string | null
+          status?: Database["public"]["Enums"]["redemption_status"]
+          used_at?: string | null
           user_id?: string | null
         }
         Update: {
           approved_at?: string | null
+          cancelled_at?: string | null
           code?: string | null
           created_at?: string
+          fulfilled_at?: string | null
           fulfilled_by?: string | null
           id?: string
           points_spent?: number
@@ -833,18 +1452,31 @@ export type Database = {
       }
       task_collaborators: {
         Row: {
+          added_by: string | null
+          created_at: string
           task_id: string
           user_id: string
         }
         Insert: {
+          added_by?: string | null
+          created_at?: string
           task_id: string
           user_id: string
         }
         Update: {
+          added_by?: string | null
+          created_at?: string
           task_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "task_collaborators_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "task_collaborators_task_id_fkey"
             columns: ["task_id"]
@@ -861,6 +1493,41 @@ export type Database = {
           },
         ]
       }
+      task_deadline_notices: {
+        Row: {
+          due_at: string
+          id: string
+          kind: string
+          offset_minutes: number
+          sent_at: string
+          task_id: string
+        }
+        Insert: {
+          due_at: string
+          id?: string
+          kind: string
+          offset_minutes?: number
+          sent_at?: string
+          task_id: string
+        }
+        Update: {
+          due_at?: string
+          id?: string
+          kind?: string
+          offset_minutes?: number
+          sent_at?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_deadline_notices_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assignee_id: string | null
@@ -869,6 +1536,7 @@ export type Database = {
           created_by: string | null
           description: string | null
           due_date: string | null
+          estimated_hours: number | null
           id: string
           phase_id: string | null
           priority: Database["public"]["Enums"]["task_priority"]
@@ -885,6 +1553,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
           phase_id?: string | null
           priority?: Database["public"]["Enums"]["task_priority"]
@@ -901,6 +1570,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
           phase_id?: string | null
           priority?: Database["public"]["Enums"]["task_priority"]
@@ -941,11 +1611,82 @@ export type Database = {
           },
         ]
       }
+      team_members: {
+        Row: {
+          id: string
+          joined_at: string | null
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          joined_at?: string | null
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          joined_at?: string | null
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          organization_id: string
+          supervisor_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          supervisor_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          supervisor_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       time_logs: {
         Row: {
           action: string
           duration: number | null
           id: string
+          note: string | null
           task_id: string
           timestamp: string
           user_id: string
@@ -954,6 +1695,7 @@ export type Database = {
           action: string
           duration?: number | null
           id?: string
+          note?: string | null
           task_id: string
           timestamp?: string
           user_id: string
@@ -962,6 +1704,7 @@ export type Database = {
           action?: string
           duration?: number | null
           id?: string
+          note?: string | null
           task_id?: string
           timestamp?: string
           user_id?: string
@@ -983,11 +1726,136 @@ export type Database = {
           },
         ]
       }
+      timesheet_entries: {
+        Row: {
+          attendance_minutes: number
+          clock_in_at: string | null
+          clock_out_at: string | null
+          id: string
+          local_date: string
+          overtime_minutes: number
+          regular_minutes: number
+          scheduled_minutes: number
+          status: string
+          task_minutes: number
+          timesheet_id: string
+        }
+        Insert: {
+          attendance_minutes?: number
+          clock_in_at?: string | null
+          clock_out_at?: string | null
+          id?: string
+          local_date: string
+          overtime_minutes?: number
+          regular_minutes?: number
+          scheduled_minutes?: number
+          status: string
+          task_minutes?: number
+          timesheet_id: string
+        }
+        Update: {
+          attendance_minutes?: number
+          clock_in_at?: string | null
+          clock_out_at?: string | null
+          id?: string
+          local_date?: string
+          overtime_minutes?: number
+          regular_minutes?: number
+          scheduled_minutes?: number
+          status?: string
+          task_minutes?: number
+          timesheet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_entries_timesheet_id_fkey"
+            columns: ["timesheet_id"]
+            isOneToOne: false
+            referencedRelation: "timesheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          approved_at: string
+          approved_by: string | null
+          attendance_minutes: number
+          id: string
+          note: string | null
+          organization_id: string
+          overtime_minutes: number
+          period_end: string
+          period_start: string
+          regular_minutes: number
+          task_minutes: number
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string
+          approved_by?: string | null
+          attendance_minutes?: number
+          id?: string
+          note?: string | null
+          organization_id: string
+          overtime_minutes?: number
+          period_end: string
+          period_start: string
+          regular_minutes?: number
+          task_minutes?: number
+          user_id: string
+        }
+        Update: {
+          approved_at?: string
+          approved_by?: string | null
+          attendance_minutes?: number
+          id?: string
+          note?: string | null
+          organization_id?: string
+          overtime_minutes?: number
+          period_end?: string
+          period_start?: string
+          regular_minutes?: number
+          task_minutes?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transfer_requests: {
         Row: {
           created_at: string
           decided_at: string | null
           decided_by: string | null
+          decision_note: string | null
           from_user_id: string | null
           id: string
           reason: string | null
@@ -999,6 +1867,7 @@ export type Database = {
           created_at?: string
           decided_at?: string | null
           decided_by?: string | null
+          decision_note?: string | null
           from_user_id?: string | null
           id?: string
           reason?: string | null
@@ -1010,6 +1879,7 @@ export type Database = {
           created_at?: string
           decided_at?: string | null
           decided_by?: string | null
+          decision_note?: string | null
           from_user_id?: string | null
           id?: string
           reason?: string | null
@@ -1052,18 +1922,24 @@ export type Database = {
         Row: {
           current_task_id: string | null
           status: string
+          status_expires_at: string | null
+          status_message: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           current_task_id?: string | null
           status?: string
+          status_expires_at?: string | null
+          status_message?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           current_task_id?: string | null
           status?: string
+          status_expires_at?: string | null
+          status_message?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -1117,6 +1993,166 @@ export type Database = {
         }
         Relationships: []
       }
+      work_schedule_assignments: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          id: string
+          organization_id: string
+          schedule_id: string
+          team_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          organization_id: string
+          schedule_id: string
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string
+          schedule_id?: string
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_schedule_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "work_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_schedule_days: {
+        Row: {
+          end_time: string
+          schedule_id: string
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          end_time: string
+          schedule_id: string
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          end_time?: string
+          schedule_id?: string
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_schedule_days_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "work_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_schedules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          early_threshold_minutes: number
+          id: string
+          late_threshold_minutes: number
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          early_threshold_minutes?: number
+          id?: string
+          late_threshold_minutes?: number
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          early_threshold_minutes?: number
+          id?: string
+          late_threshold_minutes?: number
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "my_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       my_organizations: {
@@ -1130,17 +2166,140 @@ export type Database = {
         }
         Relationships: []
       }
-    }
-    Functions: {
-      add_member_upsert: {
+    }
+    Functions: {
+      add_member_upsert: {
+        Args: {
+          p_org: string
+          p_role: Database["public"]["Enums"]["user_role"]
+          p_user: string
+        }
+        Returns: undefined
+      }
+      add_team_to_project: {
+        Args: {
+          p_project: string
+          p_role?: Database["public"]["Enums"]["user_role"]
+          p_team: string
+        }
+        Returns: number
+      }
+      adjust_attendance: {
+        Args: {
+          p_checkin: string
+          p_clock_in: string
+          p_clock_out: string
+          p_reason: string
+        }
+        Returns: {
+          auto_closed: boolean
+          clock_in_at: string
+          clock_out_at: string | null
+          created_at: string | null
+          entered_by: string | null
+          id: string
+          local_date: string | null
+          note: string | null
+          org_id: string
+          source: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "attendance_checkins"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      approve_timesheet: {
         Args: {
+          p_note?: string
           p_org: string
-          p_role: Database["public"]["Enums"]["user_role"]
+          p_period_start: string
           p_user: string
         }
-        Returns: undefined
+        Returns: {
+          approved_at: string
+          approved_by: string | null
+          attendance_minutes: number
+          id: string
+          note: string | null
+          organization_id: string
+          overtime_minutes: number
+          period_end: string
+          period_start: string
+          regular_minutes: number
+          task_minutes: number
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "timesheets"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      attachment_object_exists: {
+        Args: { p_name: string }
+        Returns: boolean
+      }
+      award_task_completion_points: {
+        Args: { p_task: string }
+        Returns: number
+      }
+      calculate_local_date:
+        | { Args: { clock_in_time: string }; Returns: string }
+        | { Args: { clock_in_time: string; p_org_id: string }; Returns: string }
+      can_access_attachment: {
+        Args: { p_task: string; p_uploader: string }
+        Returns: boolean
+      }
+      can_delete_attachment: {
+        Args: { p_task: string; p_uploader: string }
+        Returns: boolean
+      }
+      can_decide_transfer_request: {
+        Args: { p_from_user: string; p_task: string; p_to_user: string }
+        Returns: boolean
+      }
+      can_log_task_time: {
+        Args: { p_task: string; p_user?: string }
+        Returns: boolean
+      }
+      can_review_leave: {
+        Args: { p_org: string; p_user: string }
+        Returns: boolean
+      }
+      can_view_project: {
+        Args: { p_project: string; p_user?: string }
+        Returns: boolean
+      }
+      cancel_leave_request: {
+        Args: { p_request: string }
+        Returns: {
+          created_at: string
+          days: number
+          end_date: string
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          organization_id: string
+          reason: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "leave_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
       }
-      calculate_local_date: { Args: { clock_in_time: string }; Returns: string }
       can_manage_roles: {
         Args: {
           p_manager_role: Database["public"]["Enums"]["user_role"]
@@ -1160,16 +2319,24 @@ export type Database = {
         Args: { p_org_id: string; p_user_id: string }
         Returns: undefined
       }
+      close_stale_attendance: { Args: never; Returns: number }
+      count_leave_days: {
+        Args: { p_end: string; p_org: string; p_start: string; p_user: string }
+        Returns: number
+      }
       create_daily_checkin: {
         Args: { p_org_id: string; p_source?: string; p_user_id: string }
         Returns: {
+          auto_closed: boolean
           clock_in_at: string
           clock_out_at: string | null
           created_at: string | null
+          entered_by: string | null
           id: string
           local_date: string | null
+          note: string | null
           org_id: string
-          source: string | null
+          source: string
           updated_at: string | null
           user_id: string
         }
@@ -1184,7 +2351,80 @@ export type Database = {
         Args: { p_description?: string; p_name: string }
         Returns: string
       }
+      end_break: {
+        Args: { p_org_id: string }
+        Returns: {
+          checkin_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "attendance_breaks"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       ensure_user_profile: { Args: never; Returns: undefined }
+      format_time_until: {
+        Args: { p_minutes: number }
+        Returns: string
+      }
+      generate_redemption_code: { Args: never; Returns: string }
+      get_announcement_recipients: {
+        Args: { p_announcement: string }
+        Returns: {
+          full_name: string
+          read_at: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }[]
+      }
+      get_approved_leave_days: {
+        Args: { p_from: string; p_org: string; p_to: string }
+        Returns: {
+          leave_date: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          user_id: string
+        }[]
+      }
+      get_attendance_statuses: {
+        Args: { p_from: string; p_org: string; p_to: string; p_user?: string }
+        Returns: {
+          checkin_id: string
+          clock_in_at: string
+          clock_out_at: string
+          local_date: string
+          missing_clock_out: boolean
+          overtime: boolean
+          status: string
+          user_id: string
+          worked_minutes: number
+        }[]
+      }
+      get_effective_work_schedule: {
+        Args: { p_org: string; p_user: string }
+        Returns: string
+      }
+      get_estimate_report: {
+        Args: { p_org: string; p_since?: string }
+        Returns: {
+          actual_seconds: number
+          assignee_id: string
+          assignee_name: string
+          estimated_hours: number
+          phase_id: string
+          phase_name: string
+          project_id: string
+          project_name: string
+          status: string
+          task_id: string
+          task_type: string
+          title: string
+        }[]
+      }
       get_leaderboard: {
         Args: { p_org: string; p_since?: string }
         Returns: {
@@ -1198,6 +2438,139 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_leave_balances: {
+        Args: { p_org: string; p_user?: string; p_year?: number }
+        Returns: {
+          allowance: number | null
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          pending: number
+          remaining: number | null
+          used: number
+        }[]
+      }
+      get_member_shift: {
+        Args: { p_date: string; p_org: string; p_user: string }
+        Returns: {
+          early_threshold_minutes: number
+          late_threshold_minutes: number
+          shift_end: string
+          shift_start: string
+        }[]
+      }
+      get_member_work_schedules: {
+        Args: { p_org: string }
+        Returns: {
+          schedule_id: string
+          user_id: string
+        }[]
+      }
+      get_org_role: {
+        Args: { p_org: string; p_user?: string }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      get_org_timezone: { Args: { p_org: string }; Returns: string }
+      get_project_organization_id: {
+        Args: { p_project: string }
+        Returns: string
+      }
+      get_running_task_timer: {
+        Args: { p_org: string }
+        Returns: {
+          project_id: string
+          project_name: string
+          started_at: string
+          task_id: string
+          task_title: string
+          total_seconds: number
+        }[]
+      }
+      get_task_due_at: {
+        Args: { p_due_date: string; p_org: string }
+        Returns: string
+      }
+      get_task_minutes: {
+        Args: { p_from: string; p_org: string; p_to: string; p_user: string }
+        Returns: {
+          local_date: string
+          task_minutes: number
+        }[]
+      }
+      get_task_organization_id: {
+        Args: { p_task: string }
+        Returns: string
+      }
+      get_task_time_totals: {
+        Args: { p_tasks: string[] }
+        Returns: {
+          running_since: string
+          task_id: string
+          total_seconds: number
+        }[]
+      }
+      get_task_timer_start: {
+        Args: { p_task: string; p_user: string }
+        Returns: string
+      }
+      get_timesheet: {
+        Args: { p_from: string; p_org: string; p_to: string; p_user: string }
+        Returns: {
+          attendance_minutes: number
+          clock_in_at: string
+          clock_out_at: string
+          local_date: string
+          missing_clock_out: boolean
+          overtime_minutes: number
+          regular_minutes: number
+          scheduled_minutes: number
+          status: string
+          task_minutes: number
+        }[]
+      }
+      get_timesheet_period: {
+        Args: { p_date: string; p_org: string }
+        Returns: {
+          period_end: string
+          period_start: string
+        }[]
+      }
+      get_timesheet_summaries: {
+        Args: { p_org: string; p_period_start: string }
+        Returns: {
+          approved_at: string
+          attendance_minutes: number
+          email: string
+          full_name: string
+          open_days: number
+          overtime_minutes: number
+          regular_minutes: number
+          task_minutes: number
+          timesheet_id: string
+          user_id: string
+        }[]
+      }
+      get_unread_notification_counts: {
+        Args: { p_org?: string }
+        Returns: {
+          type: string
+          unread_count: number
+        }[]
+      }
+      get_unread_notification_counts_by_organization: {
+        Args: never
+        Returns: {
+          organization_id: string
+          organization_name: string
+          unread_count: number
+        }[]
+      }
+      is_allowed_attachment: {
+        Args: { p_content_type: string; p_org: string; p_size: number }
+        Returns: boolean
+      }
+      is_announcement_recipient: {
+        Args: { p_announcement: string; p_user?: string }
+        Returns: boolean
+      }
       is_org_creator: {
         Args: { p_org: string; p_user?: string }
         Returns: boolean
@@ -1206,14 +2579,187 @@ export type Database = {
         Args: { p_org: string; p_user?: string }
         Returns: boolean
       }
+      is_project_member: {
+        Args: { p_project: string; p_user?: string }
+        Returns: boolean
+      }
+      is_task_collaborator: {
+        Args: { p_task: string; p_user?: string }
+        Returns: boolean
+      }
+      is_timesheet_locked: {
+        Args: { p_date: string; p_org: string; p_user: string }
+        Returns: boolean
+      }
+      is_valid_timezone: { Args: { p_timezone: string }; Returns: boolean }
+      is_working_day: {
+        Args: { p_date: string; p_org: string; p_user: string }
+        Returns: boolean
+      }
+      log_task_time: {
+        Args: {
+          p_minutes: number
+          p_note?: string
+          p_started_at: string
+          p_task: string
+        }
+        Returns: string
+      }
+      mark_overdue_tasks: { Args: never; Returns: number }
+      process_task_deadlines: { Args: never; Returns: Json }
+      record_manual_attendance: {
+        Args: {
+          p_clock_in: string
+          p_clock_out: string
+          p_note?: string
+          p_org_id: string
+          p_user_id: string
+        }
+        Returns: {
+          auto_closed: boolean
+          clock_in_at: string
+          clock_out_at: string | null
+          created_at: string | null
+          entered_by: string | null
+          id: string
+          local_date: string | null
+          note: string | null
+          org_id: string
+          source: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "attendance_checkins"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      redeem_reward: {
+        Args: { p_reward: string }
+        Returns: {
+          balance_after: number
+          redemption_id: string
+        }[]
+      }
+      register_push_subscription: {
+        Args: {
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+          p_user_agent?: string
+        }
+        Returns: string
+      }
       remove_member: {
         Args: { p_org: string; p_user: string }
         Returns: undefined
       }
+      reopen_timesheet: {
+        Args: { p_timesheet: string }
+        Returns: undefined
+      }
+      review_attendance_correction: {
+        Args: {
+          p_correction: string
+          p_note?: string
+          p_status: Database["public"]["Enums"]["request_status"]
+        }
+        Returns: {
+          checkin_id: string | null
+          correction_type: Database["public"]["Enums"]["attendance_correction_type"]
+          created_at: string
+          id: string
+          local_date: string
+          organization_id: string
+          reason: string
+          requested_clock_in_at: string | null
+          requested_clock_out_at: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["request_status"]
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "attendance_corrections"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      review_leave_request: {
+        Args: {
+          p_note?: string
+          p_request: string
+          p_status: Database["public"]["Enums"]["leave_status"]
+        }
+        Returns: {
+          created_at: string
+          days: number
+          end_date: string
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          organization_id: string
+          reason: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "leave_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      send_due_date_reminders: { Args: never; Returns: number }
+      send_notification_emails: {
+        Args: { p_mode?: string }
+        Returns: undefined
+      }
+      set_attendance_audit_context: {
+        Args: { p_action: string; p_reason?: string }
+        Returns: undefined
+      }
       share_org: {
         Args: { p_user_a: string; p_user_b: string }
         Returns: boolean
       }
+      start_break: {
+        Args: { p_org_id: string }
+        Returns: {
+          checkin_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "attendance_breaks"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      start_task_timer: {
+        Args: { p_task: string }
+        Returns: string
+      }
+      stop_task_timer: {
+        Args: { p_action?: string; p_task: string }
+        Returns: number
+      }
+      swap_project_phases: {
+        Args: { p_other: string; p_phase: string }
+        Returns: undefined
+      }
       switch_organization: {
         Args: { p_org_id: string; p_user_id: string }
         Returns: undefined
@@ -1222,8 +2768,37 @@ export type Database = {
         Args: { p_new_owner: string; p_org: string }
         Returns: undefined
       }
+      update_redemption_status: {
+        Args: {
+          p_redemption: string
+          p_status: Database["public"]["Enums"]["redemption_status"]
+        }
+        Returns: {
+          approved_at: string | null
+          cancelled_at: string | null
+          code: string | null
+          created_at: string
+          fulfilled_at: string | null
+          fulfilled_by: string | null
+          id: string
+          points_spent: number
+          reward_id: string | null
+          status: Database["public"]["Enums"]["redemption_status"]
+          used_at: string | null
+          user_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "redemptions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
     }
     Enums: {
+      attendance_correction_type: "missing_clock_in" | "missing_clock_out" | "wrong_time"
+      leave_status: "pending" | "approved" | "rejected" | "cancelled"
+      leave_type: "annual" | "sick" | "unpaid"
       notification_type:
         | "task_assigned"
         | "task_due_changed"
@@ -1233,17 +2808,29 @@ export type Database = {
         | "extension_requested"
         | "extension_approved"
         | "extension_rejected"
+        | "transfer_requested"
         | "transfer_approved"
         | "transfer_rejected"
         | "reward_redeemed"
         | "reward_fulfilled"
         | "announcement"
         | "member_joined"
+        | "reward_confirmed"
+        | "reward_cancelled"
+        | "leave_requested"
+        | "leave_approved"
+        | "leave_rejected"
+        | "correction_requested"
+        | "correction_approved"
+        | "correction_rejected"
+        | "task_overdue"
+        | "points_earned"
+        | "member_joined"
       redemption_status: "pending" | "confirmed" | "fulfilled" | "cancelled"
       request_status: "pending" | "approved" | "rejected"
       task_priority: "low" | "medium" | "high" | "urgent"
       task_status: "todo" | "in_progress" | "overdue" | "done" | "submitted"
-      timelog_action: "start" | "pause" | "resume" | "complete"
+      timelog_action: "start" | "pause" | "resume" | "complete" | "manual"
       user_role: "owner" | "admin" | "supervisor" | "employee"
     }
     CompositeTypes: {
@@ -1372,6 +2959,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      attendance_correction_type: ["missing_clock_in", "missing_clock_out", "wrong_time"],
+      leave_status: ["pending", "approved", "rejected", "cancelled"],
+      leave_type: ["annual", "sick", "unpaid"],
       notification_type: [
         "task_assigned",
         "task_due_changed",
@@ -1381,18 +2971,30 @@ export const Constants = {
         "extension_requested",
         "extension_approved",
         "extension_rejected",
+        "transfer_requested",
         "transfer_approved",
         "transfer_rejected",
         "reward_redeemed",
         "reward_fulfilled",
         "announcement",
         "member_joined",
+        "reward_confirmed",
+        "reward_cancelled",
+        "leave_requested",
+        "leave_approved",
+        "leave_rejected",
+        "correction_requested",
+        "correction_approved",
+        "correction_rejected",
+        "task_overdue",
+        "points_earned",
+        "member_joined",
       ],
       redemption_status: ["pending", "confirmed", "fulfilled", "cancelled"],
       request_status: ["pending", "approved", "rejected"],
       task_priority: ["low", "medium", "high", "urgent"],
       task_status: ["todo", "in_progress", "overdue", "done", "submitted"],
-      timelog_action: ["start", "pause", "resume", "complete"],
+      timelog_action: ["start", "pause", "resume", "complete", "manual"],
       user_role: ["owner", "admin", "supervisor", "employee"],
     },
   },
@@ -0,0 +1,101 @@
+import { format } from "date-fns";
+
+export interface ActivityEvent {
+  id: string;
+  action: string;
+  entity: string;
+  entity_id: string | null;
+  project_id: string | null;
+  actor_id: string | null;
+  created_at: string;
+  payload: Record<string, unknown> | null;
+  actor: {
+    full_name: string | null;
+  } | null;
+}
+
+// Columns selected for every activity query, including the actor's name
+export const ACTIVITY_EVENT_SELECT = `
+  id, action, entity, entity_id, project_id, actor_id, created_at, payload,
+  actor:users!events_actor_id_fkey(full_name)
+`;
+
+export const ACTIVITY_ENTITIES = [
+  { value: "task", label: "Tasks" },
+  { value: "member", label: "Members" },
+  { value: "redemption", label: "Redemptions" },
+  { value: "project", label: "Projects" },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  submitted: "Submitted",
+  done: "Done",
+  overdue: "Overdue",
+};
+
+const formatStatus = (status: unknown) =>
+  typeof status === "string" ? STATUS_LABELS[status] ?? status : "none";
+
+const formatRole = (role: unknown) =>
+  typeof role === "string" ? role.charAt(0).toUpperCase() + role.slice(1) : "none";
+
+const formatDue = (value: unknown) =>
+  typeof value === "string" ? format(new Date(value), "MMM d, yyyy") : "no due date";
+
+// Human readable sentence for an event. When `withSubject` is false the
+// task/project name is left out (used inside the per-task history).
+export const describeActivityEvent = (event: ActivityEvent, withSubject = true) => {
+  const p = event.payload ?? {};
+  const task = withSubject && p.task_title ? ` "${p.task_title}"` : "";
+
+  switch (event.action) {
+    case "status_changed":
+      return `moved${task} from ${formatStatus(p.from)} to ${formatStatus(p.to)}`;
+    case "reassigned":
+      return p.to_name
+        ? `reassigned${task} to ${p.to_name}${p.from_name ? ` (was ${p.from_name})` : ""}`
+        : `unassigned${task}${p.from_name ? ` from ${p.from_name}` : ""}`;
+    case "due_date_changed":
+      return `changed the due date${task ? ` of${task}` : ""} from ${formatDue(p.from)} to ${formatDue(p.to)}`;
+    case "extension_approved":
+      return `approved ${p.requester_name ? `${p.requester_name}'s` : "an"} extension request${task ? ` for${task}` : ""}`;
+    case "extension_rejected":
+      return `rejected ${p.requester_name ? `${p.requester_name}'s` : "an"} extension request${task ? ` for${task}` : ""}`;
+    case "role_changed":
+      return `changed ${p.member_name ?? "a member"}'s role from ${formatRole(p.from)} to ${formatRole(p.to)}`;
+    case "member_removed":
+      return `removed ${p.member_name ?? "a member"} (${formatRole(p.role)}) from the organization`;
+    case "member_left":
+      return `left the organization`;
+    case "reward_redeemed":
+      return `redeemed "${p.reward_title ?? "a reward"}" for ${p.points_spent ?? 0} points`;
+    case "phase_changed":
+      return `moved${withSubject && p.project_name ? ` "${p.project_name}"` : " the project"} from ${p.from ?? "no phase"} to ${p.to ?? "no phase"}`;
+    default:
+      return event.action.replace(/_/g, " ");
+  }
+};
+
+// Tailwind classes for the dot shown next to each event
+export const getActivityColor = (action: string) => {
+  switch (action) {
+    case "status_changed":
+      return "bg-primary";
+    case "reassigned":
+      return "bg-blue-500";
+    case "due_date_changed":
+    case "phase_changed":
+      return "bg-warning";
+    case "extension_approved":
+    case "reward_redeemed":
+      return "bg-success";
+    case "extension_rejected":
+    case "member_removed":
+    case "member_left":
+      return "bg-destructive";
+    default:
+      return "bg-muted-foreground";
+  }
+};
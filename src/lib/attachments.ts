@@ -0,0 +1,80 @@
+export interface AttachmentTypeCategory {
+  key: string;
+  label: string;
+  description: string;
+  patterns: string[];
+}
+
+// Groups of MIME patterns an organization can allow for task attachments.
+// The patterns are stored as-is in organizations.attachment_allowed_types.
+export const ATTACHMENT_TYPE_CATEGORIES: AttachmentTypeCategory[] = [
+  {
+    key: "images",
+    label: "Images",
+    description: "PNG, JPG, GIF, WebP, SVG",
+    patterns: ["image/*"],
+  },
+  {
+    key: "pdf",
+    label: "PDF",
+    description: "PDF documents",
+    patterns: ["application/pdf"],
+  },
+  {
+    key: "office",
+    label: "Office documents",
+    description: "Word, Excel, PowerPoint",
+    patterns: [
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.*",
+      "application/vnd.ms-excel",
+      "application/vnd.ms-powerpoint",
+    ],
+  },
+  {
+    key: "text",
+    label: "Text & CSV",
+    description: "Plain text and CSV files",
+    patterns: ["text/plain", "text/csv"],
+  },
+  {
+    key: "archives",
+    label: "Archives",
+    description: "ZIP archives",
+    patterns: ["application/zip", "application/x-zip-compressed"],
+  },
+  {
+    key: "video",
+    label: "Video",
+    description: "MP4, WebM, MOV",
+    patterns: ["video/*"],
+  },
+];
+
+export const DEFAULT_ATTACHMENT_MAX_SIZE_MB = 10;
+
+export const DEFAULT_ATTACHMENT_ALLOWED_TYPES = ATTACHMENT_TYPE_CATEGORIES
+  .filter((c) => ["images", "pdf", "office", "text"].includes(c.key))
+  .flatMap((c) => c.patterns);
+
+export const TASK_ATTACHMENTS_BUCKET = "task-attachments";
+
+// Mirrors the LIKE matching done by the enforce_attachment_limits trigger
+export const isAllowedAttachmentType = (contentType: string, allowedTypes: string[]) => {
+  if (allowedTypes.length === 0) return true;
+  return allowedTypes.some((pattern) =>
+    pattern.endsWith("*")
+      ? contentType.startsWith(pattern.slice(0, -1))
+      : contentType === pattern
+  );
+};
+
+export const isImageAttachment = (contentType?: string | null) => !!contentType?.startsWith("image/");
+
+export const isPdfAttachment = (contentType?: string | null) => contentType === "application/pdf";
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
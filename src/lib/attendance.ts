@@ -0,0 +1,280 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type AttendanceSource = "web" | "kiosk" | "manual";
+
+export const ATTENDANCE_SOURCES: Array<{ value: AttendanceSource; label: string }> = [
+  { value: "web", label: "Web" },
+  { value: "kiosk", label: "Kiosk" },
+  { value: "manual", label: "Manual" },
+];
+
+export const getAttendanceSourceLabel = (source: string | null | undefined) =>
+  ATTENDANCE_SOURCES.find((s) => s.value === source)?.label ?? "Web";
+
+export interface AttendanceBreak {
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface AttendanceSession {
+  id: string;
+  clock_in_at: string;
+  clock_out_at: string | null;
+  local_date: string | null;
+  source: string;
+  auto_closed?: boolean;
+  breaks?: AttendanceBreak[] | null;
+}
+
+// Select columns for a check-in together with its breaks
+export const ATTENDANCE_SESSION_COLUMNS = "*, breaks:attendance_breaks(started_at, ended_at)";
+
+// Breaks still in progress count up to `now`
+export const getBreakMilliseconds = (breaks: AttendanceBreak[] | null | undefined, now: Date = new Date()) =>
+  (breaks || []).reduce((total, b) => {
+    const end = b.ended_at ? new Date(b.ended_at) : now;
+    return total + Math.max(0, end.getTime() - new Date(b.started_at).getTime());
+  }, 0);
+
+// Time between clock-in and clock-out (or `now` while clocked in) minus breaks
+export const getWorkedMilliseconds = (
+  session: Pick<AttendanceSession, "clock_in_at" | "clock_out_at" | "breaks">,
+  now: Date = new Date()
+) => {
+  const end = session.clock_out_at ? new Date(session.clock_out_at) : now;
+  const span = end.getTime() - new Date(session.clock_in_at).getTime();
+  return Math.max(0, span - getBreakMilliseconds(session.breaks, end));
+};
+
+export const getOpenBreak = (session: AttendanceSession | null) =>
+  session?.breaks?.find((b) => !b.ended_at) ?? null;
+
+// "7h 45m"
+export const formatDuration = (milliseconds: number) => {
+  const totalMinutes = Math.floor(milliseconds / (1000 * 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h ${minutes}m`;
+};
+
+export type AttendanceCorrectionType = Database["public"]["Enums"]["attendance_correction_type"];
+export type AttendanceCorrectionStatus = Database["public"]["Enums"]["request_status"];
+
+export const CORRECTION_TYPES: Array<{ value: AttendanceCorrectionType; label: string; description: string }> = [
+  { value: "missing_clock_in", label: "Missing Clock-In", description: "I worked but did not clock in" },
+  { value: "missing_clock_out", label: "Missing Clock-Out", description: "I forgot to clock out" },
+  { value: "wrong_time", label: "Wrong Time", description: "A recorded time is wrong" },
+];
+
+export const getCorrectionTypeLabel = (type: AttendanceCorrectionType) =>
+  CORRECTION_TYPES.find((t) => t.value === type)?.label ?? type;
+
+// Hints raised by the clock-in, break, manual entry and correction functions,
+// and by the timesheet lock on check-ins and corrections
+export type AttendanceErrorCode =
+  | "invalid_source"
+  | "not_clocked_in"
+  | "already_on_break"
+  | "not_on_break"
+  | "not_allowed"
+  | "invalid_range"
+  | "future_attendance"
+  | "attendance_exists"
+  | "attendance_not_found"
+  | "missing_time"
+  | "already_clocked_out"
+  | "wrong_date"
+  | "reason_required"
+  | "already_reviewed"
+  | "period_locked";
+
+export const ATTENDANCE_ERRORS: Record<AttendanceErrorCode, { title: string; description: string }> = {
+  invalid_source: {
+    title: "Invalid Source",
+    description: "Clock-ins can only be recorded from the web",
+  },
+  not_clocked_in: {
+    title: "Not Clocked In",
+    description: "Clock in before starting a break",
+  },
+  already_on_break: {
+    title: "Already on a Break",
+    description: "End your current break before starting another one",
+  },
+  not_on_break: {
+    title: "Not on a Break",
+    description: "There is no break in progress to end",
+  },
+  not_allowed: {
+    title: "Not Allowed",
+    description: "You can't record attendance for this member",
+  },
+  invalid_range: {
+    title: "Invalid Times",
+    description: "Clock-out must be after clock-in",
+  },
+  future_attendance: {
+    title: "Invalid Times",
+    description: "Attendance cannot be recorded in the future",
+  },
+  attendance_exists: {
+    title: "Attendance Exists",
+    description: "This member already has attendance on that date",
+  },
+  attendance_not_found: {
+    title: "No Attendance",
+    description: "There is no attendance on that date to correct",
+  },
+  missing_time: {
+    title: "Missing Time",
+    description: "Enter the time that should be recorded",
+  },
+  already_clocked_out: {
+    title: "Already Clocked Out",
+    description: "This attendance already has a clock-out; request a time correction instead",
+  },
+  wrong_date: {
+    title: "Wrong Date",
+    description: "The clock-in time must be on the selected date",
+  },
+  reason_required: {
+    title: "Reason Required",
+    description: "Please give a reason for the change",
+  },
+  already_reviewed: {
+    title: "Already Reviewed",
+    description: "This correction request has already been reviewed",
+  },
+  period_locked: {
+    title: "Timesheet Approved",
+    description: "The timesheet of this period is approved; ask an owner or admin to reopen it",
+  },
+};
+
+// Maps an error raised by the attendance functions to a user facing message
+export const getAttendanceError = (error: unknown) => {
+  const hint = (error as { hint?: unknown } | null)?.hint;
+  return typeof hint === "string" && hint in ATTENDANCE_ERRORS ? ATTENDANCE_ERRORS[hint as AttendanceErrorCode] : null;
+};
+
+// The member's open check-in in the organization, or else their check-in on
+// the organization's current local date
+export async function fetchCurrentAttendance(organizationId: string, userId: string): Promise<AttendanceSession | null> {
+  const { data: open, error } = await supabase
+    .from("attendance_checkins")
+    .select(ATTENDANCE_SESSION_COLUMNS)
+    .eq("org_id", organizationId)
+    .eq("user_id", userId)
+    .is("clock_out_at", null)
+    .order("clock_in_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (open) return open as AttendanceSession;
+
+  const { data: localDate, error: dateError } = await supabase.rpc("calculate_local_date", {
+    clock_in_time: new Date().toISOString(),
+    p_org_id: organizationId,
+  });
+
+  if (dateError) throw dateError;
+
+  const { data: today, error: todayError } = await supabase
+    .from("attendance_checkins")
+    .select(ATTENDANCE_SESSION_COLUMNS)
+    .eq("org_id", organizationId)
+    .eq("user_id", userId)
+    .eq("local_date", localDate)
+    .maybeSingle();
+
+  if (todayError) throw todayError;
+  return today as AttendanceSession | null;
+}
+
+// Clocking in again after clocking out on the same day resumes the day's
+// check-in and records the time away as a break
+export async function clockIn(organizationId: string, userId: string, source: "web" = "web") {
+  const { data, error } = await supabase.rpc("create_daily_checkin", {
+    p_org_id: organizationId,
+    p_user_id: userId,
+    p_source: source,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function clockOut(organizationId: string, userId: string) {
+  const { error } = await supabase.rpc("clock_out_from_org", {
+    p_org_id: organizationId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
+
+export async function startBreak(organizationId: string) {
+  const { data, error } = await supabase.rpc("start_break", { p_org_id: organizationId });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function endBreak(organizationId: string) {
+  const { data, error } = await supabase.rpc("end_break", { p_org_id: organizationId });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function recordManualAttendance(
+  organizationId: string,
+  userId: string,
+  clockInAt: Date,
+  clockOutAt: Date,
+  note?: string
+) {
+  const { data, error } = await supabase.rpc("record_manual_attendance", {
+    p_org_id: organizationId,
+    p_user_id: userId,
+    p_clock_in: clockInAt.toISOString(),
+    p_clock_out: clockOutAt.toISOString(),
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Owner/admin edit of a recorded session; the reason is kept in the audit trail
+export async function adjustAttendance(checkinId: string, clockInAt: Date, clockOutAt: Date, reason: string) {
+  const { data, error } = await supabase.rpc("adjust_attendance", {
+    p_checkin: checkinId,
+    p_clock_in: clockInAt.toISOString(),
+    p_clock_out: clockOutAt.toISOString(),
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function reviewAttendanceCorrection(correctionId: string, status: "approved" | "rejected", note?: string) {
+  const { data, error } = await supabase.rpc("review_attendance_correction", {
+    p_correction: correctionId,
+    p_status: status,
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Only pending requests can be withdrawn
+export async function withdrawAttendanceCorrection(correctionId: string) {
+  const { error } = await supabase.from("attendance_corrections").delete().eq("id", correctionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+import { getAttendanceDay } from "@/lib/attendanceStatus";
+import { WorkSchedule } from "@/lib/workSchedules";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const TIME_ZONE = "Asia/Kuala_Lumpur";
+
+// Weekdays 09:00–17:00, Kuala Lumpur time (UTC+8); 2025-11-10 is a Monday
+const officeHours: WorkSchedule = {
+  id: "office",
+  name: "Office hours",
+  early_threshold_minutes: 15,
+  late_threshold_minutes: 10,
+  days: [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start_time: "09:00:00", end_time: "17:00:00" })),
+};
+
+const nightShift: WorkSchedule = {
+  ...officeHours,
+  id: "night",
+  name: "Night shift",
+  days: [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start_time: "22:00:00", end_time: "06:00:00" })),
+};
+
+const at = (localDateTime: string) => new Date(`${localDateTime}+08:00`);
+
+const day = (
+  clockIn: string,
+  session: { clock_out_at?: string | null; auto_closed?: boolean } = {},
+  schedule = officeHours
+) =>
+  getAttendanceDay({
+    schedule,
+    timeZone: TIME_ZONE,
+    localDate: clockIn.slice(0, 10),
+    session: {
+      clock_in_at: at(clockIn).toISOString(),
+      clock_out_at: session.clock_out_at ? at(session.clock_out_at).toISOString() : session.clock_out_at,
+      auto_closed: session.auto_closed,
+    },
+    now: at("2025-11-10T20:00:00"),
+  });
+
+describe("getAttendanceDay", () => {
+  describe("arrival", () => {
+    it("is early exactly at the early threshold", () => {
+      expect(day("2025-11-10T08:45:00").status).toBe("early");
+    });
+
+    it("is on time just inside the early threshold", () => {
+      expect(day("2025-11-10T08:45:01").status).toBe("on-time");
+    });
+
+    it("is on time exactly at the late threshold", () => {
+      expect(day("2025-11-10T09:10:00").status).toBe("on-time");
+    });
+
+    it("is late just past the late threshold", () => {
+      expect(day("2025-11-10T09:10:01").status).toBe("late");
+    });
+
+    it("is absent when clocking in after the shift ended", () => {
+      expect(day("2025-11-10T17:00:01").status).toBe("absent");
+    });
+
+    it("is judged against the previous evening for night shifts", () => {
+      expect(day("2025-11-11T00:30:00", {}, nightShift).status).toBe("late");
+      expect(day("2025-11-10T21:45:00", {}, nightShift).status).toBe("early");
+    });
+  });
+
+  describe("leaving", () => {
+    it("is not overtime when clocking out at the end of the shift", () => {
+      expect(day("2025-11-10T09:00:00", { clock_out_at: "2025-11-10T17:00:00" }).overtime).toBe(false);
+    });
+
+    it("is not overtime when leaving before the end of the shift", () => {
+      expect(day("2025-11-10T09:00:00", { clock_out_at: "2025-11-10T16:00:00" }).overtime).toBe(false);
+    });
+
+    it("is overtime when clocking out after the end of the shift", () => {
+      expect(day("2025-11-10T09:00:00", { clock_out_at: "2025-11-10T17:00:01" }).overtime).toBe(true);
+    });
+
+    it("is overtime on a day without a shift", () => {
+      const saturday = day("2025-11-15T09:00:00", { clock_out_at: "2025-11-15T10:00:00" });
+      expect(saturday.status).toBe("on-time");
+      expect(saturday.overtime).toBe(true);
+    });
+  });
+
+  describe("clock-out", () => {
+    it("counts a real clock-out", () => {
+      const result = day("2025-11-10T09:00:00", { clock_out_at: "2025-11-10T17:00:00" });
+      expect(result.missingClockOut).toBe(false);
+      expect(result.workedMilliseconds).toBe(8 * 60 * 60 * 1000);
+    });
+
+    it("is missing while the session is still open and counts up to now", () => {
+      const result = day("2025-11-10T09:00:00");
+      expect(result.missingClockOut).toBe(true);
+      expect(result.overtime).toBe(false);
+      expect(result.workedMilliseconds).toBe(11 * 60 * 60 * 1000);
+    });
+
+    it("is missing when the session was closed automatically", () => {
+      const result = day("2025-11-10T09:00:00", { clock_out_at: "2025-11-10T21:00:00", auto_closed: true });
+      expect(result.missingClockOut).toBe(true);
+      expect(result.overtime).toBe(false);
+    });
+  });
+
+  describe("without a clock-in", () => {
+    const noSession = (localDate: string, excused = false) =>
+      getAttendanceDay({
+        schedule: officeHours,
+        timeZone: TIME_ZONE,
+        localDate,
+        excused,
+        now: at("2025-11-11T12:00:00"),
+      }).status;
+
+    it("is absent once the shift is over", () => {
+      expect(noSession("2025-11-10")).toBe("absent");
+    });
+
+    it("is upcoming while the shift is not over", () => {
+      expect(noSession("2025-11-11")).toBe("upcoming");
+    });
+
+    it("is excused on a holiday or leave", () => {
+      expect(noSession("2025-11-10", true)).toBe("excused");
+    });
+
+    it("is a day off without a shift", () => {
+      expect(noSession("2025-11-15")).toBe("day-off");
+    });
+  });
+});
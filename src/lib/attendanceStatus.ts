@@ -0,0 +1,127 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AttendanceBreak, getWorkedMilliseconds } from "@/lib/attendance";
+import { ArrivalStatus, WorkSchedule, getArrivalStatus, getShift, hasOvertime, isAfterShiftEnd } from "@/lib/workSchedules";
+
+// Status of one member on one local date. This is the single definition used
+// by every attendance page; get_attendance_statuses computes the same in the
+// database for the dashboards.
+//  - early / on-time / late: clocked in, judged against the shift start
+//  - absent: no clock-in once the shift is over, or a clock-in after it ended
+//  - excused: no clock-in on a holiday or a day of approved leave
+//  - day-off: no clock-in and no shift on the date
+//  - upcoming: no clock-in yet, but the shift is not over
+export type AttendanceDayStatus = ArrivalStatus | "absent" | "excused" | "day-off" | "upcoming";
+
+export const ATTENDED_STATUSES: AttendanceDayStatus[] = ["early", "on-time", "late"];
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceDayStatus, string> = {
+  early: "Early",
+  "on-time": "On Time",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+  "day-off": "Day Off",
+  upcoming: "Not Yet",
+};
+
+export interface AttendanceDaySession {
+  clock_in_at: string;
+  clock_out_at?: string | null;
+  auto_closed?: boolean;
+  breaks?: AttendanceBreak[] | null;
+}
+
+export interface AttendanceDay {
+  status: AttendanceDayStatus;
+  // Worked past the end of the shift (or on a day off). Sessions without a
+  // real clock-out are never overtime.
+  overtime: boolean;
+  // Still open, or closed automatically instead of by a clock-out
+  missingClockOut: boolean;
+  workedMilliseconds: number;
+}
+
+export interface AttendanceDayInput {
+  schedule: WorkSchedule;
+  timeZone: string;
+  localDate: string;
+  session?: AttendanceDaySession | null;
+  // A holiday or approved leave on the date
+  excused?: boolean;
+  now?: Date;
+}
+
+export const isAttended = (status: AttendanceDayStatus) => ATTENDED_STATUSES.includes(status);
+
+export const getAttendanceDay = ({
+  schedule,
+  timeZone,
+  localDate,
+  session,
+  excused = false,
+  now = new Date(),
+}: AttendanceDayInput): AttendanceDay => {
+  if (!session) {
+    const shift = getShift(schedule, localDate, timeZone);
+    return {
+      status: excused ? "excused" : !shift ? "day-off" : now > shift.end ? "absent" : "upcoming",
+      overtime: false,
+      missingClockOut: false,
+      workedMilliseconds: 0,
+    };
+  }
+
+  const clockIn = new Date(session.clock_in_at);
+  const hasClockOut = !!session.clock_out_at && !session.auto_closed;
+
+  return {
+    status: isAfterShiftEnd(schedule, clockIn, timeZone) ? "absent" : getArrivalStatus(schedule, clockIn, timeZone),
+    overtime: hasClockOut && hasOvertime(schedule, clockIn, new Date(session.clock_out_at!), timeZone),
+    missingClockOut: !hasClockOut,
+    workedMilliseconds: getWorkedMilliseconds(
+      { clock_in_at: session.clock_in_at, clock_out_at: session.clock_out_at ?? null, breaks: session.breaks },
+      now
+    ),
+  };
+};
+
+export interface AttendanceStatusRow {
+  user_id: string;
+  local_date: string;
+  status: AttendanceDayStatus;
+  checkin_id: string | null;
+  clock_in_at: string | null;
+  clock_out_at: string | null;
+  worked_minutes: number;
+  overtime: boolean;
+  missing_clock_out: boolean;
+}
+
+// Per-day statuses computed by the database, for every member or one member
+export async function fetchAttendanceStatuses(
+  organizationId: string,
+  from: string,
+  to: string,
+  userId?: string
+): Promise<AttendanceStatusRow[]> {
+  const { data, error } = await supabase.rpc("get_attendance_statuses", {
+    p_org: organizationId,
+    p_from: from,
+    p_to: to,
+    p_user: userId,
+  });
+
+  if (error) throw error;
+  return (data || []) as AttendanceStatusRow[];
+}
+
+// Statuses of every member on the organization's current local date
+export async function fetchTodayAttendanceStatuses(organizationId: string): Promise<AttendanceStatusRow[]> {
+  const { data: today, error } = await supabase.rpc("calculate_local_date", {
+    clock_in_time: new Date().toISOString(),
+    p_org_id: organizationId,
+  });
+
+  if (error) throw error;
+  return fetchAttendanceStatuses(organizationId, today, today);
+}
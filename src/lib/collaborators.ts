@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type CollaboratorPointsMode = "duplicate" | "split";
+
+export const COLLABORATOR_POINTS_MODES: Array<{ value: CollaboratorPointsMode; label: string; description: string }> = [
+  {
+    value: "duplicate",
+    label: "Duplicate",
+    description: "The assignee and every collaborator earn the full completion points",
+  },
+  {
+    value: "split",
+    label: "Split",
+    description: "Completion points are divided evenly between the assignee and collaborators",
+  },
+];
+
+export const DEFAULT_COLLABORATOR_POINTS_MODE: CollaboratorPointsMode = "duplicate";
+
+// Shape of the embedded
+// collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
+export interface TaskCollaborator {
+  user_id: string;
+  user: { full_name: string } | null;
+}
+
+export const formatCollaboratorNames = (collaborators?: TaskCollaborator[] | null) =>
+  (collaborators || []).map((c) => c.user?.full_name || "Unknown").join(", ");
+
+// Ids of the tasks the user collaborates on (without being the assignee)
+export async function fetchCollaboratingTaskIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("task_collaborators")
+    .select("task_id")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.task_id);
+}
+
+// PostgREST filter matching tasks the user is assigned to or collaborates on
+export const assignedOrCollaboratingFilter = (userId: string, taskIds: string[]) =>
+  taskIds.length > 0
+    ? `assignee_id.eq.${userId},id.in.(${taskIds.join(",")})`
+    : `assignee_id.eq.${userId}`;
+
+// Awards the completion points of a done task to its assignee and
+// collaborators; resolves to the points earned by the current user
+export async function awardCompletionPoints(taskId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("award_task_completion_points", { p_task: taskId });
+
+  if (error) throw error;
+  return data || 0;
+}
+
+export async function addTaskCollaborators(taskId: string, userIds: string[]) {
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("task_collaborators")
+    .insert(userIds.map((userId) => ({ task_id: taskId, user_id: userId })));
+
+  if (error) throw error;
+}
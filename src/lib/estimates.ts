@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// One task of the estimate report
+export interface EstimateReportTask {
+  task_id: string;
+  title: string;
+  task_type: string;
+  status: string;
+  project_id: string;
+  project_name: string;
+  phase_id: string | null;
+  phase_name: string | null;
+  assignee_id: string | null;
+  assignee_name: string | null;
+  estimated_hours: number | null;
+  actual_seconds: number;
+}
+
+export type EstimateGrouping = "project" | "phase" | "assignee" | "task_type";
+
+export const ESTIMATE_GROUPINGS: Array<{ value: EstimateGrouping; label: string }> = [
+  { value: "project", label: "Project" },
+  { value: "phase", label: "Phase" },
+  { value: "assignee", label: "Assignee" },
+  { value: "task_type", label: "Type" },
+];
+
+// Estimates are compared only with the time logged on estimated tasks; time
+// on tasks without an estimate is reported separately
+export interface EstimateGroup {
+  key: string;
+  label: string;
+  tasks: number;
+  estimatedTasks: number;
+  estimatedHours: number;
+  actualHours: number;
+  unestimatedHours: number;
+}
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  task: "Tasks",
+  assignment: "Assignments",
+};
+
+const getGroup = (task: EstimateReportTask, grouping: EstimateGrouping) => {
+  switch (grouping) {
+    case "project":
+      return { key: task.project_id, label: task.project_name };
+    case "phase":
+      // Phase names repeat across projects
+      return task.phase_id
+        ? { key: task.phase_id, label: `${task.phase_name} · ${task.project_name}` }
+        : { key: `none:${task.project_id}`, label: `No phase · ${task.project_name}` };
+    case "assignee":
+      return { key: task.assignee_id ?? "none", label: task.assignee_name || "Unassigned" };
+    case "task_type":
+      return { key: task.task_type, label: TASK_TYPE_LABELS[task.task_type] ?? task.task_type };
+  }
+};
+
+export const summarizeEstimates = (tasks: EstimateReportTask[], key = "all", label = "All"): EstimateGroup =>
+  tasks.reduce<EstimateGroup>(
+    (group, task) => {
+      const hours = task.actual_seconds / 3600;
+      const estimated = task.estimated_hours !== null;
+      return {
+        ...group,
+        tasks: group.tasks + 1,
+        estimatedTasks: group.estimatedTasks + (estimated ? 1 : 0),
+        estimatedHours: group.estimatedHours + (task.estimated_hours ?? 0),
+        actualHours: group.actualHours + (estimated ? hours : 0),
+        unestimatedHours: group.unestimatedHours + (estimated ? 0 : hours),
+      };
+    },
+    { key, label, tasks: 0, estimatedTasks: 0, estimatedHours: 0, actualHours: 0, unestimatedHours: 0 }
+  );
+
+// Groups sorted by the hours they were estimated at, largest first
+export const groupEstimates = (tasks: EstimateReportTask[], grouping: EstimateGrouping): EstimateGroup[] => {
+  const groups = new Map<string, { label: string; tasks: EstimateReportTask[] }>();
+  for (const task of tasks) {
+    const { key, label } = getGroup(task, grouping);
+    const group = groups.get(key) ?? { label, tasks: [] };
+    group.tasks.push(task);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => summarizeEstimates(group.tasks, key, group.label))
+    .sort((a, b) => b.estimatedHours - a.estimatedHours || b.unestimatedHours - a.unestimatedHours);
+};
+
+// How far the actual time was off the estimate: 0.25 is 25% over, -0.1 is
+// 10% under. NULL without an estimate.
+export const getEstimateVariance = (group: EstimateGroup) =>
+  group.estimatedHours > 0 ? (group.actualHours - group.estimatedHours) / group.estimatedHours : null;
+
+export async function fetchEstimateReport(organizationId: string, since: string | null): Promise<EstimateReportTask[]> {
+  const { data, error } = await supabase.rpc("get_estimate_report", {
+    p_org: organizationId,
+    p_since: since ?? undefined,
+  });
+
+  if (error) throw error;
+  return (data || []) as EstimateReportTask[];
+}
@@ -0,0 +1,137 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type LeaveType = Database["public"]["Enums"]["leave_type"];
+export type LeaveStatus = Database["public"]["Enums"]["leave_status"];
+
+export const LEAVE_TYPES: Array<{ value: LeaveType; label: string }> = [
+  { value: "annual", label: "Annual Leave" },
+  { value: "sick", label: "Sick Leave" },
+  { value: "unpaid", label: "Unpaid Leave" },
+];
+
+export const getLeaveTypeLabel = (type: LeaveType) => LEAVE_TYPES.find((t) => t.value === type)?.label ?? type;
+
+export interface LeaveBalance {
+  leave_type: LeaveType;
+  // null for unpaid leave, which has no allowance
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+// Hints raised by the leave request trigger and functions
+export type LeaveErrorCode =
+  | "no_working_days"
+  | "overlapping_leave"
+  | "insufficient_leave_balance"
+  | "already_reviewed"
+  | "leave_started"
+  | "not_allowed";
+
+export const LEAVE_ERRORS: Record<LeaveErrorCode, { title: string; description: string }> = {
+  no_working_days: {
+    title: "No Working Days",
+    description: "The selected dates are all days off or holidays",
+  },
+  overlapping_leave: {
+    title: "Leave Already Requested",
+    description: "You already have leave requested for some of these dates",
+  },
+  insufficient_leave_balance: {
+    title: "Insufficient Leave Balance",
+    description: "There are not enough leave days left this year to approve this request",
+  },
+  already_reviewed: {
+    title: "Already Reviewed",
+    description: "This leave request has already been decided",
+  },
+  leave_started: {
+    title: "Leave Already Started",
+    description: "Leave that has already started cannot be cancelled",
+  },
+  not_allowed: {
+    title: "Not Allowed",
+    description: "You can't review leave requests for this member",
+  },
+};
+
+// Maps an error raised by the leave functions to a user facing message
+export const getLeaveError = (error: unknown) => {
+  const hint = (error as { hint?: unknown } | null)?.hint;
+  return typeof hint === "string" && hint in LEAVE_ERRORS ? LEAVE_ERRORS[hint as LeaveErrorCode] : null;
+};
+
+export async function fetchLeaveBalances(organizationId: string, userId?: string, year?: number): Promise<LeaveBalance[]> {
+  const { data, error } = await supabase.rpc("get_leave_balances", {
+    p_org: organizationId,
+    p_user: userId,
+    p_year: year,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Approves or rejects a pending request; approval is refused when it would
+// exceed the member's yearly allowance
+export async function reviewLeaveRequest(requestId: string, status: "approved" | "rejected", note?: string) {
+  const { data, error } = await supabase.rpc("review_leave_request", {
+    p_request: requestId,
+    p_status: status,
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function cancelLeaveRequest(requestId: string) {
+  const { data, error } = await supabase.rpc("cancel_leave_request", { p_request: requestId });
+
+  if (error) throw error;
+  return data;
+}
+
+// Days on which members are not expected at work besides their days off:
+// holidays of the organization and approved leave, keyed by date
+export interface AbsenceExclusions {
+  holidays: Record<string, string>;
+  leave: Record<string, LeaveType>;
+}
+
+export const EMPTY_ABSENCE_EXCLUSIONS: AbsenceExclusions = { holidays: {}, leave: {} };
+
+const leaveKey = (userId: string, localDate: string) => `${userId}:${localDate}`;
+
+export async function fetchAbsenceExclusions(organizationId: string, from: string, to: string): Promise<AbsenceExclusions> {
+  const [{ data: holidays, error: holidaysError }, { data: leave, error: leaveError }] = await Promise.all([
+    supabase
+      .from("holidays")
+      .select("holiday_date, name")
+      .eq("organization_id", organizationId)
+      .gte("holiday_date", from)
+      .lte("holiday_date", to),
+    supabase.rpc("get_approved_leave_days", { p_org: organizationId, p_from: from, p_to: to }),
+  ]);
+
+  if (holidaysError) throw holidaysError;
+  if (leaveError) throw leaveError;
+
+  const result: AbsenceExclusions = { holidays: {}, leave: {} };
+  (holidays || []).forEach((h) => {
+    result.holidays[h.holiday_date] = h.name;
+  });
+  (leave || []).forEach((l) => {
+    result.leave[leaveKey(l.user_id, l.leave_date)] = l.leave_type;
+  });
+  return result;
+}
+
+export const getLeaveOn = (exclusions: AbsenceExclusions, userId: string, localDate: string): LeaveType | undefined =>
+  exclusions.leave[leaveKey(userId, localDate)];
+
+// A missing check-in is not an absence on a holiday or a day of approved leave
+export const isExcusedAbsence = (exclusions: AbsenceExclusions, userId: string, localDate: string) =>
+  localDate in exclusions.holidays || !!getLeaveOn(exclusions, userId, localDate);
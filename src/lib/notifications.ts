@@ -0,0 +1,480 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type NotificationType = Database["public"]["Enums"]["notification_type"];
+type UserRole = Database["public"]["Enums"]["user_role"];
+
+export type NotificationCategory = "tasks" | "requests" | "attendance" | "rewards" | "organization";
+
+export const NOTIFICATION_CATEGORIES: Array<{ value: NotificationCategory; label: string }> = [
+  { value: "tasks", label: "Tasks" },
+  { value: "requests", label: "Requests" },
+  { value: "attendance", label: "Leave & Attendance" },
+  { value: "rewards", label: "Points & Rewards" },
+  { value: "organization", label: "Organization" },
+];
+
+const MANAGERS: UserRole[] = ["owner", "admin", "supervisor"];
+
+// Every notification type, with the roles that receive it (all when omitted).
+// plural describes several of them at once: "5 tasks assigned to you".
+export const NOTIFICATION_TYPES: Array<{
+  value: NotificationType;
+  label: string;
+  plural: string;
+  category: NotificationCategory;
+  roles?: UserRole[];
+}> = [
+  { value: "task_assigned", label: "Task assigned to you", plural: "tasks assigned to you", category: "tasks" },
+  { value: "task_due_changed", label: "Due date changed", plural: "due dates changed", category: "tasks" },
+  { value: "task_due_reminder", label: "Task due soon", plural: "tasks due soon", category: "tasks" },
+  { value: "task_overdue", label: "Task overdue", plural: "tasks overdue", category: "tasks" },
+  { value: "task_commented", label: "New comment on your task", plural: "new comments", category: "tasks" },
+  { value: "mention", label: "Mentioned in a comment", plural: "mentions", category: "tasks" },
+  { value: "extension_requested", label: "Extension requested", plural: "extension requests", category: "requests", roles: MANAGERS },
+  { value: "extension_approved", label: "Extension approved", plural: "extensions approved", category: "requests" },
+  { value: "extension_rejected", label: "Extension rejected", plural: "extensions rejected", category: "requests" },
+  { value: "transfer_requested", label: "Transfer requested", plural: "transfer requests", category: "requests", roles: MANAGERS },
+  { value: "transfer_approved", label: "Transfer approved", plural: "transfers approved", category: "requests" },
+  { value: "transfer_rejected", label: "Transfer rejected", plural: "transfers rejected", category: "requests" },
+  { value: "leave_requested", label: "Leave requested", plural: "leave requests", category: "attendance", roles: MANAGERS },
+  { value: "leave_approved", label: "Leave approved", plural: "leave requests approved", category: "attendance" },
+  { value: "leave_rejected", label: "Leave rejected", plural: "leave requests rejected", category: "attendance" },
+  { value: "correction_requested", label: "Attendance correction requested", plural: "attendance correction requests", category: "attendance", roles: MANAGERS },
+  { value: "correction_approved", label: "Attendance correction approved", plural: "attendance corrections approved", category: "attendance" },
+  { value: "correction_rejected", label: "Attendance correction rejected", plural: "attendance corrections rejected", category: "attendance" },
+  { value: "points_earned", label: "Points earned", plural: "point awards", category: "rewards" },
+  { value: "reward_redeemed", label: "Reward redeemed by a member", plural: "rewards redeemed", category: "rewards", roles: ["owner", "admin"] },
+  { value: "reward_confirmed", label: "Reward confirmed", plural: "rewards confirmed", category: "rewards" },
+  { value: "reward_fulfilled", label: "Reward fulfilled", plural: "rewards fulfilled", category: "rewards" },
+  { value: "reward_cancelled", label: "Reward cancelled", plural: "rewards cancelled", category: "rewards" },
+  { value: "announcement", label: "Announcements", plural: "announcements", category: "organization" },
+  { value: "member_joined", label: "New member joined", plural: "new members", category: "organization", roles: ["owner", "admin"] },
+];
+
+export const getNotificationTypesForRole = (role: UserRole) =>
+  NOTIFICATION_TYPES.filter((t) => !t.roles || t.roles.includes(role));
+
+export type NotificationChannel = "in_app" | "email" | "digest";
+
+export const NOTIFICATION_CHANNELS: Array<{ value: NotificationChannel; label: string }> = [
+  { value: "in_app", label: "In-app" },
+  { value: "email", label: "Email" },
+  { value: "digest", label: "Daily digest" },
+];
+
+export type NotificationPreference = Record<NotificationChannel, boolean>;
+
+// Applies to types the user never changed; mirrors route_notification()
+export const DEFAULT_NOTIFICATION_PREFERENCE: NotificationPreference = {
+  in_app: true,
+  email: false,
+  digest: false,
+};
+
+// The user's preferences keyed by type; types left at the default are missing
+export async function fetchNotificationPreferences(
+  userId: string
+): Promise<Partial<Record<NotificationType, NotificationPreference>>> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("type, in_app, email, digest")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map((row) => [row.type, { in_app: row.in_app, email: row.email, digest: row.digest }])
+  );
+}
+
+export async function saveNotificationPreference(
+  userId: string,
+  type: NotificationType,
+  preference: NotificationPreference
+) {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ user_id: userId, type, ...preference }, { onConflict: "user_id,type" });
+
+  if (error) throw error;
+}
+
+// A notifications row; payload holds what its trigger recorded
+export interface AppNotification {
+  id: string;
+  type: string;
+  payload: {
+    extension_request_id?: string;
+    task_id?: string;
+    task_title?: string;
+    task_type?: string;
+    priority?: string;
+    due_date?: string;
+    requester_name?: string;
+    decider_name?: string;
+    decision_note?: string;
+    status?: string;
+    assigned_by?: string;
+    assigner_name?: string;
+    hours_until_due?: number;
+    points?: number;
+    reason_code?: string;
+    project_id?: string;
+    project_name?: string;
+    new_member_id?: string;
+    new_member_name?: string;
+    member_role?: string;
+    organization_id?: string;
+    organization_name?: string;
+    comment_id?: string;
+    commenter_name?: string;
+    excerpt?: string;
+    transfer_request_id?: string;
+    to_user_name?: string;
+    announcement_id?: string;
+    announcement_title?: string;
+    author_name?: string;
+    leave_request_id?: string;
+    correction_id?: string;
+    message: string;
+  };
+  organization_id?: string | null;
+  read_at: string | null;
+  archived_at?: string | null;
+  created_at: string;
+}
+
+// Notifications whose organization couldn't be resolved show in every
+// organization
+export const isNotificationInOrganization = (n: AppNotification, organizationId: string) =>
+  !n.organization_id || n.organization_id === organizationId;
+
+// PostgREST filter matching the notifications shown in an organization
+export const notificationOrganizationFilter = (organizationId: string) =>
+  `organization_id.eq.${organizationId},organization_id.is.null`;
+
+export const getNotificationCategory = (type: string): NotificationCategory | null =>
+  NOTIFICATION_TYPES.find((t) => t.value === type)?.category ?? null;
+
+export const getNotificationColor = (type: string) => {
+  switch (type) {
+    case "extension_requested":
+      return "bg-primary/10 border-primary/20";
+    case "extension_approved":
+      return "bg-green-50 border-green-200";
+    case "extension_rejected":
+      return "bg-red-50 border-red-200";
+    case "task_assigned":
+      return "bg-blue-50 border-blue-200";
+    case "task_due_reminder":
+      return "bg-orange-50 border-orange-200";
+    case "task_overdue":
+      return "bg-red-50 border-red-200";
+    case "points_earned":
+      return "bg-yellow-50 border-yellow-200";
+    case "member_joined":
+      return "bg-purple-50 border-purple-200";
+    case "task_commented":
+      return "bg-teal-50 border-teal-200";
+    case "mention":
+      return "bg-indigo-50 border-indigo-200";
+    case "announcement":
+      return "bg-amber-50 border-amber-200";
+    case "transfer_requested":
+      return "bg-primary/10 border-primary/20";
+    case "transfer_approved":
+      return "bg-green-50 border-green-200";
+    case "transfer_rejected":
+      return "bg-red-50 border-red-200";
+    case "reward_confirmed":
+      return "bg-primary/10 border-primary/20";
+    case "reward_fulfilled":
+      return "bg-green-50 border-green-200";
+    case "reward_cancelled":
+      return "bg-red-50 border-red-200";
+    case "leave_requested":
+      return "bg-primary/10 border-primary/20";
+    case "leave_approved":
+      return "bg-green-50 border-green-200";
+    case "leave_rejected":
+      return "bg-red-50 border-red-200";
+    case "correction_requested":
+      return "bg-primary/10 border-primary/20";
+    case "correction_approved":
+      return "bg-green-50 border-green-200";
+    case "correction_rejected":
+      return "bg-red-50 border-red-200";
+    default:
+      return "bg-muted/50 border-muted";
+  }
+};
+
+const getProjectDetailPath = (role: string, projectName: string) => {
+  // Admins browse projects through progress tracking
+  const base = role === "admin" ? "/admin/progress-tracking" : `/${role}/projects`;
+  return `${base}/${encodeURIComponent(projectName)}`;
+};
+
+// Where to go when a task's project can't be found
+const getFallbackProjectPath = (role: string) => {
+  if (role === "employee") return "/employee/projects";
+  if (role === "supervisor") return "/supervisor/projects";
+  if (role === "admin") return "/admin/task-assignment";
+  return "/owner/tasks";
+};
+
+// The page a notification opens for the given role, or null when it has none
+export async function getNotificationPath(n: AppNotification, role: string): Promise<string | null> {
+  if (n.type === "extension_requested") return `/${role}/extension-requests?tab=pending`;
+  if (n.type === "extension_approved") return `/${role}/extension-requests?tab=approved`;
+  if (n.type === "extension_rejected") return `/${role}/extension-requests?tab=rejected`;
+  if (n.type === "transfer_requested") return `/${role}/transfer-requests?tab=pending`;
+  if (n.type === "transfer_approved") return `/${role}/transfer-requests?tab=approved`;
+  if (n.type === "transfer_rejected") return `/${role}/transfer-requests?tab=rejected`;
+  if (n.type === "leave_requested") return `/${role}/leave?tab=approvals`;
+  if (n.type === "leave_approved" || n.type === "leave_rejected") return `/${role}/leave`;
+  if (n.type === "correction_requested") return `/${role}/attendance-corrections?tab=approvals`;
+  if (n.type === "correction_approved" || n.type === "correction_rejected") return `/${role}/attendance-corrections`;
+
+  // Task notifications open the project on the tab listing the task
+  if (n.type === "task_assigned" || n.type === "task_due_reminder" || n.type === "task_overdue") {
+    if (!n.payload.task_id) return getFallbackProjectPath(role);
+
+    try {
+      const { data: taskData, error: taskError } = await supabase
+        .from("tasks")
+        .select("task_type, project:projects(name)")
+        .eq("id", n.payload.task_id)
+        .single();
+
+      if (taskError || !taskData?.project?.name) {
+        console.error("Error fetching task:", taskError);
+        return getFallbackProjectPath(role);
+      }
+
+      const tab = taskData.task_type === "assignment" ? "assignments" : "tasks";
+      return `${getProjectDetailPath(role, taskData.project.name)}?tab=${tab}`;
+    } catch (error) {
+      console.error("Error navigating to project:", error);
+      return getFallbackProjectPath(role);
+    }
+  }
+
+  // Comments and mentions open the project and the task's comment thread
+  if (n.type === "task_commented" || n.type === "mention") {
+    if (!n.payload.task_id || !n.payload.project_name) return getFallbackProjectPath(role);
+
+    const tab = n.payload.task_type === "assignment" ? "assignments" : "tasks";
+    return `${getProjectDetailPath(role, n.payload.project_name)}?tab=${tab}&task=${n.payload.task_id}`;
+  }
+
+  if (n.type === "points_earned") return `/${role}/shop`;
+
+  // Redemption updates are listed with the user's rewards
+  if (n.type === "reward_confirmed" || n.type === "reward_fulfilled" || n.type === "reward_cancelled") {
+    return role === "supervisor" || role === "employee" ? `/${role}/my-rewards` : `/${role}/shop`;
+  }
+
+  // Announcements are shown at the top of every dashboard
+  if (n.type === "announcement") return "/";
+
+  if (n.type === "member_joined") {
+    if (role === "owner") return "/owner/team";
+    if (role === "admin") return "/admin/manage-team";
+  }
+
+  return null;
+}
+
+export type NotificationReadState = "all" | "unread" | "read" | "archived";
+
+export interface NotificationFilters {
+  type: NotificationType | "all";
+  category: NotificationCategory | "all";
+  readState: NotificationReadState;
+}
+
+export const DEFAULT_NOTIFICATION_FILTERS: NotificationFilters = {
+  type: "all",
+  category: "all",
+  readState: "all",
+};
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+
+// One page of the user's notifications in an organization, newest first
+export async function fetchNotificationPage(
+  userId: string,
+  organizationId: string,
+  filters: NotificationFilters,
+  offset: number
+): Promise<AppNotification[]> {
+  let query = supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .or(notificationOrganizationFilter(organizationId))
+    .order("created_at", { ascending: false })
+    .range(offset, offset + NOTIFICATION_PAGE_SIZE - 1);
+
+  if (filters.readState === "archived") {
+    query = query.not("archived_at", "is", null);
+  } else {
+    query = query.is("archived_at", null);
+    if (filters.readState === "unread") query = query.is("read_at", null);
+    if (filters.readState === "read") query = query.not("read_at", "is", null);
+  }
+
+  if (filters.type !== "all") {
+    query = query.eq("type", filters.type);
+  } else if (filters.category !== "all") {
+    query = query.in(
+      "type",
+      NOTIFICATION_TYPES.filter((t) => t.category === filters.category).map((t) => t.value)
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as AppNotification[];
+}
+
+// Notifications of the same type about the same project on the same day
+export interface NotificationGroup {
+  key: string;
+  type: string;
+  projectName: string | null;
+  notifications: AppNotification[];
+}
+
+// Groups a list sorted newest first; a group sits where its newest
+// notification would
+export const groupNotifications = (notifications: AppNotification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>();
+  for (const n of notifications) {
+    const projectName = n.payload.project_name ?? null;
+    const key = [n.type, n.payload.project_id ?? projectName ?? "", n.created_at.slice(0, 10)].join(":");
+    const group = groups.get(key) ?? { key, type: n.type, projectName, notifications: [] };
+    group.notifications.push(n);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+// "5 tasks assigned to you in Website Redesign"
+export const describeNotificationGroup = (group: NotificationGroup) => {
+  const plural = NOTIFICATION_TYPES.find((t) => t.value === group.type)?.plural ?? "notifications";
+  const project = group.projectName ? ` in ${group.projectName}` : "";
+  return `${group.notifications.length} ${plural}${project}`;
+};
+
+export async function markNotificationsRead(ids: string[]) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids)
+    .is("read_at", null);
+
+  if (error) throw error;
+}
+
+// Marks every unread notification of the user in an organization read, in
+// all categories or one
+export async function markAllNotificationsRead(
+  userId: string,
+  organizationId: string,
+  category: NotificationCategory | "all" = "all"
+) {
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .or(notificationOrganizationFilter(organizationId))
+    .is("read_at", null);
+
+  if (category !== "all") {
+    query = query.in(
+      "type",
+      NOTIFICATION_TYPES.filter((t) => t.category === category).map((t) => t.value)
+    );
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+// Archived notifications leave the bell, the inbox and the unread counts but
+// can still be found under Archived
+export async function archiveNotifications(ids: string[], archived = true) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .in("id", ids);
+
+  if (error) throw error;
+}
+
+export async function deleteNotifications(ids: string[]) {
+  const { error } = await supabase.from("notifications").delete().in("id", ids);
+
+  if (error) throw error;
+}
+
+// Unread, unarchived notifications of the current user in an organization
+// per category
+export async function fetchUnreadCountsByCategory(
+  organizationId: string
+): Promise<Record<NotificationCategory, number>> {
+  const { data, error } = await supabase.rpc("get_unread_notification_counts", { p_org: organizationId });
+
+  if (error) throw error;
+
+  const counts: Record<NotificationCategory, number> = {
+    tasks: 0,
+    requests: 0,
+    attendance: 0,
+    rewards: 0,
+    organization: 0,
+  };
+  for (const row of data || []) {
+    const category = getNotificationCategory(row.type);
+    if (category) counts[category] += Number(row.unread_count);
+  }
+  return counts;
+}
+
+export interface OrganizationUnreadCount {
+  organization_id: string;
+  organization_name: string;
+  unread_count: number;
+}
+
+// Unread, unarchived notifications of the current user per organization
+export async function fetchUnreadCountsByOrganization(): Promise<OrganizationUnreadCount[]> {
+  const { data, error } = await supabase.rpc("get_unread_notification_counts_by_organization");
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, unread_count: Number(row.unread_count) }));
+}
+
+// Calls onChange whenever the user's notifications change. Returns the
+// function that stops listening.
+export function subscribeToNotifications(userId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}:${crypto.randomUUID()}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "notifications",
+        filter: `user_id=eq.${userId}`,
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,59 @@
+export interface ProjectPhase {
+  id: string;
+  name: string;
+  sort_order: number;
+}
+
+export interface PhaseTask {
+  status: string;
+  phase_id?: string | null;
+}
+
+export interface PhaseGroup<T extends PhaseTask> {
+  phase: ProjectPhase | null;
+  tasks: T[];
+}
+
+// Offered when a project has no phases yet
+export const DEFAULT_PROJECT_PHASES = [
+  "Planning Phase",
+  "Analysis Phase",
+  "Design Phase",
+  "Development Phase",
+  "Testing Phase",
+  "Deployment Phase",
+  "Maintenance Phase",
+];
+
+// Hint raised by apply_project_phase_change() and check_project_phase_order()
+// when earlier phases still have open tasks
+export const PHASE_GATED_HINT = "phase_has_open_tasks";
+
+export const sortPhases = (phases: ProjectPhase[]) =>
+  [...phases].sort((a, b) => a.sort_order - b.sort_order);
+
+export const getPhaseProgress = (tasks: PhaseTask[], phaseId: string) => {
+  const phaseTasks = tasks.filter((t) => t.phase_id === phaseId);
+  const done = phaseTasks.filter((t) => t.status === "done").length;
+  return {
+    total: phaseTasks.length,
+    done,
+    percentage: phaseTasks.length > 0 ? Math.round((done / phaseTasks.length) * 100) : 0,
+  };
+};
+
+// Groups tasks in phase order; tasks without a (known) phase come last.
+// Phases without tasks are left out.
+export function groupTasksByPhase<T extends PhaseTask>(tasks: T[], phases: ProjectPhase[]): PhaseGroup<T>[] {
+  const groups: PhaseGroup<T>[] = sortPhases(phases)
+    .map((phase) => ({ phase, tasks: tasks.filter((t) => t.phase_id === phase.id) }))
+    .filter((group) => group.tasks.length > 0);
+
+  const phaseIds = new Set(phases.map((p) => p.id));
+  const unphased = tasks.filter((t) => !t.phase_id || !phaseIds.has(t.phase_id));
+  if (unphased.length > 0) {
+    groups.push({ phase: null, tasks: unphased });
+  }
+
+  return groups;
+}
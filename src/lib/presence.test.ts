@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  IDLE_AFTER_MS,
+  OFFLINE_PRESENCE,
+  PRESENCE_STALE_MS,
+  PresenceMeta,
+  ReceivedPresenceMeta,
+  mergePresence,
+  receivePresence,
+} from "@/lib/presence";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+// The viewer's clock; publishers' timestamps are deliberately hours off
+const NOW = Date.parse("2025-11-26T09:00:00Z");
+const PUBLISHER_CLOCK = Date.parse("2025-11-26T03:00:00Z");
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const meta = (overrides: Partial<ReceivedPresenceMeta> = {}): ReceivedPresenceMeta => ({
+  tab_id: "tab-1",
+  user_id: "user-1",
+  status: "online",
+  status_message: null,
+  status_expires_at: null,
+  status_set_at: iso(PUBLISHER_CLOCK - 60 * 60 * 1000),
+  current_task_id: null,
+  current_task_title: null,
+  last_active_at: iso(PUBLISHER_CLOCK),
+  heartbeat_at: iso(PUBLISHER_CLOCK),
+  seen_at: NOW,
+  ...overrides,
+});
+
+describe("mergePresence", () => {
+  it("shows a member whose heartbeat just arrived, whatever their clock says", () => {
+    expect(mergePresence([meta()], NOW).status).toBe("online");
+  });
+
+  it("shows members offline once their tabs stop sending heartbeats", () => {
+    expect(mergePresence([meta({ seen_at: NOW - PRESENCE_STALE_MS })], NOW)).toEqual(OFFLINE_PRESENCE);
+  });
+
+  it("shows members without tabs offline", () => {
+    expect(mergePresence([], NOW)).toEqual(OFFLINE_PRESENCE);
+  });
+
+  it("takes the newest status picked in any live tab", () => {
+    const presence = mergePresence(
+      [
+        meta({ tab_id: "tab-1", status: "do_not_disturb", status_message: "Focusing" }),
+        meta({
+          tab_id: "tab-2",
+          status: "online",
+          status_message: "In a meeting",
+          status_set_at: iso(PUBLISHER_CLOCK),
+        }),
+      ],
+      NOW
+    );
+
+    expect(presence).toMatchObject({ status: "online", status_message: "In a meeting" });
+  });
+
+  it("ignores a newer status picked in a stale tab", () => {
+    const presence = mergePresence(
+      [
+        meta({ tab_id: "tab-1", status: "do_not_disturb" }),
+        meta({ tab_id: "tab-2", status: "online", status_set_at: iso(PUBLISHER_CLOCK), seen_at: 0 }),
+      ],
+      NOW
+    );
+
+    expect(presence.status).toBe("do_not_disturb");
+  });
+
+  it("clears an expired status and message", () => {
+    const presence = mergePresence(
+      [meta({ status: "do_not_disturb", status_message: "Lunch", status_expires_at: iso(NOW - 1000) })],
+      NOW
+    );
+
+    expect(presence).toMatchObject({ status: "online", status_message: null });
+  });
+
+  it("hides everything of members appearing offline", () => {
+    const presence = mergePresence(
+      [meta({ status: "offline", status_message: "Away", current_task_id: "task-1", current_task_title: "Report" })],
+      NOW
+    );
+
+    expect(presence).toEqual(OFFLINE_PRESENCE);
+  });
+
+  it("shows members idle when the publisher reported no recent activity", () => {
+    const presence = mergePresence([meta({ last_active_at: iso(PUBLISHER_CLOCK - IDLE_AFTER_MS) })], NOW);
+
+    expect(presence.status).toBe("idle");
+  });
+
+  it("counts the time since the last heartbeat arrived towards idle", () => {
+    const presence = mergePresence(
+      [meta({ last_active_at: iso(PUBLISHER_CLOCK - IDLE_AFTER_MS + 20 * 1000), seen_at: NOW - 30 * 1000 })],
+      NOW
+    );
+
+    expect(presence.status).toBe("idle");
+  });
+
+  it("stays online while any tab saw activity lately", () => {
+    const presence = mergePresence(
+      [
+        meta({ tab_id: "tab-1", last_active_at: iso(PUBLISHER_CLOCK - IDLE_AFTER_MS) }),
+        meta({ tab_id: "tab-2" }),
+      ],
+      NOW
+    );
+
+    expect(presence.status).toBe("online");
+  });
+
+  it("keeps do not disturb when the member is inactive", () => {
+    const presence = mergePresence(
+      [meta({ status: "do_not_disturb", last_active_at: iso(PUBLISHER_CLOCK - IDLE_AFTER_MS) })],
+      NOW
+    );
+
+    expect(presence.status).toBe("do_not_disturb");
+  });
+
+  it("shows the running task of whichever live tab knows it", () => {
+    const presence = mergePresence(
+      [meta({ tab_id: "tab-1" }), meta({ tab_id: "tab-2", current_task_id: "task-1", current_task_title: "Report" })],
+      NOW
+    );
+
+    expect(presence).toMatchObject({ current_task_id: "task-1", current_task_title: "Report" });
+  });
+});
+
+describe("receivePresence", () => {
+  const published = (heartbeatAt: number): PresenceMeta => {
+    const { seen_at: _seenAt, ...rest } = meta({ heartbeat_at: iso(heartbeatAt) });
+    return rest;
+  };
+
+  it("stamps new tabs with the local time", () => {
+    expect(receivePresence({ "user-1": [published(PUBLISHER_CLOCK)] }, {}, NOW)["user-1"][0].seen_at).toBe(NOW);
+  });
+
+  it("keeps seen_at while the heartbeat is unchanged", () => {
+    const first = receivePresence({ "user-1": [published(PUBLISHER_CLOCK)] }, {}, NOW);
+    const second = receivePresence({ "user-1": [published(PUBLISHER_CLOCK)] }, first, NOW + 60 * 1000);
+
+    expect(second["user-1"][0].seen_at).toBe(NOW);
+  });
+
+  it("restamps a tab when its heartbeat changes", () => {
+    const first = receivePresence({ "user-1": [published(PUBLISHER_CLOCK)] }, {}, NOW);
+    const second = receivePresence(
+      { "user-1": [published(PUBLISHER_CLOCK + 30 * 1000)] },
+      first,
+      NOW + 30 * 1000
+    );
+
+    expect(second["user-1"][0].seen_at).toBe(NOW + 30 * 1000);
+  });
+});
@@ -0,0 +1,209 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Presence is tracked with Realtime Presence, one channel per organization.
+// Every open tab publishes a PresenceMeta under its user's key and refreshes
+// it every PRESENCE_HEARTBEAT_MS; mergePresence() turns a member's tabs into
+// what colleagues see. The status a member picks is also saved in
+// user_presence so new tabs and reloads start from it. Clocks differ between
+// devices, so whether a tab is still there is judged by when this client last
+// received its heartbeat, never by comparing the publisher's timestamps with
+// the local clock.
+
+export type PresenceStatus = "online" | "idle" | "do_not_disturb" | "offline";
+
+export const PRESENCE_STATUSES: Array<{ value: PresenceStatus; label: string; color: string }> = [
+  { value: "online", label: "Online", color: "bg-green-500" },
+  { value: "idle", label: "Idle", color: "bg-yellow-500" },
+  { value: "do_not_disturb", label: "Do Not Disturb", color: "bg-red-500" },
+  { value: "offline", label: "Appear Offline", color: "bg-gray-400" },
+];
+
+// How long a picked status and message last, in minutes; null keeps them
+export const STATUS_DURATIONS: Array<{ value: number | null; label: string }> = [
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+  { value: 240, label: "4 hours" },
+  { value: 480, label: "8 hours" },
+  { value: null, label: "Don't clear" },
+];
+
+// Mirrors user_presence_status_message_length_check
+export const MAX_STATUS_MESSAGE_LENGTH = 100;
+
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+
+// Tabs that missed this many heartbeats are gone even if their socket has
+// not been closed yet, e.g. a crashed browser or a sleeping laptop
+export const PRESENCE_STALE_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+// Members with no activity in any tab for this long show as idle
+export const IDLE_AFTER_MS = 20 * 60 * 1000;
+
+// What one tab publishes. status_set_at orders the statuses picked in
+// different tabs; the newest one wins.
+export type PresenceMeta = {
+  tab_id: string;
+  user_id: string;
+  status: PresenceStatus;
+  status_message: string | null;
+  status_expires_at: string | null;
+  status_set_at: string;
+  current_task_id: string | null;
+  current_task_title: string | null;
+  last_active_at: string;
+  heartbeat_at: string;
+};
+
+// A PresenceMeta as this client received it: seen_at is when, on the local
+// clock, its heartbeat last changed
+export type ReceivedPresenceMeta = PresenceMeta & { seen_at: number };
+
+export interface MemberPresence {
+  status: PresenceStatus;
+  status_message: string | null;
+  current_task_id: string | null;
+  current_task_title: string | null;
+}
+
+export const OFFLINE_PRESENCE: MemberPresence = {
+  status: "offline",
+  status_message: null,
+  current_task_id: null,
+  current_task_title: null,
+};
+
+export const isStatusExpired = (expiresAt: string | null, now = Date.now()) =>
+  !!expiresAt && new Date(expiresAt).getTime() <= now;
+
+export const isPresent = (presence: MemberPresence) => presence.status !== "offline";
+
+const isLive = (meta: ReceivedPresenceMeta, now: number) => now - meta.seen_at < PRESENCE_STALE_MS;
+
+// How long the tab has gone without activity: what the publisher measured on
+// its own clock when it sent the heartbeat, plus the time since it arrived
+const getInactiveMs = (meta: ReceivedPresenceMeta, now: number) =>
+  Math.max(0, new Date(meta.heartbeat_at).getTime() - new Date(meta.last_active_at).getTime()) +
+  Math.max(0, now - meta.seen_at);
+
+// Stamps the metas of a presence sync with when they were received. Metas
+// whose heartbeat did not change since the previous sync keep their seen_at.
+export function receivePresence(
+  state: Record<string, PresenceMeta[]>,
+  previous: Record<string, ReceivedPresenceMeta[]>,
+  now = Date.now()
+): Record<string, ReceivedPresenceMeta[]> {
+  return Object.fromEntries(
+    Object.entries(state).map(([key, metas]) => [
+      key,
+      metas.map((meta) => {
+        const before = previous[key]?.find((m) => m.tab_id === meta.tab_id);
+        const seenAt = before && before.heartbeat_at === meta.heartbeat_at ? before.seen_at : now;
+        return { ...meta, seen_at: seenAt };
+      }),
+    ])
+  );
+}
+
+// The newest status picked in any of a member's live tabs
+export const getLatestPresenceMeta = (metas: ReceivedPresenceMeta[], now = Date.now()) =>
+  metas
+    .filter((m) => isLive(m, now))
+    .reduce<ReceivedPresenceMeta | null>(
+      (latest, m) => (!latest || m.status_set_at > latest.status_set_at ? m : latest),
+      null
+    );
+
+// Merges the tabs of one member: the newest picked status unless it expired,
+// idle when none of the tabs saw activity lately, and the running task of
+// whichever tab knows it. Members appearing offline show nothing else.
+export function mergePresence(metas: ReceivedPresenceMeta[], now = Date.now()): MemberPresence {
+  const latest = getLatestPresenceMeta(metas, now);
+  if (!latest) return OFFLINE_PRESENCE;
+
+  const live = metas.filter((m) => isLive(m, now));
+  const expired = isStatusExpired(latest.status_expires_at, now);
+  const inactiveMs = Math.min(...live.map((m) => getInactiveMs(m, now)));
+  const picked = expired ? "online" : latest.status;
+  if (picked === "offline") return OFFLINE_PRESENCE;
+
+  const working = live.find((m) => m.current_task_id);
+
+  return {
+    status: picked === "online" && inactiveMs >= IDLE_AFTER_MS ? "idle" : picked,
+    status_message: expired ? null : latest.status_message,
+    current_task_id: working?.current_task_id ?? null,
+    current_task_title: working?.current_task_title ?? null,
+  };
+}
+
+export interface SavedStatus {
+  status: PresenceStatus;
+  status_message: string | null;
+  status_expires_at: string | null;
+  updated_at: string | null;
+}
+
+export async function fetchSavedStatus(userId: string): Promise<SavedStatus> {
+  const { data, error } = await supabase
+    .from("user_presence")
+    .select("status, status_message, status_expires_at, updated_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || isStatusExpired(data.status_expires_at)) {
+    return { status: "online", status_message: null, status_expires_at: null, updated_at: data?.updated_at ?? null };
+  }
+  return data as SavedStatus;
+}
+
+export async function saveStatus(
+  userId: string,
+  status: Pick<SavedStatus, "status" | "status_message" | "status_expires_at">
+) {
+  const { error } = await supabase
+    .from("user_presence")
+    .upsert({ user_id: userId, ...status, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+}
+
+// Joins the organization's presence channel. onSync gets every member's tabs,
+// stamped by receivePresence(), whenever someone joins, leaves or sends a
+// heartbeat; publish() replaces
+// what this tab shows and is repeated after reconnecting. Returns publish and
+// the function that leaves the channel.
+export function joinOrganizationPresence(
+  organizationId: string,
+  userId: string,
+  onSync: (state: Record<string, ReceivedPresenceMeta[]>) => void
+) {
+  let current: PresenceMeta | null = null;
+  let joined = false;
+  let received: Record<string, ReceivedPresenceMeta[]> = {};
+
+  const channel = supabase.channel(`presence:${organizationId}`, {
+    config: { presence: { key: userId } },
+  });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      received = receivePresence(channel.presenceState<PresenceMeta>(), received);
+      onSync(received);
+    })
+    .subscribe((status) => {
+      joined = status === "SUBSCRIBED";
+      if (joined && current) channel.track(current);
+    });
+
+  const publish = (meta: PresenceMeta) => {
+    current = meta;
+    if (joined) channel.track(meta);
+  };
+
+  const leave = () => {
+    supabase.removeChannel(channel);
+  };
+
+  return { publish, leave };
+}
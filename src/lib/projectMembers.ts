@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type ProjectRole = Database["public"]["Enums"]["user_role"];
+
+export const PROJECT_ROLES: Array<{ value: ProjectRole; label: string }> = [
+  { value: "admin", label: "Admin" },
+  { value: "supervisor", label: "Supervisor" },
+  { value: "employee", label: "Employee" },
+];
+
+// Shape of project_members(user_id, role, user:users!project_members_user_id_fkey(full_name, email))
+export interface ProjectMember {
+  user_id: string;
+  role: ProjectRole;
+  user: { full_name: string; email: string } | null;
+}
+
+// Ids of the users who belong to the project
+export async function fetchProjectMemberIds(projectId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("project_members")
+    .select("user_id")
+    .eq("project_id", projectId);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.user_id);
+}
+
+// Adds every member of a team to the project; resolves to the number added
+export async function addTeamToProject(projectId: string, teamId: string, role: ProjectRole): Promise<number> {
+  const { data, error } = await supabase.rpc("add_team_to_project", {
+    p_project: projectId,
+    p_team: teamId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+  return data || 0;
+}
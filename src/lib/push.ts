@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Browser push notifications. public/sw.js shows the pushes; the keys of the
+// browser's subscription are stored in push_subscriptions so the
+// send-push-notification edge function can push to it.
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window && !!VAPID_PUBLIC_KEY;
+
+// VAPID keys are base64url encoded; the push manager wants the raw bytes
+const decodeBase64Url = (value: string) => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+const registerServiceWorker = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+// This browser's subscription, if push is turned on in it
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Asks for permission and subscribes this browser for the current user.
+// Returns false when the user didn't allow notifications.
+export async function subscribeToPush() {
+  if (!isPushSupported()) throw new Error("Push notifications are not supported in this browser");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return false;
+
+  const registration = await registerServiceWorker();
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) throw new Error("The browser returned an incomplete subscription");
+
+  const { error } = await supabase.rpc("register_push_subscription", {
+    p_endpoint: endpoint,
+    p_p256dh: keys.p256dh,
+    p_auth: keys.auth,
+    p_user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+  return true;
+}
+
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+}
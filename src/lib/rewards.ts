@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+// Hints raised by redeem_reward()
+export type RedemptionErrorCode =
+  | "reward_not_found"
+  | "reward_inactive"
+  | "not_org_member"
+  | "out_of_stock"
+  | "insufficient_points";
+
+export const REDEMPTION_ERRORS: Record<RedemptionErrorCode, { title: string; description: string }> = {
+  reward_not_found: {
+    title: "Reward Not Found",
+    description: "This reward no longer exists",
+  },
+  reward_inactive: {
+    title: "Reward Unavailable",
+    description: "This reward is no longer available",
+  },
+  not_org_member: {
+    title: "Not Allowed",
+    description: "This reward belongs to another organization",
+  },
+  out_of_stock: {
+    title: "Out of Stock",
+    description: "This reward is currently unavailable",
+  },
+  insufficient_points: {
+    title: "Insufficient Points",
+    description: "You don't have enough points for this reward",
+  },
+};
+
+// Maps an error raised by redeem_reward() to a user facing message
+export const getRedemptionError = (error: unknown) => {
+  const hint = (error as { hint?: unknown } | null)?.hint;
+  return typeof hint === "string" && hint in REDEMPTION_ERRORS
+    ? REDEMPTION_ERRORS[hint as RedemptionErrorCode]
+    : null;
+};
+
+// Spends the current user's points on a reward in a single transaction;
+// resolves to the new redemption and the remaining balance
+export async function redeemReward(rewardId: string): Promise<{ redemptionId: string; balanceAfter: number }> {
+  const { data, error } = await supabase.rpc("redeem_reward", { p_reward: rewardId });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) throw new Error("Redemption did not return a result");
+
+  return { redemptionId: row.redemption_id, balanceAfter: row.balance_after };
+}
+
+export type RedemptionStatus = Database["public"]["Enums"]["redemption_status"];
+
+export const REDEMPTION_STATUSES: Array<{ value: RedemptionStatus; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "fulfilled", label: "Fulfilled" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+// Confirms, fulfils or cancels a redemption. Confirming generates the
+// redemption code; cancelling refunds the points and restocks the reward.
+export async function updateRedemptionStatus(redemptionId: string, status: RedemptionStatus) {
+  const { data, error } = await supabase.rpc("update_redemption_status", {
+    p_redemption: redemptionId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,18 @@
+// Reminder offsets an organization can pick, in minutes before a task is
+// due. Stored in organizations.due_reminder_offsets.
+export const DUE_REMINDER_OFFSETS: Array<{ value: number; label: string }> = [
+  { value: 10080, label: "1 week before" },
+  { value: 4320, label: "3 days before" },
+  { value: 2880, label: "2 days before" },
+  { value: 1440, label: "24 hours before" },
+  { value: 720, label: "12 hours before" },
+  { value: 360, label: "6 hours before" },
+  { value: 180, label: "3 hours before" },
+  { value: 60, label: "1 hour before" },
+  { value: 30, label: "30 minutes before" },
+];
+
+export const DEFAULT_DUE_REMINDER_OFFSETS = [1440, 60];
+
+// Mirrors organizations_due_reminder_offsets_check
+export const MAX_DUE_REMINDER_OFFSETS = 5;
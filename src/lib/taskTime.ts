@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Totals from get_task_time_totals. running_since is when the current user's
+// timer on the task started; the running segment is not in total_seconds yet.
+export interface TaskTimeTotal {
+  task_id: string;
+  total_seconds: number;
+  running_since: string | null;
+}
+
+export interface RunningTaskTimer {
+  task_id: string;
+  task_title: string;
+  project_id: string;
+  project_name: string;
+  started_at: string;
+  total_seconds: number;
+}
+
+export interface TaskTimeEntry {
+  id: string;
+  action: string;
+  duration: number | null;
+  timestamp: string;
+  note: string | null;
+  user_id: string;
+  user?: {
+    full_name: string;
+  } | null;
+}
+
+// Longest manual entry, in minutes; mirrors set_time_log_duration
+export const MAX_MANUAL_ENTRY_MINUTES = 24 * 60;
+
+// Largest estimate tasks.estimated_hours (NUMERIC(6,2)) holds
+export const MAX_ESTIMATED_HOURS = 9999;
+
+// Seconds spent on a task, including the current user's running segment
+export const getTaskTimeSpent = (total: TaskTimeTotal | RunningTaskTimer | undefined, now: Date = new Date()) => {
+  if (!total) return 0;
+  const runningSince = "started_at" in total ? total.started_at : total.running_since;
+  const running = runningSince ? Math.max(0, Math.floor((now.getTime() - new Date(runningSince).getTime()) / 1000)) : 0;
+  return total.total_seconds + running;
+};
+
+// "2h 05m", or "12m" under an hour
+export const formatTimeSpent = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+};
+
+// "1:02:09", for a running timer
+export const formatTimerClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+};
+
+// "4h" or "2.5h"
+export const formatEstimate = (hours: number) => `${Number(hours.toFixed(2))}h`;
+
+export const isOverEstimate = (seconds: number, estimatedHours: number | null | undefined) =>
+  !!estimatedHours && seconds > estimatedHours * 3600;
+
+// Hints raised by the timer functions
+export type TaskTimeErrorCode =
+  | "not_allowed"
+  | "timer_running"
+  | "timer_not_running"
+  | "invalid_duration"
+  | "future_time";
+
+export const TASK_TIME_ERRORS: Record<TaskTimeErrorCode, { title: string; description: string }> = {
+  not_allowed: {
+    title: "Not Allowed",
+    description: "Only the assignee and collaborators can track time on this task",
+  },
+  timer_running: {
+    title: "Timer Running",
+    description: "The timer is already running on this task",
+  },
+  timer_not_running: {
+    title: "Timer Not Running",
+    description: "The timer is not running on this task",
+  },
+  invalid_duration: {
+    title: "Invalid Duration",
+    description: "A time entry lasts between one minute and 24 hours",
+  },
+  future_time: {
+    title: "Invalid Time",
+    description: "Time can't be logged in the future",
+  },
+};
+
+// Maps an error raised by the timer functions to a user facing message
+export const getTaskTimeError = (error: unknown) => {
+  const hint = (error as { hint?: unknown } | null)?.hint;
+  return typeof hint === "string" && hint in TASK_TIME_ERRORS ? TASK_TIME_ERRORS[hint as TaskTimeErrorCode] : null;
+};
+
+// Starts or resumes the current user's timer; any other running timer of
+// theirs is paused. Returns when the running segment started.
+export async function startTaskTimer(taskId: string) {
+  const { data, error } = await supabase.rpc("start_task_timer", { p_task: taskId });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Pauses the current user's timer, or logs that they completed the task.
+// Returns the seconds tracked by the segment it closed, if any.
+export async function stopTaskTimer(taskId: string, action: "pause" | "complete" = "pause") {
+  const { data, error } = await supabase.rpc("stop_task_timer", { p_task: taskId, p_action: action });
+
+  if (error) throw error;
+  return data as number | null;
+}
+
+export async function addManualTimeEntry(taskId: string, startedAt: Date, minutes: number, note?: string) {
+  const { data, error } = await supabase.rpc("log_task_time", {
+    p_task: taskId,
+    p_started_at: startedAt.toISOString(),
+    p_minutes: minutes,
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Totals keyed by task id; tasks without logs are missing
+export async function fetchTaskTimeTotals(taskIds: string[]): Promise<Record<string, TaskTimeTotal>> {
+  if (taskIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("get_task_time_totals", { p_tasks: taskIds });
+
+  if (error) throw error;
+  return Object.fromEntries(((data || []) as TaskTimeTotal[]).map((total) => [total.task_id, total]));
+}
+
+export async function fetchRunningTaskTimer(organizationId: string): Promise<RunningTaskTimer | null> {
+  const { data, error } = await supabase.rpc("get_running_task_timer", { p_org: organizationId });
+
+  if (error) throw error;
+  return ((data || []) as RunningTaskTimer[])[0] ?? null;
+}
+
+// Logs with a duration: closed timer segments and manual entries, newest first
+export async function fetchTaskTimeEntries(taskId: string): Promise<TaskTimeEntry[]> {
+  const { data, error } = await supabase
+    .from("time_logs")
+    .select("id, action, duration, timestamp, note, user_id, user:users!time_logs_user_id_fkey(full_name)")
+    .eq("task_id", taskId)
+    .not("duration", "is", null)
+    .order("timestamp", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as TaskTimeEntry[];
+}
+
+// Calls onChange whenever the user's timers change, in this tab or another
+// one. Returns the function that stops listening.
+export function subscribeToTaskTimers(userId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`time_logs:${userId}:${crypto.randomUUID()}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "time_logs",
+        filter: `user_id=eq.${userId}`,
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,294 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ATTENDANCE_STATUS_LABELS, AttendanceDayStatus } from "@/lib/attendanceStatus";
+import { addLocalDays, formatTimeInZone, getLocalDate } from "@/lib/timezone";
+import { SpreadsheetCell } from "@/lib/xlsx";
+
+export type TimesheetPeriodType = "weekly" | "biweekly";
+
+export const TIMESHEET_PERIODS: Array<{ value: TimesheetPeriodType; label: string; days: number }> = [
+  { value: "weekly", label: "Weekly", days: 7 },
+  { value: "biweekly", label: "Bi-weekly", days: 14 },
+];
+
+export const DEFAULT_TIMESHEET_PERIOD: TimesheetPeriodType = "weekly";
+
+// A Monday; periods start on the same weekday as the anchor
+export const DEFAULT_TIMESHEET_PERIOD_ANCHOR = "2025-01-06";
+
+export interface TimesheetPeriod {
+  start: string;
+  end: string;
+}
+
+// One day of a timesheet, from get_timesheet or a timesheet_entries row
+export interface TimesheetDay {
+  local_date: string;
+  status: AttendanceDayStatus;
+  clock_in_at: string | null;
+  clock_out_at: string | null;
+  scheduled_minutes: number;
+  attendance_minutes: number;
+  task_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+}
+
+export interface Timesheet {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  attendance_minutes: number;
+  task_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  approved_by: string | null;
+  approved_at: string;
+  note: string | null;
+}
+
+export interface TimesheetSummary {
+  user_id: string;
+  full_name: string;
+  email: string;
+  timesheet_id: string | null;
+  approved_at: string | null;
+  attendance_minutes: number;
+  task_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  // Days still clocked in; the period can't be approved while there are any
+  open_days: number;
+}
+
+// An approved timesheet with its days and member, as exported
+export interface ApprovedTimesheet extends Timesheet {
+  entries: TimesheetDay[];
+  member?: {
+    full_name: string;
+    email: string;
+  } | null;
+  approver?: {
+    full_name: string;
+  } | null;
+}
+
+export const getTimesheetPeriodDays = (period: TimesheetPeriodType) =>
+  TIMESHEET_PERIODS.find((p) => p.value === period)?.days ?? 7;
+
+// The pay period containing `localDate`; mirrors get_timesheet_period
+export const getTimesheetPeriod = (
+  localDate: string,
+  period: TimesheetPeriodType,
+  anchor: string = DEFAULT_TIMESHEET_PERIOD_ANCHOR
+): TimesheetPeriod => {
+  const length = getTimesheetPeriodDays(period);
+  const days = Math.round((Date.parse(localDate) - Date.parse(anchor)) / (24 * 60 * 60 * 1000));
+  const start = addLocalDays(localDate, -(((days % length) + length) % length));
+  return { start, end: addLocalDays(start, length - 1) };
+};
+
+// Payroll hours with two decimals, e.g. 450 minutes -> 7.5
+export const toPayrollHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+// Rows of the payroll export: one per member and one per member and day,
+// each with a header row. Hours are decimal so payroll can multiply them.
+export const getTimesheetExportRows = (timesheets: ApprovedTimesheet[], timeZone: string) => {
+  const time = (value: string | null) => (value ? formatTimeInZone(new Date(value), timeZone, false) : "");
+  const sorted = [...timesheets].sort((a, b) => (a.member?.full_name || "").localeCompare(b.member?.full_name || ""));
+
+  const summary: SpreadsheetCell[][] = [
+    [
+      "Employee",
+      "Email",
+      "Period Start",
+      "Period End",
+      "Worked Hours",
+      "Task Hours",
+      "Regular Hours",
+      "Overtime Hours",
+      "Approved By",
+      "Approved On",
+    ],
+    ...sorted.map((t) => [
+      t.member?.full_name || "",
+      t.member?.email || "",
+      t.period_start,
+      t.period_end,
+      toPayrollHours(t.attendance_minutes),
+      toPayrollHours(t.task_minutes),
+      toPayrollHours(t.regular_minutes),
+      toPayrollHours(t.overtime_minutes),
+      t.approver?.full_name || "",
+      getLocalDate(new Date(t.approved_at), timeZone),
+    ]),
+  ];
+
+  const days: SpreadsheetCell[][] = [
+    [
+      "Employee",
+      "Email",
+      "Date",
+      "Status",
+      "Clock In",
+      "Clock Out",
+      "Scheduled Hours",
+      "Worked Hours",
+      "Task Hours",
+      "Regular Hours",
+      "Overtime Hours",
+    ],
+    ...sorted.flatMap((t) =>
+      t.entries.map((day) => [
+        t.member?.full_name || "",
+        t.member?.email || "",
+        day.local_date,
+        ATTENDANCE_STATUS_LABELS[day.status] ?? day.status,
+        time(day.clock_in_at),
+        time(day.clock_out_at),
+        toPayrollHours(day.scheduled_minutes),
+        toPayrollHours(day.attendance_minutes),
+        toPayrollHours(day.task_minutes),
+        toPayrollHours(day.regular_minutes),
+        toPayrollHours(day.overtime_minutes),
+      ])
+    ),
+  ];
+
+  return { summary, days };
+};
+
+// Quotes values containing separators, quotes or line breaks
+export const toCsv = (rows: SpreadsheetCell[][]) =>
+  rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null || value === undefined ? "" : String(value);
+          return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .join("\n");
+
+// Hints raised by the timesheet functions
+export type TimesheetErrorCode =
+  | "not_allowed"
+  | "invalid_period"
+  | "period_not_over"
+  | "already_approved"
+  | "open_session"
+  | "pending_corrections"
+  | "timesheet_not_found";
+
+export const TIMESHEET_ERRORS: Record<TimesheetErrorCode, { title: string; description: string }> = {
+  not_allowed: {
+    title: "Not Allowed",
+    description: "You can't approve or reopen this member's timesheet",
+  },
+  invalid_period: {
+    title: "Invalid Period",
+    description: "Timesheets are approved for whole pay periods",
+  },
+  period_not_over: {
+    title: "Period Not Over",
+    description: "A timesheet can be approved once its pay period has ended",
+  },
+  already_approved: {
+    title: "Already Approved",
+    description: "This timesheet has already been approved",
+  },
+  open_session: {
+    title: "Still Clocked In",
+    description: "The member has a session without a clock-out in this period",
+  },
+  pending_corrections: {
+    title: "Corrections Pending",
+    description: "Review the attendance corrections in this period first",
+  },
+  timesheet_not_found: {
+    title: "Not Found",
+    description: "The timesheet no longer exists",
+  },
+};
+
+// Maps an error raised by the timesheet functions to a user facing message
+export const getTimesheetError = (error: unknown) => {
+  const hint = (error as { hint?: unknown } | null)?.hint;
+  return typeof hint === "string" && hint in TIMESHEET_ERRORS ? TIMESHEET_ERRORS[hint as TimesheetErrorCode] : null;
+};
+
+// The days of a member's timesheet computed from their current attendance
+export async function fetchTimesheetDays(organizationId: string, userId: string, period: TimesheetPeriod): Promise<TimesheetDay[]> {
+  const { data, error } = await supabase.rpc("get_timesheet", {
+    p_org: organizationId,
+    p_user: userId,
+    p_from: period.start,
+    p_to: period.end,
+  });
+
+  if (error) throw error;
+  return (data || []) as TimesheetDay[];
+}
+
+export async function fetchTimesheetSummaries(organizationId: string, period: TimesheetPeriod): Promise<TimesheetSummary[]> {
+  const { data, error } = await supabase.rpc("get_timesheet_summaries", {
+    p_org: organizationId,
+    p_period_start: period.start,
+  });
+
+  if (error) throw error;
+  return (data || []) as TimesheetSummary[];
+}
+
+const APPROVED_TIMESHEET_COLUMNS = `
+  *,
+  entries:timesheet_entries(*),
+  member:users!timesheets_user_id_fkey(full_name, email),
+  approver:users!timesheets_approved_by_fkey(full_name)
+`;
+
+// Approved timesheets of the period the current user can see, optionally of one member
+export async function fetchApprovedTimesheets(
+  organizationId: string,
+  period: TimesheetPeriod,
+  userId?: string
+): Promise<ApprovedTimesheet[]> {
+  let query = supabase
+    .from("timesheets")
+    .select(APPROVED_TIMESHEET_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("period_start", period.start);
+
+  if (userId) {
+    query = query.eq("user_id", userId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return ((data as unknown as ApprovedTimesheet[]) || []).map((timesheet) => ({
+    ...timesheet,
+    entries: [...(timesheet.entries || [])].sort((a, b) => a.local_date.localeCompare(b.local_date)),
+  }));
+}
+
+export async function approveTimesheet(organizationId: string, userId: string, periodStart: string, note?: string) {
+  const { data, error } = await supabase.rpc("approve_timesheet", {
+    p_org: organizationId,
+    p_user: userId,
+    p_period_start: periodStart,
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Unlocks the period; the timesheet has to be approved again
+export async function reopenTimesheet(timesheetId: string) {
+  const { error } = await supabase.rpc("reopen_timesheet", { p_timesheet: timesheetId });
+
+  if (error) throw error;
+}
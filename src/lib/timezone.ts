@@ -0,0 +1,142 @@
+// Attendance is evaluated in the organization's time zone (organizations.timezone),
+// not in the browser's, so members in other countries see the same statuses.
+export const DEFAULT_TIMEZONE = "Asia/Kuala_Lumpur";
+
+// Offered when the browser cannot list its supported zones
+const FALLBACK_TIMEZONES = [
+  "UTC",
+  "Africa/Cairo",
+  "Africa/Johannesburg",
+  "Africa/Lagos",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Asia/Bangkok",
+  "Asia/Dubai",
+  "Asia/Hong_Kong",
+  "Asia/Jakarta",
+  "Asia/Kolkata",
+  "Asia/Kuala_Lumpur",
+  "Asia/Manila",
+  "Asia/Shanghai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Europe/Berlin",
+  "Europe/London",
+  "Europe/Paris",
+  "Pacific/Auckland",
+];
+
+export const getTimezoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? FALLBACK_TIMEZONES;
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
+
+export const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getOffset = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// Calendar date ("YYYY-MM-DD") of the instant in the zone, same as local_date
+export const getLocalDate = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+// Minutes since midnight of the instant in the zone
+export const getMinutesOfDay = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  return p.hour * 60 + p.minute;
+};
+
+// The instant at which the wall clock in the zone shows `time` ("HH:MM[:SS]")
+// on the calendar date `localDate` ("YYYY-MM-DD")
+export const getZonedDateTime = (localDate: string, timeZone: string, time: string) => {
+  const [year, month, day] = localDate.split("-").map(Number);
+  const [hours, minutes, seconds = 0] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Resolve twice so a DST change around `time` is accounted for
+  const guess = wallClock - getOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffset(new Date(guess), timeZone));
+};
+
+// The instant at which the wall clock in the zone shows `time` ("HH:MM[:SS]")
+// on the same calendar day as `date`
+export const getZonedTime = (date: Date, timeZone: string, time: string) =>
+  getZonedDateTime(getLocalDate(date, timeZone), timeZone, time);
+
+// Calendar date `days` days after `localDate` (negative for earlier dates)
+export const addLocalDays = (localDate: string, days: number) => {
+  const [year, month, day] = localDate.split("-").map(Number);
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+// Day of the week of a calendar date (0 = Sunday)
+export const getLocalWeekday = (localDate: string) => {
+  const [year, month, day] = localDate.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// The last `count` calendar dates in the zone, today first
+export const getRecentLocalDates = (count: number, timeZone: string, from: Date = new Date()) => {
+  const today = getLocalDate(from, timeZone);
+  return Array.from({ length: count }, (_, i) => addLocalDays(today, -i));
+};
+
+// "HH:mm:ss" (or "HH:mm") wall clock time of the instant in the zone
+export const formatTimeInZone = (date: Date, timeZone: string, withSeconds = true) => {
+  const p = getZonedParts(date, timeZone);
+  return withSeconds ? `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` : `${pad(p.hour)}:${pad(p.minute)}`;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import { WorkSchedule, getShiftForClockIn } from "@/lib/workSchedules";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const TIME_ZONE = "Asia/Kuala_Lumpur";
+
+// Weeknights 22:00–06:00, Kuala Lumpur time (UTC+8)
+const nightShift: WorkSchedule = {
+  id: "night",
+  name: "Night shift",
+  early_threshold_minutes: 15,
+  late_threshold_minutes: 10,
+  days: [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start_time: "22:00:00", end_time: "06:00:00" })),
+};
+
+const at = (localDateTime: string) => new Date(`${localDateTime}+08:00`);
+
+describe("getShiftForClockIn", () => {
+  it("returns the shift starting the same evening", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-11T21:55:00"), TIME_ZONE)).toEqual({
+      start: at("2025-11-11T22:00:00"),
+      end: at("2025-11-12T06:00:00"),
+    });
+  });
+
+  it("returns the previous evening's shift for a clock-in after midnight", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-11T02:00:00"), TIME_ZONE)).toEqual({
+      start: at("2025-11-10T22:00:00"),
+      end: at("2025-11-11T06:00:00"),
+    });
+  });
+
+  it("returns the day's own shift once the previous one has ended", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-11T06:00:00"), TIME_ZONE)).toEqual({
+      start: at("2025-11-11T22:00:00"),
+      end: at("2025-11-12T06:00:00"),
+    });
+  });
+
+  it("returns Friday's shift for a clock-in early on Saturday", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-15T01:00:00"), TIME_ZONE)).toEqual({
+      start: at("2025-11-14T22:00:00"),
+      end: at("2025-11-15T06:00:00"),
+    });
+  });
+
+  it("skips a previous day without a shift", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-10T01:00:00"), TIME_ZONE)).toEqual({
+      start: at("2025-11-10T22:00:00"),
+      end: at("2025-11-11T06:00:00"),
+    });
+  });
+
+  it("returns null on a day off after the previous shift ended", () => {
+    expect(getShiftForClockIn(nightShift, at("2025-11-15T07:00:00"), TIME_ZONE)).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import { supabase } from "@/integrations/supabase/client";
+import { addLocalDays, getLocalDate, getLocalWeekday, getZonedDateTime } from "@/lib/timezone";
+
+export const WEEKDAYS = [
+  { value: 1, label: "Monday", short: "Mon" },
+  { value: 2, label: "Tuesday", short: "Tue" },
+  { value: 3, label: "Wednesday", short: "Wed" },
+  { value: 4, label: "Thursday", short: "Thu" },
+  { value: 5, label: "Friday", short: "Fri" },
+  { value: 6, label: "Saturday", short: "Sat" },
+  { value: 0, label: "Sunday", short: "Sun" },
+];
+
+// Hours of one weekday; an end_time not after start_time ends on the next day
+export interface WorkScheduleDay {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface WorkSchedule {
+  // null for the organization's default work hours
+  id: string | null;
+  name: string;
+  description?: string | null;
+  early_threshold_minutes: number;
+  late_threshold_minutes: number;
+  days: WorkScheduleDay[];
+}
+
+// The single work hours pair stored on organizations
+export interface OrganizationWorkHours {
+  work_start_time: string;
+  work_end_time: string;
+  early_threshold_minutes: number;
+  late_threshold_minutes: number;
+  working_weekdays?: number[] | null;
+}
+
+export const DEFAULT_WORKING_WEEKDAYS = [1, 2, 3, 4, 5];
+
+export interface Shift {
+  start: Date;
+  end: Date;
+}
+
+export type ArrivalStatus = "early" | "on-time" | "late";
+
+// Members without a schedule work the organization hours on its working weekdays
+export const getDefaultSchedule = (hours: OrganizationWorkHours): WorkSchedule => {
+  const workingWeekdays = hours.working_weekdays ?? DEFAULT_WORKING_WEEKDAYS;
+
+  return {
+    id: null,
+    name: "Organization hours",
+    early_threshold_minutes: hours.early_threshold_minutes,
+    late_threshold_minutes: hours.late_threshold_minutes,
+    days: WEEKDAYS.filter((day) => workingWeekdays.includes(day.value)).map((day) => ({
+      weekday: day.value,
+      start_time: hours.work_start_time,
+      end_time: hours.work_end_time,
+    })),
+  };
+};
+
+export const crossesMidnight = (day: WorkScheduleDay) => day.end_time.slice(0, 5) <= day.start_time.slice(0, 5);
+
+// The shift starting on `localDate`, or null on a non-working day
+export const getShift = (schedule: WorkSchedule, localDate: string, timeZone: string): Shift | null => {
+  const day = schedule.days.find((d) => d.weekday === getLocalWeekday(localDate));
+  if (!day) return null;
+
+  return {
+    start: getZonedDateTime(localDate, timeZone, day.start_time),
+    end: getZonedDateTime(crossesMidnight(day) ? addLocalDays(localDate, 1) : localDate, timeZone, day.end_time),
+  };
+};
+
+// The shift a clock-in belongs to. A clock-in after midnight that falls
+// inside the previous day's night shift belongs to that shift.
+export const getShiftForClockIn = (schedule: WorkSchedule, clockIn: Date, timeZone: string): Shift | null => {
+  const localDate = getLocalDate(clockIn, timeZone);
+  const previous = getShift(schedule, addLocalDays(localDate, -1), timeZone);
+
+  if (previous && clockIn < previous.end) return previous;
+  return getShift(schedule, localDate, timeZone);
+};
+
+// Arrival is judged against the start of the member's shift. Working on a
+// non-working day is never early or late.
+export const getArrivalStatus = (schedule: WorkSchedule, clockIn: Date, timeZone: string): ArrivalStatus => {
+  const shift = getShiftForClockIn(schedule, clockIn, timeZone);
+  if (!shift) return "on-time";
+
+  const diffMinutes = (clockIn.getTime() - shift.start.getTime()) / (1000 * 60);
+
+  if (diffMinutes <= -schedule.early_threshold_minutes) return "early";
+  if (diffMinutes <= schedule.late_threshold_minutes) return "on-time";
+  return "late";
+};
+
+// Working past the end of the shift, or at all on a non-working day
+export const hasOvertime = (schedule: WorkSchedule, clockIn: Date, clockOut: Date, timeZone: string) => {
+  const shift = getShiftForClockIn(schedule, clockIn, timeZone);
+  return !shift || clockOut > shift.end;
+};
+
+// Clocking in after the shift has ended counts as missing the shift
+export const isAfterShiftEnd = (schedule: WorkSchedule, clockIn: Date, timeZone: string) => {
+  const shift = getShiftForClockIn(schedule, clockIn, timeZone);
+  return !!shift && clockIn > shift.end;
+};
+
+// "Mon–Fri 09:00–17:00, Sat 22:00–06:00"
+export const describeSchedule = (schedule: WorkSchedule) => {
+  const groups: Array<{ first: string; last: string; hours: string }> = [];
+
+  WEEKDAYS.forEach((weekday) => {
+    const day = schedule.days.find((d) => d.weekday === weekday.value);
+    if (!day) return;
+
+    const hours = `${day.start_time.slice(0, 5)}–${day.end_time.slice(0, 5)}`;
+    const previous = groups[groups.length - 1];
+    const previousIndex = previous ? WEEKDAYS.findIndex((w) => w.short === previous.last) : -2;
+
+    if (previous && previous.hours === hours && WEEKDAYS[previousIndex + 1] === weekday) {
+      previous.last = weekday.short;
+    } else {
+      groups.push({ first: weekday.short, last: weekday.short, hours });
+    }
+  });
+
+  if (groups.length === 0) return "No working days";
+  return groups
+    .map((g) => `${g.first === g.last ? g.first : `${g.first}–${g.last}`} ${g.hours}`)
+    .join(", ");
+};
+
+const SCHEDULE_COLUMNS =
+  "id, name, description, early_threshold_minutes, late_threshold_minutes, days:work_schedule_days(weekday, start_time, end_time)";
+
+export async function fetchWorkSchedules(organizationId: string): Promise<WorkSchedule[]> {
+  const { data, error } = await supabase
+    .from("work_schedules")
+    .select(SCHEDULE_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("name");
+
+  if (error) throw error;
+  return (data || []) as WorkSchedule[];
+}
+
+// Effective schedule of one member, or null when the organization's work
+// hours apply
+export async function fetchMemberSchedule(organizationId: string, userId: string): Promise<WorkSchedule | null> {
+  const { data: scheduleId, error } = await supabase.rpc("get_effective_work_schedule", {
+    p_org: organizationId,
+    p_user: userId,
+  });
+
+  if (error) throw error;
+  if (!scheduleId) return null;
+
+  const { data, error: scheduleError } = await supabase
+    .from("work_schedules")
+    .select(SCHEDULE_COLUMNS)
+    .eq("id", scheduleId)
+    .maybeSingle();
+
+  if (scheduleError) throw scheduleError;
+  return data as WorkSchedule | null;
+}
+
+// Effective schedule of every member who has one, keyed by user id. Members
+// missing from the result follow the organization's work hours.
+export async function fetchMemberSchedules(organizationId: string): Promise<Record<string, WorkSchedule>> {
+  const [schedules, { data, error }] = await Promise.all([
+    fetchWorkSchedules(organizationId),
+    supabase.rpc("get_member_work_schedules", { p_org: organizationId }),
+  ]);
+
+  if (error) throw error;
+
+  const byId = new Map(schedules.map((s) => [s.id, s]));
+  const result: Record<string, WorkSchedule> = {};
+  (data || []).forEach((row) => {
+    const schedule = byId.get(row.schedule_id);
+    if (schedule) result[row.user_id] = schedule;
+  });
+  return result;
+}
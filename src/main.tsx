@@ -34,6 +34,13 @@ import { Shop } from "./pages/shared/Shop";
 import { TimeLoggingReport } from "./pages/shared/TimeLoggingReport";
 import { AttendanceHistory } from "./pages/shared/AttendanceHistory";
 import { MyRewards } from "./pages/shared/MyRewards";
+import { ActivityLog } from "./pages/shared/ActivityLog";
+import { TransferRequests } from "./pages/shared/TransferRequests";
+import { LeaveRequests } from "./pages/shared/LeaveRequests";
+import { AttendanceCorrections } from "./pages/shared/AttendanceCorrections";
+import { Timesheets } from "./pages/shared/Timesheets";
+import { Notifications } from "./pages/shared/Notifications";
+import { OpenNotification } from "./pages/shared/OpenNotification";
 import SupervisorManageTeam from "./pages/supervisor/ManageTeam";
 import SupervisorProjects from "./pages/supervisor/Projects";
 import { ProjectDetail as SupervisorProjectDetail } from "./pages/supervisor/ProjectDetail";
@@ -69,6 +76,14 @@ const router = createBrowserRouter([
         path: "invite/:code",
         element: <InvitePage />,
       },
+      {
+        path: "notifications",
+        element: <Notifications />,
+      },
+      {
+        path: "notifications/:notificationId",
+        element: <OpenNotification />,
+      },
       {
         path: "owner/organization-settings",
         element: <OrganizationSettings />,
@@ -133,6 +148,26 @@ const router = createBrowserRouter([
         path: "owner/extension-requests",
         element: <ExtensionRequests />,
       },
+      {
+        path: "owner/transfer-requests",
+        element: <TransferRequests />,
+      },
+      {
+        path: "owner/leave",
+        element: <LeaveRequests />,
+      },
+      {
+        path: "owner/attendance-corrections",
+        element: <AttendanceCorrections />,
+      },
+      {
+        path: "owner/timesheets",
+        element: <Timesheets />,
+      },
+      {
+        path: "owner/activity",
+        element: <ActivityLog />,
+      },
       {
         path: "admin/analytics",
         element: <AdminAnalytics />,
@@ -189,6 +224,26 @@ const router = createBrowserRouter([
         path: "admin/extension-requests",
         element: <AdminExtensionRequests />,
       },
+      {
+        path: "admin/transfer-requests",
+        element: <TransferRequests />,
+      },
+      {
+        path: "admin/leave",
+        element: <LeaveRequests />,
+      },
+      {
+        path: "admin/attendance-corrections",
+        element: <AttendanceCorrections />,
+      },
+      {
+        path: "admin/timesheets",
+        element: <Timesheets />,
+      },
+      {
+        path: "admin/activity",
+        element: <ActivityLog />,
+      },
       {
         path: "admin/tasks/new",
         element: <CreateTask />,
@@ -273,6 +328,22 @@ const router = createBrowserRouter([
         path: "supervisor/extension-requests",
         element: <SupervisorExtensionRequests />,
       },
+      {
+        path: "supervisor/transfer-requests",
+        element: <TransferRequests />,
+      },
+      {
+        path: "supervisor/leave",
+        element: <LeaveRequests />,
+      },
+      {
+        path: "supervisor/attendance-corrections",
+        element: <AttendanceCorrections />,
+      },
+      {
+        path: "supervisor/timesheets",
+        element: <Timesheets />,
+      },
       {
         path: "supervisor/my-rewards",
         element: <MyRewards />,
@@ -297,6 +368,22 @@ const router = createBrowserRouter([
         path: "employee/extension-requests",
         element: <EmployeeExtensionRequests />,
       },
+      {
+        path: "employee/transfer-requests",
+        element: <TransferRequests />,
+      },
+      {
+        path: "employee/leave",
+        element: <LeaveRequests />,
+      },
+      {
+        path: "employee/attendance-corrections",
+        element: <AttendanceCorrections />,
+      },
+      {
+        path: "employee/timesheets",
+        element: <Timesheets />,
+      },
       {
         path: "employee/my-rewards",
         element: <MyRewards />,
@@ -114,13 +114,13 @@ const Index = () => {
   };
 
   const handleOrganizationSelect = (org: OrganizationWithRole) => {
-    // Just set the organization, clock in will be handled by confirmation dialog
+    // Members clock in from the dashboard, not by opening an organization
     setSelectedOrganization(org);
     setContextOrganization(org);
   };
 
-  const handleClockOut = () => {
-    // Just clear organization, clock out will be handled by confirmation dialog
+  const handleSwitchOrganization = () => {
+    // Leaving the dashboard does not clock the member out
     setSelectedOrganization(null);
     setContextOrganization(null);
   };
@@ -159,7 +159,7 @@ const Index = () => {
     <RoleDashboard 
       organization={selectedOrganization} 
       onLogout={handleLogout}
-      onClockOut={handleClockOut}
+      onSwitchOrganization={handleSwitchOrganization}
     />
   );
 };
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, TrendingUp, Users, Target, Award } from "lucide-react";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { EstimateAccuracyCard } from "@/components/analytics/EstimateAccuracyCard";
 
 interface AnalyticsData {
   totalMembers: number;
@@ -391,6 +392,8 @@ export function Analytics() {
             )}
           </CardContent>
         </Card>
+
+        {organization && <EstimateAccuracyCard organizationId={organization.id} dateRange={dateRange} />}
       </div>
     </div>
   );
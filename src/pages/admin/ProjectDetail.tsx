@@ -30,10 +30,19 @@ import {
   BarChart3,
   Trash2,
   CalendarClock,
-  GitBranch
+  GitBranch,
+  MessageSquare,
+  Paperclip,
+  History,
+  ArrowRightLeft
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { TaskDetailSheet, TaskDetailTab } from "@/components/tasks/TaskDetailSheet";
+import { ProjectPhasesCard } from "@/components/projects/ProjectPhasesCard";
+import { ProjectMembersCard } from "@/components/projects/ProjectMembersCard";
+import { ProjectPhase, groupTasksByPhase } from "@/lib/phases";
+import { fetchProjectMemberIds } from "@/lib/projectMembers";
 
 interface Project {
   id: string;
@@ -45,6 +54,7 @@ interface Project {
   organization_id: string;
   owner_id: string;
   current_phase?: string;
+  current_phase_id?: string | null;
 }
 
 interface Task {
@@ -56,6 +66,7 @@ interface Task {
   due_date?: string;
   created_at: string;
   assignee_id?: string;
+  phase_id?: string | null;
   completion_points?: number;
   assignee?: {
     full_name: string;
@@ -92,13 +103,16 @@ interface ProjectStats {
 export function ProjectDetail() {
   const { projectName } = useParams<{ projectName: string }>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { organization } = useOrganization();
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
   const [employees, setEmployees] = useState<Array<{user_id: string, users: {full_name: string}}>>([]);
+  // Tasks can only be assigned to members of the project
+  const [projectMemberIds, setProjectMemberIds] = useState<string[]>([]);
   const [supervisors, setSupervisors] = useState<Array<{user_id: string, users: {full_name: string}}>>([]);
   const [stats, setStats] = useState<ProjectStats>({
     totalTasks: 0,
@@ -111,29 +125,11 @@ export function ProjectDetail() {
   });
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<string>("tasks");
+  const [detailTask, setDetailTask] = useState<{ id: string; tab: TaskDetailTab } | null>(null);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false);
-  const [phaseDialogOpen, setPhaseDialogOpen] = useState(false);
-  const [newPhaseName, setNewPhaseName] = useState("");
-  const defaultPhases = [
-    "Planning Phase",
-    "Analysis Phase",
-    "Design Phase",
-    "Development Phase",
-    "Testing Phase",
-    "Deployment Phase",
-    "Maintenance Phase"
-  ];
-  
-  // Create a list of available phases that includes the current project phase if it's not in default phases
-  const availablePhases = useMemo(() => {
-    const phases = [...defaultPhases];
-    if (project?.current_phase && !phases.includes(project.current_phase)) {
-      phases.push(project.current_phase);
-    }
-    return phases;
-  }, [project?.current_phase]);
-  
+  const taskGroups = useMemo(() => groupTasksByPhase(tasks, phases), [tasks, phases]);
+
   const [newTask, setNewTask] = useState({
     title: "",
     description: "",
@@ -141,6 +137,7 @@ export function ProjectDetail() {
     due_date: "",
     assignee_id: "",
     completion_points: 0,
+    phase_id: "",
   });
   const [newAssignment, setNewAssignment] = useState({
     title: "",
@@ -157,8 +154,23 @@ export function ProjectDetail() {
     if (tab && ["tasks", "assignments", "reports"].includes(tab)) {
       setActiveTab(tab);
     }
+    // Deep link from a comment/mention notification opens that task's thread
+    const taskId = searchParams.get("task");
+    if (taskId) {
+      setDetailTask({ id: taskId, tab: "comments" });
+    }
   }, [searchParams]);
 
+  const handleTaskDetailOpenChange = (open: boolean) => {
+    if (open) return;
+    setDetailTask(null);
+    if (searchParams.has("task")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("task");
+      setSearchParams(next, { replace: true });
+    }
+  };
+
   useEffect(() => {
     if (projectName && organization) {
       fetchProjectDetails();
@@ -203,6 +215,16 @@ export function ProjectDetail() {
 
       if (projectError) throw projectError;
       setProject(projectData);
+      setProjectMemberIds(await fetchProjectMemberIds(projectData.id));
+
+      const { data: phasesData, error: phasesError } = await supabase
+        .from("phases")
+        .select("id, name, sort_order")
+        .eq("project_id", projectData.id)
+        .order("sort_order", { ascending: true });
+
+      if (phasesError) throw phasesError;
+      setPhases(phasesData || []);
 
       // Fetch project tasks with assignee information
       const { data: tasksData, error: tasksError } = await supabase
@@ -216,6 +238,7 @@ export function ProjectDetail() {
           due_date,
           created_at,
           assignee_id,
+          phase_id,
           completion_points,
           assignee:users!tasks_assignee_id_fkey(full_name, email)
         `)
@@ -387,6 +410,7 @@ export function ProjectDetail() {
           assignee_id: newTask.assignee_id,
           completion_points: newTask.completion_points || 0,
           project_id: project.id,
+          phase_id: newTask.phase_id || null,
           status: "todo",
           task_type: "task",
         });
@@ -406,6 +430,7 @@ export function ProjectDetail() {
         due_date: "",
         assignee_id: "",
         completion_points: 0,
+        phase_id: "",
       });
       fetchProjectDetails();
     } catch (error) {
@@ -538,48 +563,26 @@ export function ProjectDetail() {
     }
   };
 
-  const handleUpdatePhase = async (phase: string) => {
-    if (!project) return;
-
+  const handleMoveTaskToPhase = async (taskId: string, phaseId: string | null) => {
     try {
       const { error } = await supabase
-        .from("projects")
-        .update({ current_phase: phase })
-        .eq("id", project.id);
+        .from("tasks")
+        .update({ phase_id: phaseId })
+        .eq("id", taskId);
 
       if (error) throw error;
 
-      toast({
-        title: "Success",
-        description: "Project phase updated successfully",
-      });
-
       fetchProjectDetails();
     } catch (error) {
-      console.error("Error updating phase:", error);
+      console.error("Error moving task to phase:", error);
       toast({
         title: "Error",
-        description: "Failed to update phase",
+        description: "Failed to move task to phase",
         variant: "destructive",
       });
     }
   };
 
-  const handleCreatePhase = async () => {
-    if (!newPhaseName.trim()) {
-      toast({
-        title: "Error",
-        description: "Phase name is required",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setPhaseDialogOpen(false);
-    setNewPhaseName("");
-    handleUpdatePhase(newPhaseName.trim());
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -620,7 +623,7 @@ export function ProjectDetail() {
                 <p className="text-sm text-muted-foreground">Project Details</p>
               </div>
             </div>
-            <div>
+            <div className="flex items-center gap-2">
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -629,6 +632,14 @@ export function ProjectDetail() {
                 <CalendarClock className="w-4 h-4 mr-2" />
                 Extension Requests
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate("/admin/transfer-requests")}
+              >
+                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                Transfer Requests
+              </Button>
             </div>
           </div>
         </div>
@@ -667,63 +678,20 @@ export function ProjectDetail() {
               </CardContent>
             </Card>
 
-            {/* Project Phase Card */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <GitBranch className="w-5 h-5" />
-                  Project Phase
-                </CardTitle>
-                <CardDescription>
-                  Track the current phase of the project
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="current-phase">Current Phase</Label>
-                    <Select
-                      value={project.current_phase || ""}
-                      onValueChange={handleUpdatePhase}
-                    >
-                      <SelectTrigger id="current-phase">
-                        <SelectValue placeholder="Select or add a phase" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availablePhases.map((phase) => (
-                          <SelectItem key={phase} value={phase}>
-                            {phase}
-                          </SelectItem>
-                        ))}
-                        {(organization?.role === "owner" || organization?.role === "admin") && (
-                          <>
-                            <div className="px-2 py-1.5 text-sm font-semibold text-muted-foreground bg-muted/50">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="w-full justify-start h-8"
-                                onClick={(e) => {
-                                  e.preventDefault();
-                                  setPhaseDialogOpen(true);
-                                }}
-                              >
-                                <Plus className="w-3 h-3 mr-2" />
-                                Add Custom Phase
-                              </Button>
-                            </div>
-                          </>
-                        )}
-                      </SelectContent>
-                    </Select>
-                    {project.current_phase && (
-                      <p className="text-xs text-muted-foreground">
-                        Project is currently in: <span className="font-medium text-primary">{project.current_phase}</span>
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <ProjectPhasesCard
+              projectId={project.id}
+              currentPhaseId={project.current_phase_id}
+              phases={phases}
+              tasks={tasks}
+              canManage={organization?.role === "owner" || organization?.role === "admin"}
+              onChanged={fetchProjectDetails}
+            />
+
+            <ProjectMembersCard
+              projectId={project.id}
+              canManage={organization?.role === "owner" || organization?.role === "admin"}
+              onChanged={fetchProjectDetails}
+            />
           </div>
 
           {/* Right Column - Progress Overview */}
@@ -874,7 +842,7 @@ export function ProjectDetail() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="unassigned">Select an employee...</SelectItem>
-                          {employees.map((emp) => (
+                          {employees.filter((emp) => projectMemberIds.includes(emp.user_id)).map((emp) => (
                             <SelectItem key={emp.user_id} value={emp.user_id}>
                               {emp.users.full_name}
                             </SelectItem>
@@ -882,6 +850,27 @@ export function ProjectDetail() {
                         </SelectContent>
                       </Select>
                     </div>
+                    {phases.length > 0 && (
+                      <div className="space-y-2">
+                        <Label htmlFor="task-phase">Phase</Label>
+                        <Select
+                          value={newTask.phase_id || "none"}
+                          onValueChange={(value) => setNewTask({ ...newTask, phase_id: value === "none" ? "" : value })}
+                        >
+                          <SelectTrigger id="task-phase">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No Phase</SelectItem>
+                            {phases.map((phase) => (
+                              <SelectItem key={phase.id} value={phase.id}>
+                                {phase.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <Label htmlFor="task-points">Completion Points</Label>
                       <div className="relative">
@@ -934,7 +923,14 @@ export function ProjectDetail() {
                       <p className="text-sm text-muted-foreground">Create your first task for employees</p>
                     </div>
                   ) : (
-                    tasks.map((task) => (
+                    taskGroups.map((group) => (
+                      <div key={group.phase?.id ?? "no-phase"} className="space-y-3">
+                        <div className="flex items-center gap-2 pt-2">
+                          <GitBranch className="w-4 h-4 text-muted-foreground" />
+                          <h3 className="text-sm font-semibold">{group.phase?.name ?? "No Phase"}</h3>
+                          <Badge variant="outline" className="text-xs">{group.tasks.length}</Badge>
+                        </div>
+                        {group.tasks.map((task) => (
                       <Card key={task.id} className="hover:shadow-md transition-shadow">
                         <CardContent className="p-4">
                           <div className="flex items-start justify-between">
@@ -972,12 +968,57 @@ export function ProjectDetail() {
                               </div>
                             </div>
                             <div className="flex items-center gap-2 ml-4">
+                              {phases.length > 0 && (
+                                <Select
+                                  value={task.phase_id || "none"}
+                                  onValueChange={(value) => handleMoveTaskToPhase(task.id, value === "none" ? null : value)}
+                                >
+                                  <SelectTrigger className="h-8 w-[150px] text-xs" title="Phase">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="none">No Phase</SelectItem>
+                                    {phases.map((phase) => (
+                                      <SelectItem key={phase.id} value={phase.id}>
+                                        {phase.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
                               <Badge variant={getPriorityColor(task.priority)} className="text-xs">
                                 {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
                               </Badge>
                               <Badge className={`${getStatusColor(task.status)} text-xs`}>
                                 {formatStatusText(task.status)}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Comments"
+                                onClick={() => setDetailTask({ id: task.id, tab: "comments" })}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Files"
+                                onClick={() => setDetailTask({ id: task.id, tab: "files" })}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="History"
+                                onClick={() => setDetailTask({ id: task.id, tab: "history" })}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -1010,6 +1051,8 @@ export function ProjectDetail() {
                           </div>
                         </CardContent>
                       </Card>
+                        ))}
+                      </div>
                     ))
                   )}
                 </div>
@@ -1103,7 +1146,7 @@ export function ProjectDetail() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="unassigned">Select a supervisor...</SelectItem>
-                          {supervisors.map((sup) => (
+                          {supervisors.filter((sup) => projectMemberIds.includes(sup.user_id)).map((sup) => (
                             <SelectItem key={sup.user_id} value={sup.user_id}>
                               {sup.users.full_name}
                             </SelectItem>
@@ -1207,6 +1250,33 @@ export function ProjectDetail() {
                               <Badge className={`${getStatusColor(assignment.status)} text-xs`}>
                                 {formatStatusText(assignment.status)}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Comments"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "comments" })}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Files"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "files" })}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="History"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "history" })}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -1344,34 +1414,12 @@ export function ProjectDetail() {
         </Tabs>
       </div>
 
-      {/* Dialog for creating custom phase */}
-      <Dialog open={phaseDialogOpen} onOpenChange={setPhaseDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add Custom Phase</DialogTitle>
-            <DialogDescription>
-              Create a custom phase for this project
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-2">
-            <Label htmlFor="phase-name">Phase Name</Label>
-            <Input
-              id="phase-name"
-              value={newPhaseName}
-              onChange={(e) => setNewPhaseName(e.target.value)}
-              placeholder="e.g., Research Phase"
-            />
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setPhaseDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleCreatePhase}>
-              Add Phase
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <TaskDetailSheet
+        taskId={detailTask?.id ?? null}
+        taskTitle={[...tasks, ...assignments].find((t) => t.id === detailTask?.id)?.title}
+        tab={detailTask?.tab}
+        onOpenChange={handleTaskDetailOpenChange}
+      />
     </div>
   );
 }
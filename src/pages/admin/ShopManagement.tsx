@@ -7,10 +7,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Gift, Plus, Coins } from "lucide-react";
 import { Link } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { RedemptionFulfilment } from "@/components/shop/RedemptionFulfilment";
 
 interface Reward {
   id: string;
@@ -222,56 +224,69 @@ export function ShopManagement() {
       </header>
 
       <div className="container mx-auto px-4 py-6">
-        {rewards.length === 0 ? (
-          <Card>
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <Gift className="w-16 h-16 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">No Rewards Yet</h3>
-              <p className="text-muted-foreground text-center mb-4">
-                Create your first reward to get started
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {rewards.map((reward) => (
-              <Card key={reward.id} className={!reward.active ? "opacity-60" : ""}>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Gift className="w-5 h-5" />
-                    {reward.title}
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {reward.description && (
-                    <p className="text-sm text-muted-foreground">{reward.description}</p>
-                  )}
-                  
-                  <div className="flex items-center gap-2">
-                    <Coins className="w-5 h-5 text-warning" />
-                    <span className="font-bold text-lg">{reward.points_cost}</span>
-                    <span className="text-sm text-muted-foreground">points</span>
-                  </div>
-
-                  {reward.stock !== null && (
-                    <p className="text-sm text-muted-foreground">
-                      Stock: {reward.stock} remaining
-                    </p>
-                  )}
+        <Tabs defaultValue="rewards" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="rewards">Rewards</TabsTrigger>
+            <TabsTrigger value="fulfilment">Fulfilment</TabsTrigger>
+          </TabsList>
 
-                  <div className="flex items-center justify-between pt-4 border-t">
-                    <Label htmlFor={`active-${reward.id}`}>Active</Label>
-                    <Switch
-                      id={`active-${reward.id}`}
-                      checked={reward.active}
-                      onCheckedChange={() => handleToggleActive(reward.id, reward.active)}
-                    />
-                  </div>
+          <TabsContent value="rewards">
+            {rewards.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Gift className="w-16 h-16 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Rewards Yet</h3>
+                  <p className="text-muted-foreground text-center mb-4">
+                    Create your first reward to get started
+                  </p>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {rewards.map((reward) => (
+                  <Card key={reward.id} className={!reward.active ? "opacity-60" : ""}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Gift className="w-5 h-5" />
+                        {reward.title}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {reward.description && (
+                        <p className="text-sm text-muted-foreground">{reward.description}</p>
+                      )}
+                  
+                      <div className="flex items-center gap-2">
+                        <Coins className="w-5 h-5 text-warning" />
+                        <span className="font-bold text-lg">{reward.points_cost}</span>
+                        <span className="text-sm text-muted-foreground">points</span>
+                      </div>
+
+                      {reward.stock !== null && (
+                        <p className="text-sm text-muted-foreground">
+                          Stock: {reward.stock} remaining
+                        </p>
+                      )}
+
+                      <div className="flex items-center justify-between pt-4 border-t">
+                        <Label htmlFor={`active-${reward.id}`}>Active</Label>
+                        <Switch
+                          id={`active-${reward.id}`}
+                          checked={reward.active}
+                          onCheckedChange={() => handleToggleActive(reward.id, reward.active)}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="fulfilment">
+            <RedemptionFulfilment />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
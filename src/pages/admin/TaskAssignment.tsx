@@ -5,10 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Target, Clock, AlertCircle, CheckCircle2, Circle, Filter, Search } from "lucide-react";
+import { ArrowLeft, Target, Clock, AlertCircle, CheckCircle2, Circle, Filter, Search, Users } from "lucide-react";
 import { Link } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { ManageCollaboratorsDialog } from "@/components/tasks/ManageCollaboratorsDialog";
+import { TaskCollaborator, formatCollaboratorNames } from "@/lib/collaborators";
 
 type TaskStatus = "todo" | "in_progress" | "review" | "done" | "overdue";
 type TaskPriority = "low" | "medium" | "high";
@@ -26,6 +28,7 @@ interface Task {
   assignee: {
     full_name: string;
   } | null;
+  collaborators?: TaskCollaborator[];
 }
 
 interface TaskStats {
@@ -52,6 +55,7 @@ export function TaskAssignment() {
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterPriority, setFilterPriority] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [collaboratorTask, setCollaboratorTask] = useState<Task | null>(null);
 
   useEffect(() => {
     if (organization) {
@@ -84,55 +88,6 @@ export function TaskAssignment() {
     }
   }, [tasks]);
 
-  const checkAndUpdateOverdueTasks = async (tasksData: Task[]) => {
-    const now = new Date();
-    const overdueTasks = tasksData.filter(task => {
-      if (!task.due_date) return false;
-      
-      // Create date objects for comparison (ignore time portion)
-      const dueDate = new Date(task.due_date);
-      dueDate.setHours(0, 0, 0, 0);
-      const today = new Date(now);
-      today.setHours(0, 0, 0, 0);
-      
-      return dueDate < today && 
-             task.status !== 'done' && 
-             task.status !== 'overdue';
-    });
-
-    // Update overdue tasks in the database
-    const updatePromises = overdueTasks.map(async (task) => {
-      try {
-        const { error } = await supabase
-          .from('tasks')
-          .update({ status: 'overdue' })
-          .eq('id', task.id);
-
-        if (error) {
-          console.error(`Error updating task ${task.id} to overdue:`, error);
-          return null;
-        } else {
-          console.log(`Task ${task.id} marked as overdue`);
-          return task.id;
-        }
-      } catch (error) {
-        console.error(`Error updating task ${task.id}:`, error);
-        return null;
-      }
-    });
-
-    // Wait for all updates to complete
-    await Promise.all(updatePromises);
-
-    // Return updated tasks array with overdue status applied
-    return tasksData.map(task => {
-      if (overdueTasks.find(overdueTask => overdueTask.id === task.id)) {
-        return { ...task, status: 'overdue' as TaskStatus };
-      }
-      return { ...task, status: task.status as TaskStatus };
-    });
-  };
-
   const fetchTasks = async () => {
     if (!organization) return;
     
@@ -147,7 +102,8 @@ export function TaskAssignment() {
           due_date,
           assignee_id,
           projects!inner(name, organization_id),
-          assignee:users!assignee_id(full_name)
+          assignee:users!assignee_id(full_name),
+          collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
         `)
         .eq("projects.organization_id", organization.id)
         .order("created_at", { ascending: false });
@@ -164,9 +120,7 @@ export function TaskAssignment() {
       }
 
       if (tasksData) {
-        // Check and update overdue tasks
-        const updatedTasks = await checkAndUpdateOverdueTasks(tasksData as Task[]);
-        setTasks(updatedTasks);
+        setTasks(tasksData as Task[]);
       } else {
         setTasks([]);
       }
@@ -441,11 +395,29 @@ export function TaskAssignment() {
                             </span>
                           </>
                         )}
+                        {task.collaborators && task.collaborators.length > 0 && (
+                          <>
+                            <span className="text-xs text-muted-foreground">•</span>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Users className="w-3 h-3" />
+                              With {formatCollaboratorNames(task.collaborators)}
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
 
                   <div className="flex items-center gap-3">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Collaborators"
+                      onClick={() => setCollaboratorTask(task)}
+                    >
+                      <Users className="h-4 w-4" />
+                    </Button>
                     <Badge variant={getPriorityColor(task.priority)}>{task.priority}</Badge>
                     <Badge variant="outline" className={getStatusColor(task.status)}>
                       {task.status.replace("_", " ")}
@@ -471,6 +443,12 @@ export function TaskAssignment() {
           </CardContent>
         </Card>
       </div>
+
+      <ManageCollaboratorsDialog
+        task={collaboratorTask}
+        onOpenChange={(open) => !open && setCollaboratorTask(null)}
+        onSaved={fetchTasks}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,10 +25,22 @@ import {
   Play,
   Pause,
   CalendarClock,
-  GitBranch
+  GitBranch,
+  MessageSquare,
+  Paperclip,
+  History,
+  ArrowRightLeft,
+  User,
+  Users,
+  Timer
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { TaskDetailSheet, TaskDetailTab } from "@/components/tasks/TaskDetailSheet";
+import { RequestTransferDialog } from "@/components/tasks/RequestTransferDialog";
+import { TaskCollaborator, assignedOrCollaboratingFilter, awardCompletionPoints, fetchCollaboratingTaskIds, formatCollaboratorNames } from "@/lib/collaborators";
+import { TaskTimeSpent } from "@/components/tasks/TaskTimeSpent";
+import { TaskTimeTotal, fetchTaskTimeTotals, getTaskTimeError, startTaskTimer, stopTaskTimer, subscribeToTaskTimers } from "@/lib/taskTime";
 
 interface Project {
   id: string;
@@ -54,6 +66,11 @@ interface Task {
   project_id: string;
   assignee_id?: string;
   completion_points?: number;
+  estimated_hours?: number | null;
+  assignee?: {
+    full_name: string;
+  } | null;
+  collaborators?: TaskCollaborator[];
 }
 
 interface ProjectStats {
@@ -68,10 +85,12 @@ interface ProjectStats {
 export function ProjectDetail() {
   const { projectName } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { organization } = useOrganization();
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [timeTotals, setTimeTotals] = useState<Record<string, TaskTimeTotal>>({});
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<ProjectStats>({
     totalTasks: 0,
@@ -87,6 +106,17 @@ export function ProjectDetail() {
     requested_due_at: "",
     reason: "",
   });
+  const [detailTask, setDetailTask] = useState<{ id: string; tab: TaskDetailTab } | null>(null);
+  const [transferTask, setTransferTask] = useState<{ id: string; title: string } | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Deep link from a comment/mention notification opens that task's thread
+    const taskId = searchParams.get("task");
+    if (taskId) {
+      setDetailTask({ id: taskId, tab: "comments" });
+    }
+  }, [searchParams]);
 
   useEffect(() => {
     if (projectName && organization) {
@@ -94,12 +124,19 @@ export function ProjectDetail() {
     }
   }, [projectName, organization]);
 
+  // Keep the timers on the cards in step with the header and other tabs
+  useEffect(() => {
+    if (!currentUserId) return;
+    return subscribeToTaskTimers(currentUserId, fetchProjectDetails);
+  }, [currentUserId, projectName, organization]);
+
   const fetchProjectDetails = async () => {
     if (!organization || !projectName) return;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setCurrentUserId(user.id);
 
       // Fetch project details
       const { data: projectData, error: projectError } = await supabase
@@ -112,19 +149,25 @@ export function ProjectDetail() {
       if (projectError) throw projectError;
       setProject(projectData);
 
-      // Fetch only tasks assigned to this employee
+      // Fetch only tasks assigned to this employee or shared with them as a collaborator
+      const collaboratingTaskIds = await fetchCollaboratingTaskIds(user.id);
       const { data: tasksData, error: tasksError } = await supabase
         .from("tasks")
-        .select("*")
+        .select(`
+          *,
+          assignee:users!tasks_assignee_id_fkey(full_name),
+          collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
+        `)
         .eq("project_id", projectData.id)
         .eq("task_type", "task")
-        .eq("assignee_id", user.id)
+        .or(assignedOrCollaboratingFilter(user.id, collaboratingTaskIds))
         .order("created_at", { ascending: false });
 
       if (tasksError) throw tasksError;
 
       const fetchedTasks = tasksData || [];
       setTasks(fetchedTasks);
+      setTimeTotals(await fetchTaskTimeTotals(fetchedTasks.map((t) => t.id)));
 
       // Calculate statistics
       const totalTasks = fetchedTasks.length;
@@ -203,6 +246,13 @@ export function ProjectDetail() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // The timer is started or stopped first so its errors leave the status as is
+      if (action === "start") {
+        await startTaskTimer(taskId);
+      } else {
+        await stopTaskTimer(taskId, action);
+      }
+
       let newStatus: 'todo' | 'in_progress' | 'done';
       switch (action) {
         case "start":
@@ -218,15 +268,6 @@ export function ProjectDetail() {
 
       // If completing a task, award points
       if (action === "complete") {
-        // Get the task details to check for completion points
-        const { data: taskData, error: taskError } = await supabase
-          .from("tasks")
-          .select("completion_points")
-          .eq("id", taskId)
-          .single();
-
-        if (taskError) throw taskError;
-
         // Update task status
         const { error: updateError } = await supabase
           .from("tasks")
@@ -238,23 +279,13 @@ export function ProjectDetail() {
 
         if (updateError) throw updateError;
 
-        // Award points if the task has completion points
-        if (taskData.completion_points && taskData.completion_points > 0) {
-          const { error: pointsError } = await supabase
-            .from("points_ledger")
-            .insert({
-              user_id: user.id,
-              delta: taskData.completion_points,
-              reason_code: "task_completion",
-              task_id: taskId,
-            });
-
-          if (pointsError) throw pointsError;
-
+        // Award points to the assignee and collaborators
+        const earnedPoints = await awardCompletionPoints(taskId);
+        if (earnedPoints > 0) {
           // Show success notification with points earned
           toast({
             title: "Task Completed! 🎉",
-            description: `You earned ${taskData.completion_points} points!`,
+            description: `You earned ${earnedPoints} points!`,
           });
         } else {
           // Show completion message without points
@@ -264,36 +295,28 @@ export function ProjectDetail() {
           });
         }
       } else {
-        // For start and pause, just update the status
+        // For start and pause, just update the status; overdue tasks stay
+        // overdue until they are completed
         const { error: updateError } = await supabase
           .from("tasks")
           .update({ 
             status: newStatus,
             updated_at: new Date().toISOString()
           })
-          .eq("id", taskId);
+          .eq("id", taskId)
+          .neq("status", "overdue");
 
         if (updateError) throw updateError;
       }
 
-      // Create time log entry
-      if (action === "start" || action === "pause" || action === "complete") {
-        await supabase
-          .from("time_logs")
-          .insert({
-            task_id: taskId,
-            user_id: user.id,
-            action: action === "complete" ? "complete" : action,
-          });
-      }
-
       // Refresh project details
       await fetchProjectDetails();
     } catch (error) {
       console.error("Error updating task:", error);
+      const known = getTaskTimeError(error);
       toast({
-        title: "Error",
-        description: "Failed to update task",
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to update task",
         variant: "destructive",
       });
     }
@@ -304,14 +327,8 @@ export function ProjectDetail() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get the task details to check for completion points
-      const { data: taskData, error: taskError } = await supabase
-        .from("tasks")
-        .select("completion_points")
-        .eq("id", taskId)
-        .single();
-
-      if (taskError) throw taskError;
+      // Closes the running timer, if any
+      await stopTaskTimer(taskId, "complete");
 
       // Update task status to done
       const { error: updateError } = await supabase
@@ -324,22 +341,12 @@ export function ProjectDetail() {
 
       if (updateError) throw updateError;
 
-      // Award points if the task has completion points
-      if (taskData.completion_points && taskData.completion_points > 0) {
-        const { error: pointsError } = await supabase
-          .from("points_ledger")
-          .insert({
-            user_id: user.id,
-            delta: taskData.completion_points,
-            reason_code: "task_completion",
-            task_id: taskId,
-          });
-
-        if (pointsError) throw pointsError;
-
+      // Award points to the assignee and collaborators
+      const earnedPoints = await awardCompletionPoints(taskId);
+      if (earnedPoints > 0) {
         toast({
           title: "Task Completed! 🎉",
-          description: `You earned ${taskData.completion_points} points!`,
+          description: `You earned ${earnedPoints} points!`,
         });
       } else {
         toast({
@@ -352,9 +359,10 @@ export function ProjectDetail() {
       await fetchProjectDetails();
     } catch (error) {
       console.error("Error marking task as done:", error);
+      const known = getTaskTimeError(error);
       toast({
-        title: "Error",
-        description: "Failed to mark task as done",
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to mark task as done",
         variant: "destructive",
       });
     }
@@ -413,6 +421,16 @@ export function ProjectDetail() {
     }
   };
 
+  const handleTaskDetailOpenChange = (open: boolean) => {
+    if (open) return;
+    setDetailTask(null);
+    if (searchParams.has("task")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("task");
+      setSearchParams(next, { replace: true });
+    }
+  };
+
   const openExtensionDialog = (task: Task) => {
     setSelectedTaskForExtension(task);
     setExtensionRequest({
@@ -422,41 +440,33 @@ export function ProjectDetail() {
     setExtensionDialogOpen(true);
   };
 
+  // Timer controls; completing is done with the Done button
   const getActionButton = (task: Task) => {
-    switch (task.status) {
-      case "todo":
-        return (
-          <Button
-            size="sm"
-            onClick={() => handleTaskAction(task.id, "start")}
-          >
-            <Play className="w-3 h-3 mr-1" />
-            Start
-          </Button>
-        );
-      case "in_progress":
-        return (
-          <div className="flex gap-2">
-            <Button
-              variant="secondary"
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "pause")}
-            >
-              <Pause className="w-3 h-3 mr-1" />
-              Pause
-            </Button>
-            <Button
-              size="sm"
-              onClick={() => handleTaskAction(task.id, "complete")}
-            >
-              <CheckCircle2 className="w-3 h-3 mr-1" />
-              Complete
-            </Button>
-          </div>
-        );
-      default:
-        return null;
+    if (task.status !== "todo" && task.status !== "in_progress" && task.status !== "overdue") return null;
+
+    const total = timeTotals[task.id];
+    if (total?.running_since) {
+      return (
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => handleTaskAction(task.id, "pause")}
+        >
+          <Pause className="w-3 h-3 mr-1" />
+          Pause
+        </Button>
+      );
     }
+
+    return (
+      <Button
+        size="sm"
+        onClick={() => handleTaskAction(task.id, "start")}
+      >
+        <Play className="w-3 h-3 mr-1" />
+        {total?.total_seconds ? "Resume" : "Start"}
+      </Button>
+    );
   };
 
   if (loading) {
@@ -599,7 +609,7 @@ export function ProjectDetail() {
               <Target className="w-5 h-5" />
               My Tasks ({stats.totalTasks})
             </CardTitle>
-            <CardDescription>Tasks assigned to you in this project</CardDescription>
+            <CardDescription>Tasks assigned to you or shared with you in this project</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -634,6 +644,18 @@ export function ProjectDetail() {
                         )}
                         
                         <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                          {task.assignee_id !== currentUserId && task.assignee && (
+                            <div className="flex items-center gap-1.5">
+                              <User className="w-3.5 h-3.5" />
+                              <span>Collaborating with {task.assignee.full_name}</span>
+                            </div>
+                          )}
+                          {task.collaborators?.some((c) => c.user_id !== currentUserId) && (
+                            <div className="flex items-center gap-1.5">
+                              <Users className="w-3.5 h-3.5" />
+                              <span>With {formatCollaboratorNames(task.collaborators.filter((c) => c.user_id !== currentUserId))}</span>
+                            </div>
+                          )}
                           {task.due_date && (
                             <div className="flex items-center gap-1.5">
                               <Calendar className="w-3.5 h-3.5" />
@@ -646,11 +668,13 @@ export function ProjectDetail() {
                               <span>{task.completion_points} points</span>
                             </div>
                           )}
+                          <TaskTimeSpent total={timeTotals[task.id]} estimatedHours={task.estimated_hours} />
                         </div>
                       </div>
                       
                       {/* Action Buttons */}
                       <div className="flex flex-col gap-2">
+                        {getActionButton(task)}
                         {task.status !== 'done' && (
                           <>
                             <Button
@@ -669,8 +693,50 @@ export function ProjectDetail() {
                               <CalendarClock className="w-3 h-3 mr-1" />
                               Request Extension
                             </Button>
+                            {task.assignee_id === currentUserId && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setTransferTask({ id: task.id, title: task.title })}
+                              >
+                                <ArrowRightLeft className="w-3 h-3 mr-1" />
+                                Request Transfer
+                              </Button>
+                            )}
                           </>
                         )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDetailTask({ id: task.id, tab: "files" })}
+                        >
+                          <Paperclip className="w-3 h-3 mr-1" />
+                          Deliverables
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDetailTask({ id: task.id, tab: "time" })}
+                        >
+                          <Timer className="w-3 h-3 mr-1" />
+                          Time
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDetailTask({ id: task.id, tab: "history" })}
+                        >
+                          <History className="w-3 h-3 mr-1" />
+                          History
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDetailTask({ id: task.id, tab: "comments" })}
+                        >
+                          <MessageSquare className="w-3 h-3 mr-1" />
+                          Comments
+                        </Button>
                       </div>
                     </div>
                   </div>
@@ -744,6 +810,18 @@ export function ProjectDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RequestTransferDialog
+        task={transferTask}
+        onOpenChange={(open) => !open && setTransferTask(null)}
+      />
+
+      <TaskDetailSheet
+        taskId={detailTask?.id ?? null}
+        taskTitle={tasks.find((t) => t.id === detailTask?.id)?.title}
+        tab={detailTask?.tab}
+        onOpenChange={handleTaskDetailOpenChange}
+      />
     </div>
   );
 }
@@ -41,11 +41,12 @@ export default function EmployeeProjects() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Fetch all projects in the organization
+      // Fetch the projects the user is a member of
       const { data: projectsData, error: projectsError } = await supabase
         .from("projects")
-        .select("id, name, description, created_at, organization_id, current_phase")
+        .select("id, name, description, created_at, organization_id, current_phase, project_members!inner(user_id)")
         .eq("organization_id", organization.id)
+        .eq("project_members.user_id", user.id)
         .order("created_at", { ascending: false });
 
       if (projectsError) throw projectsError;
@@ -127,7 +128,7 @@ export default function EmployeeProjects() {
               <FolderOpen className="w-12 h-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No projects yet</h3>
               <p className="text-sm text-muted-foreground mb-4">
-                There are no projects in this organization yet
+                You have not been added to any projects yet
               </p>
             </CardContent>
           </Card>
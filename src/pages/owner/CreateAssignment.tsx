@@ -7,9 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Users, CheckCircle2, Coins, Calendar } from "lucide-react";
+import { ArrowLeft, Users, CheckCircle2, Coins, Calendar, Timer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { CollaboratorPicker } from "@/components/tasks/CollaboratorPicker";
+import { MAX_ESTIMATED_HOURS } from "@/lib/taskTime";
+import { addTaskCollaborators } from "@/lib/collaborators";
+import { fetchProjectMemberIds } from "@/lib/projectMembers";
 
 interface Project {
   id: string;
@@ -30,6 +34,7 @@ export default function CreateAssignment() {
   const { organization } = useOrganization();
   const [loading, setLoading] = useState(false);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [projectMemberIds, setProjectMemberIds] = useState<string[]>([]);
   const [supervisors, setSupervisors] = useState<Supervisor[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [formData, setFormData] = useState({
@@ -40,6 +45,8 @@ export default function CreateAssignment() {
     priority: "medium" as "low" | "medium" | "high" | "urgent",
     due_date: "",
     completion_points: 0,
+    estimated_hours: "",
+    collaborator_ids: [] as string[],
   });
 
   useEffect(() => {
@@ -48,6 +55,30 @@ export default function CreateAssignment() {
     }
   }, [organization]);
 
+  // Only members of the selected project can be assigned
+  useEffect(() => {
+    if (!formData.project_id) {
+      setProjectMemberIds([]);
+      return;
+    }
+
+    fetchProjectMemberIds(formData.project_id)
+      .then((ids) => {
+        setProjectMemberIds(ids);
+        setFormData((prev) => ({
+          ...prev,
+          assignee_id: ids.includes(prev.assignee_id) ? prev.assignee_id : "",
+          collaborator_ids: prev.collaborator_ids.filter((id) => ids.includes(id)),
+        }));
+      })
+      .catch((error) => {
+        console.error("Error fetching project members:", error);
+        setProjectMemberIds([]);
+      });
+  }, [formData.project_id]);
+
+  const projectSupervisors = supervisors.filter((sup) => projectMemberIds.includes(sup.user_id));
+
   const fetchData = async () => {
     if (!organization) return;
 
@@ -132,10 +163,20 @@ export default function CreateAssignment() {
       return;
     }
 
+    const estimatedHours = formData.estimated_hours ? parseFloat(formData.estimated_hours) : null;
+    if (estimatedHours !== null && !(estimatedHours > 0 && estimatedHours <= MAX_ESTIMATED_HOURS)) {
+      toast({
+        title: "Error",
+        description: `Estimated hours must be more than 0 and at most ${MAX_ESTIMATED_HOURS}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const { error } = await supabase
+      const { data: createdTask, error } = await supabase
         .from("tasks")
         .insert({
           title: formData.title,
@@ -145,12 +186,20 @@ export default function CreateAssignment() {
           priority: formData.priority,
           due_date: formData.due_date || null,
           completion_points: formData.completion_points || 0,
+          estimated_hours: estimatedHours !== null ? Math.round(estimatedHours * 100) / 100 : null,
           status: "todo",
           task_type: "assignment",
-        });
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      await addTaskCollaborators(
+        createdTask.id,
+        formData.collaborator_ids.filter((id) => id !== formData.assignee_id)
+      );
+
       toast({
         title: "Success",
         description: "Assignment created successfully",
@@ -322,15 +371,22 @@ export default function CreateAssignment() {
                 </Label>
                 <Select
                   value={formData.assignee_id || "unassigned"}
-                  onValueChange={(value) => setFormData({ ...formData, assignee_id: value === "unassigned" ? "" : value })}
-                  disabled={loading}
+                  onValueChange={(value) => {
+                    const assigneeId = value === "unassigned" ? "" : value;
+                    setFormData({
+                      ...formData,
+                      assignee_id: assigneeId,
+                      collaborator_ids: formData.collaborator_ids.filter((id) => id !== assigneeId),
+                    });
+                  }}
+                  disabled={loading || !formData.project_id}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder={supervisors.length === 0 ? "No supervisors available" : "Select a supervisor"} />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="unassigned">Select a supervisor...</SelectItem>
-                    {supervisors.map((sup) => (
+                    {projectSupervisors.map((sup) => (
                       <SelectItem key={sup.user_id} value={sup.user_id}>
                         {sup.users.full_name} ({sup.users.email})
                       </SelectItem>
@@ -338,7 +394,45 @@ export default function CreateAssignment() {
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
-                  The assignment must be assigned to a supervisor
+                  The assignment must be assigned to a supervisor who is a member of the project
+                </p>
+              </div>
+
+              {/* Collaborators */}
+              <div className="space-y-2">
+                <Label>Collaborators</Label>
+                <CollaboratorPicker
+                  candidates={projectSupervisors.map((sup) => ({ user_id: sup.user_id, full_name: sup.users.full_name }))}
+                  selected={formData.collaborator_ids}
+                  onChange={(ids) => setFormData({ ...formData, collaborator_ids: ids })}
+                  excludeUserId={formData.assignee_id}
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional: other supervisors working on this assignment with the assignee
+                </p>
+              </div>
+
+              {/* Estimated Hours */}
+              <div className="space-y-2">
+                <Label htmlFor="estimated_hours">Estimated Hours</Label>
+                <div className="relative">
+                  <Timer className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="estimated_hours"
+                    type="number"
+                    min="0"
+                    max={MAX_ESTIMATED_HOURS}
+                    step="0.25"
+                    value={formData.estimated_hours}
+                    onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
+                    placeholder="e.g. 4"
+                    disabled={loading}
+                    className="pl-10"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Optional: how long the assignment should take. Compared with the time logged on it in Analytics
                 </p>
               </div>
 
@@ -374,7 +468,7 @@ export default function CreateAssignment() {
                   />
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Points awarded to the supervisor when assignment is completed (max 100)
+                  Points awarded to the supervisor when assignment is completed (max 100). Collaborators earn points according to the organization's sharing rule
                 </p>
               </div>
 
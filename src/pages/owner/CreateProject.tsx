@@ -10,6 +10,7 @@ import { ArrowLeft, Building2, CheckCircle2, GitBranch } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { DEFAULT_PROJECT_PHASES } from "@/lib/phases";
 
 export default function CreateProject() {
   const navigate = useNavigate();
@@ -22,15 +23,6 @@ export default function CreateProject() {
     due_date: "",
     current_phase: "",
   });
-  const defaultPhases = [
-    "Planning Phase",
-    "Analysis Phase",
-    "Design Phase",
-    "Development Phase",
-    "Testing Phase",
-    "Deployment Phase",
-    "Maintenance Phase"
-  ];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -65,7 +57,6 @@ export default function CreateProject() {
           name: formData.name,
           description: formData.description,
           due_date: formData.due_date || null,
-          current_phase: formData.current_phase || null,
           organization_id: organization.id,
           owner_id: user.id,
         })
@@ -74,6 +65,26 @@ export default function CreateProject() {
 
       if (error) throw error;
 
+      // Picking a starting phase sets the project up with the default phase list
+      if (formData.current_phase) {
+        const { data: phasesData, error: phasesError } = await supabase
+          .from("phases")
+          .insert(DEFAULT_PROJECT_PHASES.map((name, index) => ({ project_id: data.id, name, sort_order: index })))
+          .select("id, name");
+
+        if (phasesError) throw phasesError;
+
+        const startingPhase = phasesData?.find((phase) => phase.name === formData.current_phase);
+        if (startingPhase) {
+          const { error: phaseError } = await supabase
+            .from("projects")
+            .update({ current_phase_id: startingPhase.id })
+            .eq("id", data.id);
+
+          if (phaseError) throw phaseError;
+        }
+      }
+
       toast({
         title: "Success",
         description: "Project created successfully",
@@ -174,7 +185,7 @@ export default function CreateProject() {
                     <SelectValue placeholder="Select a project phase (optional)" />
                   </SelectTrigger>
                   <SelectContent>
-                    {defaultPhases.map((phase) => (
+                    {DEFAULT_PROJECT_PHASES.map((phase) => (
                       <SelectItem key={phase} value={phase}>
                         {phase}
                       </SelectItem>
@@ -12,6 +12,7 @@ import { ArrowLeft, Plus, FolderOpen, Users, Calendar, Coins, GitBranch } from "
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_PROJECT_PHASES } from "@/lib/phases";
 
 interface Project {
   id: string;
@@ -41,15 +42,6 @@ export function ManageProjects() {
     completion_points: 0,
     current_phase: "",
   });
-  const defaultPhases = [
-    "Planning Phase",
-    "Analysis Phase",
-    "Design Phase",
-    "Development Phase",
-    "Testing Phase",
-    "Deployment Phase",
-    "Maintenance Phase"
-  ];
 
   useEffect(() => {
     if (organization) {
@@ -149,7 +141,7 @@ export function ManageProjects() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { error } = await supabase
+      const { data: createdProject, error } = await supabase
         .from("projects")
         .insert({
           name: newProject.name,
@@ -158,11 +150,32 @@ export function ManageProjects() {
           owner_id: user.id,
           assigned_admin_id: newProject.assigned_admin_id || null,
           completion_points: newProject.completion_points || 0,
-          current_phase: newProject.current_phase || null,
-        });
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      // Picking a starting phase sets the project up with the default phase list
+      if (newProject.current_phase) {
+        const { data: phasesData, error: phasesError } = await supabase
+          .from("phases")
+          .insert(DEFAULT_PROJECT_PHASES.map((name, index) => ({ project_id: createdProject.id, name, sort_order: index })))
+          .select("id, name");
+
+        if (phasesError) throw phasesError;
+
+        const startingPhase = phasesData?.find((phase) => phase.name === newProject.current_phase);
+        if (startingPhase) {
+          const { error: phaseError } = await supabase
+            .from("projects")
+            .update({ current_phase_id: startingPhase.id })
+            .eq("id", createdProject.id);
+
+          if (phaseError) throw phaseError;
+        }
+      }
+
       toast({
         title: "Success",
         description: "Project created successfully",
@@ -242,7 +255,7 @@ export function ManageProjects() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="project-phase">Project Phase (Optional)</Label>
+                    <Label htmlFor="project-phase">Starting Phase (Optional)</Label>
                     <Select
                       value={newProject.current_phase}
                       onValueChange={(value) => setNewProject({ ...newProject, current_phase: value })}
@@ -251,13 +264,16 @@ export function ManageProjects() {
                         <SelectValue placeholder="Select a project phase" />
                       </SelectTrigger>
                       <SelectContent>
-                        {defaultPhases.map((phase) => (
+                        {DEFAULT_PROJECT_PHASES.map((phase) => (
                           <SelectItem key={phase} value={phase}>
                             {phase}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Adds the default phases to the project; they can be edited on the project page
+                    </p>
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="assigned-admin">Assign to Admin (Optional)</Label>
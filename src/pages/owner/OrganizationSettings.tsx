@@ -6,6 +6,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,19 +20,56 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Building2, Upload, Trash2, Clock } from "lucide-react";
+import { ArrowLeft, Building2, Upload, Trash2, Clock, Paperclip, Users, BellRing } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import {
+  ATTACHMENT_TYPE_CATEGORIES,
+  DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+  DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+} from "@/lib/attachments";
+import {
+  COLLABORATOR_POINTS_MODES,
+  CollaboratorPointsMode,
+  DEFAULT_COLLABORATOR_POINTS_MODE,
+} from "@/lib/collaborators";
+import { DEFAULT_TIMEZONE, getTimezoneOptions } from "@/lib/timezone";
+import { DEFAULT_WORKING_WEEKDAYS, WEEKDAYS } from "@/lib/workSchedules";
+import {
+  DEFAULT_TIMESHEET_PERIOD,
+  DEFAULT_TIMESHEET_PERIOD_ANCHOR,
+  TIMESHEET_PERIODS,
+  TimesheetPeriodType,
+} from "@/lib/timesheets";
+import {
+  DEFAULT_DUE_REMINDER_OFFSETS,
+  DUE_REMINDER_OFFSETS,
+  MAX_DUE_REMINDER_OFFSETS,
+} from "@/lib/taskDeadlines";
+import { WorkSchedulesCard } from "@/components/org/WorkSchedulesCard";
+import { HolidaysCard } from "@/components/org/HolidaysCard";
 
 interface Organization {
   id: string;
   name: string;
   description?: string;
   logo_url?: string;
+  timezone?: string;
   work_start_time?: string;
   work_end_time?: string;
   early_threshold_minutes?: number;
   late_threshold_minutes?: number;
+  working_weekdays?: number[];
+  attendance_auto_close_hours?: number | null;
+  timesheet_period?: TimesheetPeriodType;
+  timesheet_period_anchor?: string;
+  annual_leave_days?: number;
+  sick_leave_days?: number;
+  attachment_max_size_mb?: number;
+  attachment_allowed_types?: string[];
+  collaborator_points_mode?: CollaboratorPointsMode;
+  due_reminder_offsets?: number[];
+  notify_supervisor_on_overdue?: boolean;
 }
 
 export function OrganizationSettings() {
@@ -42,13 +82,26 @@ export function OrganizationSettings() {
   const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [confirmName, setConfirmName] = useState("");
+  const [timezoneOptions] = useState(getTimezoneOptions);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
+    timezone: DEFAULT_TIMEZONE,
     work_start_time: "09:00",
     work_end_time: "17:00",
     early_threshold_minutes: 15,
     late_threshold_minutes: 15,
+    working_weekdays: DEFAULT_WORKING_WEEKDAYS,
+    attendance_auto_close_hours: 16 as number | null,
+    timesheet_period: DEFAULT_TIMESHEET_PERIOD,
+    timesheet_period_anchor: DEFAULT_TIMESHEET_PERIOD_ANCHOR,
+    annual_leave_days: 14,
+    sick_leave_days: 14,
+    attachment_max_size_mb: DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+    attachment_allowed_types: DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+    collaborator_points_mode: DEFAULT_COLLABORATOR_POINTS_MODE,
+    due_reminder_offsets: DEFAULT_DUE_REMINDER_OFFSETS,
+    notify_supervisor_on_overdue: true,
   });
 
   useEffect(() => {
@@ -73,10 +126,22 @@ export function OrganizationSettings() {
         setFormData({
           name: orgData.name || "",
           description: orgData.description || "",
+          timezone: orgData.timezone || DEFAULT_TIMEZONE,
           work_start_time: orgData.work_start_time ? orgData.work_start_time.substring(0, 5) : "09:00",
           work_end_time: orgData.work_end_time ? orgData.work_end_time.substring(0, 5) : "17:00",
           early_threshold_minutes: orgData.early_threshold_minutes || 15,
           late_threshold_minutes: orgData.late_threshold_minutes || 15,
+          working_weekdays: orgData.working_weekdays || DEFAULT_WORKING_WEEKDAYS,
+          attendance_auto_close_hours: orgData.attendance_auto_close_hours === undefined ? 16 : orgData.attendance_auto_close_hours,
+          timesheet_period: orgData.timesheet_period || DEFAULT_TIMESHEET_PERIOD,
+          timesheet_period_anchor: orgData.timesheet_period_anchor || DEFAULT_TIMESHEET_PERIOD_ANCHOR,
+          annual_leave_days: orgData.annual_leave_days ?? 14,
+          sick_leave_days: orgData.sick_leave_days ?? 14,
+          attachment_max_size_mb: orgData.attachment_max_size_mb || DEFAULT_ATTACHMENT_MAX_SIZE_MB,
+          attachment_allowed_types: orgData.attachment_allowed_types || DEFAULT_ATTACHMENT_ALLOWED_TYPES,
+          collaborator_points_mode: orgData.collaborator_points_mode || DEFAULT_COLLABORATOR_POINTS_MODE,
+          due_reminder_offsets: orgData.due_reminder_offsets || DEFAULT_DUE_REMINDER_OFFSETS,
+          notify_supervisor_on_overdue: orgData.notify_supervisor_on_overdue ?? true,
         });
       }
     } catch (error) {
@@ -147,10 +212,22 @@ export function OrganizationSettings() {
         .update({
           name: formData.name,
           description: formData.description,
+          timezone: formData.timezone,
           work_start_time: `${formData.work_start_time}:00`,
           work_end_time: `${formData.work_end_time}:00`,
           early_threshold_minutes: formData.early_threshold_minutes,
           late_threshold_minutes: formData.late_threshold_minutes,
+          working_weekdays: formData.working_weekdays,
+          attendance_auto_close_hours: formData.attendance_auto_close_hours,
+          timesheet_period: formData.timesheet_period,
+          timesheet_period_anchor: formData.timesheet_period_anchor,
+          annual_leave_days: formData.annual_leave_days,
+          sick_leave_days: formData.sick_leave_days,
+          attachment_max_size_mb: formData.attachment_max_size_mb,
+          attachment_allowed_types: formData.attachment_allowed_types,
+          collaborator_points_mode: formData.collaborator_points_mode,
+          due_reminder_offsets: formData.due_reminder_offsets,
+          notify_supervisor_on_overdue: formData.notify_supervisor_on_overdue,
         })
         .eq("id", organization.id);
 
@@ -192,6 +269,30 @@ export function OrganizationSettings() {
     }
   };
 
+  const toggleWorkingWeekday = (weekday: number, enabled: boolean) => {
+    const current = formData.working_weekdays.filter((d) => d !== weekday);
+    setFormData({
+      ...formData,
+      working_weekdays: enabled ? [...current, weekday].sort() : current,
+    });
+  };
+
+  const toggleAttachmentCategory = (patterns: string[], enabled: boolean) => {
+    const current = formData.attachment_allowed_types.filter((t) => !patterns.includes(t));
+    setFormData({
+      ...formData,
+      attachment_allowed_types: enabled ? [...current, ...patterns] : current,
+    });
+  };
+
+  const toggleDueReminderOffset = (offset: number, enabled: boolean) => {
+    const current = formData.due_reminder_offsets.filter((o) => o !== offset);
+    setFormData({
+      ...formData,
+      due_reminder_offsets: enabled ? [...current, offset].sort((a, b) => b - a) : current,
+    });
+  };
+
   const handleDeleteOrganization = async () => {
     if (!organization) return;
     if (confirmName.trim() !== (organization?.name || "").trim()) {
@@ -330,6 +431,159 @@ export function OrganizationSettings() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Paperclip className="w-5 h-5" />
+              File Attachments
+            </CardTitle>
+            <CardDescription>
+              Limit the size and type of files members can attach to tasks
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="attachment_max_size">Maximum File Size (MB)</Label>
+              <Input
+                id="attachment_max_size"
+                type="number"
+                min="1"
+                max="50"
+                value={formData.attachment_max_size_mb}
+                onChange={(e) => setFormData({ ...formData, attachment_max_size_mb: Math.min(50, parseInt(e.target.value) || 1) })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Per file, up to 50 MB
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Allowed File Types</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {ATTACHMENT_TYPE_CATEGORIES.map((category) => {
+                  const checked = category.patterns.every((p) => formData.attachment_allowed_types.includes(p));
+                  return (
+                    <label
+                      key={category.key}
+                      htmlFor={`attachment-type-${category.key}`}
+                      className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        id={`attachment-type-${category.key}`}
+                        checked={checked}
+                        onCheckedChange={(value) => toggleAttachmentCategory(category.patterns, value === true)}
+                      />
+                      <div>
+                        <p className="text-sm font-medium">{category.label}</p>
+                        <p className="text-xs text-muted-foreground">{category.description}</p>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+              {formData.attachment_allowed_types.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No type selected: every file type is accepted.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Task Collaboration
+            </CardTitle>
+            <CardDescription>
+              Choose how completion points are shared when a task has collaborators
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup
+              value={formData.collaborator_points_mode}
+              onValueChange={(value) => setFormData({ ...formData, collaborator_points_mode: value as CollaboratorPointsMode })}
+              className="grid grid-cols-1 md:grid-cols-2 gap-3"
+            >
+              {COLLABORATOR_POINTS_MODES.map((mode) => (
+                <label
+                  key={mode.value}
+                  htmlFor={`collaborator-points-${mode.value}`}
+                  className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+                >
+                  <RadioGroupItem id={`collaborator-points-${mode.value}`} value={mode.value} className="mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium">{mode.label}</p>
+                    <p className="text-xs text-muted-foreground">{mode.description}</p>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="w-5 h-5" />
+              Task Deadlines
+            </CardTitle>
+            <CardDescription>
+              Remind assignees before tasks are due and choose who hears about overdue tasks
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <Label>Due Reminders</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {DUE_REMINDER_OFFSETS.map((offset) => {
+                  const checked = formData.due_reminder_offsets.includes(offset.value);
+                  const disabled = !checked && formData.due_reminder_offsets.length >= MAX_DUE_REMINDER_OFFSETS;
+                  return (
+                    <label
+                      key={offset.value}
+                      htmlFor={`due-reminder-${offset.value}`}
+                      className={`flex items-center gap-3 p-3 border rounded-lg ${disabled ? "opacity-50" : "cursor-pointer hover:bg-muted/50"}`}
+                    >
+                      <Checkbox
+                        id={`due-reminder-${offset.value}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(value) => toggleDueReminderOffset(offset.value, value === true)}
+                      />
+                      <span className="text-sm font-medium">{offset.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formData.due_reminder_offsets.length === 0
+                  ? "No reminder selected: assignees are not reminded before tasks are due."
+                  : `Up to ${MAX_DUE_REMINDER_OFFSETS} reminders, sent to the assignee and collaborators.`}
+              </p>
+            </div>
+
+            <label
+              htmlFor="notify-supervisor-on-overdue"
+              className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+            >
+              <Checkbox
+                id="notify-supervisor-on-overdue"
+                checked={formData.notify_supervisor_on_overdue}
+                onCheckedChange={(value) => setFormData({ ...formData, notify_supervisor_on_overdue: value === true })}
+                className="mt-0.5"
+              />
+              <div>
+                <p className="text-sm font-medium">Notify supervisors of overdue tasks</p>
+                <p className="text-xs text-muted-foreground">
+                  The supervisors of the assignee's teams, or whoever created the task, are told when it becomes overdue
+                </p>
+              </div>
+            </label>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -341,6 +595,28 @@ export function OrganizationSettings() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Time Zone</Label>
+              <Select
+                value={formData.timezone}
+                onValueChange={(value) => setFormData({ ...formData, timezone: value })}
+              >
+                <SelectTrigger id="timezone" className="md:w-1/2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezoneOptions.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Attendance dates and the work hours below follow this time zone for every member, wherever they are
+              </p>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-2">
                 <Label htmlFor="work_start_time">Work Start Time</Label>
@@ -369,6 +645,27 @@ export function OrganizationSettings() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Working Days</Label>
+              <div className="flex flex-wrap gap-4">
+                {WEEKDAYS.map((day) => (
+                  <div key={day.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`working_day_${day.value}`}
+                      checked={formData.working_weekdays.includes(day.value)}
+                      onCheckedChange={(checked) => toggleWorkingWeekday(day.value, checked === true)}
+                    />
+                    <Label htmlFor={`working_day_${day.value}`} className="font-normal">
+                      {day.short}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Members without a work schedule are not expected on other days, so those days never count as absences
+              </p>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-2">
                 <Label htmlFor="early_threshold">Early Arrival Threshold (minutes)</Label>
@@ -401,6 +698,100 @@ export function OrganizationSettings() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="attendance_auto_close_hours">Auto Clock-Out (hours without activity)</Label>
+                <Input
+                  id="attendance_auto_close_hours"
+                  type="number"
+                  min="1"
+                  max="48"
+                  placeholder="Never"
+                  value={formData.attendance_auto_close_hours ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      attendance_auto_close_hours: e.target.value ? Math.min(48, Math.max(1, parseInt(e.target.value) || 1)) : null,
+                    })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Sessions without a clock-in, break or clock-out for this long are closed automatically and marked for correction. Leave empty to never close them.
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="timesheet_period">Timesheet Pay Period</Label>
+                <Select
+                  value={formData.timesheet_period}
+                  onValueChange={(value) => setFormData({ ...formData, timesheet_period: value as TimesheetPeriodType })}
+                >
+                  <SelectTrigger id="timesheet_period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMESHEET_PERIODS.map((period) => (
+                      <SelectItem key={period.value} value={period.value}>
+                        {period.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Timesheets are approved and exported for payroll per period
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="timesheet_period_anchor">First Day of a Pay Period</Label>
+                <Input
+                  id="timesheet_period_anchor"
+                  type="date"
+                  value={formData.timesheet_period_anchor}
+                  onChange={(e) =>
+                    setFormData({ ...formData, timesheet_period_anchor: e.target.value || DEFAULT_TIMESHEET_PERIOD_ANCHOR })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Any date a period started on; the other periods follow on from it
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="annual_leave_days">Annual Leave (days per year)</Label>
+                <Input
+                  id="annual_leave_days"
+                  type="number"
+                  min="0"
+                  max="365"
+                  value={formData.annual_leave_days}
+                  onChange={(e) => setFormData({ ...formData, annual_leave_days: parseInt(e.target.value) || 0 })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Working days of annual leave each member can take in a calendar year
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sick_leave_days">Sick Leave (days per year)</Label>
+                <Input
+                  id="sick_leave_days"
+                  type="number"
+                  min="0"
+                  max="365"
+                  value={formData.sick_leave_days}
+                  onChange={(e) => setFormData({ ...formData, sick_leave_days: parseInt(e.target.value) || 0 })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Unpaid leave has no limit
+                </p>
+              </div>
+            </div>
+
             <div className="bg-muted/50 p-4 rounded-lg">
               <p className="text-sm font-medium mb-2">How it works:</p>
               <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
@@ -408,6 +799,10 @@ export function OrganizationSettings() {
                 <li><strong>On Time:</strong> Clock-in within {formData.early_threshold_minutes} minutes before to {formData.late_threshold_minutes} minutes after {formData.work_start_time}</li>
                 <li><strong>Late:</strong> Clock-in more than {formData.late_threshold_minutes} minutes after {formData.work_start_time}</li>
                 <li><strong>Overtime:</strong> Clock-out after {formData.work_end_time}</li>
+                <li><strong>Timesheets:</strong> Worked time up to the length of the shift is regular, the rest is overtime</li>
+                {formData.attendance_auto_close_hours !== null && (
+                  <li><strong>Auto-Closed:</strong> No clock-out within {formData.attendance_auto_close_hours} hours of the last clock-in or break</li>
+                )}
               </ul>
             </div>
 
@@ -422,6 +817,10 @@ export function OrganizationSettings() {
           </CardContent>
         </Card>
 
+        <WorkSchedulesCard />
+
+        <HolidaysCard />
+
         <Card className="border-destructive">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-destructive">
@@ -28,7 +28,11 @@ import {
   Trash2,
   Pencil,
   CalendarClock,
-  GitBranch
+  GitBranch,
+  MessageSquare,
+  Paperclip,
+  History,
+  ArrowRightLeft
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -37,6 +41,11 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { TaskDetailSheet, TaskDetailTab } from "@/components/tasks/TaskDetailSheet";
+import { ProjectPhasesCard } from "@/components/projects/ProjectPhasesCard";
+import { ProjectMembersCard } from "@/components/projects/ProjectMembersCard";
+import { ProjectPhase, groupTasksByPhase } from "@/lib/phases";
+import { fetchProjectMemberIds } from "@/lib/projectMembers";
 
 interface Project {
   id: string;
@@ -48,6 +57,7 @@ interface Project {
   organization_id: string;
   owner_id: string;
   current_phase?: string;
+  current_phase_id?: string | null;
 }
 
 interface Task {
@@ -59,6 +69,7 @@ interface Task {
   due_date?: string;
   created_at: string;
   assignee_id?: string;
+  phase_id?: string | null;
   completion_points?: number;
   assignee?: {
     full_name: string;
@@ -95,13 +106,16 @@ interface ProjectStats {
 export function ProjectDetail() {
   const { projectName } = useParams<{ projectName: string }>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { organization } = useOrganization();
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
   const [employees, setEmployees] = useState<Array<{user_id: string, users: {full_name: string}}>>([]);
+  // Tasks can only be assigned to members of the project
+  const [projectMemberIds, setProjectMemberIds] = useState<string[]>([]);
   const [supervisors, setSupervisors] = useState<Array<{user_id: string, users: {full_name: string}}>>([]);
   const [stats, setStats] = useState<ProjectStats>({
     totalTasks: 0,
@@ -117,6 +131,7 @@ export function ProjectDetail() {
   const [filterPriority, setFilterPriority] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [activeTab, setActiveTab] = useState<string>("tasks");
+  const [detailTask, setDetailTask] = useState<{ id: string; tab: TaskDetailTab } | null>(null);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false);
   const [newTask, setNewTask] = useState({
@@ -126,6 +141,7 @@ export function ProjectDetail() {
     due_date: "",
     assignee_id: "",
     completion_points: 0,
+    phase_id: "",
   });
   const [newAssignment, setNewAssignment] = useState({
     title: "",
@@ -141,26 +157,7 @@ export function ProjectDetail() {
     description: "",
     due_date: "",
   });
-  const [phaseDialogOpen, setPhaseDialogOpen] = useState(false);
-  const [newPhaseName, setNewPhaseName] = useState("");
-  const defaultPhases = [
-    "Planning Phase",
-    "Analysis Phase",
-    "Design Phase",
-    "Development Phase",
-    "Testing Phase",
-    "Deployment Phase",
-    "Maintenance Phase"
-  ];
-
-  // Create a list of available phases that includes the current project phase if it's not in default phases
-  const availablePhases = useMemo(() => {
-    const phases = [...defaultPhases];
-    if (project?.current_phase && !phases.includes(project.current_phase)) {
-      phases.push(project.current_phase);
-    }
-    return phases;
-  }, [project?.current_phase]);
+  const taskGroups = useMemo(() => groupTasksByPhase(tasks, phases), [tasks, phases]);
 
   const filteredTasks = useMemo(() => {
     let list = tasks;
@@ -191,8 +188,23 @@ export function ProjectDetail() {
     if (tab && ["tasks", "assignments", "reports"].includes(tab)) {
       setActiveTab(tab);
     }
+    // Deep link from a comment/mention notification opens that task's thread
+    const taskId = searchParams.get("task");
+    if (taskId) {
+      setDetailTask({ id: taskId, tab: "comments" });
+    }
   }, [searchParams]);
 
+  const handleTaskDetailOpenChange = (open: boolean) => {
+    if (open) return;
+    setDetailTask(null);
+    if (searchParams.has("task")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("task");
+      setSearchParams(next, { replace: true });
+    }
+  };
+
   useEffect(() => {
     if (projectName && organization) {
       fetchProjectDetails();
@@ -257,6 +269,16 @@ export function ProjectDetail() {
 
       if (projectError) throw projectError;
       setProject(projectData);
+      setProjectMemberIds(await fetchProjectMemberIds(projectData.id));
+
+      const { data: phasesData, error: phasesError } = await supabase
+        .from("phases")
+        .select("id, name, sort_order")
+        .eq("project_id", projectData.id)
+        .order("sort_order", { ascending: true });
+
+      if (phasesError) throw phasesError;
+      setPhases(phasesData || []);
 
       // Fetch project tasks with assignee information
       const { data: tasksData, error: tasksError } = await supabase
@@ -270,6 +292,7 @@ export function ProjectDetail() {
           due_date,
           created_at,
           assignee_id,
+          phase_id,
           assignee:users!tasks_assignee_id_fkey(
             full_name,
             email
@@ -448,6 +471,7 @@ export function ProjectDetail() {
           assignee_id: newTask.assignee_id,
           completion_points: newTask.completion_points || 0,
           project_id: project.id,
+          phase_id: newTask.phase_id || null,
           status: "todo",
           task_type: "task",
         });
@@ -467,6 +491,7 @@ export function ProjectDetail() {
         due_date: "",
         assignee_id: "",
         completion_points: 0,
+        phase_id: "",
       });
       fetchProjectDetails();
     } catch (error) {
@@ -684,46 +709,24 @@ export function ProjectDetail() {
     }
   };
 
-  const handleUpdatePhase = async (phase: string) => {
-    if (!project) return;
-
+  const handleMoveTaskToPhase = async (taskId: string, phaseId: string | null) => {
     try {
       const { error } = await supabase
-        .from("projects")
-        .update({ current_phase: phase })
-        .eq("id", project.id);
+        .from("tasks")
+        .update({ phase_id: phaseId })
+        .eq("id", taskId);
 
       if (error) throw error;
 
-      toast({
-        title: "Success",
-        description: "Project phase updated successfully",
-      });
-
       fetchProjectDetails();
     } catch (error) {
-      console.error("Error updating phase:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update phase",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handleCreatePhase = async () => {
-    if (!newPhaseName.trim()) {
+      console.error("Error moving task to phase:", error);
       toast({
         title: "Error",
-        description: "Phase name is required",
+        description: "Failed to move task to phase",
         variant: "destructive",
       });
-      return;
     }
-
-    setPhaseDialogOpen(false);
-    setNewPhaseName("");
-    handleUpdatePhase(newPhaseName.trim());
   };
 
   const handleOpenEditDialog = () => {
@@ -786,6 +789,14 @@ export function ProjectDetail() {
                 <CalendarClock className="w-4 h-4 mr-2" />
                 Extension Requests
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate("/owner/transfer-requests")}
+              >
+                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                Transfer Requests
+              </Button>
               <Dialog open={editProjectDialogOpen} onOpenChange={setEditProjectDialogOpen}>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="sm" onClick={handleOpenEditDialog}>
@@ -905,63 +916,20 @@ export function ProjectDetail() {
               </CardContent>
             </Card>
 
-            {/* Project Phase Card */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <GitBranch className="w-5 h-5" />
-                  Project Phase
-                </CardTitle>
-                <CardDescription>
-                  Track the current phase of the project
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="current-phase">Current Phase</Label>
-                    <Select
-                      value={project.current_phase || ""}
-                      onValueChange={handleUpdatePhase}
-                    >
-                      <SelectTrigger id="current-phase">
-                        <SelectValue placeholder="Select or add a phase" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availablePhases.map((phase) => (
-                          <SelectItem key={phase} value={phase}>
-                            {phase}
-                          </SelectItem>
-                        ))}
-                        {(organization?.role === "owner" || organization?.role === "admin") && (
-                          <>
-                            <div className="px-2 py-1.5 text-sm font-semibold text-muted-foreground bg-muted/50">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="w-full justify-start h-8"
-                                onClick={(e) => {
-                                  e.preventDefault();
-                                  setPhaseDialogOpen(true);
-                                }}
-                              >
-                                <Plus className="w-3 h-3 mr-2" />
-                                Add Custom Phase
-                              </Button>
-                            </div>
-                          </>
-                        )}
-                      </SelectContent>
-                    </Select>
-                    {project.current_phase && (
-                      <p className="text-xs text-muted-foreground">
-                        Project is currently in: <span className="font-medium text-primary">{project.current_phase}</span>
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <ProjectPhasesCard
+              projectId={project.id}
+              currentPhaseId={project.current_phase_id}
+              phases={phases}
+              tasks={tasks}
+              canManage={organization?.role === "owner" || organization?.role === "admin"}
+              onChanged={fetchProjectDetails}
+            />
+
+            <ProjectMembersCard
+              projectId={project.id}
+              canManage={organization?.role === "owner" || organization?.role === "admin"}
+              onChanged={fetchProjectDetails}
+            />
           </div>
 
           {/* Right Column - Progress Overview */}
@@ -1112,7 +1080,7 @@ export function ProjectDetail() {
                   </SelectTrigger>
                   <SelectContent>
                           <SelectItem value="unassigned">Select an employee...</SelectItem>
-                          {employees.map((emp) => (
+                          {employees.filter((emp) => projectMemberIds.includes(emp.user_id)).map((emp) => (
                             <SelectItem key={emp.user_id} value={emp.user_id}>
                               {emp.users.full_name}
                             </SelectItem>
@@ -1120,6 +1088,27 @@ export function ProjectDetail() {
                   </SelectContent>
                 </Select>
               </div>
+                    {phases.length > 0 && (
+                      <div className="space-y-2">
+                        <Label htmlFor="task-phase">Phase</Label>
+                        <Select
+                          value={newTask.phase_id || "none"}
+                          onValueChange={(value) => setNewTask({ ...newTask, phase_id: value === "none" ? "" : value })}
+                        >
+                          <SelectTrigger id="task-phase">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No Phase</SelectItem>
+                            {phases.map((phase) => (
+                              <SelectItem key={phase.id} value={phase.id}>
+                                {phase.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <Label htmlFor="task-points">Completion Points</Label>
                       <div className="relative">
@@ -1172,7 +1161,14 @@ export function ProjectDetail() {
                       <p className="text-sm text-muted-foreground">Create your first task for employees</p>
                 </div>
               ) : (
-                    tasks.map((task) => (
+                    taskGroups.map((group) => (
+                      <div key={group.phase?.id ?? "no-phase"} className="space-y-3">
+                        <div className="flex items-center gap-2 pt-2">
+                          <GitBranch className="w-4 h-4 text-muted-foreground" />
+                          <h3 className="text-sm font-semibold">{group.phase?.name ?? "No Phase"}</h3>
+                          <Badge variant="outline" className="text-xs">{group.tasks.length}</Badge>
+                        </div>
+                        {group.tasks.map((task) => (
                   <Card key={task.id} className="hover:shadow-md transition-shadow">
                     <CardContent className="p-4">
                       <div className="flex items-start justify-between">
@@ -1210,12 +1206,57 @@ export function ProjectDetail() {
                               </div>
                             </div>
                         <div className="flex items-center gap-2 ml-4">
+                          {phases.length > 0 && (
+                            <Select
+                              value={task.phase_id || "none"}
+                              onValueChange={(value) => handleMoveTaskToPhase(task.id, value === "none" ? null : value)}
+                            >
+                              <SelectTrigger className="h-8 w-[150px] text-xs" title="Phase">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No Phase</SelectItem>
+                                {phases.map((phase) => (
+                                  <SelectItem key={phase.id} value={phase.id}>
+                                    {phase.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
                           <Badge variant={getPriorityColor(task.priority)} className="text-xs">
                             {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
                           </Badge>
                           <Badge className={`${getStatusColor(task.status)} text-xs`}>
                             {formatStatusText(task.status)}
                           </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Comments"
+                            onClick={() => setDetailTask({ id: task.id, tab: "comments" })}
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Files"
+                            onClick={() => setDetailTask({ id: task.id, tab: "files" })}
+                          >
+                            <Paperclip className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="History"
+                            onClick={() => setDetailTask({ id: task.id, tab: "history" })}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button
@@ -1248,7 +1289,9 @@ export function ProjectDetail() {
                       </div>
                     </CardContent>
                   </Card>
-                ))
+                        ))}
+                      </div>
+                    ))
               )}
                 </div>
               </CardContent>
@@ -1341,7 +1384,7 @@ export function ProjectDetail() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="unassigned">Select a supervisor...</SelectItem>
-                          {supervisors.map((sup) => (
+                          {supervisors.filter((sup) => projectMemberIds.includes(sup.user_id)).map((sup) => (
                             <SelectItem key={sup.user_id} value={sup.user_id}>
                               {sup.users.full_name}
                             </SelectItem>
@@ -1445,6 +1488,33 @@ export function ProjectDetail() {
                               <Badge className={`${getStatusColor(assignment.status)} text-xs`}>
                                 {formatStatusText(assignment.status)}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Comments"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "comments" })}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Files"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "files" })}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="History"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "history" })}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -1582,34 +1652,12 @@ export function ProjectDetail() {
         </Tabs>
       </div>
 
-      {/* Dialog for creating custom phase */}
-      <Dialog open={phaseDialogOpen} onOpenChange={setPhaseDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add Custom Phase</DialogTitle>
-            <DialogDescription>
-              Create a custom phase for this project
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-2">
-            <Label htmlFor="phase-name">Phase Name</Label>
-            <Input
-              id="phase-name"
-              value={newPhaseName}
-              onChange={(e) => setNewPhaseName(e.target.value)}
-              placeholder="e.g., Research Phase"
-            />
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setPhaseDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleCreatePhase}>
-              Add Phase
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <TaskDetailSheet
+        taskId={detailTask?.id ?? null}
+        taskTitle={[...tasks, ...assignments].find((t) => t.id === detailTask?.id)?.title}
+        tab={detailTask?.tab}
+        onOpenChange={handleTaskDetailOpenChange}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -8,9 +8,11 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Plus, Gift, Coins } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { RedemptionFulfilment } from "@/components/shop/RedemptionFulfilment";
 
 interface Reward {
   id: string;
@@ -250,60 +252,73 @@ export function ShopManagement() {
       </header>
 
       <div className="container mx-auto px-4 py-6">
-        {rewards.length === 0 ? (
-          <Card className="py-12">
-            <CardContent className="flex flex-col items-center justify-center text-center">
-              <Gift className="w-12 h-12 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">No rewards yet</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Create your first reward for the shop
-              </p>
-              <Button onClick={() => setDialogOpen(true)}>
-                <Plus className="w-4 h-4 mr-2" />
-                Create Reward
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {rewards.map((reward) => (
-              <Card key={reward.id} className={!reward.active ? "opacity-60" : ""}>
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Gift className="w-5 h-5" />
-                      {reward.title}
-                    </div>
-                    <Switch
-                      checked={reward.active}
-                      onCheckedChange={() => handleToggleActive(reward.id, reward.active)}
-                    />
-                  </CardTitle>
-                  <CardDescription>
-                    {reward.description || "No description"}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Cost:</span>
-                      <div className="flex items-center gap-1 font-bold text-primary">
-                        <Coins className="w-4 h-4" />
-                        {reward.points_cost}
-                      </div>
-                    </div>
-                    {reward.stock !== null && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-muted-foreground">Stock:</span>
-                        <span className="font-medium">{reward.stock}</span>
-                      </div>
-                    )}
-                  </div>
+        <Tabs defaultValue="rewards" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="rewards">Rewards</TabsTrigger>
+            <TabsTrigger value="fulfilment">Fulfilment</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rewards">
+            {rewards.length === 0 ? (
+              <Card className="py-12">
+                <CardContent className="flex flex-col items-center justify-center text-center">
+                  <Gift className="w-12 h-12 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No rewards yet</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Create your first reward for the shop
+                  </p>
+                  <Button onClick={() => setDialogOpen(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create Reward
+                  </Button>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {rewards.map((reward) => (
+                  <Card key={reward.id} className={!reward.active ? "opacity-60" : ""}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Gift className="w-5 h-5" />
+                          {reward.title}
+                        </div>
+                        <Switch
+                          checked={reward.active}
+                          onCheckedChange={() => handleToggleActive(reward.id, reward.active)}
+                        />
+                      </CardTitle>
+                      <CardDescription>
+                        {reward.description || "No description"}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Cost:</span>
+                          <div className="flex items-center gap-1 font-bold text-primary">
+                            <Coins className="w-4 h-4" />
+                            {reward.points_cost}
+                          </div>
+                        </div>
+                        {reward.stock !== null && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-muted-foreground">Stock:</span>
+                            <span className="font-medium">{reward.stock}</span>
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="fulfilment">
+            <RedemptionFulfilment />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
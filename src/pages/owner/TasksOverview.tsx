@@ -8,6 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { ArrowLeft, Target, CheckCircle2, Circle, Clock, AlertCircle, Filter, Search } from "lucide-react";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { TaskTimeSpent } from "@/components/tasks/TaskTimeSpent";
+import { TaskTimeTotal, fetchTaskTimeTotals, formatEstimate, formatTimeSpent, getTaskTimeSpent } from "@/lib/taskTime";
 
 interface Task {
   id: string;
@@ -18,6 +20,7 @@ interface Task {
   due_date?: string;
   project_id: string;
   assignee_id?: string;
+  estimated_hours?: number | null;
   projects: {
     name: string;
   };
@@ -38,6 +41,7 @@ export function TasksOverview() {
   const navigate = useNavigate();
   const { organization } = useOrganization();
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [timeTotals, setTimeTotals] = useState<Record<string, TaskTimeTotal>>({});
   const [stats, setStats] = useState<TaskStats>({
     total: 0,
     todo: 0,
@@ -56,42 +60,6 @@ export function TasksOverview() {
     }
   }, [organization]);
 
-  const checkAndUpdateOverdueTasks = async (tasksData: Task[]) => {
-    const now = new Date();
-    const overdueTasks = tasksData.filter(task => 
-      task.due_date && 
-      new Date(task.due_date) < now && 
-      task.status !== 'done' && 
-      task.status !== 'overdue'
-    );
-
-    // Update overdue tasks in the database
-    for (const task of overdueTasks) {
-      try {
-        const { error } = await supabase
-          .from('tasks')
-          .update({ status: 'overdue' })
-          .eq('id', task.id);
-
-        if (error) {
-          console.error(`Error updating task ${task.id} to overdue:`, error);
-        } else {
-          console.log(`Task ${task.id} marked as overdue`);
-        }
-      } catch (error) {
-        console.error(`Error updating task ${task.id}:`, error);
-      }
-    }
-
-    // Return updated tasks array with overdue status applied
-    return tasksData.map(task => {
-      if (overdueTasks.find(overdueTask => overdueTask.id === task.id)) {
-        return { ...task, status: 'overdue' };
-      }
-      return task;
-    });
-  };
-
   const fetchTasks = async () => {
     if (!organization) return;
     
@@ -107,19 +75,18 @@ export function TasksOverview() {
         .order("created_at", { ascending: false });
 
       if (tasksData) {
-        // Check and update overdue tasks
-        const updatedTasks = await checkAndUpdateOverdueTasks(tasksData);
-        setTasks(updatedTasks);
-        
+        setTasks(tasksData);
+
         const now = new Date();
         const statsData = {
-          total: updatedTasks.length,
-          todo: updatedTasks.filter(t => t.status === 'todo').length,
-          inProgress: updatedTasks.filter(t => t.status === 'in_progress').length,
-          done: updatedTasks.filter(t => t.status === 'done').length,
-          overdue: updatedTasks.filter(t => t.status === 'overdue').length,
+          total: tasksData.length,
+          todo: tasksData.filter(t => t.status === 'todo').length,
+          inProgress: tasksData.filter(t => t.status === 'in_progress').length,
+          done: tasksData.filter(t => t.status === 'done').length,
+          overdue: tasksData.filter(t => t.status === 'overdue').length,
         };
         setStats(statsData);
+        setTimeTotals(await fetchTaskTimeTotals(tasksData.map((t) => t.id)));
       }
     } catch (error) {
       console.error("Error fetching tasks:", error);
@@ -186,6 +153,12 @@ export function TasksOverview() {
     return filtered;
   }, [tasks, filterStatus, filterPriority, searchQuery]);
 
+  // Time logged on the listed tasks, and the estimates of those that have one
+  const timeSummary = useMemo(() => ({
+    spent: filteredTasks.reduce((sum, t) => sum + getTaskTimeSpent(timeTotals[t.id]), 0),
+    estimatedHours: filteredTasks.reduce((sum, t) => sum + (t.estimated_hours || 0), 0),
+  }), [filteredTasks, timeTotals]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -333,6 +306,10 @@ export function TasksOverview() {
               <Target className="w-5 h-5" />
               All Tasks ({filteredTasks.length})
             </CardTitle>
+            <CardDescription>
+              {formatTimeSpent(timeSummary.spent)} logged
+              {timeSummary.estimatedHours > 0 && ` of ${formatEstimate(timeSummary.estimatedHours)} estimated`}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -365,6 +342,11 @@ export function TasksOverview() {
                   </div>
 
                   <div className="flex items-center gap-3">
+                    <TaskTimeSpent
+                      total={timeTotals[task.id]}
+                      estimatedHours={task.estimated_hours}
+                      className="text-sm text-muted-foreground"
+                    />
                     <Badge variant={getPriorityColor(task.priority)}>{task.priority}</Badge>
                     <Badge className={getStatusColor(task.status)}>
                       {task.status.replace("_", " ")}
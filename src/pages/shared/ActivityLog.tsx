@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { ArrowLeft, Filter, History, ShieldAlert, X } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  ActivityEvent,
+  ACTIVITY_ENTITIES,
+  ACTIVITY_EVENT_SELECT,
+  describeActivityEvent,
+  getActivityColor,
+} from "@/lib/activity";
+
+interface MemberOption {
+  user_id: string;
+  full_name: string;
+}
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+
+export function ActivityLog() {
+  const { organization } = useOrganization();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const [filterActor, setFilterActor] = useState("all");
+  const [filterEntity, setFilterEntity] = useState("all");
+  const [filterProject, setFilterProject] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  const canView = organization?.role === "owner" || organization?.role === "admin";
+
+  useEffect(() => {
+    if (organization && canView) {
+      fetchFilterOptions();
+    }
+  }, [organization]);
+
+  useEffect(() => {
+    if (organization && canView) {
+      fetchEvents(0);
+    } else {
+      setLoading(false);
+    }
+  }, [organization, filterActor, filterEntity, filterProject, dateFrom, dateTo]);
+
+  const fetchFilterOptions = async () => {
+    if (!organization) return;
+
+    try {
+      const [{ data: membersData, error: membersError }, { data: projectsData, error: projectsError }] =
+        await Promise.all([
+          supabase
+            .from("organization_members")
+            .select("user_id, users!inner(full_name)")
+            .eq("organization_id", organization.id),
+          supabase
+            .from("projects")
+            .select("id, name")
+            .eq("organization_id", organization.id)
+            .order("name"),
+        ]);
+
+      if (membersError) throw membersError;
+      if (projectsError) throw projectsError;
+
+      setMembers(
+        (membersData || [])
+          .map((m) => ({ user_id: m.user_id, full_name: m.users?.full_name || "Unknown" }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+      setProjects(projectsData || []);
+    } catch (error) {
+      console.error("Error fetching activity filters:", error);
+    }
+  };
+
+  const fetchEvents = async (offset: number) => {
+    if (!organization) return;
+
+    if (offset === 0) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+
+    try {
+      let query = supabase
+        .from("events")
+        .select(ACTIVITY_EVENT_SELECT)
+        .eq("organization_id", organization.id)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (filterActor !== "all") query = query.eq("actor_id", filterActor);
+      if (filterEntity !== "all") query = query.eq("entity", filterEntity);
+      if (filterProject !== "all") query = query.eq("project_id", filterProject);
+      if (dateFrom) query = query.gte("created_at", new Date(`${dateFrom}T00:00:00`).toISOString());
+      if (dateTo) query = query.lte("created_at", new Date(`${dateTo}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const page = (data as unknown as ActivityEvent[]) || [];
+      setEvents((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching activity:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load activity",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setFilterActor("all");
+    setFilterEntity("all");
+    setFilterProject("all");
+    setDateFrom("");
+    setDateTo("");
+  };
+
+  const hasFilters =
+    filterActor !== "all" || filterEntity !== "all" || filterProject !== "all" || !!dateFrom || !!dateTo;
+
+  const getEntityLabel = (entity: string) =>
+    ACTIVITY_ENTITIES.find((e) => e.value === entity)?.label.replace(/s$/, "") ?? entity;
+
+  if (!canView) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <ShieldAlert className="w-12 h-12 text-muted-foreground" />
+        <p className="text-muted-foreground">Only owners and admins can view the activity log</p>
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          Go back
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Activity</h1>
+              <p className="text-sm text-muted-foreground">
+                Audit log of changes across {organization?.name}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Filter className="w-5 h-5" />
+                Filters
+              </CardTitle>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  <X className="w-4 h-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Actor</label>
+                <Select value={filterActor} onValueChange={setFilterActor}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Everyone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Entity</label>
+                <Select value={filterEntity} onValueChange={setFilterEntity}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Entities" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Entities</SelectItem>
+                    {ACTIVITY_ENTITIES.map((entity) => (
+                      <SelectItem key={entity.value} value={entity.value}>
+                        {entity.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Project</label>
+                <Select value={filterProject} onValueChange={setFilterProject}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Projects" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Projects</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">From</label>
+                <Input
+                  type="date"
+                  value={dateFrom}
+                  max={dateTo || undefined}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">To</label>
+                <Input
+                  type="date"
+                  value={dateTo}
+                  min={dateFrom || undefined}
+                  onChange={(e) => setDateTo(e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Recent Activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {hasFilters ? "No activity matches your filters" : "No activity recorded yet"}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {events.map((event) => (
+                  <div key={event.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+                    <div className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${getActivityColor(event.action)}`}></div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm">
+                        <span className="font-medium">{event.actor?.full_name || "System"}</span>{" "}
+                        {describeActivityEvent(event)}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Badge variant="outline" className="text-xs">
+                          {getEntityLabel(event.entity)}
+                        </Badge>
+                        {typeof event.payload?.project_name === "string" && event.entity !== "project" && (
+                          <span className="text-xs text-muted-foreground">{event.payload.project_name}</span>
+                        )}
+                      </div>
+                    </div>
+                    <span
+                      className="text-xs text-muted-foreground whitespace-nowrap"
+                      title={format(new Date(event.created_at), "PPpp")}
+                    >
+                      {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                ))}
+                {hasMore && (
+                  <div className="flex justify-center pt-2">
+                    <Button variant="outline" onClick={() => fetchEvents(events.length)} disabled={loadingMore}>
+                      {loadingMore ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
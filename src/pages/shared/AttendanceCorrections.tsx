@@ -0,0 +1,585 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ArrowLeft,
+  Calendar,
+  CalendarDays,
+  CheckCircle2,
+  ClipboardCheck,
+  Clock,
+  FileText,
+  History,
+  Plus,
+  ScrollText,
+  Undo2,
+  User,
+  XCircle,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { format, parseISO } from "date-fns";
+import { DEFAULT_TIMEZONE, formatTimeInZone, getLocalDate } from "@/lib/timezone";
+import {
+  AttendanceCorrectionStatus,
+  AttendanceCorrectionType,
+  getAttendanceError,
+  getCorrectionTypeLabel,
+  reviewAttendanceCorrection,
+  withdrawAttendanceCorrection,
+} from "@/lib/attendance";
+import { AttendanceCorrectionDialog } from "@/components/attendance/AttendanceCorrectionDialog";
+
+interface AttendanceCorrection {
+  id: string;
+  user_id: string;
+  local_date: string;
+  correction_type: AttendanceCorrectionType;
+  requested_clock_in_at: string | null;
+  requested_clock_out_at: string | null;
+  reason: string;
+  status: AttendanceCorrectionStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  requester?: {
+    full_name: string;
+    email: string;
+  } | null;
+  reviewer?: {
+    full_name: string;
+  } | null;
+  checkin?: {
+    clock_in_at: string;
+    clock_out_at: string | null;
+    auto_closed: boolean;
+  } | null;
+}
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  local_date: string | null;
+  old_clock_in_at: string | null;
+  old_clock_out_at: string | null;
+  new_clock_in_at: string | null;
+  new_clock_out_at: string | null;
+  reason: string | null;
+  created_at: string;
+  member?: {
+    full_name: string;
+    email: string;
+  } | null;
+  editor?: {
+    full_name: string;
+  } | null;
+}
+
+type CorrectionTab = "mine" | "approvals" | "audit";
+
+const CORRECTION_COLUMNS = `
+  *,
+  requester:users!attendance_corrections_user_id_fkey(full_name, email),
+  reviewer:users!attendance_corrections_reviewed_by_fkey(full_name),
+  checkin:attendance_checkins!attendance_corrections_checkin_id_fkey(clock_in_at, clock_out_at, auto_closed)
+`;
+
+const AUDIT_COLUMNS = `
+  *,
+  member:users!attendance_audit_log_user_id_fkey(full_name, email),
+  editor:users!attendance_audit_log_changed_by_fkey(full_name)
+`;
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  manual_entry: "Manual Entry",
+  correction: "Correction",
+  adjustment: "Adjustment",
+  auto_close: "Auto-Closed",
+  deletion: "Deleted",
+};
+
+export function AttendanceCorrections() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [searchParams] = useSearchParams();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<CorrectionTab>("mine");
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+  const [myRequests, setMyRequests] = useState<AttendanceCorrection[]>([]);
+  const [reviewRequests, setReviewRequests] = useState<AttendanceCorrection[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+
+  const [selectedRequest, setSelectedRequest] = useState<AttendanceCorrection | null>(null);
+  const [decisionAction, setDecisionAction] = useState<"approve" | "reject">("approve");
+  const [decisionNote, setDecisionNote] = useState("");
+
+  const isReviewer = organization?.role === "owner" || organization?.role === "admin" || organization?.role === "supervisor";
+  const canAudit = organization?.role === "owner" || organization?.role === "admin";
+
+  useEffect(() => {
+    const tab = searchParams.get("tab");
+    if ((tab === "approvals" && isReviewer) || (tab === "audit" && canAudit)) {
+      setActiveTab(tab);
+    }
+  }, [searchParams, isReviewer, canAudit]);
+
+  useEffect(() => {
+    if (organization) {
+      fetchCorrections();
+    }
+  }, [organization]);
+
+  const fetchCorrections = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !organization) return;
+      setUserId(user.id);
+
+      // RLS returns the user's own requests and the ones they can review
+      const [{ data, error }, { data: orgTimeZone }, audit] = await Promise.all([
+        supabase
+          .from("attendance_corrections")
+          .select(CORRECTION_COLUMNS)
+          .eq("organization_id", organization.id)
+          .order("local_date", { ascending: false }),
+        supabase.rpc("get_org_timezone", { p_org: organization.id }),
+        canAudit
+          ? supabase
+              .from("attendance_audit_log")
+              .select(AUDIT_COLUMNS)
+              .eq("organization_id", organization.id)
+              .order("created_at", { ascending: false })
+              .limit(200)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (error) throw error;
+      if (audit.error) throw audit.error;
+
+      const requests = (data as unknown as AttendanceCorrection[]) || [];
+      setMyRequests(requests.filter((r) => r.user_id === user.id));
+      setReviewRequests(
+        requests
+          .filter((r) => r.user_id !== user.id)
+          // Pending requests first, oldest first so nobody waits longest
+          .sort((a, b) =>
+            a.status === "pending" && b.status !== "pending"
+              ? -1
+              : b.status === "pending" && a.status !== "pending"
+                ? 1
+                : a.status === "pending"
+                  ? a.created_at.localeCompare(b.created_at)
+                  : b.local_date.localeCompare(a.local_date)
+          )
+      );
+      setAuditEntries((audit.data as unknown as AuditEntry[]) || []);
+      if (orgTimeZone) setTimeZone(orgTimeZone);
+    } catch (error) {
+      console.error("Error fetching attendance corrections:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load attendance corrections",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatTime = (value: string | null | undefined) =>
+    value ? formatTimeInZone(new Date(value), timeZone, false) : "—";
+
+  const handleWithdraw = async (request: AttendanceCorrection) => {
+    try {
+      await withdrawAttendanceCorrection(request.id);
+
+      toast({
+        title: "Request Withdrawn",
+        description: `Your correction for ${format(parseISO(request.local_date), "MMM dd, yyyy")} has been withdrawn`,
+      });
+      fetchCorrections();
+    } catch (error) {
+      console.error("Error withdrawing attendance correction:", error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw the correction request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDecisionDialog = (request: AttendanceCorrection, action: "approve" | "reject") => {
+    setSelectedRequest(request);
+    setDecisionAction(action);
+    setDecisionNote("");
+  };
+
+  const handleDecision = async () => {
+    if (!selectedRequest) return;
+
+    try {
+      await reviewAttendanceCorrection(
+        selectedRequest.id,
+        decisionAction === "approve" ? "approved" : "rejected",
+        decisionNote
+      );
+
+      toast({
+        title: `Correction ${decisionAction === "approve" ? "Approved" : "Rejected"}`,
+        description: `${selectedRequest.requester?.full_name || "The member"} has been notified`,
+      });
+
+      setSelectedRequest(null);
+      setDecisionNote("");
+      fetchCorrections();
+    } catch (error) {
+      console.error("Error reviewing attendance correction:", error);
+      const known = getAttendanceError(error);
+      toast({
+        title: known?.title || "Error",
+        description: known?.description || "Failed to process the decision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (status: AttendanceCorrectionStatus) => {
+    switch (status) {
+      case "pending":
+        return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">Pending</Badge>;
+      case "approved":
+        return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">Approved</Badge>;
+      case "rejected":
+        return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-300">Rejected</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const renderRequest = (request: AttendanceCorrection, mode: "mine" | "approvals") => (
+    <Card key={request.id} className="hover:shadow-lg transition-shadow">
+      <CardContent className="pt-6">
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="flex items-center gap-2 mb-1 flex-wrap">
+                <h3 className="font-semibold text-lg">{getCorrectionTypeLabel(request.correction_type)}</h3>
+                <Badge variant="secondary">{format(parseISO(request.local_date), "MMM dd, yyyy")}</Badge>
+              </div>
+              {mode === "approvals" && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  {request.requester?.full_name || "Unknown"}
+                </p>
+              )}
+            </div>
+            {getStatusBadge(request.status)}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+            {request.correction_type !== "missing_clock_in" && request.status === "pending" && (
+              <div className="flex items-center gap-2 text-sm">
+                <History className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">Recorded:</span>
+                <span>
+                  {request.checkin
+                    ? `${formatTime(request.checkin.clock_in_at)} – ${formatTime(request.checkin.clock_out_at)}${
+                        request.checkin.auto_closed ? " (auto-closed)" : ""
+                      }`
+                    : "No longer exists"}
+                </span>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm">
+              <Clock className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">Requested:</span>
+              <span>
+                {request.requested_clock_in_at ? `In ${formatTime(request.requested_clock_in_at)}` : ""}
+                {request.requested_clock_in_at && request.requested_clock_out_at ? " · " : ""}
+                {request.requested_clock_out_at ? `Out ${formatTime(request.requested_clock_out_at)}` : ""}
+              </span>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Calendar className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">Requested on:</span>
+              <span>{format(new Date(request.created_at), "MMM dd, yyyy")}</span>
+            </div>
+            {(request.status === "approved" || request.status === "rejected") && (
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">Reviewed by:</span>
+                <span>
+                  {request.reviewer?.full_name || "Unknown"}
+                  {request.reviewed_at && ` on ${format(new Date(request.reviewed_at), "MMM dd, yyyy")}`}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 bg-muted/30 rounded-lg">
+            <div className="flex items-start gap-2 text-sm">
+              <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+              <div>
+                <span className="font-medium block mb-1">Reason:</span>
+                <p className="text-muted-foreground">{request.reason}</p>
+              </div>
+            </div>
+          </div>
+
+          {request.review_note && (
+            <div className="p-4 bg-muted/30 rounded-lg border-l-4 border-primary">
+              <div className="flex items-start gap-2 text-sm">
+                <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <span className="font-medium block mb-1">Decision Note:</span>
+                  <p className="text-muted-foreground">{request.review_note}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {mode === "approvals" && request.status === "pending" && (
+            <div className="flex items-center gap-3 pt-2">
+              <Button onClick={() => openDecisionDialog(request, "approve")} className="bg-green-600 hover:bg-green-700">
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+              <Button onClick={() => openDecisionDialog(request, "reject")} variant="destructive">
+                <XCircle className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          )}
+
+          {mode === "mine" && request.status === "pending" && (
+            <div className="flex items-center gap-3 pt-2">
+              <Button variant="outline" onClick={() => handleWithdraw(request)}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Withdraw
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderEmpty = (message: string, hint: string) => (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="text-center py-12">
+          <History className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground font-medium mb-2">{message}</p>
+          <p className="text-sm text-muted-foreground">{hint}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const pendingApprovals = reviewRequests.filter((r) => r.status === "pending").length;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <History className="w-6 h-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Attendance Corrections</h1>
+                <p className="text-sm text-muted-foreground">
+                  {isReviewer
+                    ? "Fix your own attendance and review your team's corrections"
+                    : "Ask for a missed or wrong clock-in or clock-out to be fixed"}
+                </p>
+              </div>
+            </div>
+            <Button onClick={() => setRequestDialogOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Request Correction
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as CorrectionTab)} className="space-y-6">
+          {isReviewer && (
+            <TabsList className={`grid w-full max-w-md ${canAudit ? "grid-cols-3" : "grid-cols-2"}`}>
+              <TabsTrigger value="mine" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Mine
+              </TabsTrigger>
+              <TabsTrigger value="approvals" className="flex items-center gap-2">
+                <ClipboardCheck className="w-4 h-4" />
+                Approvals
+                {pendingApprovals > 0 && <Badge variant="destructive" className="ml-1 h-5 px-1.5">{pendingApprovals}</Badge>}
+              </TabsTrigger>
+              {canAudit && (
+                <TabsTrigger value="audit" className="flex items-center gap-2">
+                  <ScrollText className="w-4 h-4" />
+                  Audit Trail
+                </TabsTrigger>
+              )}
+            </TabsList>
+          )}
+
+          <TabsContent value="mine" className="space-y-4">
+            {myRequests.length === 0
+              ? renderEmpty("No correction requests yet", "Use \"Request Correction\" when a clock-in or clock-out is missing or wrong")
+              : myRequests.map((request) => renderRequest(request, "mine"))}
+          </TabsContent>
+
+          {isReviewer && (
+            <TabsContent value="approvals" className="space-y-4">
+              {reviewRequests.length === 0
+                ? renderEmpty("No corrections to review", "Corrections requested by the members you manage appear here")
+                : reviewRequests.map((request) => renderRequest(request, "approvals"))}
+            </TabsContent>
+          )}
+
+          {canAudit && (
+            <TabsContent value="audit" className="space-y-4">
+              {auditEntries.length === 0 ? (
+                renderEmpty("No manual changes yet", "Manual entries, approved corrections, adjustments and auto-closes appear here")
+              ) : (
+                <Card>
+                  <CardContent className="pt-6">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>When</TableHead>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Change</TableHead>
+                          <TableHead>Before</TableHead>
+                          <TableHead>After</TableHead>
+                          <TableHead>By</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {auditEntries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(entry.created_at), "MMM dd, yyyy")}{" "}
+                              {formatTime(entry.created_at)}
+                            </TableCell>
+                            <TableCell>{entry.member?.full_name || entry.member?.email || "Unknown"}</TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              <span className="flex items-center gap-1">
+                                <CalendarDays className="w-3 h-3 text-muted-foreground" />
+                                {entry.local_date ? format(parseISO(entry.local_date), "MMM dd") : "—"}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {entry.old_clock_in_at ? `${formatTime(entry.old_clock_in_at)} – ${formatTime(entry.old_clock_out_at)}` : "—"}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {entry.new_clock_in_at ? `${formatTime(entry.new_clock_in_at)} – ${formatTime(entry.new_clock_out_at)}` : "—"}
+                            </TableCell>
+                            <TableCell>{entry.editor?.full_name || "System"}</TableCell>
+                            <TableCell className="max-w-xs text-muted-foreground">{entry.reason || "—"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      {organization && userId && (
+        <AttendanceCorrectionDialog
+          open={requestDialogOpen}
+          onOpenChange={setRequestDialogOpen}
+          organizationId={organization.id}
+          userId={userId}
+          timeZone={timeZone}
+          defaultDate={getLocalDate(new Date(), timeZone)}
+          onSubmitted={fetchCorrections}
+        />
+      )}
+
+      {/* Decision Dialog */}
+      <Dialog open={!!selectedRequest} onOpenChange={(open) => !open && setSelectedRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decisionAction === "approve" ? "Approve" : "Reject"} Correction</DialogTitle>
+            <DialogDescription>
+              {selectedRequest &&
+                `${selectedRequest.requester?.full_name || "This member"} reported a ${getCorrectionTypeLabel(selectedRequest.correction_type).toLowerCase()} on ${format(parseISO(selectedRequest.local_date), "MMM dd, yyyy")}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {decisionAction === "approve" && (
+              <div className="p-3 bg-muted/50 rounded-lg text-sm">
+                Approving applies the requested times to the member's attendance and records the change in the audit trail.
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="decision-note">Note (Optional)</Label>
+              <Textarea
+                id="decision-note"
+                value={decisionNote}
+                onChange={(e) => setDecisionNote(e.target.value)}
+                placeholder="Add a note about your decision..."
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRequest(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDecision}
+              className={decisionAction === "approve" ? "bg-green-600 hover:bg-green-700" : ""}
+              variant={decisionAction === "reject" ? "destructive" : "default"}
+            >
+              {decisionAction === "approve" ? (
+                <>
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Approve
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
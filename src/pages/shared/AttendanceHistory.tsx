@@ -7,6 +7,11 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { DEFAULT_TIMEZONE, formatTimeInZone, getRecentLocalDates } from "@/lib/timezone";
+import { ATTENDANCE_SESSION_COLUMNS, AttendanceBreak, formatDuration, getAttendanceSourceLabel, getWorkedMilliseconds } from "@/lib/attendance";
+import { fetchAbsenceExclusions, isExcusedAbsence } from "@/lib/leave";
+import { fetchMemberSchedules, getDefaultSchedule } from "@/lib/workSchedules";
+import { ATTENDANCE_STATUS_LABELS, AttendanceDayStatus, getAttendanceDay, isAttended } from "@/lib/attendanceStatus";
 import { 
   ArrowLeft, 
   Clock, 
@@ -18,7 +23,7 @@ import {
   ChevronLeft,
   ChevronRight,
 } from "lucide-react";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 
 interface AttendanceRecord {
   id: string;
@@ -26,21 +31,26 @@ interface AttendanceRecord {
   clock_in_at?: string;
   clock_out_at?: string;
   local_date: string;
+  source?: string;
+  note?: string | null;
+  breaks?: AttendanceBreak[] | null;
   users: {
     full_name?: string;
     email: string;
   };
   role?: string;
-  status?: "early" | "on-time" | "late" | "absent";
+  status?: AttendanceDayStatus;
   hasOvertime?: boolean;
   isAbsent?: boolean;
 }
 
 interface WorkHoursConfig {
+  timezone: string;
   work_start_time: string;
   work_end_time: string;
   early_threshold_minutes: number;
   late_threshold_minutes: number;
+  working_weekdays: number[] | null;
 }
 
 interface DateGroup {
@@ -71,16 +81,17 @@ export function AttendanceHistory() {
   const [currentPage, setCurrentPage] = useState(1);
   const [activeFilter, setActiveFilter] = useState(searchParams.get("filter") || "all");
   const [workHours, setWorkHours] = useState<WorkHoursConfig>({
+    timezone: DEFAULT_TIMEZONE,
     work_start_time: "09:00:00",
     work_end_time: "17:00:00",
     early_threshold_minutes: 15,
     late_threshold_minutes: 15,
+    working_weekdays: null,
   });
 
   useEffect(() => {
     if (organization) {
-      fetchWorkHours();
-      fetchAttendanceHistory();
+      fetchWorkHours().then(fetchAttendanceHistory);
     }
   }, [organization]);
 
@@ -93,40 +104,43 @@ export function AttendanceHistory() {
     setCurrentPage(1);
   }, [activeFilter]);
 
-  const fetchWorkHours = async () => {
+  const fetchWorkHours = async (): Promise<WorkHoursConfig> => {
     try {
-      if (!organization) return;
+      if (!organization) return workHours;
 
       const { data, error } = await supabase
         .from("organizations")
-        .select("work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes")
+        .select("timezone, work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes, working_weekdays")
         .eq("id", organization.id)
         .single();
 
-      if (error || !data || !('work_start_time' in data)) {
-        return;
+      if (error || !data) {
+        return workHours;
       }
 
-      setWorkHours({
-        work_start_time: (data as any).work_start_time || "09:00:00",
-        work_end_time: (data as any).work_end_time || "17:00:00",
-        early_threshold_minutes: (data as any).early_threshold_minutes || 15,
-        late_threshold_minutes: (data as any).late_threshold_minutes || 15,
-      });
+      const config = {
+        timezone: data.timezone || DEFAULT_TIMEZONE,
+        work_start_time: data.work_start_time || "09:00:00",
+        work_end_time: data.work_end_time || "17:00:00",
+        early_threshold_minutes: data.early_threshold_minutes || 15,
+        late_threshold_minutes: data.late_threshold_minutes || 15,
+        working_weekdays: data.working_weekdays ?? null,
+      };
+      setWorkHours(config);
+      return config;
     } catch (error) {
       console.error("Error fetching work hours:", error);
+      return workHours;
     }
   };
 
-  const fetchAttendanceHistory = async () => {
+  const fetchAttendanceHistory = async (config: WorkHoursConfig = workHours) => {
     try {
       if (!organization) return;
       setLoading(true);
 
-      // Fetch attendance records from last 30 days
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      const today = new Date().toISOString().split('T')[0];
+      // Last 30 days in the organization's time zone, today first
+      const dateRange = getRecentLocalDates(30, config.timezone);
 
       // Fetch all organization members
       const { data: membersData, error: membersError } = await supabase
@@ -136,6 +150,14 @@ export function AttendanceHistory() {
 
       if (membersError) throw membersError;
 
+      // Members are judged against their own schedule, otherwise the organization hours
+      const schedules = await fetchMemberSchedules(organization.id);
+      const defaultSchedule = getDefaultSchedule(config);
+      const now = new Date();
+
+      // Holidays and approved leave are not absences
+      const exclusions = await fetchAbsenceExclusions(organization.id, dateRange[dateRange.length - 1], dateRange[0]);
+
       // Fetch all user details
       const allMemberIds = membersData?.map((m) => m.user_id) || [];
       const { data: allUsersData } = await supabase
@@ -145,9 +167,9 @@ export function AttendanceHistory() {
 
       const { data: attendanceData, error: attendanceError } = await supabase
         .from("attendance_checkins")
-        .select("*")
+        .select(ATTENDANCE_SESSION_COLUMNS)
         .eq("org_id", organization.id)
-        .gte("local_date", thirtyDaysAgo.toISOString().split('T')[0])
+        .gte("local_date", dateRange[dateRange.length - 1])
         .order("local_date", { ascending: false })
         .order("clock_in_at", { ascending: false });
 
@@ -155,88 +177,59 @@ export function AttendanceHistory() {
 
       const allRecords: AttendanceRecord[] = [];
 
-      // Generate date range for last 30 days
-      const dateRange: string[] = [];
-      for (let i = 0; i < 30; i++) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        dateRange.push(date.toISOString().split('T')[0]);
-      }
-
       // Process each date
       for (const date of dateRange) {
         const dateAttendance = attendanceData?.filter((a) => a.local_date === date) || [];
         const attendedUserIds = dateAttendance.map((a) => a.user_id);
 
-        // Add records; if clock-in occurs after work end time, treat as absent
+        // Clock-ins after the end of the member's shift count as absent
         dateAttendance.forEach((record) => {
           const user = allUsersData?.find((u) => u.id === record.user_id);
           const role = membersData?.find((m) => m.user_id === record.user_id)?.role;
+          const day = getAttendanceDay({
+            schedule: schedules[record.user_id] ?? defaultSchedule,
+            timeZone: config.timezone,
+            localDate: date,
+            session: record,
+            now,
+          });
 
-          // Determine if clock-in is after work end time for that date
-          let isAfterWorkEnd = false;
-          if (record.clock_in_at) {
-            const clockIn = new Date(record.clock_in_at);
-            const workEnd = new Date(clockIn);
-            const [endHours, endMinutes] = workHours.work_end_time.split(":").map(Number);
-            workEnd.setHours(endHours, endMinutes, 0, 0);
-            isAfterWorkEnd = clockIn.getTime() > workEnd.getTime();
-          }
+          allRecords.push({
+            ...record,
+            users: user || { email: "Unknown", full_name: null },
+            role: role || "employee",
+            status: day.status,
+            hasOvertime: day.overtime,
+            isAbsent: false,
+          });
+        });
+
+        // Add absent records for members who didn't clock in, once their
+        // shift for the date is over (never on their days off, holidays or leave)
+        membersData?.forEach((member) => {
+          if (attendedUserIds.includes(member.user_id)) return;
+
+          const day = getAttendanceDay({
+            schedule: schedules[member.user_id] ?? defaultSchedule,
+            timeZone: config.timezone,
+            localDate: date,
+            excused: isExcusedAbsence(exclusions, member.user_id, date),
+            now,
+          });
 
-          if (isAfterWorkEnd) {
-            // Count as absent for the day
+          if (day.status === "absent") {
+            const user = allUsersData?.find((u) => u.id === member.user_id);
             allRecords.push({
-              id: `absent-after-end-${record.local_date}-${record.user_id}`,
-              user_id: record.user_id,
-              local_date: record.local_date,
+              id: `absent-${date}-${member.user_id}`,
+              user_id: member.user_id,
+              local_date: date,
               users: user || { email: "Unknown", full_name: null },
-              role: role || "employee",
+              role: member.role || "employee",
               status: "absent",
               isAbsent: true,
-            } as AttendanceRecord);
-          } else {
-            const status = getArrivalStatus(record.clock_in_at);
-            const hasOvertime = record.clock_out_at && checkHasOvertime(record.clock_in_at, record.clock_out_at);
-            allRecords.push({
-              ...record,
-              users: user || { email: "Unknown", full_name: null },
-              role: role || "employee",
-              status,
-              hasOvertime,
-              isAbsent: false,
             });
           }
         });
-
-        // Check if it's past work end time for this date to determine absent status
-        const dateObj = new Date(date);
-        const now = new Date();
-        const isPastDate = dateObj.toISOString().split('T')[0] < today;
-        
-        // For today, check if current time is past work end time
-        const currentTime = now.getHours() * 60 + now.getMinutes();
-        const [endHours, endMinutes] = workHours.work_end_time.split(':').map(Number);
-        const workEndMinutes = endHours * 60 + endMinutes;
-        const isPastWorkEnd = currentTime > workEndMinutes;
-
-        // Mark absent only if it's a past date OR if today and past work end time
-        if (isPastDate || (date === today && isPastWorkEnd)) {
-          // Add absent records for members who didn't clock in
-          membersData?.forEach((member) => {
-            if (!attendedUserIds.includes(member.user_id)) {
-              const user = allUsersData?.find((u) => u.id === member.user_id);
-              allRecords.push({
-                id: `absent-${date}-${member.user_id}`,
-                user_id: member.user_id,
-                local_date: date,
-                users: user || { email: "Unknown", full_name: null },
-                role: member.role || "employee",
-                status: "absent",
-                isAbsent: true,
-              });
-            }
-          });
-        }
       }
 
       setAttendanceRecords(allRecords);
@@ -251,59 +244,22 @@ export function AttendanceHistory() {
     }
   };
 
-  const getArrivalStatus = (clockInTime?: string): "early" | "on-time" | "late" | "absent" => {
-    if (!clockInTime) return "absent";
-    
-    const clockIn = new Date(clockInTime);
-    const workStart = new Date(clockIn);
-    
-    const [hours, minutes] = workHours.work_start_time.split(':').map(Number);
-    workStart.setHours(hours, minutes, 0, 0);
+  // Worked time excludes breaks
+  const calculateWorkHours = (record: AttendanceRecord): string => {
+    if (!record.clock_in_at || !record.clock_out_at) return "Still working";
 
-    const diffMinutes = (clockIn.getTime() - workStart.getTime()) / (1000 * 60);
-
-    if (diffMinutes <= -workHours.early_threshold_minutes) return "early";
-    if (diffMinutes <= workHours.late_threshold_minutes) return "on-time";
-    return "late";
-  };
-
-  const checkHasOvertime = (clockInTime: string, clockOutTime: string): boolean => {
-    const clockOut = new Date(clockOutTime);
-    const workEnd = new Date(clockOut);
-    
-    const [hours, minutes] = workHours.work_end_time.split(':').map(Number);
-    workEnd.setHours(hours, minutes, 0, 0);
-
-    return clockOut.getTime() > workEnd.getTime();
-  };
-
-  const calculateWorkHours = (clockInTime: string, clockOutTime?: string): string => {
-    if (!clockOutTime) return "Still working";
-    
-    const clockIn = new Date(clockInTime);
-    const clockOut = new Date(clockOutTime);
-    const hoursWorked = (clockOut.getTime() - clockIn.getTime()) / (1000 * 60 * 60);
-    
-    const hours = Math.floor(hoursWorked);
-    const minutes = Math.round((hoursWorked - hours) * 60);
-    
-    return `${hours}h ${minutes}m`;
+    return formatDuration(getWorkedMilliseconds({ ...record, clock_in_at: record.clock_in_at, clock_out_at: record.clock_out_at }));
   };
 
   const applyFilter = () => {
     // Generate all date groups for last 30 days
-    const dateRange: string[] = [];
-    for (let i = 0; i < 30; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      dateRange.push(date.toISOString().split('T')[0]);
-    }
+    const dateRange = getRecentLocalDates(30, workHours.timezone);
 
     // Filter records based on active filter
     let filtered = [...attendanceRecords];
     switch (activeFilter) {
       case "attended":
-        filtered = filtered.filter((r) => r.status === "early" || r.status === "on-time" || r.status === "late");
+        filtered = filtered.filter((r) => !!r.status && isAttended(r.status));
         break;
       case "on-time":
         filtered = filtered.filter((r) => r.status === "on-time");
@@ -349,7 +305,7 @@ export function AttendanceHistory() {
     setFilteredRecords(filtered);
   };
 
-  const getStatusBadge = (status: "early" | "on-time" | "late" | "absent") => {
+  const getStatusBadge = (status: AttendanceDayStatus) => {
     switch (status) {
       case "early":
         return <Badge className="bg-blue-500"><CheckCircle2 className="w-3 h-3 mr-1" />Early</Badge>;
@@ -359,6 +315,8 @@ export function AttendanceHistory() {
         return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Late</Badge>;
       case "absent":
         return <Badge className="bg-gray-500"><XCircle className="w-3 h-3 mr-1" />Absent</Badge>;
+      default:
+        return <Badge variant="outline">{ATTENDANCE_STATUS_LABELS[status]}</Badge>;
     }
   };
 
@@ -464,7 +422,7 @@ export function AttendanceHistory() {
                         <div>
                           <CardTitle className="flex items-center gap-2">
                             <Calendar className="w-5 h-5" />
-                            {format(new Date(dateGroup.date), "EEEE, MMMM d, yyyy")}
+                            {format(parseISO(dateGroup.date), "EEEE, MMMM d, yyyy")}
                           </CardTitle>
                           <CardDescription>
                             {dateGroup.stats.total} total attendance records
@@ -501,7 +459,7 @@ export function AttendanceHistory() {
                       ) : (
                         <div className="space-y-3">
                           {dateGroup.records.map((record) => {
-                          const hoursWorked = record.isAbsent ? "Absent" : calculateWorkHours(record.clock_in_at, record.clock_out_at);
+                          const hoursWorked = record.isAbsent ? "Absent" : calculateWorkHours(record);
 
                           return (
                             <div
@@ -525,6 +483,11 @@ export function AttendanceHistory() {
                                 <Badge variant="outline" className="capitalize">
                                   {record.role}
                                 </Badge>
+                                {record.source && record.source !== "web" && (
+                                  <Badge variant="secondary" title={record.note || undefined}>
+                                    {getAttendanceSourceLabel(record.source)}
+                                  </Badge>
+                                )}
                               </div>
 
                               <div className="flex items-center gap-6">
@@ -542,7 +505,7 @@ export function AttendanceHistory() {
                                     <div className="text-center w-20">
                                       <p className="text-xs text-muted-foreground mb-1">Clock In</p>
                                       <p className="text-sm font-mono font-semibold">
-                                        {record.clock_in_at ? format(new Date(record.clock_in_at), "HH:mm:ss") : "—"}
+                                        {record.clock_in_at ? formatTimeInZone(new Date(record.clock_in_at), workHours.timezone) : "—"}
                                       </p>
                                     </div>
 
@@ -550,7 +513,7 @@ export function AttendanceHistory() {
                                       <p className="text-xs text-muted-foreground mb-1">Clock Out</p>
                                       <p className="text-sm font-mono font-semibold">
                                         {record.clock_out_at 
-                                          ? format(new Date(record.clock_out_at), "HH:mm:ss")
+                                          ? formatTimeInZone(new Date(record.clock_out_at), workHours.timezone)
                                           : "—"}
                                       </p>
                                     </div>
@@ -0,0 +1,640 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowLeft,
+  Calendar,
+  CalendarDays,
+  CheckCircle2,
+  ClipboardCheck,
+  FileText,
+  Plane,
+  Plus,
+  Undo2,
+  User,
+  XCircle,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { format, parseISO } from "date-fns";
+import {
+  LEAVE_TYPES,
+  LeaveBalance,
+  LeaveStatus,
+  LeaveType,
+  cancelLeaveRequest,
+  fetchLeaveBalances,
+  getLeaveError,
+  getLeaveTypeLabel,
+  reviewLeaveRequest,
+} from "@/lib/leave";
+
+interface LeaveRequest {
+  id: string;
+  user_id: string;
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  requester?: {
+    full_name: string;
+    email: string;
+  } | null;
+  reviewer?: {
+    full_name: string;
+  } | null;
+}
+
+type LeaveTab = "mine" | "approvals";
+
+const LEAVE_REQUEST_COLUMNS = `
+  *,
+  requester:users!leave_requests_user_id_fkey(full_name, email),
+  reviewer:users!leave_requests_reviewed_by_fkey(full_name)
+`;
+
+const formatDateRange = (request: LeaveRequest) =>
+  request.start_date === request.end_date
+    ? format(parseISO(request.start_date), "MMM dd, yyyy")
+    : `${format(parseISO(request.start_date), "MMM dd")} – ${format(parseISO(request.end_date), "MMM dd, yyyy")}`;
+
+export function LeaveRequests() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [searchParams] = useSearchParams();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<LeaveTab>("mine");
+  const [myRequests, setMyRequests] = useState<LeaveRequest[]>([]);
+  const [reviewRequests, setReviewRequests] = useState<LeaveRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    leave_type: "annual" as LeaveType,
+    start_date: "",
+    end_date: "",
+    reason: "",
+  });
+
+  const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
+  const [decisionAction, setDecisionAction] = useState<"approve" | "reject">("approve");
+  const [decisionNote, setDecisionNote] = useState("");
+  const [requesterBalances, setRequesterBalances] = useState<LeaveBalance[]>([]);
+
+  const isReviewer = organization?.role === "owner" || organization?.role === "admin" || organization?.role === "supervisor";
+
+  useEffect(() => {
+    const tab = searchParams.get("tab");
+    if (tab === "approvals" && isReviewer) {
+      setActiveTab("approvals");
+    }
+  }, [searchParams, isReviewer]);
+
+  useEffect(() => {
+    if (organization) {
+      fetchLeave();
+    }
+  }, [organization]);
+
+  const fetchLeave = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !organization) return;
+      setUserId(user.id);
+
+      // RLS returns the user's own requests and the ones they can review
+      const [{ data, error }, balanceData] = await Promise.all([
+        supabase
+          .from("leave_requests")
+          .select(LEAVE_REQUEST_COLUMNS)
+          .eq("organization_id", organization.id)
+          .order("start_date", { ascending: false }),
+        fetchLeaveBalances(organization.id),
+      ]);
+
+      if (error) throw error;
+
+      const requests = (data as unknown as LeaveRequest[]) || [];
+      setMyRequests(requests.filter((r) => r.user_id === user.id));
+      setReviewRequests(
+        requests
+          .filter((r) => r.user_id !== user.id)
+          // Pending requests first, oldest first so nobody waits longest
+          .sort((a, b) =>
+            a.status === "pending" && b.status !== "pending"
+              ? -1
+              : b.status === "pending" && a.status !== "pending"
+                ? 1
+                : a.status === "pending"
+                  ? a.start_date.localeCompare(b.start_date)
+                  : b.start_date.localeCompare(a.start_date)
+          )
+      );
+      setBalances(balanceData);
+    } catch (error) {
+      console.error("Error fetching leave requests:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load leave requests",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRequestDialog = () => {
+    setFormData({ leave_type: "annual", start_date: "", end_date: "", reason: "" });
+    setRequestDialogOpen(true);
+  };
+
+  const handleSubmitRequest = async () => {
+    if (!organization || !userId) return;
+
+    if (!formData.start_date || !formData.end_date) {
+      toast({
+        title: "Error",
+        description: "Please choose the first and last day of your leave",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.end_date < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "The last day cannot be before the first day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      // The number of working days is counted by the database
+      const { data, error } = await supabase
+        .from("leave_requests")
+        .insert({
+          organization_id: organization.id,
+          user_id: userId,
+          leave_type: formData.leave_type,
+          start_date: formData.start_date,
+          end_date: formData.end_date,
+          reason: formData.reason.trim() || null,
+        })
+        .select("days")
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Leave Requested",
+        description: `${data.days} working day(s) of ${getLeaveTypeLabel(formData.leave_type).toLowerCase()} sent for approval`,
+      });
+
+      setRequestDialogOpen(false);
+      fetchLeave();
+    } catch (error) {
+      console.error("Error requesting leave:", error);
+      const leaveError = getLeaveError(error);
+      toast({
+        title: leaveError?.title || "Error",
+        description: leaveError?.description || "Failed to request leave",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    try {
+      await cancelLeaveRequest(request.id);
+
+      toast({
+        title: "Leave Cancelled",
+        description: `Your ${getLeaveTypeLabel(request.leave_type).toLowerCase()} for ${formatDateRange(request)} has been cancelled`,
+      });
+      fetchLeave();
+    } catch (error) {
+      console.error("Error cancelling leave request:", error);
+      const leaveError = getLeaveError(error);
+      toast({
+        title: leaveError?.title || "Error",
+        description: leaveError?.description || "Failed to cancel the leave request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDecisionDialog = async (request: LeaveRequest, action: "approve" | "reject") => {
+    if (!organization) return;
+
+    setSelectedRequest(request);
+    setDecisionAction(action);
+    setDecisionNote("");
+    setRequesterBalances([]);
+
+    try {
+      setRequesterBalances(
+        await fetchLeaveBalances(organization.id, request.user_id, parseISO(request.start_date).getFullYear())
+      );
+    } catch (error) {
+      console.error("Error fetching leave balances:", error);
+    }
+  };
+
+  const handleDecision = async () => {
+    if (!selectedRequest) return;
+
+    try {
+      await reviewLeaveRequest(
+        selectedRequest.id,
+        decisionAction === "approve" ? "approved" : "rejected",
+        decisionNote
+      );
+
+      toast({
+        title: `Leave ${decisionAction === "approve" ? "Approved" : "Rejected"}`,
+        description: `${selectedRequest.requester?.full_name || "The member"} has been notified`,
+      });
+
+      setSelectedRequest(null);
+      setDecisionNote("");
+      fetchLeave();
+    } catch (error) {
+      console.error("Error reviewing leave request:", error);
+      const leaveError = getLeaveError(error);
+      toast({
+        title: leaveError?.title || "Error",
+        description: leaveError?.description || "Failed to process the decision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (status: LeaveStatus) => {
+    switch (status) {
+      case "pending":
+        return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">Pending</Badge>;
+      case "approved":
+        return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">Approved</Badge>;
+      case "rejected":
+        return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-300">Rejected</Badge>;
+      case "cancelled":
+        return <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300">Cancelled</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const renderRequest = (request: LeaveRequest, mode: LeaveTab) => (
+    <Card key={request.id} className="hover:shadow-lg transition-shadow">
+      <CardContent className="pt-6">
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="flex items-center gap-2 mb-1 flex-wrap">
+                <h3 className="font-semibold text-lg">{getLeaveTypeLabel(request.leave_type)}</h3>
+                <Badge variant="secondary">{request.days} day{request.days === 1 ? "" : "s"}</Badge>
+              </div>
+              {mode === "approvals" && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  {request.requester?.full_name || "Unknown"}
+                </p>
+              )}
+            </div>
+            {getStatusBadge(request.status)}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+            <div className="flex items-center gap-2 text-sm">
+              <CalendarDays className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">Dates:</span>
+              <span>{formatDateRange(request)}</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Calendar className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">Requested on:</span>
+              <span>{format(new Date(request.created_at), "MMM dd, yyyy")}</span>
+            </div>
+            {(request.status === "approved" || request.status === "rejected") && (
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">Reviewed by:</span>
+                <span>
+                  {request.reviewer?.full_name || "Unknown"}
+                  {request.reviewed_at && ` on ${format(new Date(request.reviewed_at), "MMM dd, yyyy")}`}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {request.reason && (
+            <div className="p-4 bg-muted/30 rounded-lg">
+              <div className="flex items-start gap-2 text-sm">
+                <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <span className="font-medium block mb-1">Reason:</span>
+                  <p className="text-muted-foreground">{request.reason}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {request.review_note && (
+            <div className="p-4 bg-muted/30 rounded-lg border-l-4 border-primary">
+              <div className="flex items-start gap-2 text-sm">
+                <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <span className="font-medium block mb-1">Decision Note:</span>
+                  <p className="text-muted-foreground">{request.review_note}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {mode === "approvals" && request.status === "pending" && (
+            <div className="flex items-center gap-3 pt-2">
+              <Button onClick={() => openDecisionDialog(request, "approve")} className="bg-green-600 hover:bg-green-700">
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+              <Button onClick={() => openDecisionDialog(request, "reject")} variant="destructive">
+                <XCircle className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          )}
+
+          {mode === "mine" && (request.status === "pending" || request.status === "approved") && (
+            <div className="flex items-center gap-3 pt-2">
+              <Button variant="outline" onClick={() => handleCancel(request)}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                {request.status === "pending" ? "Withdraw" : "Cancel Leave"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderEmpty = (message: string, hint: string) => (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="text-center py-12">
+          <Plane className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground font-medium mb-2">{message}</p>
+          <p className="text-sm text-muted-foreground">{hint}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const selectedBalance = requesterBalances.find((b) => b.leave_type === selectedRequest?.leave_type);
+  const pendingApprovals = reviewRequests.filter((r) => r.status === "pending").length;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <Plane className="w-6 h-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Leave</h1>
+                <p className="text-sm text-muted-foreground">
+                  {isReviewer
+                    ? "Request time off and review your team's leave"
+                    : "Request time off and track your leave balance"}
+                </p>
+              </div>
+            </div>
+            <Button onClick={openRequestDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              Request Leave
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as LeaveTab)} className="space-y-6">
+          {isReviewer && (
+            <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsTrigger value="mine" className="flex items-center gap-2">
+                <Plane className="w-4 h-4" />
+                My Leave
+              </TabsTrigger>
+              <TabsTrigger value="approvals" className="flex items-center gap-2">
+                <ClipboardCheck className="w-4 h-4" />
+                Approvals
+                {pendingApprovals > 0 && <Badge variant="destructive" className="ml-1 h-5 px-1.5">{pendingApprovals}</Badge>}
+              </TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="mine" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {balances.map((balance) => (
+                <Card key={balance.leave_type}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{getLeaveTypeLabel(balance.leave_type)}</CardDescription>
+                    <CardTitle className="text-3xl">
+                      {balance.remaining ?? balance.used}
+                      <span className="text-sm font-normal text-muted-foreground ml-2">
+                        {balance.remaining !== null ? "days left" : "days taken"}
+                      </span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-xs text-muted-foreground">
+                    {balance.allowance !== null
+                      ? `${balance.used} of ${balance.allowance} used this year`
+                      : "No yearly limit"}
+                    {balance.pending > 0 && ` · ${balance.pending} pending`}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {myRequests.length === 0
+              ? renderEmpty("No leave requests yet", "Use \"Request Leave\" to ask for time off")
+              : myRequests.map((request) => renderRequest(request, "mine"))}
+          </TabsContent>
+
+          {isReviewer && (
+            <TabsContent value="approvals" className="space-y-4">
+              {reviewRequests.length === 0
+                ? renderEmpty("No leave to review", "Leave requested by the members you manage appears here")
+                : reviewRequests.map((request) => renderRequest(request, "approvals"))}
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      {/* Request Dialog */}
+      <Dialog open={requestDialogOpen} onOpenChange={setRequestDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Leave</DialogTitle>
+            <DialogDescription>
+              Days off and holidays in the selected range are not counted
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-type">Type</Label>
+              <Select
+                value={formData.leave_type}
+                onValueChange={(value) => setFormData({ ...formData, leave_type: value as LeaveType })}
+              >
+                <SelectTrigger id="leave-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAVE_TYPES.map((type) => {
+                    const balance = balances.find((b) => b.leave_type === type.value);
+                    return (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                        {balance?.remaining !== null && balance?.remaining !== undefined && ` (${balance.remaining} left)`}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="leave-start">First Day</Label>
+                <Input
+                  id="leave-start"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      start_date: e.target.value,
+                      end_date: formData.end_date && formData.end_date >= e.target.value ? formData.end_date : e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-end">Last Day</Label>
+                <Input
+                  id="leave-end"
+                  type="date"
+                  min={formData.start_date || undefined}
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-reason">Reason (Optional)</Label>
+              <Textarea
+                id="leave-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="Add any details your approver should know..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequestDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitRequest} disabled={submitting}>
+              {submitting ? "Submitting..." : "Submit Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Decision Dialog */}
+      <Dialog open={!!selectedRequest} onOpenChange={(open) => !open && setSelectedRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decisionAction === "approve" ? "Approve" : "Reject"} Leave</DialogTitle>
+            <DialogDescription>
+              {selectedRequest &&
+                `${selectedRequest.requester?.full_name || "This member"} requested ${selectedRequest.days} day(s) of ${getLeaveTypeLabel(selectedRequest.leave_type).toLowerCase()} for ${formatDateRange(selectedRequest)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {selectedBalance && selectedBalance.allowance !== null && (
+              <div className="p-3 bg-muted/50 rounded-lg text-sm">
+                <span className="font-medium">Balance:</span> {selectedBalance.remaining} of {selectedBalance.allowance} day(s) left
+                {selectedBalance.pending > 0 && `, ${selectedBalance.pending} pending`}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="decision-note">Note (Optional)</Label>
+              <Textarea
+                id="decision-note"
+                value={decisionNote}
+                onChange={(e) => setDecisionNote(e.target.value)}
+                placeholder="Add a note about your decision..."
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRequest(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDecision}
+              className={decisionAction === "approve" ? "bg-green-600 hover:bg-green-700" : ""}
+              variant={decisionAction === "reject" ? "destructive" : "default"}
+            >
+              {decisionAction === "approve" ? (
+                <>
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Approve
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
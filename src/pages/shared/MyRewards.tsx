@@ -13,6 +13,7 @@ interface Redemption {
   created_at: string;
   approved_at: string | null;
   points_spent: number;
+  status: "pending" | "confirmed" | "fulfilled" | "cancelled";
   code: string | null;
   used_at: string | null;
   reward: {
@@ -164,6 +165,9 @@ export function MyRewards() {
                               <Award className="w-4 h-4 text-primary" />
                               <span className="font-medium">{redemption.points_spent} points</span>
                             </div>
+                            <span className="text-muted-foreground capitalize">
+                              {redemption.status === "cancelled" ? "Cancelled (points refunded)" : redemption.status}
+                            </span>
                           </div>
 
                           {redemption.code && (
@@ -175,10 +179,10 @@ export function MyRewards() {
                         </div>
                         <Button
                           variant={redemption.used_at ? "outline" : "default"}
-                          disabled={!!redemption.used_at}
+                          disabled={!!redemption.used_at || redemption.status === "cancelled"}
                           onClick={() => setConfirmingRewardId(redemption.id)}
                         >
-                          {redemption.used_at ? "Used" : "Use"}
+                          {redemption.used_at ? "Used" : redemption.status === "cancelled" ? "Cancelled" : "Use"}
                         </Button>
                       </div>
                     </CardContent>
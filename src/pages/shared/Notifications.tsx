@@ -0,0 +1,523 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { Archive, ArchiveRestore, ArrowLeft, BellOff, Check, ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { NotificationIcon } from "@/components/notifications/NotificationIcon";
+import {
+  AppNotification,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_PAGE_SIZE,
+  NotificationCategory,
+  NotificationFilters,
+  NotificationGroup,
+  NotificationReadState,
+  NotificationType,
+  archiveNotifications,
+  deleteNotifications,
+  describeNotificationGroup,
+  fetchNotificationPage,
+  fetchUnreadCountsByCategory,
+  getNotificationColor,
+  getNotificationPath,
+  getNotificationTypesForRole,
+  groupNotifications,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from "@/lib/notifications";
+
+const READ_STATES: Array<{ value: NotificationReadState; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "unread", label: "Unread" },
+  { value: "read", label: "Read" },
+  { value: "archived", label: "Archived" },
+];
+
+export function Notifications() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<NotificationCategory, number> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Filters live in the URL so dashboards can link to a category
+  const filters: NotificationFilters = {
+    category: (searchParams.get("category") as NotificationCategory) || "all",
+    type: (searchParams.get("type") as NotificationType) || "all",
+    readState: (searchParams.get("read") as NotificationReadState) || "all",
+  };
+  const role = organization?.role;
+  const organizationId = organization?.id;
+  const types = role ? getNotificationTypesForRole(role) : [];
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!userId || !organizationId) return;
+
+    fetchUnreadCounts();
+    return subscribeToNotifications(userId, fetchUnreadCounts);
+  }, [userId, organizationId]);
+
+  useEffect(() => {
+    if (userId && organizationId) {
+      fetchPage(0);
+    }
+  }, [userId, organizationId, filters.category, filters.type, filters.readState]);
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !loadingMore) {
+        fetchPage(notifications.length);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, notifications.length]);
+
+  const fetchUnreadCounts = async () => {
+    if (!organizationId) return;
+
+    try {
+      setUnreadCounts(await fetchUnreadCountsByCategory(organizationId));
+    } catch (error) {
+      console.error("Error fetching unread notification counts:", error);
+    }
+  };
+
+  const fetchPage = async (offset: number) => {
+    if (!userId || !organizationId) return;
+
+    if (offset === 0) {
+      setLoading(true);
+      setSelected(new Set());
+    } else {
+      setLoadingMore(true);
+    }
+
+    try {
+      const page = await fetchNotificationPage(userId, organizationId, filters, offset);
+      setNotifications((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === NOTIFICATION_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const setFilter = (key: "category" | "type" | "read", value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === "all") {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+    // A type belongs to one category
+    if (key === "category") params.delete("type");
+    setSearchParams(params, { replace: true });
+  };
+
+  // Drops notifications that no longer match the read state filter
+  const applyUpdate = (ids: string[], update: Partial<AppNotification> | null) => {
+    const idSet = new Set(ids);
+    setNotifications((prev) =>
+      prev.flatMap((n) => {
+        if (!idSet.has(n.id)) return [n];
+        if (!update) return [];
+        const next = { ...n, ...update };
+        const archived = !!next.archived_at;
+        if (filters.readState === "archived" ? !archived : archived) return [];
+        if (filters.readState === "unread" && next.read_at) return [];
+        return [next];
+      })
+    );
+    setSelected(new Set());
+  };
+
+  const runBulkAction = async (action: () => Promise<void>, onDone: () => void, errorMessage: string) => {
+    try {
+      await action();
+      onDone();
+      fetchUnreadCounts();
+    } catch (error) {
+      console.error("Error updating notifications:", error);
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMarkRead = (ids: string[]) =>
+    runBulkAction(
+      () => markNotificationsRead(ids),
+      () => applyUpdate(ids, { read_at: new Date().toISOString() }),
+      "Failed to mark notifications as read"
+    );
+
+  const handleArchive = (ids: string[], archived: boolean) =>
+    runBulkAction(
+      () => archiveNotifications(ids, archived),
+      () => applyUpdate(ids, { archived_at: archived ? new Date().toISOString() : null }),
+      archived ? "Failed to archive notifications" : "Failed to restore notifications"
+    );
+
+  const handleDelete = (ids: string[]) =>
+    runBulkAction(
+      () => deleteNotifications(ids),
+      () => applyUpdate(ids, null),
+      "Failed to delete notifications"
+    );
+
+  const handleMarkAllRead = () => {
+    if (!userId || !organizationId) return;
+    runBulkAction(
+      () => markAllNotificationsRead(userId, organizationId, filters.category),
+      () => fetchPage(0),
+      "Failed to mark notifications as read"
+    );
+  };
+
+  const handleOpen = async (n: AppNotification) => {
+    if (!n.read_at) await handleMarkRead([n.id]);
+    if (!role) return;
+
+    const path = await getNotificationPath(n, role);
+    if (path) navigate(path);
+  };
+
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const groups = groupNotifications(notifications);
+  const selectedIds = [...selected];
+  const allSelected = notifications.length > 0 && selected.size === notifications.length;
+  const totalUnread = unreadCounts ? Object.values(unreadCounts).reduce((sum, count) => sum + count, 0) : 0;
+  const isArchivedView = filters.readState === "archived";
+
+  const renderNotification = (n: AppNotification, nested = false) => (
+    <div
+      key={n.id}
+      className={cn(
+        "flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer",
+        nested && "ml-8",
+        !n.read_at ? getNotificationColor(n.type) : "bg-background border-border"
+      )}
+      onClick={() => handleOpen(n)}
+    >
+      <Checkbox
+        checked={selected.has(n.id)}
+        onCheckedChange={(checked) => toggleSelected([n.id], checked === true)}
+        onClick={(e) => e.stopPropagation()}
+        className="mt-1"
+        aria-label="Select notification"
+      />
+      <div className="mt-0.5">
+        <NotificationIcon type={n.type} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={cn("text-sm mb-1", !n.read_at && "font-medium")}>{n.payload.message}</p>
+        {n.payload.excerpt && (
+          <p className="text-xs text-muted-foreground mb-1 italic line-clamp-2">"{n.payload.excerpt}"</p>
+        )}
+        <p className="text-xs text-muted-foreground" title={format(new Date(n.created_at), "PPpp")}>
+          {formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}
+        </p>
+      </div>
+      {!n.read_at && <span className="w-2 h-2 rounded-full bg-primary mt-2 flex-shrink-0" />}
+    </div>
+  );
+
+  const renderGroup = (group: NotificationGroup) => {
+    if (group.notifications.length === 1) return renderNotification(group.notifications[0]);
+
+    const ids = group.notifications.map((n) => n.id);
+    const unread = group.notifications.filter((n) => !n.read_at).length;
+    const isExpanded = expanded.has(group.key);
+    const newest = group.notifications[0];
+
+    return (
+      <div key={group.key} className="space-y-2">
+        <div
+          className={cn(
+            "flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer",
+            unread > 0 ? getNotificationColor(group.type) : "bg-background border-border"
+          )}
+          onClick={() => toggleExpanded(group.key)}
+        >
+          <Checkbox
+            checked={ids.every((id) => selected.has(id))}
+            onCheckedChange={(checked) => toggleSelected(ids, checked === true)}
+            onClick={(e) => e.stopPropagation()}
+            className="mt-1"
+            aria-label="Select group"
+          />
+          <div className="mt-0.5">
+            <NotificationIcon type={group.type} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className={cn("text-sm mb-1", unread > 0 && "font-medium")}>{describeNotificationGroup(group)}</p>
+            <p className="text-xs text-muted-foreground">
+              {unread > 0 && `${unread} unread · `}
+              latest {formatDistanceToNow(new Date(newest.created_at), { addSuffix: true })}
+            </p>
+          </div>
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 mt-1 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="w-4 h-4 mt-1 text-muted-foreground" />
+          )}
+        </div>
+        {isExpanded && group.notifications.map((n) => renderNotification(n, true))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Notifications</h1>
+              <p className="text-sm text-muted-foreground">
+                {totalUnread > 0 ? `${totalUnread} unread` : "You're all caught up!"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Categories */}
+          <Card className="h-fit">
+            <CardContent className="p-2 space-y-1">
+              {[{ value: "all" as const, label: "All notifications" }, ...NOTIFICATION_CATEGORIES].map((category) => {
+                const count =
+                  category.value === "all" ? totalUnread : unreadCounts?.[category.value as NotificationCategory] ?? 0;
+                return (
+                  <button
+                    key={category.value}
+                    type="button"
+                    onClick={() => setFilter("category", category.value)}
+                    className={cn(
+                      "w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm text-left hover:bg-muted/50",
+                      filters.category === category.value && "bg-muted font-medium"
+                    )}
+                  >
+                    {category.label}
+                    {count > 0 && <Badge variant="destructive">{count}</Badge>}
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <CardTitle>
+                  {NOTIFICATION_CATEGORIES.find((c) => c.value === filters.category)?.label ?? "All notifications"}
+                </CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={filters.type} onValueChange={(value) => setFilter("type", value)}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="All types" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All types</SelectItem>
+                      {NOTIFICATION_CATEGORIES.filter(
+                        (c) => filters.category === "all" || c.value === filters.category
+                      ).map((category) => (
+                        <SelectGroup key={category.value}>
+                          <SelectLabel>{category.label}</SelectLabel>
+                          {types
+                            .filter((t) => t.category === category.value)
+                            .map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={filters.readState} onValueChange={(value) => setFilter("read", value)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {READ_STATES.map((state) => (
+                        <SelectItem key={state.value} value={state.value}>
+                          {state.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 pb-2 border-b">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? new Set(notifications.map((n) => n.id)) : new Set())
+                  }
+                  disabled={notifications.length === 0}
+                  aria-label="Select all"
+                />
+                <span className="text-sm text-muted-foreground mr-2">
+                  {selected.size > 0 ? `${selected.size} selected` : "Select all"}
+                </span>
+                {selected.size > 0 ? (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => handleMarkRead(selectedIds)}>
+                      <Check className="w-4 h-4 mr-1" />
+                      Mark read
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleArchive(selectedIds, !isArchivedView)}>
+                      {isArchivedView ? (
+                        <ArchiveRestore className="w-4 h-4 mr-1" />
+                      ) : (
+                        <Archive className="w-4 h-4 mr-1" />
+                      )}
+                      {isArchivedView ? "Restore" : "Archive"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setConfirmDelete(true)}>
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleMarkAllRead}
+                    disabled={(filters.category === "all" ? totalUnread : unreadCounts?.[filters.category] ?? 0) === 0}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Mark all read
+                  </Button>
+                )}
+              </div>
+
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : notifications.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <BellOff className="w-12 h-12 mb-2 opacity-50" />
+                  <p className="font-medium">No notifications</p>
+                  <p className="text-sm">
+                    {filters.category !== "all" || filters.type !== "all" || filters.readState !== "all"
+                      ? "Nothing matches these filters"
+                      : "You're all caught up!"}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {groups.map(renderGroup)}
+                  <div ref={sentinelRef} />
+                  {loadingMore && (
+                    <div className="flex justify-center py-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Notifications?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`${selected.size} ${selected.size === 1 ? "notification is" : "notifications are"} deleted for good. Archive them instead to keep them out of the way.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleDelete(selectedIds)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
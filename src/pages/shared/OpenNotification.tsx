@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/enhanced-card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Building2 } from "lucide-react";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AppNotification,
+  getNotificationPath,
+  isNotificationInOrganization,
+  markNotificationsRead,
+} from "@/lib/notifications";
+
+// Where push notifications link to: marks the notification read and opens
+// the page it is about, like clicking it in the bell does. Notifications of
+// another organization ask to switch to it first. Notifications without a
+// page, or that can't be found, open the notification center.
+export function OpenNotification() {
+  const { notificationId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization, switchOrganization, loading: organizationLoading } = useOrganization();
+  const [notification, setNotification] = useState<AppNotification | null>(null);
+  const [otherOrganization, setOtherOrganization] = useState<{ id: string; name: string } | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (organizationLoading) return;
+
+    const openNotification = async () => {
+      let path: string | null = null;
+      try {
+        const { data, error } = await supabase
+          .from("notifications")
+          .select("*")
+          .eq("id", notificationId!)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (data) {
+          const n = data as unknown as AppNotification;
+          if (!n.read_at) await markNotificationsRead([n.id]);
+
+          if (n.organization_id && (!organization || !isNotificationInOrganization(n, organization.id))) {
+            const { data: org } = await supabase
+              .from("organizations")
+              .select("id, name")
+              .eq("id", n.organization_id)
+              .maybeSingle();
+
+            // Organizations the user left are not readable any more
+            if (org) {
+              setNotification(n);
+              setOtherOrganization(org);
+              return;
+            }
+          }
+
+          if (organization?.role) path = await getNotificationPath(n, organization.role);
+        }
+      } catch (error) {
+        console.error("Error opening notification:", error);
+      }
+
+      // Without an organization open there is no notification center to show
+      navigate(path || (organization ? "/notifications" : "/"), { replace: true });
+    };
+
+    openNotification();
+  }, [notificationId, organizationLoading]);
+
+  const handleSwitch = async () => {
+    if (!notification || !otherOrganization) return;
+
+    setSwitching(true);
+    try {
+      const org = await switchOrganization(otherOrganization.id);
+      const path = await getNotificationPath(notification, org.role);
+      navigate(path || "/notifications", { replace: true });
+    } catch (error) {
+      console.error("Error switching organization:", error);
+      toast({
+        title: "Error",
+        description: "Failed to switch organization",
+        variant: "destructive",
+      });
+      setSwitching(false);
+    }
+  };
+
+  if (!otherOrganization || !notification) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            {otherOrganization.name}
+          </CardTitle>
+          <CardDescription>
+            This notification is from {otherOrganization.name}
+            {organization ? `, but you're currently in ${organization.name}` : ""}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm">{notification.payload.message}</p>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleSwitch} disabled={switching}>
+              {switching ? "Switching..." : `Switch to ${otherOrganization.name}`}
+            </Button>
+            <Button variant="outline" onClick={() => navigate(organization ? "/notifications" : "/", { replace: true })}>
+              Not now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
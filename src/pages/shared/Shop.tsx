@@ -8,6 +8,7 @@ import { ArrowLeft, ShoppingCart, Gift, Award } from "lucide-react";
 import { Link } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { getRedemptionError, redeemReward } from "@/lib/rewards";
 
 interface Reward {
   id: string;
@@ -123,45 +124,13 @@ export function Shop() {
     if (!selectedReward) return;
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Deduct points from user's balance
-      const { error: pointsError } = await supabase
-        .from("points_ledger")
-        .insert({
-          user_id: user.id,
-          delta: -selectedReward.points_cost, // Negative delta for spending points
-          reason_code: "reward_redemption",
-        });
-
-      if (pointsError) throw pointsError;
-
-      // Create redemption
-      const { error: redemptionError } = await supabase
-        .from("redemptions")
-        .insert({
-          user_id: user.id,
-          reward_id: selectedReward.id,
-          points_spent: selectedReward.points_cost,
-          status: "pending",
-        });
-
-      if (redemptionError) throw redemptionError;
-
-      // Update stock if applicable
-      if (selectedReward.stock !== null) {
-        const { error: stockError } = await supabase
-          .from("rewards")
-          .update({ stock: selectedReward.stock - 1 })
-          .eq("id", selectedReward.id);
-
-        if (stockError) throw stockError;
-      }
+      // Points, redemption and stock are updated together by redeem_reward()
+      const { balanceAfter } = await redeemReward(selectedReward.id);
 
       // Close dialog and reset
       setShowConfirmDialog(false);
       setSelectedReward(null);
+      setUserPoints(balanceAfter);
 
       toast({
         title: "Success",
@@ -171,13 +140,16 @@ export function Shop() {
       fetchShopData();
     } catch (error) {
       console.error("Error redeeming reward:", error);
+      const redemptionError = getRedemptionError(error);
       toast({
-        title: "Error",
-        description: "Failed to redeem reward",
+        title: redemptionError?.title || "Error",
+        description: redemptionError?.description || "Failed to redeem reward",
         variant: "destructive",
       });
       setShowConfirmDialog(false);
       setSelectedReward(null);
+      // The balance or stock shown may be out of date
+      if (redemptionError) fetchShopData();
     }
   };
 
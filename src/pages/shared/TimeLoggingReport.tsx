@@ -15,6 +15,13 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { DEFAULT_TIMEZONE, formatTimeInZone, getLocalDate } from "@/lib/timezone";
+import { AbsenceExclusions, EMPTY_ABSENCE_EXCLUSIONS, fetchAbsenceExclusions, isExcusedAbsence } from "@/lib/leave";
+import { ATTENDANCE_SESSION_COLUMNS, AttendanceBreak, formatDuration, getAttendanceSourceLabel, getWorkedMilliseconds } from "@/lib/attendance";
+import { ManualAttendanceDialog } from "@/components/attendance/ManualAttendanceDialog";
+import { AdjustAttendanceDialog } from "@/components/attendance/AdjustAttendanceDialog";
+import { WorkSchedule, fetchMemberSchedules, getDefaultSchedule } from "@/lib/workSchedules";
+import { AttendanceDayStatus, getAttendanceDay } from "@/lib/attendanceStatus";
 import { 
   ArrowLeft, 
   Clock, 
@@ -26,10 +33,12 @@ import {
   Download,
   Search,
   Filter,
-  BarChart3
+  BarChart3,
+  Pencil,
+  Plus
 } from "lucide-react";
 import { Link } from "react-router-dom";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   ChartContainer,
   ChartTooltip,
@@ -43,6 +52,10 @@ interface AttendanceRecord {
   clock_in_at: string;
   clock_out_at?: string;
   local_date: string;
+  source: string;
+  note?: string | null;
+  auto_closed?: boolean;
+  breaks?: AttendanceBreak[] | null;
   users: {
     full_name?: string;
     email: string;
@@ -62,10 +75,12 @@ interface AttendanceStats {
 }
 
 interface WorkHoursConfig {
+  timezone: string;
   work_start_time: string;
   work_end_time: string;
   early_threshold_minutes: number;
   late_threshold_minutes: number;
+  working_weekdays: number[] | null;
 }
 
 export function TimeLoggingReport() {
@@ -94,22 +109,34 @@ export function TimeLoggingReport() {
     attended: 0,
   });
   const [workHours, setWorkHours] = useState<WorkHoursConfig>({
+    timezone: DEFAULT_TIMEZONE,
     work_start_time: "09:00:00",
     work_end_time: "17:00:00",
     early_threshold_minutes: 15,
     late_threshold_minutes: 15,
+    working_weekdays: null,
   });
   const [loading, setLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  // Set to today in the organization's time zone once it is known
+  const [selectedDate, setSelectedDate] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState("all");
   const [filterRole, setFilterRole] = useState("all");
   const [allMembers, setAllMembers] = useState<any[]>([]);
+  const [memberSchedules, setMemberSchedules] = useState<Record<string, WorkSchedule>>({});
+  const [absenceExclusions, setAbsenceExclusions] = useState<AbsenceExclusions>(EMPTY_ABSENCE_EXCLUSIONS);
+  const [manualEntryOpen, setManualEntryOpen] = useState(false);
+  const [adjustingRecord, setAdjustingRecord] = useState<AttendanceRecord | null>(null);
 
   useEffect(() => {
     if (organization) {
-      fetchWorkHours();
-      fetchAttendanceData();
+      fetchWorkHours().then((config) => {
+        if (!selectedDate) {
+          setSelectedDate(getLocalDate(new Date(), config.timezone));
+          return;
+        }
+        fetchAttendanceData(config);
+      });
     }
   }, [organization, selectedDate]);
 
@@ -117,37 +144,43 @@ export function TimeLoggingReport() {
     applyFilters();
   }, [attendanceRecords, searchQuery, filterStatus, filterRole]);
 
-  const fetchWorkHours = async () => {
+  const fetchWorkHours = async (): Promise<WorkHoursConfig> => {
     try {
-      if (!organization) return;
+      if (!organization) return workHours;
 
       const { data, error } = await supabase
         .from("organizations")
-        .select("work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes")
+        .select("timezone, work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes, working_weekdays")
         .eq("id", organization.id)
         .single();
 
       if (error) {
         // Columns don't exist yet, use defaults
         console.log("Work hours columns not found, using defaults");
-        return;
+        return workHours;
       }
 
-      if (data && 'work_start_time' in data) {
-        setWorkHours({
-          work_start_time: (data as any).work_start_time || "09:00:00",
-          work_end_time: (data as any).work_end_time || "17:00:00",
-          early_threshold_minutes: (data as any).early_threshold_minutes || 15,
-          late_threshold_minutes: (data as any).late_threshold_minutes || 15,
-        });
+      if (data) {
+        const config = {
+          timezone: data.timezone || DEFAULT_TIMEZONE,
+          work_start_time: data.work_start_time || "09:00:00",
+          work_end_time: data.work_end_time || "17:00:00",
+          early_threshold_minutes: data.early_threshold_minutes || 15,
+          late_threshold_minutes: data.late_threshold_minutes || 15,
+          working_weekdays: data.working_weekdays ?? null,
+        };
+        setWorkHours(config);
+        return config;
       }
+      return workHours;
     } catch (error) {
       console.error("Error fetching work hours:", error);
       // Keep default values on error
+      return workHours;
     }
   };
 
-  const fetchAttendanceData = async () => {
+  const fetchAttendanceData = async (config: WorkHoursConfig = workHours) => {
     try {
       if (!organization) return;
       setLoading(true);
@@ -160,6 +193,12 @@ export function TimeLoggingReport() {
 
       if (membersError) throw membersError;
 
+      const schedules = await fetchMemberSchedules(organization.id);
+      setMemberSchedules(schedules);
+
+      const exclusions = await fetchAbsenceExclusions(organization.id, selectedDate, selectedDate);
+      setAbsenceExclusions(exclusions);
+
       // Fetch user details for all members
       if (membersData && membersData.length > 0) {
         const memberUserIds = membersData.map((m) => m.user_id);
@@ -180,12 +219,12 @@ export function TimeLoggingReport() {
         setAllMembers(members);
       }
 
-      const totalMembers = membersData?.length || 0;
+      const members = membersData || [];
 
       // Fetch attendance records for the selected date
       const { data: attendanceData, error: attendanceError } = await supabase
         .from("attendance_checkins")
-        .select("*")
+        .select(ATTENDANCE_SESSION_COLUMNS)
         .eq("org_id", organization.id)
         .eq("local_date", selectedDate)
         .order("clock_in_at", { ascending: true });
@@ -218,12 +257,12 @@ export function TimeLoggingReport() {
         }));
 
         setAttendanceRecords(recordsWithUsers);
-        calculateStats(recordsWithUsers, setStats, totalMembers);
-        calculateStats(recordsWithUsers, setFilteredStats, totalMembers);
+        calculateStats(recordsWithUsers, setStats, members, config, schedules, exclusions);
+        calculateStats(recordsWithUsers, setFilteredStats, members, config, schedules, exclusions);
       } else {
         setAttendanceRecords([]);
-        calculateStats([], setStats, totalMembers);
-        calculateStats([], setFilteredStats, totalMembers);
+        calculateStats([], setStats, members, config, schedules, exclusions);
+        calculateStats([], setFilteredStats, members, config, schedules, exclusions);
       }
     } catch (error: any) {
       toast({
@@ -239,26 +278,43 @@ export function TimeLoggingReport() {
   const calculateStats = (
     records: AttendanceRecord[], 
     setStatsFn: React.Dispatch<React.SetStateAction<AttendanceStats>> = setStats,
-    totalMembers: number = 0
+    members: Array<{ user_id: string }> = [],
+    config: WorkHoursConfig = workHours,
+    schedules: Record<string, WorkSchedule> = memberSchedules,
+    exclusions: AbsenceExclusions = absenceExclusions
   ) => {
     let earlyArrivals = 0;
     let onTime = 0;
     let late = 0;
     let overtime = 0;
+    let absentAfterShift = 0;
 
     records.forEach((record) => {
-      const status = getArrivalStatus(record.clock_in_at);
-      if (status === "early") earlyArrivals++;
-      else if (status === "on-time") onTime++;
-      else if (status === "late") late++;
+      const day = getRecordDay(record, config, schedules);
+      if (day.status === "early") earlyArrivals++;
+      else if (day.status === "on-time") onTime++;
+      else if (day.status === "late") late++;
+      else if (day.status === "absent") absentAfterShift++;
 
-      if (record.clock_out_at && hasOvertime(record.clock_in_at, record.clock_out_at)) {
+      if (day.overtime) {
         overtime++;
       }
     });
 
     const totalPresent = records.length;
-    const absent = totalMembers - totalPresent;
+    const totalMembers = members.length;
+    // Members with a day off, a holiday or approved leave on the selected date
+    // are not absent, nor are members whose shift is not over yet
+    const absent = absentAfterShift + members.filter(
+      (member) =>
+        !records.some((record) => record.user_id === member.user_id) &&
+        getAttendanceDay({
+          schedule: getMemberSchedule(member.user_id, config, schedules),
+          timeZone: config.timezone,
+          localDate: selectedDate,
+          excused: isExcusedAbsence(exclusions, member.user_id, selectedDate),
+        }).status === "absent"
+    ).length;
     const attended = earlyArrivals + onTime + late; // All who attended (early, on-time, and late)
 
     setStatsFn({
@@ -273,47 +329,33 @@ export function TimeLoggingReport() {
     });
   };
 
-  const getArrivalStatus = (clockInTime: string): "early" | "on-time" | "late" => {
-    const clockIn = new Date(clockInTime);
-    const workStart = new Date(clockIn);
-    
-    // Parse work_start_time (format: "HH:MM:SS")
-    const [hours, minutes] = workHours.work_start_time.split(':').map(Number);
-    workStart.setHours(hours, minutes, 0, 0);
-
-    const diffMinutes = (clockIn.getTime() - workStart.getTime()) / (1000 * 60);
-
-    if (diffMinutes <= -workHours.early_threshold_minutes) return "early";
-    if (diffMinutes <= workHours.late_threshold_minutes) return "on-time";
-    return "late";
-  };
-
-  const hasOvertime = (clockInTime: string, clockOutTime: string): boolean => {
-    const clockOut = new Date(clockOutTime);
-    const workEnd = new Date(clockOut);
-    
-    // Parse work_end_time (format: "HH:MM:SS")
-    const [hours, minutes] = workHours.work_end_time.split(':').map(Number);
-    workEnd.setHours(hours, minutes, 0, 0);
+  // Members are judged against their own schedule, otherwise the organization hours
+  const getMemberSchedule = (
+    userId: string,
+    config: WorkHoursConfig = workHours,
+    schedules: Record<string, WorkSchedule> = memberSchedules
+  ) => schedules[userId] ?? getDefaultSchedule(config);
+
+  const getRecordDay = (
+    record: AttendanceRecord,
+    config: WorkHoursConfig = workHours,
+    schedules: Record<string, WorkSchedule> = memberSchedules
+  ) =>
+    getAttendanceDay({
+      schedule: getMemberSchedule(record.user_id, config, schedules),
+      timeZone: config.timezone,
+      localDate: record.local_date,
+      session: record,
+    });
 
-    // Check if clock out time is after work end time
-    return clockOut.getTime() > workEnd.getTime();
-  };
+  // Worked time excludes breaks
+  const calculateWorkHours = (record: AttendanceRecord): string => {
+    if (!record.clock_out_at) return "Still working";
 
-  const calculateWorkHours = (clockInTime: string, clockOutTime?: string): string => {
-    if (!clockOutTime) return "Still working";
-    
-    const clockIn = new Date(clockInTime);
-    const clockOut = new Date(clockOutTime);
-    const hoursWorked = (clockOut.getTime() - clockIn.getTime()) / (1000 * 60 * 60);
-    
-    const hours = Math.floor(hoursWorked);
-    const minutes = Math.round((hoursWorked - hours) * 60);
-    
-    return `${hours}h ${minutes}m`;
+    return formatDuration(getWorkedMilliseconds({ ...record, clock_out_at: record.clock_out_at }));
   };
 
-  const getStatusBadge = (status: "early" | "on-time" | "late") => {
+  const getStatusBadge = (status: AttendanceDayStatus) => {
     switch (status) {
       case "early":
         return <Badge className="bg-blue-500"><CheckCircle2 className="w-3 h-3 mr-1" />Early</Badge>;
@@ -321,6 +363,10 @@ export function TimeLoggingReport() {
         return <Badge className="bg-green-500"><CheckCircle2 className="w-3 h-3 mr-1" />On Time</Badge>;
       case "late":
         return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Late</Badge>;
+      case "absent":
+        return <Badge className="bg-gray-500"><XCircle className="w-3 h-3 mr-1" />Absent</Badge>;
+      default:
+        return null;
     }
   };
 
@@ -341,9 +387,6 @@ export function TimeLoggingReport() {
       );
     }
 
-    // Calculate filtered total members
-    const filteredTotalMembers = filteredMembers.length;
-
     // Apply filters to attendance records
     // Search filter
     if (searchQuery) {
@@ -355,15 +398,9 @@ export function TimeLoggingReport() {
 
     // Status filter
     if (filterStatus !== "all") {
-      if (filterStatus === "absent") {
-        // Absent people don't have attendance records, so show empty
-        filtered = [];
-      } else {
-        filtered = filtered.filter((record) => {
-          const status = getArrivalStatus(record.clock_in_at);
-          return status === filterStatus;
-        });
-      }
+      // Only clock-ins after the end of the shift are absent records; members
+      // without any record are counted in the statistics
+      filtered = filtered.filter((record) => getRecordDay(record).status === filterStatus);
     }
 
     // Role filter
@@ -372,25 +409,26 @@ export function TimeLoggingReport() {
     }
 
     setFilteredRecords(filtered);
-    calculateStats(filtered, setFilteredStats, filteredTotalMembers);
+    calculateStats(filtered, setFilteredStats, filteredMembers);
   };
 
   const exportToCSV = () => {
-    const headers = ["Name", "Email", "Role", "Clock In", "Clock Out", "Status", "Hours Worked", "Overtime"];
+    const headers = ["Name", "Email", "Role", "Clock In", "Clock Out", "Status", "Hours Worked", "Overtime", "Source"];
     const rows = filteredRecords.map((record) => {
-      const status = getArrivalStatus(record.clock_in_at);
-      const hoursWorked = calculateWorkHours(record.clock_in_at, record.clock_out_at);
-      const overtime = record.clock_out_at && hasOvertime(record.clock_in_at, record.clock_out_at) ? "Yes" : "No";
+      const day = getRecordDay(record);
+      const hoursWorked = calculateWorkHours(record);
+      const overtime = day.overtime ? "Yes" : "No";
       
       return [
         record.users.full_name || "N/A",
         record.users.email,
         (record.role || "employee").charAt(0).toUpperCase() + (record.role || "employee").slice(1),
-        format(new Date(record.clock_in_at), "HH:mm:ss"),
-        record.clock_out_at ? format(new Date(record.clock_out_at), "HH:mm:ss") : "Still working",
-        status,
+        formatTimeInZone(new Date(record.clock_in_at), workHours.timezone),
+        record.clock_out_at ? formatTimeInZone(new Date(record.clock_out_at), workHours.timezone) : "Still working",
+        day.status,
         hoursWorked,
         overtime,
+        getAttendanceSourceLabel(record.source),
       ].join(",");
     });
 
@@ -441,10 +479,16 @@ export function TimeLoggingReport() {
                 </p>
               </div>
             </div>
-            <Button onClick={exportToCSV}>
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setManualEntryOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Record Attendance
+              </Button>
+              <Button onClick={exportToCSV}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -458,7 +502,7 @@ export function TimeLoggingReport() {
               Attendance Overview
             </CardTitle>
             <CardDescription>
-              Click on any statistic to view detailed history for {format(new Date(selectedDate), "MMMM d, yyyy")}
+              Click on any statistic to view detailed history for {format(parseISO(selectedDate), "MMMM d, yyyy")}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -604,7 +648,7 @@ export function TimeLoggingReport() {
                 Attendance Rate
               </CardTitle>
               <CardDescription>
-                Present vs Absent for {format(new Date(selectedDate), "MMM dd, yyyy")}
+                Present vs Absent for {format(parseISO(selectedDate), "MMM dd, yyyy")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -732,7 +776,7 @@ export function TimeLoggingReport() {
                   type="date"
                   value={selectedDate}
                   onChange={(e) => setSelectedDate(e.target.value)}
-                  max={new Date().toISOString().split('T')[0]}
+                  max={getLocalDate(new Date(), workHours.timezone)}
                 />
               </div>
 
@@ -793,7 +837,7 @@ export function TimeLoggingReport() {
               Attendance Records ({filteredRecords.length})
             </CardTitle>
             <CardDescription>
-              Showing records for {format(new Date(selectedDate), "MMMM d, yyyy")}
+              Showing records for {format(parseISO(selectedDate), "MMMM d, yyyy")}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -805,9 +849,9 @@ export function TimeLoggingReport() {
             ) : (
               <div className="space-y-3">
                 {filteredRecords.map((record) => {
-                  const status = getArrivalStatus(record.clock_in_at);
-                  const hoursWorked = calculateWorkHours(record.clock_in_at, record.clock_out_at);
-                  const hasOT = record.clock_out_at && hasOvertime(record.clock_in_at, record.clock_out_at);
+                  const day = getRecordDay(record);
+                  const hoursWorked = calculateWorkHours(record);
+                  const hasOT = day.overtime;
 
                   return (
                     <div
@@ -831,13 +875,23 @@ export function TimeLoggingReport() {
                         <Badge variant="outline" className="capitalize">
                           {record.role || "employee"}
                         </Badge>
+                        {record.source !== "web" && (
+                          <Badge variant="secondary" title={record.note || undefined}>
+                            {getAttendanceSourceLabel(record.source)}
+                          </Badge>
+                        )}
+                        {record.auto_closed && (
+                          <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">
+                            Auto-Closed
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-6">
                         <div className="text-center w-20">
                           <p className="text-xs text-muted-foreground mb-1">Clock In</p>
                           <p className="text-sm font-mono font-semibold">
-                            {format(new Date(record.clock_in_at), "HH:mm:ss")}
+                            {formatTimeInZone(new Date(record.clock_in_at), workHours.timezone)}
                           </p>
                         </div>
 
@@ -845,7 +899,7 @@ export function TimeLoggingReport() {
                           <p className="text-xs text-muted-foreground mb-1">Clock Out</p>
                           <p className="text-sm font-mono font-semibold">
                             {record.clock_out_at 
-                              ? format(new Date(record.clock_out_at), "HH:mm:ss")
+                              ? formatTimeInZone(new Date(record.clock_out_at), workHours.timezone)
                               : "—"}
                           </p>
                         </div>
@@ -858,7 +912,7 @@ export function TimeLoggingReport() {
                         </div>
 
                         <div className="flex items-center gap-2 min-w-[120px]">
-                          {getStatusBadge(status)}
+                          {getStatusBadge(day.status)}
                           {hasOT && (
                             <Badge variant="outline" className="bg-warning/10 text-warning border-warning">
                               <Clock className="w-3 h-3 mr-1" />
@@ -866,6 +920,15 @@ export function TimeLoggingReport() {
                             </Badge>
                           )}
                         </div>
+
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Adjust times"
+                          onClick={() => setAdjustingRecord(record)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
                       </div>
                     </div>
                   );
@@ -875,6 +938,24 @@ export function TimeLoggingReport() {
           </CardContent>
         </Card>
       </div>
+
+      <ManualAttendanceDialog
+        open={manualEntryOpen}
+        onOpenChange={setManualEntryOpen}
+        organizationId={organization.id}
+        members={allMembers}
+        defaultDate={selectedDate}
+        timeZone={workHours.timezone}
+        onRecorded={() => fetchAttendanceData()}
+      />
+
+      <AdjustAttendanceDialog
+        record={adjustingRecord}
+        memberName={adjustingRecord ? adjustingRecord.users.full_name || adjustingRecord.users.email : ""}
+        onOpenChange={(open) => !open && setAdjustingRecord(null)}
+        timeZone={workHours.timezone}
+        onAdjusted={() => fetchAttendanceData()}
+      />
     </div>
   );
 }
@@ -0,0 +1,618 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Eye,
+  FileSpreadsheet,
+  Lock,
+  Unlock,
+  User,
+  Users,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { format, parseISO } from "date-fns";
+import { DEFAULT_TIMEZONE, addLocalDays, formatTimeInZone, getLocalDate } from "@/lib/timezone";
+import { formatDuration } from "@/lib/attendance";
+import { ATTENDANCE_STATUS_LABELS } from "@/lib/attendanceStatus";
+import {
+  ApprovedTimesheet,
+  DEFAULT_TIMESHEET_PERIOD,
+  DEFAULT_TIMESHEET_PERIOD_ANCHOR,
+  TIMESHEET_PERIODS,
+  TimesheetDay,
+  TimesheetPeriod,
+  TimesheetPeriodType,
+  TimesheetSummary,
+  approveTimesheet,
+  fetchApprovedTimesheets,
+  fetchTimesheetDays,
+  fetchTimesheetSummaries,
+  getTimesheetError,
+  getTimesheetExportRows,
+  getTimesheetPeriod,
+  reopenTimesheet,
+  toCsv,
+} from "@/lib/timesheets";
+import { createWorkbook } from "@/lib/xlsx";
+
+type TimesheetTab = "mine" | "team";
+
+interface MemberTimesheet {
+  user_id: string;
+  full_name: string;
+  days: TimesheetDay[];
+  approved: ApprovedTimesheet | null;
+}
+
+const formatMinutes = (minutes: number) => formatDuration(minutes * 60 * 1000);
+
+export function Timesheets() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<TimesheetTab>("mine");
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+  const [periodType, setPeriodType] = useState<TimesheetPeriodType>(DEFAULT_TIMESHEET_PERIOD);
+  const [anchor, setAnchor] = useState(DEFAULT_TIMESHEET_PERIOD_ANCHOR);
+  const [period, setPeriod] = useState<TimesheetPeriod | null>(null);
+  const [myTimesheet, setMyTimesheet] = useState<MemberTimesheet | null>(null);
+  const [summaries, setSummaries] = useState<TimesheetSummary[]>([]);
+  const [viewing, setViewing] = useState<MemberTimesheet | null>(null);
+  const [approving, setApproving] = useState<TimesheetSummary | null>(null);
+  const [approvalNote, setApprovalNote] = useState("");
+  const [reopening, setReopening] = useState<TimesheetSummary | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const isReviewer = organization?.role === "owner" || organization?.role === "admin" || organization?.role === "supervisor";
+  const canReopen = organization?.role === "owner" || organization?.role === "admin";
+  const today = getLocalDate(new Date(), timeZone);
+  const periodOver = !!period && period.end < today;
+
+  useEffect(() => {
+    if (organization) {
+      fetchSettings();
+    }
+  }, [organization]);
+
+  useEffect(() => {
+    if (organization && userId && period) {
+      fetchPeriod();
+    }
+  }, [organization, userId, period]);
+
+  const fetchSettings = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !organization) return;
+
+      const [{ data: org, error }, { data: orgTimeZone }] = await Promise.all([
+        supabase
+          .from("organizations")
+          .select("timesheet_period, timesheet_period_anchor")
+          .eq("id", organization.id)
+          .single(),
+        supabase.rpc("get_org_timezone", { p_org: organization.id }),
+      ]);
+
+      if (error) throw error;
+
+      const zone = orgTimeZone || DEFAULT_TIMEZONE;
+      const type = (org?.timesheet_period as TimesheetPeriodType) || DEFAULT_TIMESHEET_PERIOD;
+      const periodAnchor = org?.timesheet_period_anchor || DEFAULT_TIMESHEET_PERIOD_ANCHOR;
+
+      setTimeZone(zone);
+      setPeriodType(type);
+      setAnchor(periodAnchor);
+      setUserId(user.id);
+      setPeriod(getTimesheetPeriod(getLocalDate(new Date(), zone), type, periodAnchor));
+    } catch (error) {
+      console.error("Error fetching timesheet settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load timesheets",
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
+  // An approved timesheet shows the days as they were approved
+  const loadMemberTimesheet = async (memberId: string, fullName: string): Promise<MemberTimesheet> => {
+    if (!organization || !period) throw new Error("No period selected");
+
+    const [approved] = await fetchApprovedTimesheets(organization.id, period, memberId);
+    const days = approved ? approved.entries : await fetchTimesheetDays(organization.id, memberId, period);
+    return { user_id: memberId, full_name: fullName, days, approved: approved ?? null };
+  };
+
+  const fetchPeriod = async () => {
+    if (!organization || !userId || !period) return;
+
+    try {
+      const [mine, team] = await Promise.all([
+        loadMemberTimesheet(userId, "You"),
+        isReviewer ? fetchTimesheetSummaries(organization.id, period) : Promise.resolve([]),
+      ]);
+
+      setMyTimesheet(mine);
+      setSummaries(team);
+    } catch (error) {
+      console.error("Error fetching timesheets:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load timesheets",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shiftPeriod = (direction: -1 | 1) => {
+    if (!period) return;
+    const date = direction < 0 ? addLocalDays(period.start, -1) : addLocalDays(period.end, 1);
+    setPeriod(getTimesheetPeriod(date, periodType, anchor));
+  };
+
+  const handleView = async (summary: TimesheetSummary) => {
+    try {
+      setViewing(await loadMemberTimesheet(summary.user_id, summary.full_name || summary.email));
+    } catch (error) {
+      console.error("Error fetching timesheet:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the timesheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!organization || !period || !approving) return;
+
+    try {
+      await approveTimesheet(organization.id, approving.user_id, period.start, approvalNote);
+
+      toast({
+        title: "Timesheet Approved",
+        description: `The attendance of ${approving.full_name || approving.email} in this period is now locked`,
+      });
+      setApproving(null);
+      setApprovalNote("");
+      fetchPeriod();
+    } catch (error) {
+      console.error("Error approving timesheet:", error);
+      const known = getTimesheetError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to approve the timesheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopening?.timesheet_id) return;
+
+    try {
+      await reopenTimesheet(reopening.timesheet_id);
+
+      toast({
+        title: "Timesheet Reopened",
+        description: `The attendance of ${reopening.full_name || reopening.email} can be changed again`,
+      });
+      setReopening(null);
+      fetchPeriod();
+    } catch (error) {
+      console.error("Error reopening timesheet:", error);
+      const known = getTimesheetError(error);
+      toast({
+        title: known?.title ?? "Error",
+        description: known?.description ?? "Failed to reopen the timesheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Exports every approved timesheet of the period the user can see
+  const handleExport = async (fileType: "csv" | "xlsx") => {
+    if (!organization || !period) return;
+
+    setExporting(true);
+    try {
+      const timesheets = await fetchApprovedTimesheets(organization.id, period);
+
+      if (timesheets.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "No timesheets of this period have been approved yet",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { summary, days } = getTimesheetExportRows(timesheets, timeZone);
+      const fileName = `timesheets_${period.start}_${period.end}`;
+
+      if (fileType === "csv") {
+        download(new Blob([toCsv(days)], { type: "text/csv" }), `${fileName}.csv`);
+      } else {
+        download(createWorkbook([{ name: "Summary", rows: summary }, { name: "Days", rows: days }]), `${fileName}.xlsx`);
+      }
+
+      toast({
+        title: "Success",
+        description: `${timesheets.length} approved timesheet${timesheets.length === 1 ? "" : "s"} exported`,
+      });
+    } catch (error) {
+      console.error("Error exporting timesheets:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export timesheets",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatTime = (value: string | null) => (value ? formatTimeInZone(new Date(value), timeZone, false) : "—");
+
+  const getApprovalBadge = (approvedAt: string | null | undefined) =>
+    approvedAt ? (
+      <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">
+        <Lock className="w-3 h-3 mr-1" />
+        Approved
+      </Badge>
+    ) : (
+      <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">
+        Open
+      </Badge>
+    );
+
+  const renderDays = (days: TimesheetDay[]) => {
+    const total = (key: "scheduled_minutes" | "attendance_minutes" | "task_minutes" | "regular_minutes" | "overtime_minutes") =>
+      days.reduce((sum, day) => sum + day[key], 0);
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Clock In</TableHead>
+            <TableHead>Clock Out</TableHead>
+            <TableHead className="text-right">Scheduled</TableHead>
+            <TableHead className="text-right">Worked</TableHead>
+            <TableHead className="text-right">Tasks</TableHead>
+            <TableHead className="text-right">Regular</TableHead>
+            <TableHead className="text-right">Overtime</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {days.map((day) => (
+            <TableRow key={day.local_date}>
+              <TableCell className="whitespace-nowrap">{format(parseISO(day.local_date), "EEE, MMM dd")}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{ATTENDANCE_STATUS_LABELS[day.status] ?? day.status}</Badge>
+              </TableCell>
+              <TableCell>{formatTime(day.clock_in_at)}</TableCell>
+              <TableCell>{day.clock_in_at && !day.clock_out_at ? "Still working" : formatTime(day.clock_out_at)}</TableCell>
+              <TableCell className="text-right">{formatMinutes(day.scheduled_minutes)}</TableCell>
+              <TableCell className="text-right">{formatMinutes(day.attendance_minutes)}</TableCell>
+              <TableCell className="text-right">{formatMinutes(day.task_minutes)}</TableCell>
+              <TableCell className="text-right">{formatMinutes(day.regular_minutes)}</TableCell>
+              <TableCell className={`text-right ${day.overtime_minutes > 0 ? "text-blue-600 font-medium" : ""}`}>
+                {formatMinutes(day.overtime_minutes)}
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="font-semibold">
+            <TableCell colSpan={4}>Total</TableCell>
+            <TableCell className="text-right">{formatMinutes(total("scheduled_minutes"))}</TableCell>
+            <TableCell className="text-right">{formatMinutes(total("attendance_minutes"))}</TableCell>
+            <TableCell className="text-right">{formatMinutes(total("task_minutes"))}</TableCell>
+            <TableCell className="text-right">{formatMinutes(total("regular_minutes"))}</TableCell>
+            <TableCell className="text-right">{formatMinutes(total("overtime_minutes"))}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const periodLabel = period
+    ? `${format(parseISO(period.start), "MMM dd")} – ${format(parseISO(period.end), "MMM dd, yyyy")}`
+    : "";
+  const pendingApprovals = summaries.filter((s) => !s.timesheet_id).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <FileSpreadsheet className="w-6 h-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Timesheets</h1>
+                <p className="text-sm text-muted-foreground">
+                  {isReviewer
+                    ? "Approve your team's hours and export them for payroll"
+                    : "Your attended and task hours per pay period"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => handleExport("csv")} disabled={exporting}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport("xlsx")} disabled={exporting}>
+                <Download className="w-4 h-4 mr-2" />
+                XLSX
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between gap-4">
+              <Button variant="outline" size="icon" onClick={() => shiftPeriod(-1)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <div className="text-center">
+                <p className="font-semibold">{periodLabel}</p>
+                <p className="text-xs text-muted-foreground">
+                  {TIMESHEET_PERIODS.find((p) => p.value === periodType)?.label} pay period · times in {timeZone}
+                </p>
+              </div>
+              <Button variant="outline" size="icon" onClick={() => shiftPeriod(1)} disabled={!!period && period.end >= today}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as TimesheetTab)} className="space-y-6">
+          {isReviewer && (
+            <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsTrigger value="mine" className="flex items-center gap-2">
+                <User className="w-4 h-4" />
+                Mine
+              </TabsTrigger>
+              <TabsTrigger value="team" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Team
+                {periodOver && pendingApprovals > 0 && (
+                  <Badge variant="destructive" className="ml-1 h-5 px-1.5">{pendingApprovals}</Badge>
+                )}
+              </TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="mine">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>My Timesheet</CardTitle>
+                    <CardDescription>
+                      {myTimesheet?.approved
+                        ? `Approved${myTimesheet.approved.approver?.full_name ? ` by ${myTimesheet.approved.approver.full_name}` : ""} on ${format(new Date(myTimesheet.approved.approved_at), "MMM dd, yyyy")}`
+                        : periodOver
+                          ? "Waiting for approval"
+                          : "The period is still running"}
+                    </CardDescription>
+                  </div>
+                  {getApprovalBadge(myTimesheet?.approved?.approved_at)}
+                </div>
+              </CardHeader>
+              <CardContent>{myTimesheet && renderDays(myTimesheet.days)}</CardContent>
+            </Card>
+          </TabsContent>
+
+          {isReviewer && (
+            <TabsContent value="team">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Team Timesheets</CardTitle>
+                  <CardDescription>
+                    Approving a timesheet locks the member's attendance in the period
+                    {canReopen ? "; reopen it to allow changes again" : ""}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {summaries.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                      <p className="text-muted-foreground font-medium mb-2">No timesheets to review</p>
+                      <p className="text-sm text-muted-foreground">Timesheets of the members you manage appear here</p>
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Member</TableHead>
+                          <TableHead className="text-right">Worked</TableHead>
+                          <TableHead className="text-right">Tasks</TableHead>
+                          <TableHead className="text-right">Regular</TableHead>
+                          <TableHead className="text-right">Overtime</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {summaries.map((summary) => (
+                          <TableRow key={summary.user_id}>
+                            <TableCell>
+                              <p className="font-medium">{summary.full_name || summary.email}</p>
+                              {summary.open_days > 0 && (
+                                <p className="text-xs text-orange-600">Still clocked in</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{formatMinutes(summary.attendance_minutes)}</TableCell>
+                            <TableCell className="text-right">{formatMinutes(summary.task_minutes)}</TableCell>
+                            <TableCell className="text-right">{formatMinutes(summary.regular_minutes)}</TableCell>
+                            <TableCell className="text-right">{formatMinutes(summary.overtime_minutes)}</TableCell>
+                            <TableCell>{getApprovalBadge(summary.approved_at)}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => handleView(summary)}>
+                                  <Eye className="w-4 h-4 mr-1" />
+                                  View
+                                </Button>
+                                {!summary.timesheet_id && (
+                                  <Button
+                                    size="sm"
+                                    className="bg-green-600 hover:bg-green-700"
+                                    disabled={!periodOver || summary.open_days > 0}
+                                    onClick={() => {
+                                      setApproving(summary);
+                                      setApprovalNote("");
+                                    }}
+                                  >
+                                    <CheckCircle2 className="w-4 h-4 mr-1" />
+                                    Approve
+                                  </Button>
+                                )}
+                                {summary.timesheet_id && canReopen && (
+                                  <Button variant="outline" size="sm" onClick={() => setReopening(summary)}>
+                                    <Unlock className="w-4 h-4 mr-1" />
+                                    Reopen
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      {/* Member Timesheet Dialog */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.full_name}</DialogTitle>
+            <DialogDescription>
+              {periodLabel}
+              {viewing?.approved ? " · approved and locked" : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">{viewing && renderDays(viewing.days)}</div>
+          {viewing?.approved?.note && (
+            <p className="text-sm text-muted-foreground">Note: {viewing.approved.note}</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Approve Dialog */}
+      <Dialog open={!!approving} onOpenChange={(open) => !open && setApproving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Timesheet</DialogTitle>
+            <DialogDescription>
+              {approving &&
+                `${approving.full_name || approving.email}: ${formatMinutes(approving.regular_minutes)} regular and ${formatMinutes(approving.overtime_minutes)} overtime in ${periodLabel}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="p-3 bg-muted/50 rounded-lg text-sm">
+              The hours are kept as they are now and the member's attendance in this period can no longer be changed or corrected.
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-note">Note (Optional)</Label>
+              <Textarea
+                id="approval-note"
+                value={approvalNote}
+                onChange={(e) => setApprovalNote(e.target.value)}
+                placeholder="Add a note for payroll..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} className="bg-green-600 hover:bg-green-700">
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reopen Confirmation */}
+      <AlertDialog open={!!reopening} onOpenChange={(open) => !open && setReopening(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reopen Timesheet?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reopening &&
+                `The approval of ${reopening.full_name || reopening.email}'s timesheet for ${periodLabel} is removed and their attendance can be changed again. It has to be approved again before it can be exported.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReopen}>Reopen</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,537 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowRightLeft,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  User,
+  Calendar,
+  FileText,
+  ArrowLeft,
+  ArrowRight,
+  Undo2,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { format } from "date-fns";
+
+type UserRole = "owner" | "admin" | "supervisor" | "employee";
+type RequestStatus = "pending" | "approved" | "rejected";
+
+interface TransferRequest {
+  id: string;
+  created_at: string;
+  decided_at: string | null;
+  decided_by: string | null;
+  decision_note: string | null;
+  reason: string | null;
+  status: RequestStatus;
+  task_id: string | null;
+  from_user_id: string | null;
+  to_user_id: string | null;
+  from_user?: {
+    full_name: string;
+    email: string;
+  };
+  to_user?: {
+    full_name: string;
+    email: string;
+  };
+  decider?: {
+    full_name: string;
+  } | null;
+  task?: {
+    title: string;
+    description: string;
+    due_date: string;
+    task_type: string;
+    priority: string;
+    project: {
+      name: string;
+    };
+  };
+}
+
+const ROLE_LEVELS: Record<UserRole, number> = { owner: 4, admin: 3, supervisor: 2, employee: 1 };
+
+// Client-side mirror of can_manage_roles(): owners manage everyone, others
+// only roles below their own
+const canManageRole = (managerRole: UserRole, targetRole?: UserRole) => {
+  if (!targetRole) return true;
+  if (managerRole === "owner") return true;
+  return ROLE_LEVELS[managerRole] > ROLE_LEVELS[targetRole];
+};
+
+export function TransferRequests() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { organization } = useOrganization();
+  const [requests, setRequests] = useState<TransferRequest[]>([]);
+  const [memberRoles, setMemberRoles] = useState<Record<string, UserRole>>({});
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<RequestStatus>("pending");
+  const [selectedRequest, setSelectedRequest] = useState<TransferRequest | null>(null);
+  const [decisionDialogOpen, setDecisionDialogOpen] = useState(false);
+  const [decisionAction, setDecisionAction] = useState<"approve" | "reject">("approve");
+  const [decisionNote, setDecisionNote] = useState("");
+  const [searchParams] = useSearchParams();
+
+  const myRole = organization?.role as UserRole | undefined;
+  const isReviewer = myRole === "owner" || myRole === "admin" || myRole === "supervisor";
+
+  // Initialize tab from query param only once on mount or when URL changes
+  useEffect(() => {
+    const tab = searchParams.get("tab");
+    if (tab && ["pending", "approved", "rejected"].includes(tab)) {
+      setActiveTab(tab as RequestStatus);
+    }
+  }, [searchParams]);
+
+  // Fetch data when organization or activeTab changes
+  useEffect(() => {
+    if (organization) {
+      fetchTransferRequests();
+    }
+  }, [organization, activeTab]);
+
+  const fetchTransferRequests = async () => {
+    try {
+      setLoading(true);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !organization) return;
+      setUserId(user.id);
+
+      // RLS returns the requests the user sent, received or can review
+      const [{ data: transferData, error }, { data: membersData }] = await Promise.all([
+        supabase
+          .from("transfer_requests")
+          .select(`
+            *,
+            from_user:users!transfer_requests_from_user_id_fkey(full_name, email),
+            to_user:users!transfer_requests_to_user_id_fkey(full_name, email),
+            decider:users!transfer_requests_decided_by_fkey(full_name),
+            task:tasks!transfer_requests_task_id_fkey!inner(
+              title, description, due_date, task_type, priority,
+              project:projects!inner(name, organization_id)
+            )
+          `)
+          .eq("task.project.organization_id", organization.id)
+          .eq("status", activeTab)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("organization_members")
+          .select("user_id, role")
+          .eq("organization_id", organization.id),
+      ]);
+
+      if (error) throw error;
+
+      setRequests((transferData as unknown as TransferRequest[]) || []);
+      setMemberRoles(
+        Object.fromEntries((membersData || []).map((m) => [m.user_id, m.role as UserRole]))
+      );
+    } catch (error) {
+      console.error("Error fetching transfer requests:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load transfer requests",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Mirrors can_decide_transfer_request()
+  const canDecide = (request: TransferRequest) => {
+    if (!isReviewer || !myRole || !request.to_user_id) return false;
+    if (request.from_user_id === userId || request.to_user_id === userId) return false;
+    const fromRole = request.from_user_id ? memberRoles[request.from_user_id] : undefined;
+    const toRole = memberRoles[request.to_user_id];
+    if (!toRole) return false;
+    return canManageRole(myRole, fromRole) && canManageRole(myRole, toRole);
+  };
+
+  const openDecisionDialog = (request: TransferRequest, action: "approve" | "reject") => {
+    setSelectedRequest(request);
+    setDecisionAction(action);
+    setDecisionNote("");
+    setDecisionDialogOpen(true);
+  };
+
+  const handleDecision = async () => {
+    if (!selectedRequest || !userId) return;
+
+    try {
+      // Approval reassigns the task in the database (apply_transfer_request trigger)
+      const { data, error } = await supabase
+        .from("transfer_requests")
+        .update({
+          status: decisionAction === "approve" ? "approved" : "rejected",
+          decided_by: userId,
+          decided_at: new Date().toISOString(),
+          decision_note: decisionNote || null,
+        })
+        .eq("id", selectedRequest.id)
+        .select("id");
+
+      if (error) throw error;
+
+      if (!data || data.length === 0) {
+        toast({
+          title: "Not allowed",
+          description: "You don't have permission to review this transfer request",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: `Transfer ${decisionAction === "approve" ? "Approved" : "Rejected"}`,
+        description:
+          decisionAction === "approve"
+            ? `The task is now assigned to ${selectedRequest.to_user?.full_name || "the new assignee"}`
+            : "The transfer request has been rejected",
+      });
+
+      setDecisionDialogOpen(false);
+      setSelectedRequest(null);
+      setDecisionNote("");
+      fetchTransferRequests();
+    } catch (error) {
+      console.error("Error processing decision:", error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to process the decision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleWithdraw = async (request: TransferRequest) => {
+    try {
+      const { error } = await supabase
+        .from("transfer_requests")
+        .delete()
+        .eq("id", request.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Request Withdrawn",
+        description: "Your transfer request has been withdrawn",
+      });
+      fetchTransferRequests();
+    } catch (error) {
+      console.error("Error withdrawing transfer request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw the request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "pending":
+        return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">Pending</Badge>;
+      case "approved":
+        return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">Approved</Badge>;
+      case "rejected":
+        return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-300">Rejected</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const getPriorityBadge = (priority: string) => {
+    switch (priority) {
+      case "urgent":
+        return <Badge variant="destructive">Urgent</Badge>;
+      case "high":
+        return <Badge variant="destructive">High</Badge>;
+      case "medium":
+        return <Badge variant="default">Medium</Badge>;
+      case "low":
+        return <Badge variant="secondary">Low</Badge>;
+      default:
+        return <Badge variant="outline">{priority}</Badge>;
+    }
+  };
+
+  const getTaskTypeBadge = (taskType: string) => {
+    return taskType === "assignment" ? (
+      <Badge variant="outline" className="bg-purple-100 text-purple-800 border-purple-300">Assignment</Badge>
+    ) : (
+      <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-300">Task</Badge>
+    );
+  };
+
+  const getDirectionLabel = (request: TransferRequest) => {
+    if (request.from_user_id === userId) return "Sent by you";
+    if (request.to_user_id === userId) return "Proposed to you";
+    return null;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <ArrowRightLeft className="w-6 h-6 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold">Transfer Requests</h1>
+              <p className="text-sm text-muted-foreground">
+                {isReviewer
+                  ? "Review requests to hand tasks over to a colleague"
+                  : "Track your requests to hand tasks over to a colleague"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as RequestStatus)} className="space-y-6">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="pending" className="flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Pending
+            </TabsTrigger>
+            <TabsTrigger value="approved" className="flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              Approved
+            </TabsTrigger>
+            <TabsTrigger value="rejected" className="flex items-center gap-2">
+              <XCircle className="w-4 h-4" />
+              Rejected
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value={activeTab} className="space-y-4">
+            {requests.length === 0 ? (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-center py-12">
+                    <ArrowRightLeft className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground font-medium mb-2">
+                      No {activeTab} transfer requests
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {activeTab === "pending"
+                        ? "Use \"Request Transfer\" on one of your tasks to hand it to a colleague"
+                        : `No transfer requests have been ${activeTab}`}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              requests.map((request) => (
+                <Card key={request.id} className="hover:shadow-lg transition-shadow">
+                  <CardContent className="pt-6">
+                    <div className="space-y-4">
+                      {/* Header */}
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-2 flex-wrap">
+                            <h3 className="font-semibold text-lg">{request.task?.title}</h3>
+                            {getTaskTypeBadge(request.task?.task_type || "")}
+                            {getPriorityBadge(request.task?.priority || "")}
+                            {getDirectionLabel(request) && (
+                              <Badge variant="secondary">{getDirectionLabel(request)}</Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground mb-1">{request.task?.project?.name}</p>
+                          {request.task?.description && (
+                            <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+                              {request.task.description}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          {getStatusBadge(request.status)}
+                        </div>
+                      </div>
+
+                      {/* Details */}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-2 text-sm">
+                            <User className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-medium">{request.from_user?.full_name || "Unknown"}</span>
+                            <ArrowRight className="w-4 h-4 text-primary" />
+                            <span className="font-medium text-primary">{request.to_user?.full_name || "Unknown"}</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-sm">
+                            <Calendar className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-medium">Requested on:</span>
+                            <span>{request.created_at ? format(new Date(request.created_at), "MMM dd, yyyy") : "N/A"}</span>
+                          </div>
+                        </div>
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-2 text-sm">
+                            <Clock className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-medium">Due:</span>
+                            <span>{request.task?.due_date ? format(new Date(request.task.due_date), "MMM dd, yyyy") : "N/A"}</span>
+                          </div>
+                          {request.status !== "pending" && (
+                            <div className="flex items-center gap-2 text-sm">
+                              <CheckCircle2 className="w-4 h-4 text-muted-foreground" />
+                              <span className="font-medium">Reviewed by:</span>
+                              <span>
+                                {request.decider?.full_name || "Unknown"}
+                                {request.decided_at && ` on ${format(new Date(request.decided_at), "MMM dd, yyyy")}`}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {/* Reason */}
+                      {request.reason && (
+                        <div className="p-4 bg-muted/30 rounded-lg">
+                          <div className="flex items-start gap-2 text-sm">
+                            <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+                            <div>
+                              <span className="font-medium block mb-1">Reason:</span>
+                              <p className="text-muted-foreground">{request.reason}</p>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Decision Note (for approved/rejected) */}
+                      {request.decision_note && request.status !== "pending" && (
+                        <div className="p-4 bg-muted/30 rounded-lg border-l-4 border-primary">
+                          <div className="flex items-start gap-2 text-sm">
+                            <FileText className="w-4 h-4 text-muted-foreground mt-0.5" />
+                            <div>
+                              <span className="font-medium block mb-1">Decision Note:</span>
+                              <p className="text-muted-foreground">{request.decision_note}</p>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Action Buttons (only for pending) */}
+                      {request.status === "pending" && (canDecide(request) || request.from_user_id === userId) && (
+                        <div className="flex items-center gap-3 pt-2">
+                          {canDecide(request) && (
+                            <>
+                              <Button
+                                onClick={() => openDecisionDialog(request, "approve")}
+                                className="bg-green-600 hover:bg-green-700"
+                              >
+                                <CheckCircle2 className="w-4 h-4 mr-2" />
+                                Approve Transfer
+                              </Button>
+                              <Button
+                                onClick={() => openDecisionDialog(request, "reject")}
+                                variant="destructive"
+                              >
+                                <XCircle className="w-4 h-4 mr-2" />
+                                Reject Request
+                              </Button>
+                            </>
+                          )}
+                          {request.from_user_id === userId && (
+                            <Button variant="outline" onClick={() => handleWithdraw(request)}>
+                              <Undo2 className="w-4 h-4 mr-2" />
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Decision Dialog */}
+      <Dialog open={decisionDialogOpen} onOpenChange={setDecisionDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decisionAction === "approve" ? "Approve" : "Reject"} Transfer Request
+            </DialogTitle>
+            <DialogDescription>
+              {decisionAction === "approve"
+                ? `Reassign "${selectedRequest?.task?.title || "this task"}" from ${selectedRequest?.from_user?.full_name || "the requester"} to ${selectedRequest?.to_user?.full_name || "their colleague"}`
+                : `Reject the transfer request for "${selectedRequest?.task?.title || "this task"}"`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="decision-note">
+                Note (Optional)
+              </Label>
+              <Textarea
+                id="decision-note"
+                value={decisionNote}
+                onChange={(e) => setDecisionNote(e.target.value)}
+                placeholder="Add a note about your decision..."
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setDecisionDialogOpen(false);
+                setSelectedRequest(null);
+                setDecisionNote("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDecision}
+              className={decisionAction === "approve" ? "bg-green-600 hover:bg-green-700" : ""}
+              variant={decisionAction === "reject" ? "destructive" : "default"}
+            >
+              {decisionAction === "approve" ? (
+                <>
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Approve
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -30,10 +30,19 @@ import {
   BarChart3,
   Trash2,
   CalendarClock,
-  GitBranch
+  GitBranch,
+  MessageSquare,
+  Paperclip,
+  History,
+  ArrowRightLeft
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { TaskDetailSheet, TaskDetailTab } from "@/components/tasks/TaskDetailSheet";
+import { RequestTransferDialog } from "@/components/tasks/RequestTransferDialog";
+import { ManageCollaboratorsDialog } from "@/components/tasks/ManageCollaboratorsDialog";
+import { TaskCollaborator, assignedOrCollaboratingFilter, awardCompletionPoints, fetchCollaboratingTaskIds, formatCollaboratorNames } from "@/lib/collaborators";
+import { fetchProjectMemberIds } from "@/lib/projectMembers";
 
 interface Project {
   id: string;
@@ -61,6 +70,7 @@ interface Task {
     full_name: string;
     email: string;
   };
+  collaborators?: TaskCollaborator[];
 }
 
 interface Assignment {
@@ -71,7 +81,12 @@ interface Assignment {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   due_date?: string;
   created_at: string;
+  assignee_id?: string;
   completion_points?: number;
+  assignee?: {
+    full_name: string;
+  } | null;
+  collaborators?: TaskCollaborator[];
 }
 
 interface ProjectStats {
@@ -87,13 +102,15 @@ interface ProjectStats {
 export function ProjectDetail() {
   const { projectName } = useParams<{ projectName: string }>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { organization } = useOrganization();
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [myAssignments, setMyAssignments] = useState<Assignment[]>([]);
   const [employees, setEmployees] = useState<Array<{user_id: string, users: {full_name: string}}>>([]);
+  // Tasks can only be assigned to members of the project
+  const [projectMemberIds, setProjectMemberIds] = useState<string[]>([]);
   const [stats, setStats] = useState<ProjectStats>({
     totalTasks: 0,
     completedTasks: 0,
@@ -105,6 +122,10 @@ export function ProjectDetail() {
   });
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<string>("tasks");
+  const [detailTask, setDetailTask] = useState<{ id: string; tab: TaskDetailTab } | null>(null);
+  const [transferTask, setTransferTask] = useState<{ id: string; title: string } | null>(null);
+  const [collaboratorTask, setCollaboratorTask] = useState<Task | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [newTask, setNewTask] = useState({
     title: "",
@@ -127,8 +148,23 @@ export function ProjectDetail() {
     if (tab && ["tasks", "assignments", "reports"].includes(tab)) {
       setActiveTab(tab);
     }
+    // Deep link from a comment/mention notification opens that task's thread
+    const taskId = searchParams.get("task");
+    if (taskId) {
+      setDetailTask({ id: taskId, tab: "comments" });
+    }
   }, [searchParams]);
 
+  const handleTaskDetailOpenChange = (open: boolean) => {
+    if (open) return;
+    setDetailTask(null);
+    if (searchParams.has("task")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("task");
+      setSearchParams(next, { replace: true });
+    }
+  };
+
   useEffect(() => {
     if (projectName && organization) {
       fetchProjectDetails();
@@ -163,6 +199,7 @@ export function ProjectDetail() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setCurrentUserId(user.id);
 
       const { data: projectData, error: projectError } = await supabase
         .from("projects")
@@ -172,6 +209,7 @@ export function ProjectDetail() {
 
       if (projectError) throw projectError;
       setProject(projectData);
+      setProjectMemberIds(await fetchProjectMemberIds(projectData.id));
 
       // Fetch tasks
       const { data: tasksData, error: tasksError } = await supabase
@@ -186,7 +224,8 @@ export function ProjectDetail() {
           created_at,
           assignee_id,
           completion_points,
-          assignee:users!tasks_assignee_id_fkey(full_name, email)
+          assignee:users!tasks_assignee_id_fkey(full_name, email),
+          collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
         `)
         .eq("project_id", projectData.id)
         .eq("task_type", "task")
@@ -203,13 +242,26 @@ export function ProjectDetail() {
 
       setTasks(tasksWithOverdueStatus);
 
-      // Fetch my assignments (assignments assigned to me)
+      // Fetch my assignments (assigned to me or shared with me as a collaborator)
+      const collaboratingTaskIds = await fetchCollaboratingTaskIds(user.id);
       const { data: myAssignmentsData } = await supabase
         .from("tasks")
-        .select("id, title, description, status, priority, due_date, created_at, completion_points")
+        .select(`
+          id,
+          title,
+          description,
+          status,
+          priority,
+          due_date,
+          created_at,
+          assignee_id,
+          completion_points,
+          assignee:users!tasks_assignee_id_fkey(full_name),
+          collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
+        `)
         .eq("project_id", projectData.id)
         .eq("task_type", "assignment")
-        .eq("assignee_id", user.id)
+        .or(assignedOrCollaboratingFilter(user.id, collaboratingTaskIds))
         .order("created_at", { ascending: false });
 
       if (myAssignmentsData) {
@@ -403,15 +455,6 @@ export function ProjectDetail() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get the assignment details to check for completion points
-      const { data: assignmentData, error: assignmentError } = await supabase
-        .from("tasks")
-        .select("completion_points")
-        .eq("id", assignmentId)
-        .single();
-
-      if (assignmentError) throw assignmentError;
-
       // Update assignment status to done
       const { error: updateError } = await supabase
         .from("tasks")
@@ -423,22 +466,12 @@ export function ProjectDetail() {
 
       if (updateError) throw updateError;
 
-      // Award points if the assignment has completion points
-      if (assignmentData.completion_points && assignmentData.completion_points > 0) {
-        const { error: pointsError } = await supabase
-          .from("points_ledger")
-          .insert({
-            user_id: user.id,
-            delta: assignmentData.completion_points,
-            reason_code: "task_completion",
-            task_id: assignmentId,
-          });
-
-        if (pointsError) throw pointsError;
-
+      // Award points to the assignee and collaborators
+      const earnedPoints = await awardCompletionPoints(assignmentId);
+      if (earnedPoints > 0) {
         toast({
           title: "Assignment Completed! 🎉",
-          description: `You earned ${assignmentData.completion_points} points!`,
+          description: `You earned ${earnedPoints} points!`,
         });
       } else {
         toast({
@@ -765,7 +798,7 @@ export function ProjectDetail() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="unassigned">Select an employee...</SelectItem>
-                          {employees.map((emp) => (
+                          {employees.filter((emp) => projectMemberIds.includes(emp.user_id)).map((emp) => (
                             <SelectItem key={emp.user_id} value={emp.user_id}>
                               {emp.users.full_name}
                             </SelectItem>
@@ -845,6 +878,12 @@ export function ProjectDetail() {
                                       <span>{task.assignee.full_name}</span>
                                     </div>
                                   )}
+                                  {task.collaborators && task.collaborators.length > 0 && (
+                                    <div className="flex items-center gap-1">
+                                      <Users className="w-3 h-3" />
+                                      <span>With {formatCollaboratorNames(task.collaborators)}</span>
+                                    </div>
+                                  )}
                                   {task.completion_points && task.completion_points > 0 && (
                                     <div className="flex items-center gap-1 text-amber-600">
                                       <Coins className="w-3 h-3" />
@@ -869,6 +908,42 @@ export function ProjectDetail() {
                               <Badge className={`${getStatusColor(task.status)} text-xs`}>
                                 {formatStatusText(task.status)}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Comments"
+                                onClick={() => setDetailTask({ id: task.id, tab: "comments" })}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Files"
+                                onClick={() => setDetailTask({ id: task.id, tab: "files" })}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="History"
+                                onClick={() => setDetailTask({ id: task.id, tab: "history" })}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Collaborators"
+                                onClick={() => setCollaboratorTask(task)}
+                              >
+                                <Users className="h-4 w-4" />
+                              </Button>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -938,6 +1013,18 @@ export function ProjectDetail() {
                                   </p>
                                 )}
                                 <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                                  {assignment.assignee_id !== currentUserId && assignment.assignee && (
+                                    <div className="flex items-center gap-1">
+                                      <User className="w-3 h-3" />
+                                      <span>Collaborating with {assignment.assignee.full_name}</span>
+                                    </div>
+                                  )}
+                                  {assignment.collaborators?.some((c) => c.user_id !== currentUserId) && (
+                                    <div className="flex items-center gap-1">
+                                      <Users className="w-3 h-3" />
+                                      <span>With {formatCollaboratorNames(assignment.collaborators.filter((c) => c.user_id !== currentUserId))}</span>
+                                    </div>
+                                  )}
                                   {assignment.completion_points && assignment.completion_points > 0 && (
                                     <div className="flex items-center gap-1 text-amber-600">
                                       <Coins className="w-3 h-3" />
@@ -962,6 +1049,33 @@ export function ProjectDetail() {
                               <Badge className={`${getStatusColor(assignment.status)} text-xs`}>
                                 {formatStatusText(assignment.status)}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Comments"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "comments" })}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Files"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "files" })}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="History"
+                                onClick={() => setDetailTask({ id: assignment.id, tab: "history" })}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               {assignment.status !== 'done' && (
                                 <div className="flex flex-col gap-2 ml-2">
                                   <Button
@@ -980,6 +1094,16 @@ export function ProjectDetail() {
                                     <CalendarClock className="w-3 h-3 mr-1" />
                                     Request Extension
                                   </Button>
+                                  {assignment.assignee_id === currentUserId && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setTransferTask({ id: assignment.id, title: assignment.title })}
+                                    >
+                                      <ArrowRightLeft className="w-3 h-3 mr-1" />
+                                      Request Transfer
+                                    </Button>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -1154,6 +1278,24 @@ export function ProjectDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RequestTransferDialog
+        task={transferTask}
+        onOpenChange={(open) => !open && setTransferTask(null)}
+      />
+
+      <ManageCollaboratorsDialog
+        task={collaboratorTask}
+        onOpenChange={(open) => !open && setCollaboratorTask(null)}
+        onSaved={fetchProjectDetails}
+      />
+
+      <TaskDetailSheet
+        taskId={detailTask?.id ?? null}
+        taskTitle={[...tasks, ...myAssignments].find((t) => t.id === detailTask?.id)?.title}
+        tab={detailTask?.tab}
+        onOpenChange={handleTaskDetailOpenChange}
+      />
     </div>
   );
 }
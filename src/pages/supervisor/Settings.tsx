@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ArrowLeft, User, Mail, Shield, Upload, Eye, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { NotificationPreferencesCard } from "@/components/notifications/NotificationPreferencesCard";
 
 interface UserProfile {
   id: string;
@@ -432,6 +433,8 @@ export function Settings() {
               </Dialog>
             </CardContent>
           </Card>
+
+          <NotificationPreferencesCard role="supervisor" />
         </div>
       </div>
     </div>
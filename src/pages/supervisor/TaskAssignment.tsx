@@ -6,9 +6,11 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Target, Clock, CheckCircle2, Filter, Search, AlertCircle, Circle } from "lucide-react";
+import { ArrowLeft, Target, Clock, CheckCircle2, Filter, Search, AlertCircle, Circle, Users } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { ManageCollaboratorsDialog } from "@/components/tasks/ManageCollaboratorsDialog";
+import { TaskCollaborator, formatCollaboratorNames } from "@/lib/collaborators";
 
 type TaskStatus = "todo" | "in_progress" | "review" | "done" | "overdue";
 type TaskPriority = "low" | "medium" | "high";
@@ -27,6 +29,7 @@ interface Task {
   assignee?: {
     full_name: string;
   };
+  collaborators?: TaskCollaborator[];
 }
 
 interface TaskStats {
@@ -54,6 +57,7 @@ export default function SupervisorTaskAssignment() {
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterPriority, setFilterPriority] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [collaboratorTask, setCollaboratorTask] = useState<Task | null>(null);
 
   useEffect(() => {
     if (organization) {
@@ -86,55 +90,6 @@ export default function SupervisorTaskAssignment() {
     }
   }, [tasks]);
 
-  const checkAndUpdateOverdueTasks = async (tasksData: Task[]) => {
-    const now = new Date();
-    const overdueTasks = tasksData.filter(task => {
-      if (!task.due_date) return false;
-      
-      // Create date objects for comparison (ignore time portion)
-      const dueDate = new Date(task.due_date);
-      dueDate.setHours(0, 0, 0, 0);
-      const today = new Date(now);
-      today.setHours(0, 0, 0, 0);
-      
-      return dueDate < today && 
-             task.status !== 'done' && 
-             task.status !== 'overdue';
-    });
-
-    // Update overdue tasks in the database
-    const updatePromises = overdueTasks.map(async (task) => {
-      try {
-        const { error } = await supabase
-          .from('tasks')
-          .update({ status: 'overdue' })
-          .eq('id', task.id);
-
-        if (error) {
-          console.error(`Error updating task ${task.id} to overdue:`, error);
-          return null;
-        } else {
-          console.log(`Task ${task.id} marked as overdue`);
-          return task.id;
-        }
-      } catch (error) {
-        console.error(`Error updating task ${task.id}:`, error);
-        return null;
-      }
-    });
-
-    // Wait for all updates to complete
-    await Promise.all(updatePromises);
-
-    // Return updated tasks array with overdue status applied
-    return tasksData.map(task => {
-      if (overdueTasks.find(overdueTask => overdueTask.id === task.id)) {
-        return { ...task, status: 'overdue' as TaskStatus };
-      }
-      return task;
-    });
-  };
-
   const fetchTasks = async () => {
     if (!organization) return;
     
@@ -150,7 +105,8 @@ export default function SupervisorTaskAssignment() {
           due_date,
           assignee_id,
           project:projects!inner(name, organization_id),
-          assignee:users!tasks_assignee_id_fkey(full_name)
+          assignee:users!tasks_assignee_id_fkey(full_name),
+          collaborators:task_collaborators(user_id, user:users!task_collaborators_user_id_fkey(full_name))
         `)
         .eq("project.organization_id", organization.id)
         .order("created_at", { ascending: false });
@@ -167,9 +123,7 @@ export default function SupervisorTaskAssignment() {
       }
 
       if (tasksData) {
-        // Check and update overdue tasks
-        const updatedTasks = await checkAndUpdateOverdueTasks(tasksData as Task[]);
-        setTasks(updatedTasks);
+        setTasks(tasksData as Task[]);
       } else {
         setTasks([]);
       }
@@ -443,6 +397,15 @@ export default function SupervisorTaskAssignment() {
                             </span>
                           </>
                         )}
+                        {task.collaborators && task.collaborators.length > 0 && (
+                          <>
+                            <span className="text-xs text-muted-foreground">•</span>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Users className="w-3 h-3" />
+                              With {formatCollaboratorNames(task.collaborators)}
+                            </span>
+                          </>
+                        )}
                         {task.description && (
                           <>
                             <span className="text-xs text-muted-foreground">•</span>
@@ -456,6 +419,15 @@ export default function SupervisorTaskAssignment() {
                   </div>
 
                   <div className="flex items-center gap-3">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Collaborators"
+                      onClick={() => setCollaboratorTask(task)}
+                    >
+                      <Users className="h-4 w-4" />
+                    </Button>
                     <Badge variant={getPriorityColor(task.priority)}>{task.priority}</Badge>
                     <Badge variant="outline" className={getStatusColor(task.status)}>
                       {task.status.replace("_", " ")}
@@ -481,6 +453,12 @@ export default function SupervisorTaskAssignment() {
           </CardContent>
         </Card>
       </div>
+
+      <ManageCollaboratorsDialog
+        task={collaboratorTask}
+        onOpenChange={(open) => !open && setCollaboratorTask(null)}
+        onSaved={fetchTasks}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -4,8 +4,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Clock, Calendar, LogIn, LogOut, TrendingUp } from "lucide-react";
+import { ArrowLeft, Clock, Calendar, Coffee, History, LogIn, LogOut, TrendingUp } from "lucide-react";
 import { useOrganization } from "@/contexts/OrganizationContext";
+import { DEFAULT_TIMEZONE, getLocalDate, getRecentLocalDates } from "@/lib/timezone";
+import { ATTENDANCE_SESSION_COLUMNS, AttendanceBreak, AttendanceCorrectionType, formatDuration, getAttendanceSourceLabel, getBreakMilliseconds, getWorkedMilliseconds } from "@/lib/attendance";
+import { AbsenceExclusions, EMPTY_ABSENCE_EXCLUSIONS, fetchAbsenceExclusions, isExcusedAbsence } from "@/lib/leave";
+import { WorkSchedule, fetchMemberSchedule, getDefaultSchedule } from "@/lib/workSchedules";
+import { AttendanceDayStatus, getAttendanceDay } from "@/lib/attendanceStatus";
+import { AttendanceCorrectionDialog } from "@/components/attendance/AttendanceCorrectionDialog";
 
 interface ClockInRecord {
   id: string;
@@ -15,15 +21,20 @@ interface ClockInRecord {
   clock_out_at: string | null;
   local_date: string;
   source: string | null;
-  status?: "early" | "on-time" | "late";
+  note?: string | null;
+  auto_closed?: boolean;
+  breaks?: AttendanceBreak[] | null;
+  status?: AttendanceDayStatus;
   hasOvertime?: boolean;
 }
 
 interface WorkHoursConfig {
+  timezone: string;
   work_start_time: string;
   work_end_time: string;
   early_threshold_minutes: number;
   late_threshold_minutes: number;
+  working_weekdays: number[] | null;
 }
 
 export default function SupervisorTimeManagement() {
@@ -34,16 +45,22 @@ export default function SupervisorTimeManagement() {
   const [loading, setLoading] = useState(true);
   const [activeFilter, setActiveFilter] = useState<"all" | "early" | "on-time" | "late" | "overtime" | "absent">("all");
   const [workHours, setWorkHours] = useState<WorkHoursConfig>({
+    timezone: DEFAULT_TIMEZONE,
     work_start_time: "09:00:00",
     work_end_time: "17:00:00",
     early_threshold_minutes: 15,
     late_threshold_minutes: 15,
+    working_weekdays: null,
   });
+  const [workSchedule, setWorkSchedule] = useState<WorkSchedule | null>(null);
+  const [absenceExclusions, setAbsenceExclusions] = useState<AbsenceExclusions>(EMPTY_ABSENCE_EXCLUSIONS);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [correctionTarget, setCorrectionTarget] = useState<{ date: string; type: AttendanceCorrectionType } | null>(null);
 
   useEffect(() => {
     if (organization) {
-      fetchWorkHours();
-      fetchClockInHistory();
+      // Statuses are computed with the member's schedule in the organization's time zone
+      fetchWorkHours().then(fetchClockInHistory);
     }
   }, [organization]);
 
@@ -52,41 +69,55 @@ export default function SupervisorTimeManagement() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [clockInRecords, activeFilter, organization]);
 
-  const fetchWorkHours = async () => {
+  const fetchWorkHours = async (): Promise<WorkHoursConfig> => {
     try {
-      if (!organization) return;
+      if (!organization) return workHours;
 
       const { data, error } = await supabase
         .from("organizations")
-        .select("work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes")
+        .select("timezone, work_start_time, work_end_time, early_threshold_minutes, late_threshold_minutes, working_weekdays")
         .eq("id", organization.id)
         .single();
 
-      if (error || !data || !('work_start_time' in data)) {
-        return;
+      if (error || !data) {
+        return workHours;
       }
 
-      setWorkHours({
-        work_start_time: (data as any).work_start_time || "09:00:00",
-        work_end_time: (data as any).work_end_time || "17:00:00",
-        early_threshold_minutes: (data as any).early_threshold_minutes || 15,
-        late_threshold_minutes: (data as any).late_threshold_minutes || 15,
-      });
+      const config = {
+        timezone: data.timezone || DEFAULT_TIMEZONE,
+        work_start_time: data.work_start_time || "09:00:00",
+        work_end_time: data.work_end_time || "17:00:00",
+        early_threshold_minutes: data.early_threshold_minutes || 15,
+        late_threshold_minutes: data.late_threshold_minutes || 15,
+        working_weekdays: data.working_weekdays ?? null,
+      };
+      setWorkHours(config);
+      return config;
     } catch (error) {
       console.error("Error fetching work hours:", error);
+      return workHours;
     }
   };
 
-  const fetchClockInHistory = async () => {
+  const fetchClockInHistory = async (config: WorkHoursConfig = workHours) => {
     if (!organization) return;
     
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
+
+      // The member's own or team schedule, otherwise the organization hours
+      const schedule = (await fetchMemberSchedule(organization.id, user.id)) ?? getDefaultSchedule(config);
+      setWorkSchedule(schedule);
+
+      // Holidays and approved leave in the absence window are not absences
+      const dateRange = getRecentLocalDates(30, config.timezone);
+      setAbsenceExclusions(await fetchAbsenceExclusions(organization.id, dateRange[dateRange.length - 1], dateRange[0]));
 
       const { data, error } = await supabase
         .from("attendance_checkins")
-        .select("*")
+        .select(ATTENDANCE_SESSION_COLUMNS)
         .eq("org_id", organization.id)
         .eq("user_id", user.id)
         .order("local_date", { ascending: false })
@@ -96,11 +127,15 @@ export default function SupervisorTimeManagement() {
       if (error) throw error;
 
       // Add status and overtime information to each record
-      const recordsWithStatus = (data || []).map((record: any) => ({
-        ...record,
-        status: record.clock_in_at ? getArrivalStatus(record.clock_in_at) : undefined,
-        hasOvertime: record.clock_in_at && record.clock_out_at ? checkHasOvertime(record.clock_in_at, record.clock_out_at) : false,
-      }));
+      const recordsWithStatus = (data || []).map((record) => {
+        const day = getAttendanceDay({
+          schedule,
+          timeZone: config.timezone,
+          localDate: record.local_date,
+          session: record,
+        });
+        return { ...record, status: day.status, hasOvertime: day.overtime };
+      });
 
       setClockInRecords(recordsWithStatus);
     } catch (error) {
@@ -127,8 +162,9 @@ export default function SupervisorTimeManagement() {
         filtered = filtered.filter((r) => r.hasOvertime === true);
         break;
       case "absent":
-        // For absent, we need to generate dates that should have attendance but don't
-        filtered = generateAbsentDays();
+        // Clock-ins after the end of the shift, and the days without any
+        filtered = [...filtered.filter((r) => r.status === "absent"), ...generateAbsentDays()]
+          .sort((a, b) => b.local_date.localeCompare(a.local_date));
         break;
       case "all":
       default:
@@ -139,37 +175,28 @@ export default function SupervisorTimeManagement() {
   };
 
   const generateAbsentDays = () => {
-    // Get the last 30 days
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const today = new Date().toISOString().split('T')[0];
-
-    const dateRange: string[] = [];
-    for (let i = 0; i < 30; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      dateRange.push(date.toISOString().split('T')[0]);
-    }
+    // Get the last 30 days in the organization's time zone
+    const now = new Date();
+    const dateRange = getRecentLocalDates(30, workHours.timezone, now);
+    const schedule = workSchedule ?? getDefaultSchedule(workHours);
 
     // Find dates where there are no records
     const recordsDates = clockInRecords.map((r) => r.local_date);
     const absentDates = dateRange.filter((date) => !recordsDates.includes(date));
 
-    // Only consider past dates or today after work end time
-    const now = new Date();
-    const [endHours, endMinutes] = workHours.work_end_time.split(':').map(Number);
-    const workEndMinutes = endHours * 60 + endMinutes;
-
+    // Only working days whose shift has already ended count, other than
+    // holidays and days of approved leave
     return absentDates
-      .filter((date) => {
-        const dateObj = new Date(date);
-        const isToday = date === today;
-        const isPastDate = dateObj.toISOString().split('T')[0] < today;
-        const currentTimeMinutes = now.getHours() * 60 + now.getMinutes();
-        const isAfterWorkEnd = isToday && currentTimeMinutes >= workEndMinutes;
-
-        return isPastDate || isAfterWorkEnd;
-      })
+      .filter(
+        (date) =>
+          getAttendanceDay({
+            schedule,
+            timeZone: workHours.timezone,
+            localDate: date,
+            excused: isExcusedAbsence(absenceExclusions, userId ?? "", date),
+            now,
+          }).status === "absent"
+      )
       .map((date) => ({
         id: `absent-${date}`,
         user_id: '',
@@ -178,40 +205,15 @@ export default function SupervisorTimeManagement() {
         clock_out_at: null,
         local_date: date,
         source: null,
-        status: 'late' as const,
+        status: "absent" as const,
       }));
   };
 
-  const getArrivalStatus = (clockInTime?: string): "early" | "on-time" | "late" => {
-    if (!clockInTime) return "late";
-    
-    const clockIn = new Date(clockInTime);
-    const workStart = new Date(clockIn);
-    
-    const [hours, minutes] = workHours.work_start_time.split(':').map(Number);
-    workStart.setHours(hours, minutes, 0, 0);
-
-    const diffMinutes = (clockIn.getTime() - workStart.getTime()) / (1000 * 60);
-
-    if (diffMinutes <= -workHours.early_threshold_minutes) return "early";
-    if (diffMinutes <= workHours.late_threshold_minutes) return "on-time";
-    return "late";
-  };
-
-  const checkHasOvertime = (clockInTime: string, clockOutTime: string): boolean => {
-    const clockOut = new Date(clockOutTime);
-    const workEnd = new Date(clockOut);
-    
-    const [hours, minutes] = workHours.work_end_time.split(':').map(Number);
-    workEnd.setHours(hours, minutes, 0, 0);
-
-    return clockOut.getTime() > workEnd.getTime();
-  };
-
   const formatDateTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleString('en-MY', {
       dateStyle: 'medium',
-      timeStyle: 'short'
+      timeStyle: 'short',
+      timeZone: workHours.timezone
     });
   };
 
@@ -219,21 +221,27 @@ export default function SupervisorTimeManagement() {
     if (!timestamp) return "N/A";
     return new Date(timestamp).toLocaleTimeString('en-MY', {
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone: workHours.timezone
     });
   };
 
-  const calculateDuration = (clockIn: string | null, clockOut: string | null) => {
-    if (!clockIn || !clockOut) return "Still clocked in";
-    
-    const inTime = new Date(clockIn).getTime();
-    const outTime = new Date(clockOut).getTime();
-    const durationMs = outTime - inTime;
-    
-    const hours = Math.floor(durationMs / (1000 * 60 * 60));
-    const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-    
-    return `${hours}h ${minutes}m`;
+  // Absent days lack a clock-in; sessions closed automatically or left open
+  // on an earlier day lack a clock-out
+  const getCorrectionType = (record: ClockInRecord): AttendanceCorrectionType =>
+    !record.clock_in_at
+      ? "missing_clock_in"
+      : record.auto_closed || !record.clock_out_at
+        ? "missing_clock_out"
+        : "wrong_time";
+
+  const today = getLocalDate(new Date(), workHours.timezone);
+
+  // Worked time excludes breaks
+  const calculateDuration = (record: ClockInRecord) => {
+    if (!record.clock_in_at || !record.clock_out_at) return "Still clocked in";
+
+    return formatDuration(getWorkedMilliseconds({ ...record, clock_in_at: record.clock_in_at }));
   };
 
   if (loading) {
@@ -351,7 +359,8 @@ export default function SupervisorTimeManagement() {
                                   weekday: 'long',
                                   year: 'numeric',
                                   month: 'long',
-                                  day: 'numeric'
+                                  day: 'numeric',
+                                  timeZone: 'UTC'
                                 })}
                               </p>
                               {record.status === "early" && (
@@ -369,6 +378,11 @@ export default function SupervisorTimeManagement() {
                                   Late
                                 </Badge>
                               )}
+                              {record.status === "absent" && (
+                                <Badge variant="destructive" title="Clocked in after the end of the shift">
+                                  Absent
+                                </Badge>
+                              )}
                               {!record.clock_out_at && (
                                 <Badge variant="secondary" className="bg-green-500/10 text-green-600 border-green-500/20">
                                   Active
@@ -380,6 +394,16 @@ export default function SupervisorTimeManagement() {
                                   OT
                                 </Badge>
                               )}
+                              {record.auto_closed && (
+                                <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300">
+                                  Auto-Closed
+                                </Badge>
+                              )}
+                              {record.source && record.source !== "web" && (
+                                <Badge variant="outline" title={record.note || undefined}>
+                                  {getAttendanceSourceLabel(record.source)}
+                                </Badge>
+                              )}
                             </>
                           ) : (
                             <>
@@ -388,7 +412,8 @@ export default function SupervisorTimeManagement() {
                                   weekday: 'long',
                                   year: 'numeric',
                                   month: 'long',
-                                  day: 'numeric'
+                                  day: 'numeric',
+                                  timeZone: 'UTC'
                                 })}
                               </p>
                               <Badge variant="destructive">
@@ -416,6 +441,15 @@ export default function SupervisorTimeManagement() {
                                 <span className="font-medium">Currently clocked in</span>
                               </div>
                             )}
+                            {record.breaks && record.breaks.length > 0 && (
+                              <div className="flex items-center gap-2 text-sm">
+                                <Coffee className="w-4 h-4 text-muted-foreground" />
+                                <span className="text-muted-foreground">Breaks:</span>
+                                <span className="font-medium">
+                                  {formatDuration(getBreakMilliseconds(record.breaks))} ({record.breaks.length})
+                                </span>
+                              </div>
+                            )}
                           </div>
                         ) : (
                           <div className="text-sm text-muted-foreground">
@@ -424,14 +458,27 @@ export default function SupervisorTimeManagement() {
                         )}
                       </div>
                     </div>
-                    {record.clock_in_at && (
-                      <div className="text-right">
-                        <p className="text-lg font-bold text-primary">{calculateDuration(record.clock_in_at, record.clock_out_at)}</p>
-                        {record.clock_out_at && (
-                          <p className="text-xs text-muted-foreground mt-1">Duration</p>
-                        )}
-                      </div>
-                    )}
+                    <div className="text-right">
+                      {record.clock_in_at && (
+                        <>
+                          <p className="text-lg font-bold text-primary">{calculateDuration(record)}</p>
+                          {record.clock_out_at && (
+                            <p className="text-xs text-muted-foreground mt-1">Worked</p>
+                          )}
+                        </>
+                      )}
+                      {(record.clock_out_at || !record.clock_in_at || record.local_date !== today) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          onClick={() => setCorrectionTarget({ date: record.local_date, type: getCorrectionType(record) })}
+                        >
+                          <History className="w-4 h-4 mr-1" />
+                          Request Correction
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))
               )}
@@ -439,6 +486,18 @@ export default function SupervisorTimeManagement() {
           </CardContent>
         </Card>
       </div>
+
+      {organization && userId && (
+        <AttendanceCorrectionDialog
+          open={!!correctionTarget}
+          onOpenChange={(open) => !open && setCorrectionTarget(null)}
+          organizationId={organization.id}
+          userId={userId}
+          timeZone={workHours.timezone}
+          defaultDate={correctionTarget?.date ?? today}
+          defaultType={correctionTarget?.type}
+        />
+      )}
     </div>
   );
 }
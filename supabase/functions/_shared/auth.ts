@@ -0,0 +1,22 @@
+// Guards the edge functions that only the database (pg_cron, pg_net
+// triggers) may call: they send the service role key as a bearer token.
+
+const encoder = new TextEncoder();
+
+// Compares without returning early, so the key can't be guessed byte by byte
+// from response times
+function timingSafeEqual(a: string, b: string) {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+export function isServiceRoleRequest(req: Request) {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const authorization = req.headers.get("Authorization") ?? "";
+  return !!serviceRoleKey && timingSafeEqual(authorization, `Bearer ${serviceRoleKey}`);
+}
@@ -0,0 +1,40 @@
+// SMTP adapter for the edge functions. Configured through the environment:
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS,
+//   usually port 465), SMTP_USER and SMTP_PASS (optional), SMTP_FROM.
+// Locally, point it at a mail catcher such as Mailpit or MailHog
+// (SMTP_HOST=host.docker.internal SMTP_PORT=1025) and read the emails in its
+// web UI.
+import nodemailer from "npm:nodemailer@6.9.16";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createSmtpMailer(): Mailer {
+  const host = Deno.env.get("SMTP_HOST");
+  const from = Deno.env.get("SMTP_FROM");
+  if (!host || !from) {
+    throw new Error("SMTP_HOST and SMTP_FROM must be set");
+  }
+
+  const user = Deno.env.get("SMTP_USER");
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(Deno.env.get("SMTP_PORT") || 587),
+    secure: Deno.env.get("SMTP_SECURE") === "true",
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASS") } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transport.sendMail({ from, ...message });
+    },
+  };
+}
@@ -0,0 +1,148 @@
+// Sends the email and digest deliveries queued by route_notification().
+//   POST {}                   sends the pending emails
+//   POST { "mode": "digest" } sends each user one email with their pending
+//                             digest notifications
+// Called by send_notification_emails() through pg_cron with the service role
+// key: every minute for emails and once a day for the digest; other callers
+// are rejected. SMTP settings are read by _shared/smtp.ts; APP_URL, when set,
+// is linked from the emails.
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { createSmtpMailer, Mailer } from "../_shared/smtp.ts";
+
+// Deliveries handled per call; the rest wait for the next one
+const BATCH_SIZE = 200;
+
+// Failed deliveries are retried until they failed this many times
+const MAX_ATTEMPTS = 5;
+
+interface Delivery {
+  id: string;
+  user_id: string;
+  type: string;
+  payload: { message?: string } | null;
+  created_at: string;
+  attempts: number;
+  user: { email: string | null; full_name: string | null } | null;
+}
+
+const getMessage = (delivery: Delivery) => delivery.payload?.message || "You have a new notification";
+
+const getFooter = () => {
+  const appUrl = Deno.env.get("APP_URL");
+  return [
+    appUrl ? `Open the app: ${appUrl}/` : null,
+    "You can change which notifications you receive by email in Settings.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+async function fetchPending(supabase: SupabaseClient, channel: "email" | "digest") {
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .select("id, user_id, type, payload, created_at, attempts, user:users!notification_deliveries_user_id_fkey(email, full_name)")
+    .eq("channel", channel)
+    .is("sent_at", null)
+    .lt("attempts", MAX_ATTEMPTS)
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  return (data || []) as unknown as Delivery[];
+}
+
+async function markSent(supabase: SupabaseClient, ids: string[]) {
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .update({ sent_at: new Date().toISOString(), last_error: null })
+    .in("id", ids);
+
+  if (error) throw error;
+}
+
+async function markFailed(supabase: SupabaseClient, deliveries: Delivery[], reason: unknown) {
+  const lastError = reason instanceof Error ? reason.message : String(reason);
+  for (const delivery of deliveries) {
+    const { error } = await supabase
+      .from("notification_deliveries")
+      .update({ attempts: delivery.attempts + 1, last_error: lastError })
+      .eq("id", delivery.id);
+
+    if (error) console.error("Error recording failed delivery:", error);
+  }
+}
+
+async function sendEmails(supabase: SupabaseClient, mailer: Mailer) {
+  const deliveries = await fetchPending(supabase, "email");
+  let sent = 0;
+
+  for (const delivery of deliveries) {
+    try {
+      if (!delivery.user?.email) throw new Error("User has no email address");
+
+      const message = getMessage(delivery);
+      await mailer.send({
+        to: delivery.user.email,
+        subject: message,
+        text: `${message}\n\n${getFooter()}`,
+      });
+      await markSent(supabase, [delivery.id]);
+      sent++;
+    } catch (error) {
+      console.error(`Error sending delivery ${delivery.id}:`, error);
+      await markFailed(supabase, [delivery], error);
+    }
+  }
+
+  return { sent, failed: deliveries.length - sent };
+}
+
+async function sendDigests(supabase: SupabaseClient, mailer: Mailer) {
+  const deliveries = await fetchPending(supabase, "digest");
+  const byUser = new Map<string, Delivery[]>();
+  for (const delivery of deliveries) {
+    byUser.set(delivery.user_id, [...(byUser.get(delivery.user_id) || []), delivery]);
+  }
+
+  let sent = 0;
+  for (const userDeliveries of byUser.values()) {
+    const user = userDeliveries[0].user;
+    try {
+      if (!user?.email) throw new Error("User has no email address");
+
+      const count = userDeliveries.length;
+      const lines = userDeliveries.map((d) => `- ${getMessage(d)}`).join("\n");
+      await mailer.send({
+        to: user.email,
+        subject: `Your daily digest: ${count} ${count === 1 ? "notification" : "notifications"}`,
+        text: `Hi ${user.full_name || "there"},\n\nHere is what happened since your last digest:\n\n${lines}\n\n${getFooter()}`,
+      });
+      await markSent(supabase, userDeliveries.map((d) => d.id));
+      sent++;
+    } catch (error) {
+      console.error("Error sending digest:", error);
+      await markFailed(supabase, userDeliveries, error);
+    }
+  }
+
+  return { sent, failed: byUser.size - sent };
+}
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = req.headers.get("content-type")?.includes("application/json") ? await req.json() : {};
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const mailer = createSmtpMailer();
+
+    const result = body?.mode === "digest" ? await sendDigests(supabase, mailer) : await sendEmails(supabase, mailer);
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error sending notification emails:", error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
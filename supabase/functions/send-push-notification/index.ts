@@ -0,0 +1,104 @@
+// Pushes a notification to every browser its user has subscribed.
+//   POST { "notification_id": "<uuid>" }
+// Called by send_push_notification() when a notification is stored, with the
+// service role key; other callers are rejected. Needs VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and
+// VAPID_SUBJECT (a mailto: or https: contact); the public key is also the
+// app's VITE_VAPID_PUBLIC_KEY. Subscriptions the push service no longer
+// knows are removed.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+
+interface Subscription {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Push services answer these for subscriptions that expired or were revoked
+const GONE_STATUS_CODES = [404, 410];
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { notification_id } = await req.json();
+    if (!notification_id) {
+      return Response.json({ error: "notification_id is required" }, { status: 400 });
+    }
+
+    webpush.setVapidDetails(
+      Deno.env.get("VAPID_SUBJECT")!,
+      Deno.env.get("VAPID_PUBLIC_KEY")!,
+      Deno.env.get("VAPID_PRIVATE_KEY")!,
+    );
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: notification, error: notificationError } = await supabase
+      .from("notifications")
+      .select("id, user_id, type, payload")
+      .eq("id", notification_id)
+      .maybeSingle();
+
+    if (notificationError) throw notificationError;
+    if (!notification) {
+      return Response.json({ error: "Notification not found" }, { status: 404 });
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from("push_subscriptions")
+      .select("id, endpoint, p256dh, auth")
+      .eq("user_id", notification.user_id);
+
+    if (subscriptionsError) throw subscriptionsError;
+
+    const message = JSON.stringify({
+      title: "Trevor",
+      body: notification.payload?.message || "You have a new notification",
+      notification_id: notification.id,
+      type: notification.type,
+    });
+
+    const sentIds: string[] = [];
+    const goneIds: string[] = [];
+    for (const subscription of (subscriptions || []) as Subscription[]) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          message,
+        );
+        sentIds.push(subscription.id);
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode && GONE_STATUS_CODES.includes(statusCode)) {
+          goneIds.push(subscription.id);
+        } else {
+          console.error(`Error pushing to subscription ${subscription.id}:`, error);
+        }
+      }
+    }
+
+    if (sentIds.length > 0) {
+      const { error } = await supabase
+        .from("push_subscriptions")
+        .update({ last_used_at: new Date().toISOString() })
+        .in("id", sentIds);
+
+      if (error) console.error("Error updating push subscriptions:", error);
+    }
+
+    if (goneIds.length > 0) {
+      const { error } = await supabase.from("push_subscriptions").delete().in("id", goneIds);
+
+      if (error) console.error("Error removing expired push subscriptions:", error);
+    }
+
+    return Response.json({ sent: sentIds.length, removed: goneIds.length });
+  } catch (error) {
+    console.error("Error sending push notification:", error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,231 @@
+-- Migration: Threaded task comments with @mentions
+-- Adds reply threading and mention tracking to the existing comments table,
+-- RLS so only members of the task's organization can read/write comments,
+-- and triggers that notify mentioned users and task participants
+
+-- Threading and mention columns
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS mentioned_user_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.comments.parent_id IS 'Parent comment when this comment is a reply (NULL for top-level comments)';
+COMMENT ON COLUMN public.comments.mentioned_user_ids IS 'Users @mentioned in the comment content';
+
+CREATE INDEX IF NOT EXISTS idx_comments_task_id_created_at
+ON public.comments(task_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id
+ON public.comments(parent_id)
+WHERE parent_id IS NOT NULL;
+
+-- Resolve the organization a task belongs to (through its project)
+CREATE OR REPLACE FUNCTION public.get_task_organization_id(p_task UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT p.organization_id
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  WHERE t.id = p_task;
+$$;
+
+COMMENT ON FUNCTION public.get_task_organization_id(UUID) IS
+  'Returns the organization id of the project that owns the given task';
+
+-- RLS policies
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "comments_select_org_members" ON public.comments;
+DROP POLICY IF EXISTS "comments_insert_org_members" ON public.comments;
+DROP POLICY IF EXISTS "comments_update_author" ON public.comments;
+DROP POLICY IF EXISTS "comments_delete_author_or_manager" ON public.comments;
+
+CREATE POLICY "comments_select_org_members"
+ON public.comments FOR SELECT
+TO authenticated
+USING (public.is_org_member(public.get_task_organization_id(task_id), auth.uid()));
+
+CREATE POLICY "comments_insert_org_members"
+ON public.comments FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.is_org_member(public.get_task_organization_id(task_id), auth.uid())
+);
+
+CREATE POLICY "comments_update_author"
+ON public.comments FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Authors can delete their own comments, owners and admins can moderate
+CREATE POLICY "comments_delete_author_or_manager"
+ON public.comments FOR DELETE
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = public.get_task_organization_id(comments.task_id)
+      AND m.user_id = auth.uid()
+      AND m.role IN ('owner', 'admin')
+  )
+);
+
+-- Keep updated_at in sync when a comment is edited
+CREATE OR REPLACE FUNCTION public.touch_comment_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS comment_updated_at_trigger ON public.comments;
+
+CREATE TRIGGER comment_updated_at_trigger
+  BEFORE UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_comment_updated_at();
+
+-- Editing a comment changes what it says, not where it is: moving it to
+-- another task or thread would bypass the insert checks
+CREATE OR REPLACE FUNCTION public.pin_comment_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.task_id IS DISTINCT FROM OLD.task_id OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+    RAISE EXCEPTION 'A comment can''t be moved to another task or thread'
+      USING HINT = 'comment_thread_read_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.pin_comment_thread() IS
+  'Rejects changes to the task and parent of an existing comment';
+
+DROP TRIGGER IF EXISTS pin_comment_thread_trigger ON public.comments;
+
+CREATE TRIGGER pin_comment_thread_trigger
+  BEFORE UPDATE OF task_id, parent_id ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_comment_thread();
+
+-- Function to notify mentioned users and task participants about a new
+-- comment. Edited comments only notify the users mentioned by the edit.
+CREATE OR REPLACE FUNCTION notify_task_commented()
+RETURNS TRIGGER AS $$
+DECLARE
+  task_record RECORD;
+  project_name TEXT;
+  commenter_name TEXT;
+  parent_author_id UUID;
+  recipient_id UUID;
+  excerpt TEXT;
+BEGIN
+  SELECT id, title, task_type, project_id, assignee_id, created_by
+  INTO task_record
+  FROM tasks WHERE id = NEW.task_id;
+
+  IF task_record.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO project_name FROM projects WHERE id = task_record.project_id;
+
+  SELECT full_name INTO commenter_name FROM users WHERE id = NEW.user_id;
+  IF commenter_name IS NULL OR commenter_name = '' THEN
+    commenter_name := 'Someone';
+  END IF;
+
+  excerpt := left(NEW.content, 140);
+
+  -- Mentioned users get a dedicated mention notification
+  FOR recipient_id IN
+    SELECT DISTINCT m.id
+    FROM unnest(NEW.mentioned_user_ids) AS m(id)
+    WHERE TG_OP = 'INSERT'
+      OR NOT (m.id = ANY(COALESCE(OLD.mentioned_user_ids, '{}'::uuid[])))
+  LOOP
+    IF recipient_id IS DISTINCT FROM NEW.user_id
+       AND public.is_org_member(public.get_task_organization_id(NEW.task_id), recipient_id) THEN
+      INSERT INTO notifications (user_id, type, payload)
+      VALUES (
+        recipient_id,
+        'mention'::notification_type,
+        jsonb_build_object(
+          'task_id', NEW.task_id,
+          'comment_id', NEW.id,
+          'task_title', task_record.title,
+          'task_type', COALESCE(task_record.task_type, 'task'),
+          'project_id', task_record.project_id,
+          'project_name', project_name,
+          'commenter_id', NEW.user_id,
+          'commenter_name', commenter_name,
+          'excerpt', excerpt,
+          'message', commenter_name || ' mentioned you on "' || task_record.title || '"'
+        )
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author_id FROM comments WHERE id = NEW.parent_id;
+  END IF;
+
+  -- Assignee, task creator and the author of the replied-to comment
+  -- get a task_commented notification unless they were already mentioned
+  FOR recipient_id IN
+    SELECT DISTINCT r.id
+    FROM (VALUES (task_record.assignee_id), (task_record.created_by), (parent_author_id)) AS r(id)
+    WHERE r.id IS NOT NULL
+      AND r.id IS DISTINCT FROM NEW.user_id
+      AND NOT (r.id = ANY(NEW.mentioned_user_ids))
+  LOOP
+    INSERT INTO notifications (user_id, type, payload)
+    VALUES (
+      recipient_id,
+      'task_commented'::notification_type,
+      jsonb_build_object(
+        'task_id', NEW.task_id,
+        'comment_id', NEW.id,
+        'task_title', task_record.title,
+        'task_type', COALESCE(task_record.task_type, 'task'),
+        'project_id', task_record.project_id,
+        'project_name', project_name,
+        'commenter_id', NEW.user_id,
+        'commenter_name', commenter_name,
+        'excerpt', excerpt,
+        'message',
+          CASE
+            WHEN recipient_id = parent_author_id THEN
+              commenter_name || ' replied to your comment on "' || task_record.title || '"'
+            ELSE
+              commenter_name || ' commented on "' || task_record.title || '"'
+          END
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS task_commented_trigger ON public.comments;
+
+CREATE TRIGGER task_commented_trigger
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_task_commented();
+
+COMMENT ON FUNCTION notify_task_commented() IS
+  'Creates mention notifications for @mentioned users (on edits, only the newly mentioned ones) and task_commented notifications for the task assignee, creator and replied-to author';
@@ -0,0 +1,280 @@
+-- Migration: Task file attachments backed by Supabase Storage
+-- Files live in the private "task-attachments" bucket under an
+-- <organization_id>/<task_id>/ prefix, so every organization gets its own
+-- isolated folder. The attachments table keeps the metadata and the object
+-- path (in file_url). Upload limits are configured per organization.
+
+-- Per-organization upload limits
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS attachment_max_size_mb INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN IF NOT EXISTS attachment_allowed_types TEXT[] NOT NULL DEFAULT ARRAY[
+  'image/*',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.*',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'text/plain',
+  'text/csv'
+];
+
+COMMENT ON COLUMN public.organizations.attachment_max_size_mb IS 'Maximum size of a single task attachment in megabytes';
+COMMENT ON COLUMN public.organizations.attachment_allowed_types IS 'MIME type patterns (e.g. image/*) accepted for task attachments';
+
+-- Attachment metadata
+ALTER TABLE public.attachments
+ADD COLUMN IF NOT EXISTS content_type TEXT;
+
+COMMENT ON COLUMN public.attachments.file_url IS 'Object path inside the task-attachments storage bucket';
+COMMENT ON COLUMN public.attachments.content_type IS 'MIME type reported at upload time';
+
+CREATE INDEX IF NOT EXISTS idx_attachments_task_id
+ON public.attachments(task_id, created_at DESC);
+
+-- Role of a user inside an organization (NULL when not a member)
+CREATE OR REPLACE FUNCTION public.get_org_role(p_org UUID, p_user UUID DEFAULT auth.uid())
+RETURNS user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = p_org AND user_id = p_user;
+$$;
+
+-- Who can see/download an attachment: the uploader, the task assignee,
+-- and supervisors, admins and owners of the task's organization
+CREATE OR REPLACE FUNCTION public.can_access_attachment(p_task UUID, p_uploader UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_role user_role;
+BEGIN
+  v_role := public.get_org_role(public.get_task_organization_id(p_task), auth.uid());
+
+  IF v_role IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_uploader = auth.uid() OR v_role IN ('owner', 'admin', 'supervisor') THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = p_task AND t.assignee_id = auth.uid()
+  );
+END;
+$$;
+
+-- Who can delete an attachment: the uploader, or anyone allowed to manage
+-- the uploader's role (owner > admin > supervisor > employee)
+CREATE OR REPLACE FUNCTION public.can_delete_attachment(p_task UUID, p_uploader UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+  v_role user_role;
+  v_uploader_role user_role;
+BEGIN
+  v_org := public.get_task_organization_id(p_task);
+  v_role := public.get_org_role(v_org, auth.uid());
+
+  IF v_role IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_uploader = auth.uid() THEN
+    RETURN true;
+  END IF;
+
+  v_uploader_role := public.get_org_role(v_org, p_uploader);
+
+  -- Uploader has left the organization: owners and admins clean up
+  IF v_uploader_role IS NULL THEN
+    RETURN v_role IN ('owner', 'admin');
+  END IF;
+
+  RETURN public.can_manage_roles(v_org, v_role, v_uploader_role);
+END;
+$$;
+
+COMMENT ON FUNCTION public.can_access_attachment(UUID, UUID) IS
+  'True when the current user may view or download an attachment on the given task';
+
+COMMENT ON FUNCTION public.can_delete_attachment(UUID, UUID) IS
+  'True when the current user may delete an attachment, following the owner/admin/supervisor/employee hierarchy';
+
+-- True when a file of the given size and MIME type fits the organization's
+-- upload limits
+CREATE OR REPLACE FUNCTION public.is_allowed_attachment(p_org UUID, p_size BIGINT, p_content_type TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT p_size IS NOT NULL
+    AND p_size <= o.attachment_max_size_mb::bigint * 1024 * 1024
+    AND (
+      array_length(o.attachment_allowed_types, 1) IS NULL
+      OR EXISTS (
+        SELECT 1 FROM unnest(o.attachment_allowed_types) AS pattern
+        WHERE COALESCE(p_content_type, '') LIKE replace(pattern, '*', '%')
+      )
+    )
+  FROM public.organizations o
+  WHERE o.id = p_org;
+$$;
+
+COMMENT ON FUNCTION public.is_allowed_attachment(UUID, BIGINT, TEXT) IS
+  'True when a file of the given size and MIME type is within the organization''s attachment limits';
+
+-- True when an attachment row points at the storage object, whoever can see it
+CREATE OR REPLACE FUNCTION public.attachment_object_exists(p_name TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.attachments WHERE file_url = p_name);
+$$;
+
+COMMENT ON FUNCTION public.attachment_object_exists(TEXT) IS
+  'True when an attachment row references the given object in the task-attachments bucket';
+
+-- Enforce the organization's size/type limits on insert
+CREATE OR REPLACE FUNCTION public.enforce_attachment_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_size_mb INTEGER;
+  v_allowed TEXT[];
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    NEW.user_id := auth.uid();
+  END IF;
+
+  SELECT attachment_max_size_mb, attachment_allowed_types
+  INTO v_max_size_mb, v_allowed
+  FROM public.organizations
+  WHERE id = public.get_task_organization_id(NEW.task_id);
+
+  IF v_max_size_mb IS NOT NULL AND NEW.file_size > v_max_size_mb::bigint * 1024 * 1024 THEN
+    RAISE EXCEPTION 'File exceeds the % MB limit', v_max_size_mb
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_allowed IS NOT NULL AND array_length(v_allowed, 1) > 0 AND NOT EXISTS (
+    SELECT 1 FROM unnest(v_allowed) AS pattern
+    WHERE COALESCE(NEW.content_type, '') LIKE replace(pattern, '*', '%')
+  ) THEN
+    RAISE EXCEPTION 'File type % is not allowed', COALESCE(NEW.content_type, 'unknown')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS enforce_attachment_limits_trigger ON public.attachments;
+
+CREATE TRIGGER enforce_attachment_limits_trigger
+  BEFORE INSERT ON public.attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_attachment_limits();
+
+-- RLS policies for attachment metadata
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "attachments_select_hierarchy" ON public.attachments;
+DROP POLICY IF EXISTS "attachments_insert_org_members" ON public.attachments;
+DROP POLICY IF EXISTS "attachments_delete_hierarchy" ON public.attachments;
+
+CREATE POLICY "attachments_select_hierarchy"
+ON public.attachments FOR SELECT
+TO authenticated
+USING (public.can_access_attachment(task_id, user_id));
+
+-- file_url must point into the task's own <organization_id>/<task_id>/
+-- folder: the storage policies trust it to grant access to the object
+CREATE POLICY "attachments_insert_org_members"
+ON public.attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.is_org_member(public.get_task_organization_id(task_id), auth.uid())
+  AND split_part(file_url, '/', 1) = public.get_task_organization_id(task_id)::text
+  AND split_part(file_url, '/', 2) = task_id::text
+);
+
+CREATE POLICY "attachments_delete_hierarchy"
+ON public.attachments FOR DELETE
+TO authenticated
+USING (public.can_delete_attachment(task_id, user_id));
+
+-- Private storage bucket (hard ceiling of 50 MB; organizations set lower limits)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "task_attachments_insert_org_folder" ON storage.objects;
+DROP POLICY IF EXISTS "task_attachments_select_hierarchy" ON storage.objects;
+DROP POLICY IF EXISTS "task_attachments_delete_hierarchy" ON storage.objects;
+
+-- Members may only upload into their own organization's folder, and only
+-- files within its size and type limits
+CREATE POLICY "task_attachments_insert_org_folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'task-attachments'
+  AND public.is_org_member(((storage.foldername(name))[1])::uuid, auth.uid())
+  AND public.is_allowed_attachment(
+    ((storage.foldername(name))[1])::uuid,
+    (metadata->>'size')::bigint,
+    metadata->>'mimetype'
+  )
+);
+
+-- Reads and deletes follow the permissions of the matching attachment row
+CREATE POLICY "task_attachments_select_hierarchy"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.attachments a
+    WHERE a.file_url = storage.objects.name
+      AND public.can_access_attachment(a.task_id, a.user_id)
+  )
+);
+
+-- Uploaders may also remove their own objects that never got an attachment
+-- row, e.g. when the metadata insert was rejected
+CREATE POLICY "task_attachments_delete_hierarchy"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.attachments a
+      WHERE a.file_url = storage.objects.name
+        AND public.can_delete_attachment(a.task_id, a.user_id)
+    )
+    OR (
+      owner_id = auth.uid()::text
+      AND NOT public.attachment_object_exists(storage.objects.name)
+    )
+  )
+);
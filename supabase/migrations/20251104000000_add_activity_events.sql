@@ -0,0 +1,305 @@
+-- Migration: Organization activity audit log
+-- Triggers write to the existing events table whenever a task changes status,
+-- assignee or due date, an extension request is decided, a member's role
+-- changes or a member is removed, a reward is redeemed, or a project moves to
+-- a new phase. Rows are only written by these triggers; clients can read but
+-- never insert, update or delete events.
+
+CREATE INDEX IF NOT EXISTS idx_events_organization_created
+ON public.events(organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_events_entity
+ON public.events(entity, entity_id, created_at DESC);
+
+-- Append a row to the audit log. The actor defaults to the current user.
+CREATE OR REPLACE FUNCTION public.log_event(
+  p_org UUID,
+  p_project UUID,
+  p_entity TEXT,
+  p_entity_id UUID,
+  p_action TEXT,
+  p_payload JSONB DEFAULT '{}'::jsonb,
+  p_actor UUID DEFAULT auth.uid()
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  INSERT INTO public.events (organization_id, project_id, entity, entity_id, action, payload, actor_id)
+  VALUES (p_org, p_project, p_entity, p_entity_id, p_action, COALESCE(p_payload, '{}'::jsonb), p_actor);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_event(UUID, UUID, TEXT, UUID, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.log_event(UUID, UUID, TEXT, UUID, TEXT, JSONB, UUID) IS
+  'Internal helper used by audit triggers to append a row to public.events';
+
+-- Task status, assignee and due date changes
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_org UUID;
+  v_project_name TEXT;
+  v_old_name TEXT;
+  v_new_name TEXT;
+BEGIN
+  SELECT p.organization_id, p.name INTO v_org, v_project_name
+  FROM public.projects p
+  WHERE p.id = NEW.project_id;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.log_event(
+      v_org, NEW.project_id, 'task', NEW.id, 'status_changed',
+      jsonb_build_object(
+        'task_title', NEW.title,
+        'task_type', NEW.task_type,
+        'project_name', v_project_name,
+        'from', OLD.status,
+        'to', NEW.status
+      )
+    );
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    SELECT full_name INTO v_old_name FROM public.users WHERE id = OLD.assignee_id;
+    SELECT full_name INTO v_new_name FROM public.users WHERE id = NEW.assignee_id;
+
+    PERFORM public.log_event(
+      v_org, NEW.project_id, 'task', NEW.id, 'reassigned',
+      jsonb_build_object(
+        'task_title', NEW.title,
+        'task_type', NEW.task_type,
+        'project_name', v_project_name,
+        'from', OLD.assignee_id,
+        'to', NEW.assignee_id,
+        'from_name', v_old_name,
+        'to_name', v_new_name
+      )
+    );
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    PERFORM public.log_event(
+      v_org, NEW.project_id, 'task', NEW.id, 'due_date_changed',
+      jsonb_build_object(
+        'task_title', NEW.title,
+        'task_type', NEW.task_type,
+        'project_name', v_project_name,
+        'from', OLD.due_date,
+        'to', NEW.due_date
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS log_task_changes_trigger ON public.tasks;
+
+CREATE TRIGGER log_task_changes_trigger
+  AFTER UPDATE OF status, assignee_id, due_date ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_task_changes();
+
+-- Extension request decisions (recorded against the task so they show up in
+-- the task history)
+CREATE OR REPLACE FUNCTION public.log_extension_request_decided()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_requester_name TEXT;
+BEGIN
+  IF NEW.status IN ('approved', 'rejected') AND OLD.status = 'pending' THEN
+    SELECT t.id, t.title, t.task_type, t.project_id, p.organization_id, p.name AS project_name
+    INTO v_task
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE t.id = NEW.task_id;
+
+    SELECT full_name INTO v_requester_name FROM public.users WHERE id = NEW.requester_id;
+
+    PERFORM public.log_event(
+      v_task.organization_id, v_task.project_id, 'task', NEW.task_id,
+      CASE WHEN NEW.status = 'approved' THEN 'extension_approved' ELSE 'extension_rejected' END,
+      jsonb_build_object(
+        'task_title', v_task.title,
+        'task_type', v_task.task_type,
+        'project_name', v_task.project_name,
+        'extension_request_id', NEW.id,
+        'requester_id', NEW.requester_id,
+        'requester_name', v_requester_name,
+        'requested_due_at', NEW.requested_due_at,
+        'decision_note', NEW.decision_note
+      ),
+      COALESCE(NEW.decided_by, auth.uid())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS log_extension_request_decided_trigger ON public.extension_requests;
+
+CREATE TRIGGER log_extension_request_decided_trigger
+  AFTER UPDATE ON public.extension_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_extension_request_decided();
+
+-- Role changes and removals (role updates are gated by can_manage_roles in
+-- RLS; removals go through remove_member or a member leaving)
+CREATE OR REPLACE FUNCTION public.log_member_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_member_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      SELECT full_name INTO v_member_name FROM public.users WHERE id = NEW.user_id;
+
+      PERFORM public.log_event(
+        NEW.organization_id, NULL, 'member', NEW.user_id, 'role_changed',
+        jsonb_build_object(
+          'member_name', v_member_name,
+          'from', OLD.role,
+          'to', NEW.role
+        )
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to record when the whole organization is being deleted
+  IF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT full_name INTO v_member_name FROM public.users WHERE id = OLD.user_id;
+
+  PERFORM public.log_event(
+    OLD.organization_id, NULL, 'member', OLD.user_id,
+    CASE WHEN OLD.user_id = auth.uid() THEN 'member_left' ELSE 'member_removed' END,
+    jsonb_build_object(
+      'member_name', v_member_name,
+      'role', OLD.role
+    )
+  );
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS log_member_role_changed_trigger ON public.organization_members;
+DROP TRIGGER IF EXISTS log_member_removed_trigger ON public.organization_members;
+
+CREATE TRIGGER log_member_role_changed_trigger
+  AFTER UPDATE OF role ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_member_changes();
+
+CREATE TRIGGER log_member_removed_trigger
+  AFTER DELETE ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_member_changes();
+
+-- Reward redemptions
+CREATE OR REPLACE FUNCTION public.log_reward_redeemed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reward RECORD;
+  v_user_name TEXT;
+BEGIN
+  SELECT id, title, organization_id INTO v_reward
+  FROM public.rewards
+  WHERE id = NEW.reward_id;
+
+  SELECT full_name INTO v_user_name FROM public.users WHERE id = NEW.user_id;
+
+  PERFORM public.log_event(
+    v_reward.organization_id, NULL, 'redemption', NEW.id, 'reward_redeemed',
+    jsonb_build_object(
+      'reward_id', NEW.reward_id,
+      'reward_title', v_reward.title,
+      'points_spent', NEW.points_spent,
+      'user_id', NEW.user_id,
+      'user_name', v_user_name
+    ),
+    COALESCE(auth.uid(), NEW.user_id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS log_reward_redeemed_trigger ON public.redemptions;
+
+CREATE TRIGGER log_reward_redeemed_trigger
+  AFTER INSERT ON public.redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_reward_redeemed();
+
+-- Project phase changes
+CREATE OR REPLACE FUNCTION public.log_project_phase_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.current_phase IS DISTINCT FROM OLD.current_phase THEN
+    PERFORM public.log_event(
+      NEW.organization_id, NEW.id, 'project', NEW.id, 'phase_changed',
+      jsonb_build_object(
+        'project_name', NEW.name,
+        'from', OLD.current_phase,
+        'to', NEW.current_phase
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS log_project_phase_changed_trigger ON public.projects;
+
+CREATE TRIGGER log_project_phase_changed_trigger
+  AFTER UPDATE OF current_phase ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_project_phase_changed();
+
+-- RLS: owners and admins read the whole organization log; other members can
+-- read task history for their organization
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "events_select_owner_admin" ON public.events;
+DROP POLICY IF EXISTS "events_select_task_history" ON public.events;
+
+CREATE POLICY "events_select_owner_admin"
+ON public.events FOR SELECT
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
+
+CREATE POLICY "events_select_task_history"
+ON public.events FOR SELECT
+TO authenticated
+USING (
+  entity = 'task'
+  AND public.is_org_member(organization_id, auth.uid())
+);
+
+COMMENT ON FUNCTION public.log_task_changes() IS
+  'Records task status, assignee and due date changes in the activity log';
+
+COMMENT ON FUNCTION public.log_extension_request_decided() IS
+  'Records extension request approvals and rejections against the task in the activity log';
+
+COMMENT ON FUNCTION public.log_member_changes() IS
+  'Records organization role changes and member removals in the activity log';
+
+COMMENT ON FUNCTION public.log_reward_redeemed() IS
+  'Records reward redemptions in the activity log';
+
+COMMENT ON FUNCTION public.log_project_phase_changed() IS
+  'Records project phase changes in the activity log';
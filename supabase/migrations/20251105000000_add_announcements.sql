@@ -0,0 +1,217 @@
+-- Migration: Organization announcements with read receipts
+-- Owners and admins post announcements to the whole organization, a single
+-- role or a single team. Pinned announcements stay at the top of every
+-- dashboard. Recipients get an "announcement" notification and their reads
+-- are recorded in announcement_reads.
+
+ALTER TABLE public.announcements
+ADD COLUMN IF NOT EXISTS target_role user_role,
+ADD COLUMN IF NOT EXISTS target_team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.announcements.target_role IS 'Only members with this role receive the announcement (NULL = every role)';
+COMMENT ON COLUMN public.announcements.target_team_id IS 'Only members of this team receive the announcement (NULL = every team)';
+COMMENT ON COLUMN public.announcements.pinned IS 'Pinned announcements are shown at the top of every dashboard';
+
+CREATE INDEX IF NOT EXISTS idx_announcements_organization_created
+ON public.announcements(organization_id, created_at DESC);
+
+-- Read receipts
+CREATE TABLE IF NOT EXISTS public.announcement_reads (
+  announcement_id UUID NOT NULL REFERENCES public.announcements(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (announcement_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_announcement_reads_user
+ON public.announcement_reads(user_id);
+
+-- Members an announcement is addressed to
+CREATE OR REPLACE FUNCTION public.announcement_recipient_ids(p_announcement UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT om.user_id
+  FROM public.announcements a
+  JOIN public.organization_members om ON om.organization_id = a.organization_id
+  WHERE a.id = p_announcement
+    AND (a.target_role IS NULL OR om.role = a.target_role)
+    AND (
+      a.target_team_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = a.target_team_id AND tm.user_id = om.user_id
+      )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.announcement_recipient_ids(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_announcement_recipient(p_announcement UUID, p_user UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT p_user IN (SELECT public.announcement_recipient_ids(p_announcement));
+$$;
+
+-- Recipients of an announcement (excluding its author) with their read time.
+-- Restricted to owners and admins.
+CREATE OR REPLACE FUNCTION public.get_announcement_recipients(p_announcement UUID)
+RETURNS TABLE(user_id UUID, full_name TEXT, role user_role, read_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+  v_author UUID;
+BEGIN
+  SELECT organization_id, created_by INTO v_org, v_author
+  FROM public.announcements
+  WHERE id = p_announcement;
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Announcement not found';
+  END IF;
+
+  IF COALESCE(public.get_org_role(v_org, auth.uid())::text, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Insufficient permission to view read receipts';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.user_id, u.full_name, om.role, ar.read_at
+  FROM public.announcement_recipient_ids(p_announcement) AS r(user_id)
+  JOIN public.organization_members om ON om.organization_id = v_org AND om.user_id = r.user_id
+  LEFT JOIN public.users u ON u.id = r.user_id
+  LEFT JOIN public.announcement_reads ar ON ar.announcement_id = p_announcement AND ar.user_id = r.user_id
+  WHERE r.user_id IS DISTINCT FROM v_author
+  ORDER BY ar.read_at DESC NULLS LAST, u.full_name;
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_announcement_recipient(UUID, UUID) IS
+  'True when the announcement targets the given user (organization, role and team filters)';
+
+COMMENT ON FUNCTION public.get_announcement_recipients(UUID) IS
+  'Lists the recipients of an announcement with their read time; restricted to owners and admins';
+
+-- Fan out notifications to every recipient except the author
+CREATE OR REPLACE FUNCTION public.notify_announcement_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_recipient UUID;
+  v_author_name TEXT;
+BEGIN
+  SELECT full_name INTO v_author_name FROM public.users WHERE id = NEW.created_by;
+
+  FOR v_recipient IN
+    SELECT public.announcement_recipient_ids(NEW.id)
+  LOOP
+    CONTINUE WHEN v_recipient = NEW.created_by;
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      v_recipient,
+      'announcement'::notification_type,
+      jsonb_build_object(
+        'announcement_id', NEW.id,
+        'announcement_title', NEW.title,
+        'organization_id', NEW.organization_id,
+        'author_id', NEW.created_by,
+        'author_name', v_author_name,
+        'excerpt', left(NEW.content, 140),
+        'message', COALESCE(v_author_name, 'Someone') || ' posted an announcement: "' || NEW.title || '"'
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_announcement_created_trigger ON public.announcements;
+
+CREATE TRIGGER notify_announcement_created_trigger
+  AFTER INSERT ON public.announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_announcement_created();
+
+COMMENT ON FUNCTION public.notify_announcement_created() IS
+  'Creates an announcement notification for every recipient of a new announcement';
+
+-- RLS policies for announcements
+ALTER TABLE public.announcements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "announcements_select_recipients" ON public.announcements;
+DROP POLICY IF EXISTS "announcements_insert_owner_admin" ON public.announcements;
+DROP POLICY IF EXISTS "announcements_update_owner_admin" ON public.announcements;
+DROP POLICY IF EXISTS "announcements_delete_owner_admin" ON public.announcements;
+
+CREATE POLICY "announcements_select_recipients"
+ON public.announcements FOR SELECT
+TO authenticated
+USING (
+  public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin')
+  OR created_by = auth.uid()
+  OR public.is_announcement_recipient(id, auth.uid())
+);
+
+CREATE POLICY "announcements_insert_owner_admin"
+ON public.announcements FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin')
+  AND (
+    target_team_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = target_team_id AND t.organization_id = announcements.organization_id
+    )
+  )
+);
+
+CREATE POLICY "announcements_update_owner_admin"
+ON public.announcements FOR UPDATE
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'))
+WITH CHECK (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
+
+CREATE POLICY "announcements_delete_owner_admin"
+ON public.announcements FOR DELETE
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
+
+-- RLS policies for read receipts
+ALTER TABLE public.announcement_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "announcement_reads_select_own_or_manager" ON public.announcement_reads;
+DROP POLICY IF EXISTS "announcement_reads_insert_own" ON public.announcement_reads;
+
+CREATE POLICY "announcement_reads_select_own_or_manager"
+ON public.announcement_reads FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.announcements a
+    WHERE a.id = announcement_reads.announcement_id
+      AND public.get_org_role(a.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
+
+CREATE POLICY "announcement_reads_insert_own"
+ON public.announcement_reads FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.is_announcement_recipient(announcement_id, auth.uid())
+);
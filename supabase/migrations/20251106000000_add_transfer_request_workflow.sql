@@ -0,0 +1,351 @@
+-- Migration: Task transfer request workflow
+-- The assignee of a task can ask for it to be handed to a colleague. Anyone
+-- who can manage both people's roles (owner > admin > supervisor > employee),
+-- other than the two of them, approves or rejects the request. Approval
+-- reassigns the task automatically.
+-- The requester, the colleague and the reviewers are notified along the way.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'transfer_requested'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'transfer_requested';
+  END IF;
+END $$;
+
+ALTER TABLE public.transfer_requests
+ADD COLUMN IF NOT EXISTS decision_note TEXT;
+
+COMMENT ON COLUMN public.transfer_requests.decision_note IS 'Optional note left by the reviewer';
+
+-- One open transfer request per task
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transfer_requests_one_pending_per_task
+ON public.transfer_requests(task_id)
+WHERE status = 'pending';
+
+-- True when the current user may approve or reject a transfer of p_task from
+-- p_from_user to p_to_user; neither of them decides on their own transfer
+CREATE OR REPLACE FUNCTION public.can_decide_transfer_request(p_task UUID, p_from_user UUID, p_to_user UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+  v_role user_role;
+  v_from_role user_role;
+  v_to_role user_role;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = p_from_user OR auth.uid() = p_to_user THEN
+    RETURN false;
+  END IF;
+
+  v_org := public.get_task_organization_id(p_task);
+  v_role := public.get_org_role(v_org, auth.uid());
+
+  IF v_role IS NULL OR v_role = 'employee' THEN
+    RETURN false;
+  END IF;
+
+  v_from_role := public.get_org_role(v_org, p_from_user);
+  v_to_role := public.get_org_role(v_org, p_to_user);
+
+  IF v_to_role IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- The requester may have left the organization in the meantime
+  RETURN (v_from_role IS NULL OR public.can_manage_roles(v_org, v_role, v_from_role))
+    AND public.can_manage_roles(v_org, v_role, v_to_role);
+END;
+$$;
+
+COMMENT ON FUNCTION public.can_decide_transfer_request(UUID, UUID, UUID) IS
+  'True when the current user may approve or reject a task transfer between the two users';
+
+-- Reviewers only decide: the task and the people involved stay as requested.
+-- Foreign keys clearing a deleted task or user run as nested statements and
+-- are let through.
+CREATE OR REPLACE FUNCTION public.pin_transfer_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND (
+    NEW.task_id IS DISTINCT FROM OLD.task_id
+    OR NEW.from_user_id IS DISTINCT FROM OLD.from_user_id
+    OR NEW.to_user_id IS DISTINCT FROM OLD.to_user_id
+    OR NEW.reason IS DISTINCT FROM OLD.reason
+  ) THEN
+    RAISE EXCEPTION 'Only the decision on a transfer request can be changed'
+      USING HINT = 'transfer_request_read_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS pin_transfer_request_trigger ON public.transfer_requests;
+
+CREATE TRIGGER pin_transfer_request_trigger
+  BEFORE UPDATE ON public.transfer_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_transfer_request();
+
+COMMENT ON FUNCTION public.pin_transfer_request() IS
+  'Rejects changes to the task, requester, proposed assignee and reason of a transfer request';
+
+-- Reassign the task when a request is approved
+CREATE OR REPLACE FUNCTION public.apply_transfer_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status = 'pending' THEN
+    UPDATE public.tasks
+    SET assignee_id = NEW.to_user_id,
+        updated_at = now()
+    WHERE id = NEW.task_id
+      AND assignee_id IS NOT DISTINCT FROM NEW.from_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Task is no longer assigned to the requester'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS apply_transfer_request_trigger ON public.transfer_requests;
+
+CREATE TRIGGER apply_transfer_request_trigger
+  AFTER UPDATE ON public.transfer_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_transfer_request();
+
+-- Notify the colleague and the reviewers when a request is created
+CREATE OR REPLACE FUNCTION public.notify_transfer_request_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_org UUID;
+  v_task RECORD;
+  v_from_name TEXT;
+  v_to_name TEXT;
+  v_reviewer UUID;
+BEGIN
+  SELECT t.title, t.task_type, t.project_id, p.name AS project_name, p.organization_id
+  INTO v_task
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  WHERE t.id = NEW.task_id;
+
+  v_org := v_task.organization_id;
+
+  SELECT full_name INTO v_from_name FROM public.users WHERE id = NEW.from_user_id;
+  SELECT full_name INTO v_to_name FROM public.users WHERE id = NEW.to_user_id;
+
+  -- The colleague who would receive the task
+  INSERT INTO public.notifications (user_id, type, payload)
+  VALUES (
+    NEW.to_user_id,
+    'transfer_requested'::notification_type,
+    jsonb_build_object(
+      'transfer_request_id', NEW.id,
+      'task_id', NEW.task_id,
+      'task_title', v_task.title,
+      'task_type', v_task.task_type,
+      'project_id', v_task.project_id,
+      'project_name', v_task.project_name,
+      'requester_id', NEW.from_user_id,
+      'requester_name', v_from_name,
+      'to_user_name', v_to_name,
+      'reason', NEW.reason,
+      'message', v_from_name || ' asked to transfer "' || v_task.title || '" to you (pending approval)'
+    )
+  );
+
+  -- Everyone who can review the request
+  FOR v_reviewer IN
+    SELECT om.user_id
+    FROM public.organization_members om
+    WHERE om.organization_id = v_org
+      AND om.role IN ('owner', 'admin', 'supervisor')
+      AND om.user_id NOT IN (NEW.from_user_id, NEW.to_user_id)
+      AND public.can_manage_roles(v_org, om.role, public.get_org_role(v_org, NEW.from_user_id))
+      AND public.can_manage_roles(v_org, om.role, public.get_org_role(v_org, NEW.to_user_id))
+  LOOP
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      v_reviewer,
+      'transfer_requested'::notification_type,
+      jsonb_build_object(
+        'transfer_request_id', NEW.id,
+        'task_id', NEW.task_id,
+        'task_title', v_task.title,
+        'task_type', v_task.task_type,
+        'project_id', v_task.project_id,
+        'project_name', v_task.project_name,
+        'requester_id', NEW.from_user_id,
+        'requester_name', v_from_name,
+        'to_user_name', v_to_name,
+        'reason', NEW.reason,
+        'message', v_from_name || ' requested to transfer "' || v_task.title || '" to ' || COALESCE(v_to_name, 'a colleague')
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+-- Notify the requester and the colleague when a request is decided
+CREATE OR REPLACE FUNCTION public.notify_transfer_request_decided()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_from_name TEXT;
+  v_to_name TEXT;
+  v_decider_name TEXT;
+  v_type notification_type;
+BEGIN
+  IF NEW.status IN ('approved', 'rejected') AND OLD.status = 'pending' THEN
+    SELECT t.title, t.task_type, t.project_id, p.name AS project_name
+    INTO v_task
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE t.id = NEW.task_id;
+
+    SELECT full_name INTO v_from_name FROM public.users WHERE id = NEW.from_user_id;
+    SELECT full_name INTO v_to_name FROM public.users WHERE id = NEW.to_user_id;
+    SELECT full_name INTO v_decider_name FROM public.users WHERE id = NEW.decided_by;
+
+    v_type := CASE
+      WHEN NEW.status = 'approved' THEN 'transfer_approved'::notification_type
+      ELSE 'transfer_rejected'::notification_type
+    END;
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      NEW.from_user_id,
+      v_type,
+      jsonb_build_object(
+        'transfer_request_id', NEW.id,
+        'task_id', NEW.task_id,
+        'task_title', v_task.title,
+        'task_type', v_task.task_type,
+        'project_id', v_task.project_id,
+        'project_name', v_task.project_name,
+        'decided_by', NEW.decided_by,
+        'decider_name', v_decider_name,
+        'decision_note', NEW.decision_note,
+        'status', NEW.status,
+        'message',
+          CASE
+            WHEN NEW.status = 'approved'
+            THEN 'Your transfer request for "' || v_task.title || '" was approved. It is now assigned to ' || COALESCE(v_to_name, 'your colleague')
+            ELSE 'Your transfer request for "' || v_task.title || '" has been rejected'
+          END
+      )
+    );
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      NEW.to_user_id,
+      v_type,
+      jsonb_build_object(
+        'transfer_request_id', NEW.id,
+        'task_id', NEW.task_id,
+        'task_title', v_task.title,
+        'task_type', v_task.task_type,
+        'project_id', v_task.project_id,
+        'project_name', v_task.project_name,
+        'decided_by', NEW.decided_by,
+        'decider_name', v_decider_name,
+        'decision_note', NEW.decision_note,
+        'status', NEW.status,
+        'message',
+          CASE
+            WHEN NEW.status = 'approved'
+            THEN '"' || v_task.title || '" has been transferred to you from ' || COALESCE(v_from_name, 'a colleague')
+            ELSE 'The transfer of "' || v_task.title || '" to you was rejected'
+          END
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS transfer_request_created_trigger ON public.transfer_requests;
+DROP TRIGGER IF EXISTS transfer_request_decided_trigger ON public.transfer_requests;
+
+CREATE TRIGGER transfer_request_created_trigger
+  AFTER INSERT ON public.transfer_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_transfer_request_created();
+
+CREATE TRIGGER transfer_request_decided_trigger
+  AFTER UPDATE ON public.transfer_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_transfer_request_decided();
+
+COMMENT ON FUNCTION public.notify_transfer_request_created() IS
+  'Notifies the proposed assignee and every eligible reviewer when a task transfer is requested';
+
+COMMENT ON FUNCTION public.notify_transfer_request_decided() IS
+  'Notifies the requester and the proposed assignee when a task transfer is approved or rejected';
+
+-- RLS policies
+ALTER TABLE public.transfer_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "transfer_requests_select_involved" ON public.transfer_requests;
+DROP POLICY IF EXISTS "transfer_requests_insert_assignee" ON public.transfer_requests;
+DROP POLICY IF EXISTS "transfer_requests_update_reviewer" ON public.transfer_requests;
+DROP POLICY IF EXISTS "transfer_requests_delete_pending_own" ON public.transfer_requests;
+
+CREATE POLICY "transfer_requests_select_involved"
+ON public.transfer_requests FOR SELECT
+TO authenticated
+USING (
+  from_user_id = auth.uid()
+  OR to_user_id = auth.uid()
+  OR public.can_decide_transfer_request(task_id, from_user_id, to_user_id)
+);
+
+-- Only the current assignee can ask, and only for a colleague in the same organization
+CREATE POLICY "transfer_requests_insert_assignee"
+ON public.transfer_requests FOR INSERT
+TO authenticated
+WITH CHECK (
+  from_user_id = auth.uid()
+  AND status = 'pending'
+  AND to_user_id IS NOT NULL
+  AND to_user_id <> auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = task_id AND t.assignee_id = auth.uid()
+  )
+  AND public.is_org_member(public.get_task_organization_id(task_id), to_user_id)
+);
+
+CREATE POLICY "transfer_requests_update_reviewer"
+ON public.transfer_requests FOR UPDATE
+TO authenticated
+USING (
+  status = 'pending'
+  AND public.can_decide_transfer_request(task_id, from_user_id, to_user_id)
+)
+WITH CHECK (
+  decided_by = auth.uid()
+  AND public.can_decide_transfer_request(task_id, from_user_id, to_user_id)
+);
+
+-- Requesters can withdraw a request until it is reviewed
+CREATE POLICY "transfer_requests_delete_pending_own"
+ON public.transfer_requests FOR DELETE
+TO authenticated
+USING (from_user_id = auth.uid() AND status = 'pending');
@@ -0,0 +1,322 @@
+-- Migration: First-class project phases
+-- Projects get an ordered, editable list of phases (the phases table) and
+-- point at the active one through current_phase_id. Tasks are grouped by
+-- tasks.phase_id. The legacy current_phase text column is derived from
+-- current_phase_id so list pages and the phase_changed activity trigger keep
+-- working; it can no longer be written directly.
+-- Advancing a project is gated: every task in the phases being left behind
+-- must be done first, and phases with open tasks can't be reordered ahead of
+-- the current phase either.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS current_phase_id UUID REFERENCES public.phases(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.projects.current_phase_id IS 'Active phase of the project; current_phase mirrors its name';
+
+CREATE INDEX IF NOT EXISTS idx_phases_project_sort_order
+ON public.phases(project_id, sort_order);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_phase_id
+ON public.tasks(phase_id);
+
+-- Deleting a phase moves its tasks back to "No phase" instead of failing
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_phase_id_fkey;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_phase_id_fkey
+FOREIGN KEY (phase_id) REFERENCES public.phases(id) ON DELETE SET NULL;
+
+DROP TRIGGER IF EXISTS update_phases_updated_at ON public.phases;
+
+CREATE TRIGGER update_phases_updated_at
+  BEFORE UPDATE ON public.phases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Convert existing current_phase strings into phases rows. Projects that use
+-- one of the former built-in phases get the whole built-in list so the
+-- position of the project is preserved; custom strings become a single phase.
+DO $$
+DECLARE
+  v_defaults TEXT[] := ARRAY[
+    'Planning Phase',
+    'Analysis Phase',
+    'Design Phase',
+    'Development Phase',
+    'Testing Phase',
+    'Deployment Phase',
+    'Maintenance Phase'
+  ];
+  v_project RECORD;
+  v_index INTEGER;
+BEGIN
+  FOR v_project IN
+    SELECT p.id, btrim(p.current_phase) AS current_phase
+    FROM public.projects p
+    WHERE p.current_phase_id IS NULL
+      AND NULLIF(btrim(p.current_phase), '') IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.phases ph WHERE ph.project_id = p.id)
+  LOOP
+    IF v_project.current_phase = ANY(v_defaults) THEN
+      FOR v_index IN 1 .. array_length(v_defaults, 1) LOOP
+        INSERT INTO public.phases (project_id, name, sort_order)
+        VALUES (v_project.id, v_defaults[v_index], v_index - 1);
+      END LOOP;
+    ELSE
+      INSERT INTO public.phases (project_id, name, sort_order)
+      VALUES (v_project.id, v_project.current_phase, 0);
+    END IF;
+
+    UPDATE public.projects p
+    SET current_phase_id = ph.id
+    FROM public.phases ph
+    WHERE p.id = v_project.id
+      AND ph.project_id = v_project.id
+      AND ph.name = v_project.current_phase;
+  END LOOP;
+END;
+$$;
+
+-- Projects that already had phases point at the one named like their
+-- current_phase
+UPDATE public.projects p
+SET current_phase_id = ph.id
+FROM public.phases ph
+WHERE p.current_phase_id IS NULL
+  AND ph.project_id = p.id
+  AND ph.name = btrim(p.current_phase);
+
+-- Derive current_phase from current_phase_id on every write and block
+-- advancing past open tasks
+CREATE OR REPLACE FUNCTION public.apply_project_phase_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_target RECORD;
+  v_from_order INTEGER;
+  v_open_tasks INTEGER;
+BEGIN
+  IF NEW.current_phase IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.current_phase END) THEN
+    RAISE EXCEPTION 'The current phase is changed through current_phase_id'
+      USING HINT = 'current_phase_read_only';
+  END IF;
+
+  IF NEW.current_phase_id IS NULL THEN
+    NEW.current_phase := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT id, name, sort_order INTO v_target
+  FROM public.phases
+  WHERE id = NEW.current_phase_id AND project_id = NEW.id;
+
+  IF v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Phase does not belong to this project';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT sort_order INTO v_from_order
+    FROM public.phases
+    WHERE id = OLD.current_phase_id;
+  END IF;
+
+  -- Moving forward: every task in an earlier phase must be done
+  IF NEW.current_phase_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.current_phase_id END)
+    AND v_target.sort_order > COALESCE(v_from_order, -1) THEN
+    SELECT COUNT(*) INTO v_open_tasks
+    FROM public.tasks t
+    JOIN public.phases ph ON ph.id = t.phase_id
+    WHERE ph.project_id = NEW.id
+      AND ph.sort_order < v_target.sort_order
+      AND t.status <> 'done';
+
+    IF v_open_tasks > 0 THEN
+      RAISE EXCEPTION 'Cannot move to "%": % task(s) in earlier phases are still open', v_target.name, v_open_tasks
+        USING HINT = 'phase_has_open_tasks';
+    END IF;
+  END IF;
+
+  NEW.current_phase := v_target.name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS apply_project_phase_change_trigger ON public.projects;
+
+CREATE TRIGGER apply_project_phase_change_trigger
+  BEFORE INSERT OR UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_project_phase_change();
+
+COMMENT ON FUNCTION public.apply_project_phase_change() IS
+  'Derives projects.current_phase from the current phase, rejects direct writes to it and blocks advancing while earlier phases have open tasks';
+
+-- current_phase is now written by the trigger above rather than listed in the
+-- UPDATE, so the activity trigger has to watch current_phase_id as well
+DROP TRIGGER IF EXISTS log_project_phase_changed_trigger ON public.projects;
+
+CREATE TRIGGER log_project_phase_changed_trigger
+  AFTER UPDATE OF current_phase, current_phase_id ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_project_phase_changed();
+
+-- Renaming the active phase renames the project's current_phase as well:
+-- touching current_phase_id makes apply_project_phase_change() derive it again
+CREATE OR REPLACE FUNCTION public.sync_renamed_project_phase()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.projects
+    SET current_phase_id = current_phase_id
+    WHERE current_phase_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS sync_renamed_project_phase_trigger ON public.phases;
+
+CREATE TRIGGER sync_renamed_project_phase_trigger
+  AFTER UPDATE OF name ON public.phases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_renamed_project_phase();
+
+COMMENT ON FUNCTION public.sync_renamed_project_phase() IS
+  'Keeps projects.current_phase in sync when the active phase is renamed';
+
+-- Reordering must not put a phase with open tasks ahead of the current phase,
+-- which advancing past it would not have allowed. Checked once per statement
+-- so phases swapped in one UPDATE are judged by their final order.
+CREATE OR REPLACE FUNCTION public.check_project_phase_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_phase RECORD;
+BEGIN
+  SELECT ph.name, COUNT(t.id) AS open_tasks INTO v_phase
+  FROM (SELECT DISTINCT project_id FROM new_phases) moved
+  JOIN public.projects p ON p.id = moved.project_id
+  JOIN public.phases cur ON cur.id = p.current_phase_id
+  LEFT JOIN old_phases cur_old ON cur_old.id = cur.id
+  JOIN public.phases ph ON ph.project_id = p.id
+  LEFT JOIN old_phases ph_old ON ph_old.id = ph.id
+  JOIN public.tasks t ON t.phase_id = ph.id AND t.status <> 'done'
+  WHERE ph.sort_order < cur.sort_order
+    AND COALESCE(ph_old.sort_order, ph.sort_order) >= COALESCE(cur_old.sort_order, cur.sort_order)
+  GROUP BY ph.id, ph.name
+  LIMIT 1;
+
+  IF v_phase.name IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot move "%" before the current phase: % of its task(s) are still open', v_phase.name, v_phase.open_tasks
+      USING HINT = 'phase_has_open_tasks';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS check_project_phase_order_trigger ON public.phases;
+
+CREATE TRIGGER check_project_phase_order_trigger
+  AFTER UPDATE ON public.phases
+  REFERENCING OLD TABLE AS old_phases NEW TABLE AS new_phases
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_project_phase_order();
+
+COMMENT ON FUNCTION public.check_project_phase_order() IS
+  'Blocks reordering phases with open tasks ahead of the project''s current phase';
+
+-- Swaps the positions of two phases of a project in a single statement
+CREATE OR REPLACE FUNCTION public.swap_project_phases(p_phase UUID, p_other UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+BEGIN
+  SELECT p.organization_id INTO v_org
+  FROM public.phases a
+  JOIN public.phases b ON b.project_id = a.project_id
+  JOIN public.projects p ON p.id = a.project_id
+  WHERE a.id = p_phase AND b.id = p_other;
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Phases not found in the same project';
+  END IF;
+
+  IF COALESCE(public.get_org_role(v_org, auth.uid())::text, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can reorder phases';
+  END IF;
+
+  UPDATE public.phases ph
+  SET sort_order = other.sort_order
+  FROM public.phases other
+  WHERE (ph.id = p_phase AND other.id = p_other)
+     OR (ph.id = p_other AND other.id = p_phase);
+END;
+$$;
+
+COMMENT ON FUNCTION public.swap_project_phases(UUID, UUID) IS
+  'Swaps the positions of two phases of the same project';
+
+-- RLS policies for phases: members read, owners and admins manage
+ALTER TABLE public.phases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "phases_insert_owner_only" ON public.phases;
+DROP POLICY IF EXISTS "phases_update_owner_only" ON public.phases;
+DROP POLICY IF EXISTS "phases_select_org_members" ON public.phases;
+DROP POLICY IF EXISTS "phases_insert_owner_admin" ON public.phases;
+DROP POLICY IF EXISTS "phases_update_owner_admin" ON public.phases;
+DROP POLICY IF EXISTS "phases_delete_owner_admin" ON public.phases;
+
+CREATE POLICY "phases_select_org_members"
+ON public.phases FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = phases.project_id
+      AND public.is_org_member(p.organization_id, auth.uid())
+  )
+);
+
+CREATE POLICY "phases_insert_owner_admin"
+ON public.phases FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = phases.project_id
+      AND public.get_org_role(p.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
+
+CREATE POLICY "phases_update_owner_admin"
+ON public.phases FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = phases.project_id
+      AND public.get_org_role(p.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = phases.project_id
+      AND public.get_org_role(p.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
+
+CREATE POLICY "phases_delete_owner_admin"
+ON public.phases FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = phases.project_id
+      AND public.get_org_role(p.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
@@ -0,0 +1,269 @@
+-- Migration: Task collaborators
+-- Tasks keep a single assignee but can be shared with collaborators
+-- (task_collaborators). Collaborators see the task, change its status and
+-- log time on it. When the task is completed its completion_points are either
+-- duplicated (everyone earns the full amount) or split between the assignee
+-- and collaborators, depending on organizations.collaborator_points_mode.
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS collaborator_points_mode TEXT NOT NULL DEFAULT 'duplicate'
+  CHECK (collaborator_points_mode IN ('duplicate', 'split'));
+
+COMMENT ON COLUMN public.organizations.collaborator_points_mode IS
+  'How completion points are shared on tasks with collaborators: duplicate (full points each) or split (divided evenly)';
+
+ALTER TABLE public.task_collaborators
+ADD COLUMN IF NOT EXISTS added_by UUID REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_collaborators_task_user
+ON public.task_collaborators(task_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_collaborators_user
+ON public.task_collaborators(user_id);
+
+CREATE OR REPLACE FUNCTION public.is_task_collaborator(p_task UUID, p_user UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.task_collaborators
+    WHERE task_id = p_task AND user_id = p_user
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_task_collaborator(UUID, UUID) IS
+  'True when the user collaborates on the given task';
+
+-- Notify a member when they are added as a collaborator
+CREATE OR REPLACE FUNCTION public.notify_task_collaborator_added()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_adder_name TEXT;
+BEGIN
+  SELECT id, title, task_type, priority, due_date, assignee_id INTO v_task
+  FROM public.tasks
+  WHERE id = NEW.task_id;
+
+  -- The assignee already received a task_assigned notification
+  IF v_task.id IS NULL OR NEW.user_id IS NOT DISTINCT FROM v_task.assignee_id OR NEW.user_id = NEW.added_by THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_adder_name FROM public.users WHERE id = NEW.added_by;
+
+  INSERT INTO public.notifications (user_id, type, payload)
+  VALUES (
+    NEW.user_id,
+    'task_assigned'::notification_type,
+    jsonb_build_object(
+      'task_id', v_task.id,
+      'task_title', v_task.title,
+      'task_type', COALESCE(v_task.task_type, 'task'),
+      'priority', v_task.priority,
+      'due_date', v_task.due_date,
+      'assigned_by', NEW.added_by,
+      'assigner_name', COALESCE(v_adder_name, 'System'),
+      'collaborator', true,
+      'message', COALESCE(v_adder_name, 'Someone') || ' added you as a collaborator on "' || v_task.title || '"'
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_task_collaborator_added_trigger ON public.task_collaborators;
+
+CREATE TRIGGER notify_task_collaborator_added_trigger
+  AFTER INSERT ON public.task_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_collaborator_added();
+
+COMMENT ON FUNCTION public.notify_task_collaborator_added() IS
+  'Creates a task_assigned notification when a member is added as a collaborator';
+
+-- Award completion points to the assignee and every collaborator of a done
+-- task. Runs once per task; returns the points earned by the caller.
+CREATE OR REPLACE FUNCTION public.award_task_completion_points(p_task UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_task RECORD;
+  v_mode TEXT;
+  v_reason TEXT;
+  v_recipients UUID[];
+  v_count INTEGER;
+  v_share INTEGER;
+  v_remainder INTEGER;
+  v_delta INTEGER;
+  v_caller_points INTEGER := 0;
+  v_index INTEGER;
+BEGIN
+  SELECT t.id, t.status, t.assignee_id, t.project_id, t.task_type,
+         COALESCE(t.completion_points, 0) AS points, p.organization_id
+  INTO v_task
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  WHERE t.id = p_task
+  FOR UPDATE OF t;
+
+  IF v_task.id IS NULL THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_task.assignee_id AND NOT public.is_task_collaborator(p_task, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the assignee or a collaborator can claim completion points';
+  END IF;
+
+  IF v_task.status <> 'done' THEN
+    RAISE EXCEPTION 'Task is not completed';
+  END IF;
+
+  IF v_task.points <= 0 OR EXISTS (
+    SELECT 1 FROM public.points_ledger
+    WHERE task_id = p_task
+      AND reason_code IN ('task_completion', 'assignment_completion')
+      AND delta > 0
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  v_reason := CASE WHEN v_task.task_type = 'assignment' THEN 'assignment_completion' ELSE 'task_completion' END;
+
+  -- Assignee first, then collaborators in the order they were added
+  SELECT array_agg(user_id ORDER BY position, created_at) INTO v_recipients
+  FROM (
+    SELECT v_task.assignee_id AS user_id, 0 AS position, NULL::timestamptz AS created_at
+    WHERE v_task.assignee_id IS NOT NULL
+    UNION ALL
+    SELECT tc.user_id, 1, tc.created_at
+    FROM public.task_collaborators tc
+    WHERE tc.task_id = p_task
+      AND tc.user_id IS DISTINCT FROM v_task.assignee_id
+  ) recipients;
+
+  v_count := COALESCE(array_length(v_recipients, 1), 0);
+  IF v_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT collaborator_points_mode INTO v_mode
+  FROM public.organizations
+  WHERE id = v_task.organization_id;
+
+  IF v_mode = 'split' THEN
+    v_share := v_task.points / v_count;
+    v_remainder := v_task.points % v_count;
+  ELSE
+    v_share := v_task.points;
+    v_remainder := 0;
+  END IF;
+
+  FOR v_index IN 1 .. v_count LOOP
+    -- Leftover points of an uneven split go to the first recipients
+    v_delta := v_share + CASE WHEN v_index <= v_remainder THEN 1 ELSE 0 END;
+    CONTINUE WHEN v_delta <= 0;
+
+    INSERT INTO public.points_ledger (user_id, delta, reason_code, task_id, project_id)
+    VALUES (v_recipients[v_index], v_delta, v_reason, p_task, v_task.project_id);
+
+    IF v_recipients[v_index] = auth.uid() THEN
+      v_caller_points := v_delta;
+    END IF;
+  END LOOP;
+
+  RETURN v_caller_points;
+END;
+$$;
+
+COMMENT ON FUNCTION public.award_task_completion_points(UUID) IS
+  'Awards completion points of a done task to its assignee and collaborators (duplicated or split per organization setting); returns the points earned by the caller';
+
+-- RLS policies for task_collaborators
+ALTER TABLE public.task_collaborators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "task_collaborators_select_org_members" ON public.task_collaborators;
+DROP POLICY IF EXISTS "task_collaborators_insert_managers" ON public.task_collaborators;
+DROP POLICY IF EXISTS "task_collaborators_delete_managers" ON public.task_collaborators;
+
+CREATE POLICY "task_collaborators_select_org_members"
+ON public.task_collaborators FOR SELECT
+TO authenticated
+USING (public.is_org_member(public.get_task_organization_id(task_id), auth.uid()));
+
+CREATE POLICY "task_collaborators_insert_managers"
+ON public.task_collaborators FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.get_org_role(public.get_task_organization_id(task_id), auth.uid()) IN ('owner', 'admin', 'supervisor')
+  AND public.is_org_member(public.get_task_organization_id(task_id), user_id)
+);
+
+CREATE POLICY "task_collaborators_delete_managers"
+ON public.task_collaborators FOR DELETE
+TO authenticated
+USING (public.get_org_role(public.get_task_organization_id(task_id), auth.uid()) IN ('owner', 'admin', 'supervisor'));
+
+-- Collaborators work on the task like its assignee
+DROP POLICY IF EXISTS "tasks_select_collaborators" ON public.tasks;
+DROP POLICY IF EXISTS "tasks_update_collaborators" ON public.tasks;
+DROP POLICY IF EXISTS "time_logs_insert_collaborators" ON public.time_logs;
+
+CREATE POLICY "tasks_select_collaborators"
+ON public.tasks FOR SELECT
+TO authenticated
+USING (public.is_task_collaborator(id, auth.uid()));
+
+CREATE POLICY "tasks_update_collaborators"
+ON public.tasks FOR UPDATE
+TO authenticated
+USING (public.is_task_collaborator(id, auth.uid()))
+WITH CHECK (public.is_task_collaborator(id, auth.uid()));
+
+-- Collaborators may only move the task through its statuses; everything else
+-- stays with the assignee and the managers
+CREATE OR REPLACE FUNCTION public.restrict_collaborator_task_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR auth.uid() IS NOT DISTINCT FROM OLD.assignee_id
+    OR NOT public.is_task_collaborator(OLD.id, auth.uid())
+    OR public.get_org_role(public.get_task_organization_id(OLD.id), auth.uid()) IN ('owner', 'admin', 'supervisor')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - 'status' - 'updated_at' IS DISTINCT FROM to_jsonb(OLD) - 'status' - 'updated_at' THEN
+    RAISE EXCEPTION 'Collaborators can only change the status of a task'
+      USING HINT = 'collaborator_status_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.restrict_collaborator_task_update() IS
+  'Rejects changes other than the status when a task is updated by one of its collaborators';
+
+DROP TRIGGER IF EXISTS restrict_collaborator_task_update_trigger ON public.tasks;
+
+CREATE TRIGGER restrict_collaborator_task_update_trigger
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_collaborator_task_update();
+
+CREATE POLICY "time_logs_insert_collaborators"
+ON public.time_logs FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.is_task_collaborator(task_id, auth.uid())
+);
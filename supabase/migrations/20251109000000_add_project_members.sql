@@ -0,0 +1,343 @@
+-- Migration: Project membership
+-- Owners and admins add people (or every member of a team) to a project with
+-- a project role. Owners and admins keep seeing every project of their
+-- organization; supervisors and employees only see the projects they are
+-- members of, along with their tasks. Tasks can only be assigned to project
+-- members; collaborators join the project when they are added, and members
+-- removed from a project are unassigned from its tasks. Existing
+-- assignees are backfilled so nobody loses access to the projects they
+-- already work on.
+
+ALTER TABLE public.project_members
+ADD COLUMN IF NOT EXISTS added_by UUID REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_members_project_user
+ON public.project_members(project_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_project_members_user
+ON public.project_members(user_id);
+
+CREATE OR REPLACE FUNCTION public.is_project_member(p_project UUID, p_user UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_id = p_project AND user_id = p_user
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_project_member(UUID, UUID) IS
+  'True when the user is a member of the given project';
+
+CREATE OR REPLACE FUNCTION public.get_project_organization_id(p_project UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT organization_id FROM public.projects WHERE id = p_project;
+$$;
+
+COMMENT ON FUNCTION public.get_project_organization_id(UUID) IS
+  'Returns the organization a project belongs to';
+
+-- Add every member of a team to a project; members already on the project
+-- keep their current role. Returns the number of members added.
+CREATE OR REPLACE FUNCTION public.add_team_to_project(
+  p_project UUID,
+  p_team UUID,
+  p_role user_role DEFAULT 'employee'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+  v_added INTEGER;
+BEGIN
+  v_org := public.get_project_organization_id(p_project);
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF COALESCE(public.get_org_role(v_org, auth.uid())::text, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can manage project members';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.teams WHERE id = p_team AND organization_id = v_org) THEN
+    RAISE EXCEPTION 'Team not found in this organization';
+  END IF;
+
+  INSERT INTO public.project_members (project_id, user_id, role, added_by)
+  SELECT p_project, tm.user_id, p_role, auth.uid()
+  FROM public.team_members tm
+  WHERE tm.team_id = p_team
+    AND public.is_org_member(v_org, tm.user_id)
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+  RETURN v_added;
+END;
+$$;
+
+COMMENT ON FUNCTION public.add_team_to_project(UUID, UUID, user_role) IS
+  'Adds every organization member of a team to a project with the given project role; returns the number of members added';
+
+-- True when the user may see a project and its tasks: owners and admins see
+-- every project of their organization, everyone else only their own
+CREATE OR REPLACE FUNCTION public.can_view_project(p_project UUID, p_user UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(public.get_org_role(public.get_project_organization_id(p_project), p_user)::text, '') IN ('owner', 'admin')
+    OR public.is_project_member(p_project, p_user);
+$$;
+
+COMMENT ON FUNCTION public.can_view_project(UUID, UUID) IS
+  'True when the user is an owner or admin of the project''s organization or a member of the project';
+
+-- Tasks can only be assigned to members of their project; add people to the
+-- project first
+CREATE OR REPLACE FUNCTION public.enforce_task_assignee_project_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignee_id IS NOT NULL AND NOT public.is_project_member(NEW.project_id, NEW.assignee_id) THEN
+    RAISE EXCEPTION 'Assignee must be a member of the project'
+      USING HINT = 'assignee_not_project_member';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.enforce_task_assignee_project_member() IS
+  'Rejects task assignees who are not members of the task''s project';
+
+-- Collaborators need to see the project of the task they help with, so they
+-- join it with their organization role when they are added
+CREATE OR REPLACE FUNCTION public.add_task_collaborator_to_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.project_members (project_id, user_id, role, added_by)
+  SELECT t.project_id, NEW.user_id, om.role, auth.uid()
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  JOIN public.organization_members om ON om.organization_id = p.organization_id AND om.user_id = NEW.user_id
+  WHERE t.id = NEW.task_id
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.add_task_collaborator_to_project() IS
+  'Adds the collaborator of a task to the task''s project';
+
+-- Tasks can only stay assigned to project members, so removing a member
+-- unassigns their tasks in the project
+CREATE OR REPLACE FUNCTION public.unassign_removed_project_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks
+  SET assignee_id = NULL
+  WHERE project_id = OLD.project_id
+    AND assignee_id = OLD.user_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.unassign_removed_project_member() IS
+  'Unassigns the tasks of a member removed from a project';
+
+DROP TRIGGER IF EXISTS add_task_assignee_to_project_trigger ON public.tasks;
+DROP TRIGGER IF EXISTS add_task_collaborator_to_project_trigger ON public.task_collaborators;
+DROP TRIGGER IF EXISTS enforce_task_assignee_project_member_trigger ON public.tasks;
+DROP TRIGGER IF EXISTS unassign_removed_project_member_trigger ON public.project_members;
+DROP FUNCTION IF EXISTS public.add_task_worker_to_project();
+
+CREATE TRIGGER enforce_task_assignee_project_member_trigger
+  BEFORE INSERT OR UPDATE OF assignee_id, project_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_task_assignee_project_member();
+
+CREATE TRIGGER add_task_collaborator_to_project_trigger
+  AFTER INSERT ON public.task_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_task_collaborator_to_project();
+
+CREATE TRIGGER unassign_removed_project_member_trigger
+  AFTER DELETE ON public.project_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unassign_removed_project_member();
+
+-- Backfill: assignees and collaborators of existing tasks join the project
+-- with their organization role
+INSERT INTO public.project_members (project_id, user_id, role, added_by)
+SELECT DISTINCT ON (w.project_id, w.user_id) w.project_id, w.user_id, om.role, NULL::uuid
+FROM (
+  SELECT t.project_id, t.assignee_id AS user_id
+  FROM public.tasks t
+  WHERE t.assignee_id IS NOT NULL
+  UNION
+  SELECT t.project_id, tc.user_id
+  FROM public.task_collaborators tc
+  JOIN public.tasks t ON t.id = tc.task_id
+) w
+JOIN public.projects p ON p.id = w.project_id
+JOIN public.organization_members om ON om.organization_id = p.organization_id AND om.user_id = w.user_id
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+-- RLS policies for project_members
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "project_members_select_org_members" ON public.project_members;
+DROP POLICY IF EXISTS "project_members_insert_owner_admin" ON public.project_members;
+DROP POLICY IF EXISTS "project_members_update_owner_admin" ON public.project_members;
+DROP POLICY IF EXISTS "project_members_delete_owner_admin" ON public.project_members;
+
+CREATE POLICY "project_members_select_org_members"
+ON public.project_members FOR SELECT
+TO authenticated
+USING (public.is_org_member(public.get_project_organization_id(project_id), auth.uid()));
+
+CREATE POLICY "project_members_insert_owner_admin"
+ON public.project_members FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.get_org_role(public.get_project_organization_id(project_id), auth.uid()) IN ('owner', 'admin')
+  AND public.is_org_member(public.get_project_organization_id(project_id), user_id)
+);
+
+CREATE POLICY "project_members_update_owner_admin"
+ON public.project_members FOR UPDATE
+TO authenticated
+USING (public.get_org_role(public.get_project_organization_id(project_id), auth.uid()) IN ('owner', 'admin'))
+WITH CHECK (public.get_org_role(public.get_project_organization_id(project_id), auth.uid()) IN ('owner', 'admin'));
+
+CREATE POLICY "project_members_delete_owner_admin"
+ON public.project_members FOR DELETE
+TO authenticated
+USING (public.get_org_role(public.get_project_organization_id(project_id), auth.uid()) IN ('owner', 'admin'));
+
+-- Supervisors and employees only see projects they belong to, and the tasks,
+-- phases, comments, attachments, activity, time logs, collaborators and
+-- transfer requests in them. Restrictive so they narrow whatever
+-- organization-wide select policies are already in place.
+DROP POLICY IF EXISTS "projects_select_restrict_members" ON public.projects;
+DROP POLICY IF EXISTS "tasks_select_restrict_members" ON public.tasks;
+DROP POLICY IF EXISTS "phases_select_restrict_members" ON public.phases;
+DROP POLICY IF EXISTS "comments_select_restrict_members" ON public.comments;
+DROP POLICY IF EXISTS "attachments_select_restrict_members" ON public.attachments;
+DROP POLICY IF EXISTS "events_select_restrict_members" ON public.events;
+DROP POLICY IF EXISTS "time_logs_select_restrict_members" ON public.time_logs;
+DROP POLICY IF EXISTS "task_collaborators_select_restrict_members" ON public.task_collaborators;
+DROP POLICY IF EXISTS "transfer_requests_select_restrict_members" ON public.transfer_requests;
+
+CREATE POLICY "projects_select_restrict_members"
+ON public.projects AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (public.can_view_project(id, auth.uid()));
+
+CREATE POLICY "tasks_select_restrict_members"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (public.can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "phases_select_restrict_members"
+ON public.phases AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (public.can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "comments_select_restrict_members"
+ON public.comments AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = comments.task_id
+      AND public.can_view_project(t.project_id, auth.uid())
+  )
+);
+
+CREATE POLICY "attachments_select_restrict_members"
+ON public.attachments AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = attachments.task_id
+      AND public.can_view_project(t.project_id, auth.uid())
+  )
+);
+
+CREATE POLICY "events_select_restrict_members"
+ON public.events AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (project_id IS NULL OR public.can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "time_logs_select_restrict_members"
+ON public.time_logs AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = time_logs.task_id
+      AND public.can_view_project(t.project_id, auth.uid())
+  )
+);
+
+CREATE POLICY "task_collaborators_select_restrict_members"
+ON public.task_collaborators AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = task_collaborators.task_id
+      AND public.can_view_project(t.project_id, auth.uid())
+  )
+);
+
+CREATE POLICY "transfer_requests_select_restrict_members"
+ON public.transfer_requests AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  task_id IS NULL
+  OR EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = transfer_requests.task_id
+      AND public.can_view_project(t.project_id, auth.uid())
+  )
+);
+
+-- Transfers hand the task to its new assignee, so they can only go to
+-- members of the task's project
+DROP POLICY IF EXISTS "transfer_requests_insert_assignee" ON public.transfer_requests;
+
+CREATE POLICY "transfer_requests_insert_assignee"
+ON public.transfer_requests FOR INSERT
+TO authenticated
+WITH CHECK (
+  from_user_id = auth.uid()
+  AND status = 'pending'
+  AND to_user_id IS NOT NULL
+  AND to_user_id <> auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = task_id
+      AND t.assignee_id = auth.uid()
+      AND public.is_project_member(t.project_id, to_user_id)
+  )
+  AND public.is_org_member(public.get_task_organization_id(task_id), to_user_id)
+);
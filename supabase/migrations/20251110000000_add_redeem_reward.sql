@@ -0,0 +1,83 @@
+-- Migration: Atomic reward redemption
+-- Redeeming used to be three client calls (ledger entry, redemption row,
+-- stock decrement), so a failure half way or two concurrent redemptions could
+-- overspend points or oversell stock. redeem_reward() does all of it in one
+-- transaction while holding locks on the reward and on the redeeming user.
+-- Failures are raised with a machine readable HINT the Shop UI maps to a
+-- message: reward_not_found, reward_inactive, not_org_member, out_of_stock,
+-- insufficient_points.
+
+CREATE OR REPLACE FUNCTION public.redeem_reward(p_reward UUID)
+RETURNS TABLE(redemption_id UUID, balance_after INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_reward RECORD;
+  v_balance INTEGER;
+  v_redemption_id UUID;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, title, points_cost, stock, active INTO v_reward
+  FROM public.rewards
+  WHERE id = p_reward
+  FOR UPDATE;
+
+  IF v_reward.id IS NULL THEN
+    RAISE EXCEPTION 'Reward not found'
+      USING HINT = 'reward_not_found';
+  END IF;
+
+  IF NOT v_reward.active THEN
+    RAISE EXCEPTION 'Reward "%" is no longer available', v_reward.title
+      USING HINT = 'reward_inactive';
+  END IF;
+
+  IF NOT public.is_org_member(v_reward.organization_id, v_user) THEN
+    RAISE EXCEPTION 'Reward belongs to another organization'
+      USING HINT = 'not_org_member';
+  END IF;
+
+  IF v_reward.stock IS NOT NULL AND v_reward.stock <= 0 THEN
+    RAISE EXCEPTION 'Reward "%" is out of stock', v_reward.title
+      USING HINT = 'out_of_stock';
+  END IF;
+
+  -- Serialise redemptions of the same user so the balance cannot be spent twice
+  PERFORM 1 FROM public.users WHERE id = v_user FOR UPDATE;
+
+  SELECT COALESCE(SUM(delta), 0) INTO v_balance
+  FROM public.points_ledger
+  WHERE user_id = v_user;
+
+  IF v_balance < v_reward.points_cost THEN
+    RAISE EXCEPTION 'Insufficient points: % needed, % available', v_reward.points_cost, v_balance
+      USING HINT = 'insufficient_points';
+  END IF;
+
+  v_balance := v_balance - v_reward.points_cost;
+
+  INSERT INTO public.points_ledger (user_id, delta, reason_code, balance_after)
+  VALUES (v_user, -v_reward.points_cost, 'reward_redemption', v_balance);
+
+  INSERT INTO public.redemptions (user_id, reward_id, points_spent, status)
+  VALUES (v_user, v_reward.id, v_reward.points_cost, 'pending')
+  RETURNING id INTO v_redemption_id;
+
+  IF v_reward.stock IS NOT NULL THEN
+    UPDATE public.rewards
+    SET stock = stock - 1
+    WHERE id = v_reward.id;
+  END IF;
+
+  RETURN QUERY SELECT v_redemption_id, v_balance;
+END;
+$$;
+
+COMMENT ON FUNCTION public.redeem_reward(UUID) IS
+  'Atomically spends the caller''s points on a reward: writes the ledger entry, creates a pending redemption and decrements stock';
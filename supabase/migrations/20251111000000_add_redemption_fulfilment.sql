@@ -0,0 +1,289 @@
+-- Migration: Redemption fulfilment
+-- Owners and admins work through redeemed rewards: pending redemptions are
+-- confirmed (a unique redemption code is generated), fulfilled or cancelled.
+-- Cancelling refunds the spent points to points_ledger and puts the reward
+-- back in stock. The employee is notified at every step.
+
+-- Add the notification types used below
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'reward_confirmed'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'reward_confirmed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'reward_cancelled'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'reward_cancelled';
+  END IF;
+END $$;
+
+ALTER TABLE public.redemptions
+ADD COLUMN IF NOT EXISTS fulfilled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_redemptions_code
+ON public.redemptions(code)
+WHERE code IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_redemptions_status
+ON public.redemptions(status);
+
+-- Random 8 character code without easily confused characters (0/O, 1/I)
+CREATE OR REPLACE FUNCTION public.generate_redemption_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.redemptions WHERE code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+COMMENT ON FUNCTION public.generate_redemption_code() IS
+  'Returns a random redemption code that is not used by any redemption yet';
+
+-- Move a redemption through pending -> confirmed -> fulfilled, or cancel it
+-- (with a refund) while it is not fulfilled yet
+CREATE OR REPLACE FUNCTION public.update_redemption_status(
+  p_redemption UUID,
+  p_status redemption_status
+)
+RETURNS public.redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_redemption public.redemptions;
+  v_org UUID;
+  v_balance INTEGER;
+BEGIN
+  SELECT r.* INTO v_redemption
+  FROM public.redemptions r
+  WHERE r.id = p_redemption
+  FOR UPDATE;
+
+  IF v_redemption.id IS NULL THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  SELECT organization_id INTO v_org FROM public.rewards WHERE id = v_redemption.reward_id;
+
+  IF COALESCE(public.get_org_role(v_org, auth.uid())::text, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can process redemptions';
+  END IF;
+
+  IF v_redemption.status IN ('fulfilled', 'cancelled') THEN
+    RAISE EXCEPTION 'Redemption is already %', v_redemption.status;
+  END IF;
+
+  IF p_status = 'confirmed' THEN
+    IF v_redemption.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending redemptions can be confirmed';
+    END IF;
+
+    UPDATE public.redemptions
+    SET status = 'confirmed',
+        approved_at = now(),
+        code = COALESCE(code, public.generate_redemption_code())
+    WHERE id = p_redemption
+    RETURNING * INTO v_redemption;
+
+  ELSIF p_status = 'fulfilled' THEN
+    UPDATE public.redemptions
+    SET status = 'fulfilled',
+        approved_at = COALESCE(approved_at, now()),
+        code = COALESCE(code, public.generate_redemption_code()),
+        fulfilled_by = auth.uid(),
+        fulfilled_at = now()
+    WHERE id = p_redemption
+    RETURNING * INTO v_redemption;
+
+  ELSIF p_status = 'cancelled' THEN
+    UPDATE public.redemptions
+    SET status = 'cancelled',
+        cancelled_at = now()
+    WHERE id = p_redemption
+    RETURNING * INTO v_redemption;
+
+    -- Refund the spent points
+    IF v_redemption.user_id IS NOT NULL AND v_redemption.points_spent > 0 THEN
+      PERFORM 1 FROM public.users WHERE id = v_redemption.user_id FOR UPDATE;
+
+      SELECT COALESCE(SUM(delta), 0) + v_redemption.points_spent INTO v_balance
+      FROM public.points_ledger
+      WHERE user_id = v_redemption.user_id;
+
+      INSERT INTO public.points_ledger (user_id, delta, reason_code, balance_after)
+      VALUES (v_redemption.user_id, v_redemption.points_spent, 'redemption_refund', v_balance);
+    END IF;
+
+    -- Put the reward back in stock
+    UPDATE public.rewards
+    SET stock = stock + 1
+    WHERE id = v_redemption.reward_id
+      AND stock IS NOT NULL;
+
+  ELSE
+    RAISE EXCEPTION 'Cannot move a redemption back to %', p_status;
+  END IF;
+
+  RETURN v_redemption;
+END;
+$$;
+
+COMMENT ON FUNCTION public.update_redemption_status(UUID, redemption_status) IS
+  'Confirms, fulfils or cancels a redemption; confirming generates a redemption code and cancelling refunds the points';
+
+-- Notify the employee when their redemption moves forward
+CREATE OR REPLACE FUNCTION public.notify_redemption_status_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reward_title TEXT;
+  v_type notification_type;
+  v_message TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_reward_title FROM public.rewards WHERE id = NEW.reward_id;
+  v_reward_title := COALESCE(v_reward_title, 'your reward');
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      v_type := 'reward_confirmed';
+      v_message := 'Your redemption of "' || v_reward_title || '" was confirmed. Your code is ' || NEW.code;
+    WHEN 'fulfilled' THEN
+      v_type := 'reward_fulfilled';
+      v_message := 'Your reward "' || v_reward_title || '" has been fulfilled';
+    WHEN 'cancelled' THEN
+      v_type := 'reward_cancelled';
+      v_message := 'Your redemption of "' || v_reward_title || '" was cancelled and '
+        || NEW.points_spent || ' points were refunded';
+    ELSE
+      RETURN NEW;
+  END CASE;
+
+  INSERT INTO public.notifications (user_id, type, payload)
+  VALUES (
+    NEW.user_id,
+    v_type,
+    jsonb_build_object(
+      'redemption_id', NEW.id,
+      'reward_id', NEW.reward_id,
+      'reward_title', v_reward_title,
+      'status', NEW.status,
+      'code', NEW.code,
+      'points', NEW.points_spent,
+      'message', v_message
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_redemption_status_changed_trigger ON public.redemptions;
+
+CREATE TRIGGER notify_redemption_status_changed_trigger
+  AFTER UPDATE OF status ON public.redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_redemption_status_changed();
+
+COMMENT ON FUNCTION public.notify_redemption_status_changed() IS
+  'Notifies the employee when their redemption is confirmed, fulfilled or cancelled';
+
+-- Refunds are announced by the reward_cancelled notification, so they no
+-- longer produce a separate points_earned notification
+CREATE OR REPLACE FUNCTION notify_points_earned()
+RETURNS TRIGGER AS $$
+DECLARE
+  task_title TEXT;
+  task_type_val TEXT;
+  reason_message TEXT;
+  project_name TEXT;
+BEGIN
+  -- Only notify if points are earned (positive delta) and user_id is set
+  IF NEW.delta > 0 AND NEW.user_id IS NOT NULL AND NEW.reason_code IS DISTINCT FROM 'redemption_refund' THEN
+
+    -- Get task information if task_id exists
+    IF NEW.task_id IS NOT NULL THEN
+      SELECT title, task_type INTO task_title, task_type_val
+      FROM tasks WHERE id = NEW.task_id;
+    END IF;
+
+    -- Get project name if project_id exists
+    IF NEW.project_id IS NOT NULL THEN
+      SELECT name INTO project_name FROM projects WHERE id = NEW.project_id;
+    END IF;
+
+    -- Create reason message based on reason_code
+    reason_message := CASE NEW.reason_code
+      WHEN 'task_completion' THEN
+        CASE
+          WHEN task_title IS NOT NULL THEN 'Completed task "' || task_title || '"'
+          ELSE 'Completed a task'
+        END
+      WHEN 'assignment_completion' THEN
+        CASE
+          WHEN task_title IS NOT NULL THEN 'Completed assignment "' || task_title || '"'
+          ELSE 'Completed an assignment'
+        END
+      WHEN 'reward_redemption' THEN 'Redeemed a reward'
+      ELSE 'Earned points'
+    END;
+
+    -- Create notification for the user
+    INSERT INTO notifications (user_id, type, payload)
+    VALUES (
+      NEW.user_id,
+      'points_earned',
+      jsonb_build_object(
+        'points', NEW.delta,
+        'task_id', NEW.task_id,
+        'task_title', task_title,
+        'task_type', task_type_val,
+        'project_id', NEW.project_id,
+        'project_name', project_name,
+        'reason_code', NEW.reason_code,
+        'message', '🎉 You earned ' || NEW.delta || ' points for ' || reason_message || '!'
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Owners and admins see the redemptions of their organization
+DROP POLICY IF EXISTS "redemptions_select_owner_admin" ON public.redemptions;
+
+CREATE POLICY "redemptions_select_owner_admin"
+ON public.redemptions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rewards r
+    WHERE r.id = redemptions.reward_id
+      AND public.get_org_role(r.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
@@ -0,0 +1,149 @@
+-- Migration: Organization time zone
+-- Attendance used to be dated with a hard-coded Asia/Kuala_Lumpur clock.
+-- Each organization now has a timezone (IANA name) that every attendance
+-- function uses to compute local_date, and that clients use to evaluate
+-- early/on-time/late/overtime against work_start_time and work_end_time.
+-- Existing organizations keep Asia/Kuala_Lumpur.
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+COMMENT ON FUNCTION public.is_valid_timezone(TEXT) IS
+  'True when the name is a time zone known to the database';
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kuala_Lumpur';
+
+ALTER TABLE public.organizations
+DROP CONSTRAINT IF EXISTS organizations_timezone_valid;
+
+ALTER TABLE public.organizations
+ADD CONSTRAINT organizations_timezone_valid CHECK (public.is_valid_timezone(timezone));
+
+COMMENT ON COLUMN public.organizations.timezone IS
+  'IANA time zone used for attendance dates and work hour comparisons';
+
+CREATE OR REPLACE FUNCTION public.get_org_timezone(p_org UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE((SELECT timezone FROM public.organizations WHERE id = p_org), 'Asia/Kuala_Lumpur');
+$$;
+
+COMMENT ON FUNCTION public.get_org_timezone(UUID) IS
+  'Returns the time zone of an organization';
+
+-- Local calendar date of an instant in the organization's time zone. The
+-- single argument calculate_local_date() is left in place for existing callers.
+CREATE OR REPLACE FUNCTION public.calculate_local_date(clock_in_time TIMESTAMP WITH TIME ZONE, p_org_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT timezone(public.get_org_timezone(p_org_id), clock_in_time)::date;
+$$;
+
+COMMENT ON FUNCTION public.calculate_local_date(TIMESTAMP WITH TIME ZONE, UUID) IS
+  'Returns the calendar date of a timestamp in the organization''s time zone';
+
+-- Every check-in is dated in its organization's time zone, whichever way it
+-- was created
+CREATE OR REPLACE FUNCTION public.set_attendance_local_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.local_date := public.calculate_local_date(NEW.clock_in_at, NEW.org_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS set_attendance_local_date_trigger ON public.attendance_checkins;
+
+CREATE TRIGGER set_attendance_local_date_trigger
+  BEFORE INSERT OR UPDATE OF clock_in_at, org_id ON public.attendance_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_attendance_local_date();
+
+COMMENT ON FUNCTION public.set_attendance_local_date() IS
+  'Sets attendance_checkins.local_date from clock_in_at in the organization''s time zone';
+
+-- Clock in once per local day; returns the existing check-in when there is one
+DROP FUNCTION IF EXISTS public.create_daily_checkin(UUID, UUID, TEXT);
+DROP FUNCTION IF EXISTS public.create_daily_checkin(UUID, TEXT, UUID);
+
+CREATE FUNCTION public.create_daily_checkin(
+  p_org_id UUID,
+  p_user_id UUID,
+  p_source TEXT DEFAULT 'web'
+)
+RETURNS public.attendance_checkins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_local_date DATE;
+  v_checkin public.attendance_checkins;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Members can only clock in for themselves';
+  END IF;
+
+  IF NOT public.is_org_member(p_org_id, p_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  v_local_date := public.calculate_local_date(now(), p_org_id);
+
+  SELECT * INTO v_checkin
+  FROM public.attendance_checkins
+  WHERE org_id = p_org_id
+    AND user_id = p_user_id
+    AND local_date = v_local_date
+  ORDER BY clock_in_at
+  LIMIT 1;
+
+  IF v_checkin.id IS NOT NULL THEN
+    RETURN v_checkin;
+  END IF;
+
+  INSERT INTO public.attendance_checkins (org_id, user_id, clock_in_at, local_date, source)
+  VALUES (p_org_id, p_user_id, now(), v_local_date, p_source)
+  RETURNING * INTO v_checkin;
+
+  RETURN v_checkin;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_daily_checkin(UUID, UUID, TEXT) IS
+  'Creates today''s check-in (dated in the organization''s time zone) unless the member already clocked in';
+
+CREATE OR REPLACE FUNCTION public.clock_out_from_org(p_org_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE public.attendance_checkins
+  SET clock_out_at = now(),
+      updated_at = now()
+  WHERE org_id = p_org_id
+    AND user_id = p_user_id
+    AND local_date = public.calculate_local_date(now(), p_org_id)
+    AND clock_out_at IS NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.clock_out_from_org(UUID, UUID) IS
+  'Clocks the member out of today''s check-in (dated in the organization''s time zone)';
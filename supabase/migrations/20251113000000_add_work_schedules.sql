@@ -0,0 +1,228 @@
+-- Migration: Work schedules
+-- Organizations define named schedules with their own hours for each weekday
+-- (work_schedule_days). A weekday without a row is a non-working day, and a
+-- day whose end_time is not after its start_time is a night shift that ends
+-- on the next day. Schedules are assigned to a team or to a single member
+-- (work_schedule_assignments). A member's effective schedule is their own
+-- assignment, otherwise the most recently assigned schedule of one of their
+-- teams, otherwise the organization's work_start_time/work_end_time.
+
+CREATE TABLE IF NOT EXISTS public.work_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  early_threshold_minutes INTEGER NOT NULL DEFAULT 15 CHECK (early_threshold_minutes >= 0),
+  late_threshold_minutes INTEGER NOT NULL DEFAULT 15 CHECK (late_threshold_minutes >= 0),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.work_schedule_days (
+  schedule_id UUID NOT NULL REFERENCES public.work_schedules(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  PRIMARY KEY (schedule_id, weekday),
+  CHECK (start_time <> end_time)
+);
+
+COMMENT ON COLUMN public.work_schedule_days.weekday IS 'Day of the week the shift starts on (0 = Sunday, as in extract(dow))';
+COMMENT ON COLUMN public.work_schedule_days.end_time IS 'End of the shift; not after start_time means the shift ends on the next day';
+
+CREATE TABLE IF NOT EXISTS public.work_schedule_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  schedule_id UUID NOT NULL REFERENCES public.work_schedules(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(team_id, user_id) = 1)
+);
+
+COMMENT ON TABLE public.work_schedule_assignments IS 'Assigns a work schedule to either a team or a single member';
+
+-- A team or member has at most one schedule per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_schedule_assignments_team
+ON public.work_schedule_assignments(team_id)
+WHERE team_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_schedule_assignments_user
+ON public.work_schedule_assignments(organization_id, user_id)
+WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_work_schedule_assignments_schedule
+ON public.work_schedule_assignments(schedule_id);
+
+DROP TRIGGER IF EXISTS update_work_schedules_updated_at ON public.work_schedules;
+
+CREATE TRIGGER update_work_schedules_updated_at
+  BEFORE UPDATE ON public.work_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Assignments must stay inside the schedule's organization
+CREATE OR REPLACE FUNCTION public.validate_work_schedule_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.work_schedules
+    WHERE id = NEW.schedule_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Schedule does not belong to this organization';
+  END IF;
+
+  IF NEW.team_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = NEW.team_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Team does not belong to this organization';
+  END IF;
+
+  IF NEW.user_id IS NOT NULL AND NOT public.is_org_member(NEW.organization_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'User is not a member of this organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS validate_work_schedule_assignment_trigger ON public.work_schedule_assignments;
+
+CREATE TRIGGER validate_work_schedule_assignment_trigger
+  BEFORE INSERT OR UPDATE ON public.work_schedule_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_work_schedule_assignment();
+
+COMMENT ON FUNCTION public.validate_work_schedule_assignment() IS
+  'Rejects schedule assignments that point at a schedule, team or member of another organization';
+
+-- Effective schedule of every member who has one (or of p_user only);
+-- members without a row follow the organization's work hours. Unchecked, so
+-- scheduled jobs without a session can use it; clients go through
+-- get_member_work_schedules() and get_effective_work_schedule().
+CREATE OR REPLACE FUNCTION public.member_work_schedules(p_org UUID, p_user UUID DEFAULT NULL)
+RETURNS TABLE (user_id UUID, schedule_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT DISTINCT ON (om.user_id) om.user_id, a.schedule_id
+  FROM public.organization_members om
+  JOIN public.work_schedule_assignments a
+    ON a.organization_id = om.organization_id
+   AND (
+     a.user_id = om.user_id
+     OR EXISTS (
+       SELECT 1 FROM public.team_members tm
+       WHERE tm.team_id = a.team_id AND tm.user_id = om.user_id
+     )
+   )
+  WHERE om.organization_id = p_org
+    AND (p_user IS NULL OR om.user_id = p_user)
+  ORDER BY om.user_id, (a.user_id IS NOT NULL) DESC, a.created_at DESC;
+$$;
+
+COMMENT ON FUNCTION public.member_work_schedules(UUID, UUID) IS
+  'Returns the effective work schedule of each member, or of one member: their own assignment first, then their most recently assigned team schedule';
+
+REVOKE EXECUTE ON FUNCTION public.member_work_schedules(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_member_work_schedules(p_org UUID)
+RETURNS TABLE (user_id UUID, schedule_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT s.user_id, s.schedule_id
+  FROM public.member_work_schedules(p_org) s
+  WHERE public.is_org_member(p_org, auth.uid());
+$$;
+
+COMMENT ON FUNCTION public.get_member_work_schedules(UUID) IS
+  'Returns the effective work schedule of each member of the caller''s organization';
+
+CREATE OR REPLACE FUNCTION public.get_effective_work_schedule(p_org UUID, p_user UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT s.schedule_id
+  FROM public.member_work_schedules(p_org, p_user) s
+  WHERE public.is_org_member(p_org, auth.uid());
+$$;
+
+COMMENT ON FUNCTION public.get_effective_work_schedule(UUID, UUID) IS
+  'Returns the work schedule a member is evaluated against, or NULL when the organization work hours apply';
+
+-- RLS: members read, owners and admins manage
+ALTER TABLE public.work_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_schedule_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_schedule_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "work_schedules_select_org_members" ON public.work_schedules;
+DROP POLICY IF EXISTS "work_schedules_manage_owner_admin" ON public.work_schedules;
+
+CREATE POLICY "work_schedules_select_org_members"
+ON public.work_schedules FOR SELECT
+TO authenticated
+USING (public.is_org_member(organization_id, auth.uid()));
+
+CREATE POLICY "work_schedules_manage_owner_admin"
+ON public.work_schedules FOR ALL
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'))
+WITH CHECK (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "work_schedule_days_select_org_members" ON public.work_schedule_days;
+DROP POLICY IF EXISTS "work_schedule_days_manage_owner_admin" ON public.work_schedule_days;
+
+CREATE POLICY "work_schedule_days_select_org_members"
+ON public.work_schedule_days FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.work_schedules s
+    WHERE s.id = work_schedule_days.schedule_id
+      AND public.is_org_member(s.organization_id, auth.uid())
+  )
+);
+
+CREATE POLICY "work_schedule_days_manage_owner_admin"
+ON public.work_schedule_days FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.work_schedules s
+    WHERE s.id = work_schedule_days.schedule_id
+      AND public.get_org_role(s.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.work_schedules s
+    WHERE s.id = work_schedule_days.schedule_id
+      AND public.get_org_role(s.organization_id, auth.uid()) IN ('owner', 'admin')
+  )
+);
+
+DROP POLICY IF EXISTS "work_schedule_assignments_select_org_members" ON public.work_schedule_assignments;
+DROP POLICY IF EXISTS "work_schedule_assignments_manage_owner_admin" ON public.work_schedule_assignments;
+
+CREATE POLICY "work_schedule_assignments_select_org_members"
+ON public.work_schedule_assignments FOR SELECT
+TO authenticated
+USING (public.is_org_member(organization_id, auth.uid()));
+
+CREATE POLICY "work_schedule_assignments_manage_owner_admin"
+ON public.work_schedule_assignments FOR ALL
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'))
+WITH CHECK (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
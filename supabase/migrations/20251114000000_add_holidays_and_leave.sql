@@ -0,0 +1,574 @@
+-- Migration: Holiday calendar and leave management
+-- Organizations keep a holiday calendar (holidays) and the weekdays they
+-- normally work (organizations.working_weekdays). Members request annual,
+-- sick or unpaid leave (leave_requests); owners, admins and the supervisors
+-- of the member's teams approve or reject it. Annual and sick leave come out
+-- of a yearly allowance set on the organization. A request only counts the
+-- member's working days that are not holidays.
+-- Holidays, days off and approved leave are not counted as absences.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'leave_requested'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'leave_requested';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'leave_approved'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'leave_approved';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'leave_rejected'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'leave_rejected';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'leave_type') THEN
+    CREATE TYPE public.leave_type AS ENUM ('annual', 'sick', 'unpaid');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'leave_status') THEN
+    CREATE TYPE public.leave_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+  END IF;
+END $$;
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS working_weekdays SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+ADD COLUMN IF NOT EXISTS annual_leave_days INTEGER NOT NULL DEFAULT 14 CHECK (annual_leave_days >= 0),
+ADD COLUMN IF NOT EXISTS sick_leave_days INTEGER NOT NULL DEFAULT 14 CHECK (sick_leave_days >= 0);
+
+COMMENT ON COLUMN public.organizations.working_weekdays IS 'Weekdays (0 = Sunday) worked by members without a work schedule';
+COMMENT ON COLUMN public.organizations.annual_leave_days IS 'Annual leave allowance per member per calendar year';
+COMMENT ON COLUMN public.organizations.sick_leave_days IS 'Sick leave allowance per member per calendar year';
+
+CREATE TABLE IF NOT EXISTS public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, holiday_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  leave_type public.leave_type NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  days INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  status public.leave_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+COMMENT ON COLUMN public.leave_requests.days IS 'Working days taken, excluding days off and holidays (set by trigger)';
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_org_dates
+ON public.leave_requests(organization_id, start_date, end_date);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_user
+ON public.leave_requests(user_id, status);
+
+DROP TRIGGER IF EXISTS update_leave_requests_updated_at ON public.leave_requests;
+
+CREATE TRIGGER update_leave_requests_updated_at
+  BEFORE UPDATE ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- True when the member is expected at work on the date: it is neither a
+-- holiday nor a day off in their work schedule (or the organization's
+-- working weekdays when they have no schedule)
+CREATE OR REPLACE FUNCTION public.is_working_day(p_org UUID, p_user UUID, p_date DATE)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_schedule UUID;
+  v_weekday SMALLINT := extract(dow FROM p_date)::smallint;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.holidays WHERE organization_id = p_org AND holiday_date = p_date) THEN
+    RETURN false;
+  END IF;
+
+  SELECT s.schedule_id INTO v_schedule
+  FROM public.member_work_schedules(p_org, p_user) s;
+
+  IF v_schedule IS NOT NULL THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.work_schedule_days
+      WHERE schedule_id = v_schedule AND weekday = v_weekday
+    );
+  END IF;
+
+  RETURN v_weekday = ANY (
+    COALESCE((SELECT working_weekdays FROM public.organizations WHERE id = p_org), '{1,2,3,4,5}')
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_working_day(UUID, UUID, DATE) IS
+  'True when the date is not a holiday and is a working weekday for the member';
+
+CREATE OR REPLACE FUNCTION public.count_leave_days(p_org UUID, p_user UUID, p_start DATE, p_end DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COUNT(*)::integer
+  FROM generate_series(p_start, p_end, interval '1 day') AS d
+  WHERE public.is_working_day(p_org, p_user, d::date);
+$$;
+
+COMMENT ON FUNCTION public.count_leave_days(UUID, UUID, DATE, DATE) IS
+  'Number of working days of the member between two dates (inclusive)';
+
+-- Days are counted when the request is made or its dates change
+CREATE OR REPLACE FUNCTION public.set_leave_request_days()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.days := public.count_leave_days(NEW.organization_id, NEW.user_id, NEW.start_date, NEW.end_date);
+
+  IF NEW.days = 0 THEN
+    RAISE EXCEPTION 'The selected dates are all days off or holidays'
+      USING HINT = 'no_working_days';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.leave_requests
+    WHERE user_id = NEW.user_id
+      AND organization_id = NEW.organization_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'approved')
+      AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+  ) THEN
+    RAISE EXCEPTION 'Leave already requested for some of these dates'
+      USING HINT = 'overlapping_leave';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS set_leave_request_days_trigger ON public.leave_requests;
+
+CREATE TRIGGER set_leave_request_days_trigger
+  BEFORE INSERT OR UPDATE OF start_date, end_date ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_request_days();
+
+COMMENT ON FUNCTION public.set_leave_request_days() IS
+  'Counts the working days of a leave request and rejects empty or overlapping requests';
+
+-- Owners review everyone; admins review the roles below them; supervisors
+-- review the members of the teams they supervise. Nobody reviews their own leave.
+CREATE OR REPLACE FUNCTION public.can_review_leave(p_org UUID, p_user UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_role user_role;
+  v_target_role user_role;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = p_user THEN
+    RETURN false;
+  END IF;
+
+  v_role := public.get_org_role(p_org, auth.uid());
+  v_target_role := public.get_org_role(p_org, p_user);
+
+  IF v_role IS NULL OR v_target_role IS NULL OR v_role = 'employee' THEN
+    RETURN false;
+  END IF;
+
+  IF v_role IN ('owner', 'admin') THEN
+    RETURN public.can_manage_roles(p_org, v_role, v_target_role);
+  END IF;
+
+  RETURN v_target_role = 'employee' AND EXISTS (
+    SELECT 1
+    FROM public.teams t
+    JOIN public.team_members tm ON tm.team_id = t.id
+    WHERE t.organization_id = p_org
+      AND t.supervisor_id = auth.uid()
+      AND tm.user_id = p_user
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.can_review_leave(UUID, UUID) IS
+  'True when the current user may approve or reject leave of the member';
+
+-- Allowance, approved and pending days per leave type in a calendar year.
+-- Unpaid leave has no allowance.
+CREATE OR REPLACE FUNCTION public.get_leave_balances(
+  p_org UUID,
+  p_user UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT extract(year FROM now())::integer
+)
+RETURNS TABLE (
+  leave_type public.leave_type,
+  allowance INTEGER,
+  used INTEGER,
+  pending INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF p_user IS DISTINCT FROM auth.uid() AND NOT public.can_review_leave(p_org, p_user) THEN
+    RAISE EXCEPTION 'Not allowed to view this member''s leave';
+  END IF;
+
+  RETURN QUERY
+  WITH allowances AS (
+    SELECT 'annual'::public.leave_type AS leave_type, o.annual_leave_days AS allowance
+    FROM public.organizations o WHERE o.id = p_org
+    UNION ALL
+    SELECT 'sick'::public.leave_type, o.sick_leave_days
+    FROM public.organizations o WHERE o.id = p_org
+    UNION ALL
+    SELECT 'unpaid'::public.leave_type, NULL::integer
+  ),
+  taken AS (
+    SELECT
+      lr.leave_type,
+      COALESCE(SUM(lr.days) FILTER (WHERE lr.status = 'approved'), 0)::integer AS used,
+      COALESCE(SUM(lr.days) FILTER (WHERE lr.status = 'pending'), 0)::integer AS pending
+    FROM public.leave_requests lr
+    WHERE lr.organization_id = p_org
+      AND lr.user_id = p_user
+      AND extract(year FROM lr.start_date)::integer = p_year
+    GROUP BY lr.leave_type
+  )
+  SELECT
+    a.leave_type,
+    a.allowance,
+    COALESCE(t.used, 0),
+    COALESCE(t.pending, 0),
+    CASE WHEN a.allowance IS NULL THEN NULL ELSE a.allowance - COALESCE(t.used, 0) END
+  FROM allowances a
+  LEFT JOIN taken t ON t.leave_type = a.leave_type;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_leave_balances(UUID, UUID, INTEGER) IS
+  'Returns the leave allowance, used, pending and remaining days of a member for a calendar year';
+
+-- Approve or reject a pending request. Annual and sick leave cannot be
+-- approved beyond the remaining allowance.
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+  p_request UUID,
+  p_status public.leave_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.leave_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_request public.leave_requests;
+  v_allowance INTEGER;
+  v_used INTEGER;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.leave_requests
+  WHERE id = p_request
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF NOT public.can_review_leave(v_request.organization_id, v_request.user_id) THEN
+    RAISE EXCEPTION 'Not allowed to review this leave request'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Leave request is already %', v_request.status
+      USING HINT = 'already_reviewed';
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Leave requests can only be approved or rejected';
+  END IF;
+
+  IF p_status = 'approved' AND v_request.leave_type IN ('annual', 'sick') THEN
+    SELECT CASE v_request.leave_type WHEN 'annual' THEN annual_leave_days ELSE sick_leave_days END
+    INTO v_allowance
+    FROM public.organizations
+    WHERE id = v_request.organization_id;
+
+    SELECT COALESCE(SUM(days), 0) INTO v_used
+    FROM public.leave_requests
+    WHERE organization_id = v_request.organization_id
+      AND user_id = v_request.user_id
+      AND leave_type = v_request.leave_type
+      AND status = 'approved'
+      AND extract(year FROM start_date) = extract(year FROM v_request.start_date);
+
+    IF v_used + v_request.days > v_allowance THEN
+      RAISE EXCEPTION 'Only % % leave day(s) left', GREATEST(v_allowance - v_used, 0), v_request.leave_type
+        USING HINT = 'insufficient_leave_balance';
+    END IF;
+  END IF;
+
+  UPDATE public.leave_requests
+  SET status = p_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(p_note), '')
+  WHERE id = p_request
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+COMMENT ON FUNCTION public.review_leave_request(UUID, public.leave_status, TEXT) IS
+  'Approves or rejects a pending leave request, enforcing the yearly allowance';
+
+-- Members withdraw pending leave, or cancel approved leave that has not started
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_request UUID)
+RETURNS public.leave_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_request public.leave_requests;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.leave_requests
+  WHERE id = p_request
+  FOR UPDATE;
+
+  IF v_request.id IS NULL OR v_request.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.status = 'approved'
+     AND v_request.start_date <= public.calculate_local_date(now(), v_request.organization_id) THEN
+    RAISE EXCEPTION 'Leave that has already started cannot be cancelled'
+      USING HINT = 'leave_started';
+  END IF;
+
+  IF v_request.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Leave request is already %', v_request.status
+      USING HINT = 'already_reviewed';
+  END IF;
+
+  UPDATE public.leave_requests
+  SET status = 'cancelled'
+  WHERE id = p_request
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_leave_request(UUID) IS
+  'Cancels the current user''s pending leave, or approved leave that has not started yet';
+
+-- Approved leave of every member, one row per working day, for attendance.
+-- Attendance is visible to every member, so is who was on leave.
+CREATE OR REPLACE FUNCTION public.get_approved_leave_days(p_org UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (user_id UUID, leave_date DATE, leave_type public.leave_type)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT lr.user_id, d::date, lr.leave_type
+  FROM public.leave_requests lr
+  CROSS JOIN LATERAL generate_series(
+    GREATEST(lr.start_date, p_from),
+    LEAST(lr.end_date, p_to),
+    interval '1 day'
+  ) AS d
+  WHERE lr.organization_id = p_org
+    AND lr.status = 'approved'
+    AND lr.start_date <= p_to
+    AND lr.end_date >= p_from
+    AND public.is_org_member(p_org, auth.uid());
+$$;
+
+COMMENT ON FUNCTION public.get_approved_leave_days(UUID, DATE, DATE) IS
+  'Returns each date on which a member of the organization is on approved leave';
+
+-- Notify the reviewers of a new request
+CREATE OR REPLACE FUNCTION public.notify_leave_requested()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_requester_name TEXT;
+  v_reviewer UUID;
+BEGIN
+  SELECT full_name INTO v_requester_name FROM public.users WHERE id = NEW.user_id;
+
+  FOR v_reviewer IN
+    SELECT om.user_id
+    FROM public.organization_members om
+    WHERE om.organization_id = NEW.organization_id
+      AND om.role IN ('owner', 'admin', 'supervisor')
+      AND om.user_id <> NEW.user_id
+      AND (
+        (om.role IN ('owner', 'admin')
+          AND public.can_manage_roles(NEW.organization_id, om.role, public.get_org_role(NEW.organization_id, NEW.user_id)))
+        OR (om.role = 'supervisor'
+          AND public.get_org_role(NEW.organization_id, NEW.user_id) = 'employee'
+          AND EXISTS (
+            SELECT 1
+            FROM public.teams t
+            JOIN public.team_members tm ON tm.team_id = t.id
+            WHERE t.organization_id = NEW.organization_id
+              AND t.supervisor_id = om.user_id
+              AND tm.user_id = NEW.user_id
+          ))
+      )
+  LOOP
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      v_reviewer,
+      'leave_requested',
+      jsonb_build_object(
+        'leave_request_id', NEW.id,
+        'leave_type', NEW.leave_type,
+        'start_date', NEW.start_date,
+        'end_date', NEW.end_date,
+        'days', NEW.days,
+        'requester_id', NEW.user_id,
+        'requester_name', v_requester_name,
+        'message', COALESCE(v_requester_name, 'A member') || ' requested ' || NEW.days || ' day(s) of '
+          || NEW.leave_type || ' leave from ' || to_char(NEW.start_date, 'Mon DD')
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_leave_requested_trigger ON public.leave_requests;
+
+CREATE TRIGGER notify_leave_requested_trigger
+  AFTER INSERT ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_leave_requested();
+
+COMMENT ON FUNCTION public.notify_leave_requested() IS
+  'Notifies everyone who can review a new leave request';
+
+-- Notify the member when their request is reviewed
+CREATE OR REPLACE FUNCTION public.notify_leave_reviewed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reviewer_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('approved', 'rejected') OR OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_reviewer_name FROM public.users WHERE id = NEW.reviewed_by;
+
+  INSERT INTO public.notifications (user_id, type, payload)
+  VALUES (
+    NEW.user_id,
+    CASE WHEN NEW.status = 'approved' THEN 'leave_approved'::notification_type ELSE 'leave_rejected'::notification_type END,
+    jsonb_build_object(
+      'leave_request_id', NEW.id,
+      'leave_type', NEW.leave_type,
+      'start_date', NEW.start_date,
+      'end_date', NEW.end_date,
+      'days', NEW.days,
+      'decider_name', v_reviewer_name,
+      'decision_note', NEW.review_note,
+      'status', NEW.status,
+      'message', 'Your ' || NEW.leave_type || ' leave from ' || to_char(NEW.start_date, 'Mon DD')
+        || ' was ' || NEW.status::text
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_leave_reviewed_trigger ON public.leave_requests;
+
+CREATE TRIGGER notify_leave_reviewed_trigger
+  AFTER UPDATE OF status ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_leave_reviewed();
+
+COMMENT ON FUNCTION public.notify_leave_reviewed() IS
+  'Notifies the member when their leave request is approved or rejected';
+
+-- RLS policies
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "holidays_select_org_members" ON public.holidays;
+DROP POLICY IF EXISTS "holidays_manage_owner_admin" ON public.holidays;
+
+CREATE POLICY "holidays_select_org_members"
+ON public.holidays FOR SELECT
+TO authenticated
+USING (public.is_org_member(organization_id, auth.uid()));
+
+CREATE POLICY "holidays_manage_owner_admin"
+ON public.holidays FOR ALL
+TO authenticated
+USING (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'))
+WITH CHECK (public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "leave_requests_select_own_or_reviewer" ON public.leave_requests;
+DROP POLICY IF EXISTS "leave_requests_insert_own" ON public.leave_requests;
+
+CREATE POLICY "leave_requests_select_own_or_reviewer"
+ON public.leave_requests FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR public.can_review_leave(organization_id, user_id)
+);
+
+-- Status changes go through review_leave_request() and cancel_leave_request()
+CREATE POLICY "leave_requests_insert_own"
+ON public.leave_requests FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND public.is_org_member(organization_id, auth.uid())
+);
@@ -0,0 +1,334 @@
+-- Migration: Explicit clock-in, breaks and attendance sources
+-- Selecting an organization no longer clocks the member in; members clock in
+-- and out from a widget on their dashboard instead.
+-- * attendance_checkins.source tells how a check-in was recorded: 'web'
+--   (dashboard widget), 'kiosk' (shared device) or 'manual' (entered by an
+--   owner/admin on behalf of a member, who is kept in entered_by). 'kiosk' is
+--   reserved for a kiosk flow; members clocking in themselves record 'web'.
+-- * A day can be split into several in/out segments. The gaps between them
+--   are stored as attendance_breaks of the day's single check-in, so worked
+--   time is the span of the check-in minus its breaks. Clocking in again
+--   after clocking out on the same local day resumes the check-in and records
+--   the time away as a break.
+
+-- ---------------------------------------------------------------------------
+-- Check-in source
+-- ---------------------------------------------------------------------------
+
+UPDATE public.attendance_checkins
+SET source = 'web'
+WHERE source IS NULL OR source NOT IN ('web', 'kiosk', 'manual');
+
+ALTER TABLE public.attendance_checkins
+ALTER COLUMN source SET DEFAULT 'web',
+ALTER COLUMN source SET NOT NULL;
+
+ALTER TABLE public.attendance_checkins
+DROP CONSTRAINT IF EXISTS attendance_checkins_source_check;
+
+ALTER TABLE public.attendance_checkins
+ADD CONSTRAINT attendance_checkins_source_check CHECK (source IN ('web', 'kiosk', 'manual'));
+
+ALTER TABLE public.attendance_checkins
+ADD COLUMN IF NOT EXISTS entered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS note TEXT;
+
+COMMENT ON COLUMN public.attendance_checkins.source IS
+  'How the check-in was recorded: web, kiosk or manual';
+COMMENT ON COLUMN public.attendance_checkins.entered_by IS
+  'Owner or admin who entered a manual check-in';
+
+-- ---------------------------------------------------------------------------
+-- Breaks
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.attendance_breaks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  checkin_id UUID NOT NULL REFERENCES public.attendance_checkins(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT attendance_breaks_valid_range CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_breaks_checkin ON public.attendance_breaks(checkin_id);
+
+-- At most one break in progress per check-in
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_breaks_one_open
+  ON public.attendance_breaks(checkin_id)
+  WHERE ended_at IS NULL;
+
+ALTER TABLE public.attendance_breaks ENABLE ROW LEVEL SECURITY;
+
+-- Breaks are visible to whoever can see the organization's attendance; they
+-- are only written through the functions below
+DROP POLICY IF EXISTS "Members can view attendance breaks" ON public.attendance_breaks;
+CREATE POLICY "Members can view attendance breaks"
+  ON public.attendance_breaks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.attendance_checkins c
+      WHERE c.id = attendance_breaks.checkin_id
+        AND public.is_org_member(c.org_id, auth.uid())
+    )
+  );
+
+-- ---------------------------------------------------------------------------
+-- Clocking in and out
+-- ---------------------------------------------------------------------------
+
+-- Clock in for today. Returns the open check-in when the member is already
+-- clocked in; resumes today's check-in after a clock-out, turning the time
+-- away into a break.
+DROP FUNCTION IF EXISTS public.create_daily_checkin(UUID, UUID, TEXT);
+
+CREATE FUNCTION public.create_daily_checkin(
+  p_org_id UUID,
+  p_user_id UUID,
+  p_source TEXT DEFAULT 'web'
+)
+RETURNS public.attendance_checkins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_local_date DATE;
+  v_checkin public.attendance_checkins;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Members can only clock in for themselves';
+  END IF;
+
+  IF NOT public.is_org_member(p_org_id, p_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  -- Members clock in from their own session; kiosk check-ins are not
+  -- recorded through this function
+  IF p_source IS DISTINCT FROM 'web' THEN
+    RAISE EXCEPTION 'Invalid clock-in source'
+      USING HINT = 'invalid_source';
+  END IF;
+
+  -- Still clocked in, possibly since a previous day
+  SELECT * INTO v_checkin
+  FROM public.attendance_checkins
+  WHERE org_id = p_org_id
+    AND user_id = p_user_id
+    AND clock_out_at IS NULL
+  ORDER BY clock_in_at DESC
+  LIMIT 1;
+
+  IF v_checkin.id IS NOT NULL THEN
+    RETURN v_checkin;
+  END IF;
+
+  v_local_date := public.calculate_local_date(now(), p_org_id);
+
+  SELECT * INTO v_checkin
+  FROM public.attendance_checkins
+  WHERE org_id = p_org_id
+    AND user_id = p_user_id
+    AND local_date = v_local_date
+  ORDER BY clock_in_at
+  LIMIT 1;
+
+  IF v_checkin.id IS NOT NULL THEN
+    INSERT INTO public.attendance_breaks (checkin_id, started_at, ended_at)
+    VALUES (v_checkin.id, v_checkin.clock_out_at, now());
+
+    UPDATE public.attendance_checkins
+    SET clock_out_at = NULL,
+        updated_at = now()
+    WHERE id = v_checkin.id
+    RETURNING * INTO v_checkin;
+
+    RETURN v_checkin;
+  END IF;
+
+  INSERT INTO public.attendance_checkins (org_id, user_id, clock_in_at, local_date, source)
+  VALUES (p_org_id, p_user_id, now(), v_local_date, p_source)
+  RETURNING * INTO v_checkin;
+
+  RETURN v_checkin;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_daily_checkin(UUID, UUID, TEXT) IS
+  'Clocks the member in from the web, resuming today''s check-in after a clock-out';
+
+-- Clock out of the open check-in, ending a break in progress. The check-in
+-- may have started on a previous local day, e.g. on a night shift.
+CREATE OR REPLACE FUNCTION public.clock_out_from_org(p_org_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Members can only clock out for themselves';
+  END IF;
+
+  UPDATE public.attendance_breaks b
+  SET ended_at = now()
+  FROM public.attendance_checkins c
+  WHERE b.checkin_id = c.id
+    AND b.ended_at IS NULL
+    AND c.org_id = p_org_id
+    AND c.user_id = p_user_id
+    AND c.clock_out_at IS NULL;
+
+  UPDATE public.attendance_checkins
+  SET clock_out_at = now(),
+      updated_at = now()
+  WHERE org_id = p_org_id
+    AND user_id = p_user_id
+    AND clock_out_at IS NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.clock_out_from_org(UUID, UUID) IS
+  'Clocks the member out of their open check-in, ending any break in progress';
+
+CREATE OR REPLACE FUNCTION public.start_break(p_org_id UUID)
+RETURNS public.attendance_breaks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_checkin_id UUID;
+  v_break public.attendance_breaks;
+BEGIN
+  SELECT id INTO v_checkin_id
+  FROM public.attendance_checkins
+  WHERE org_id = p_org_id
+    AND user_id = auth.uid()
+    AND clock_out_at IS NULL
+  ORDER BY clock_in_at DESC
+  LIMIT 1;
+
+  IF v_checkin_id IS NULL THEN
+    RAISE EXCEPTION 'Not clocked in'
+      USING HINT = 'not_clocked_in';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_breaks
+    WHERE checkin_id = v_checkin_id AND ended_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Already on a break'
+      USING HINT = 'already_on_break';
+  END IF;
+
+  INSERT INTO public.attendance_breaks (checkin_id)
+  VALUES (v_checkin_id)
+  RETURNING * INTO v_break;
+
+  RETURN v_break;
+END;
+$$;
+
+COMMENT ON FUNCTION public.start_break(UUID) IS
+  'Starts a break on the current user''s open check-in';
+
+CREATE OR REPLACE FUNCTION public.end_break(p_org_id UUID)
+RETURNS public.attendance_breaks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_break public.attendance_breaks;
+BEGIN
+  UPDATE public.attendance_breaks b
+  SET ended_at = now()
+  FROM public.attendance_checkins c
+  WHERE b.checkin_id = c.id
+    AND b.ended_at IS NULL
+    AND c.org_id = p_org_id
+    AND c.user_id = auth.uid()
+    AND c.clock_out_at IS NULL
+  RETURNING b.* INTO v_break;
+
+  IF v_break.id IS NULL THEN
+    RAISE EXCEPTION 'Not on a break'
+      USING HINT = 'not_on_break';
+  END IF;
+
+  RETURN v_break;
+END;
+$$;
+
+COMMENT ON FUNCTION public.end_break(UUID) IS
+  'Ends the break in progress on the current user''s open check-in';
+
+-- ---------------------------------------------------------------------------
+-- Manual entry
+-- ---------------------------------------------------------------------------
+
+-- Owners and admins record attendance for members who could not clock in
+-- themselves. A member has one check-in per local day.
+CREATE OR REPLACE FUNCTION public.record_manual_attendance(
+  p_org_id UUID,
+  p_user_id UUID,
+  p_clock_in TIMESTAMP WITH TIME ZONE,
+  p_clock_out TIMESTAMP WITH TIME ZONE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.attendance_checkins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_manager_role public.user_role;
+  v_member_role public.user_role;
+  v_checkin public.attendance_checkins;
+BEGIN
+  v_manager_role := public.get_org_role(p_org_id, auth.uid());
+  v_member_role := public.get_org_role(p_org_id, p_user_id);
+
+  IF v_manager_role IS NULL
+    OR v_manager_role NOT IN ('owner', 'admin')
+    OR v_member_role IS NULL
+    OR (p_user_id <> auth.uid() AND NOT public.can_manage_roles(p_org_id, v_manager_role, v_member_role))
+  THEN
+    RAISE EXCEPTION 'Not allowed to record attendance for this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF p_clock_out IS NOT NULL AND p_clock_out < p_clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in'
+      USING HINT = 'invalid_range';
+  END IF;
+
+  IF p_clock_in > now() OR p_clock_out > now() THEN
+    RAISE EXCEPTION 'Attendance cannot be recorded in the future'
+      USING HINT = 'future_attendance';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_checkins
+    WHERE org_id = p_org_id
+      AND user_id = p_user_id
+      AND local_date = public.calculate_local_date(p_clock_in, p_org_id)
+  ) THEN
+    RAISE EXCEPTION 'The member already has attendance on this date'
+      USING HINT = 'attendance_exists';
+  END IF;
+
+  INSERT INTO public.attendance_checkins (org_id, user_id, clock_in_at, clock_out_at, source, entered_by, note)
+  VALUES (p_org_id, p_user_id, p_clock_in, p_clock_out, 'manual', auth.uid(), NULLIF(btrim(p_note), ''))
+  RETURNING * INTO v_checkin;
+
+  RETURN v_checkin;
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_manual_attendance(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) IS
+  'Records a manual check-in for a member on behalf of an owner or admin';
@@ -0,0 +1,701 @@
+-- Migration: Attendance corrections, auto-close and audit trail
+-- * Members ask for a correction of their attendance on a local_date
+--   (attendance_corrections): a missing clock-in, a missing clock-out or a
+--   wrong time, with a reason. The people who review their leave approve or
+--   reject it; an approved correction is applied to attendance_checkins.
+-- * Sessions left open (a forgotten clock-out) are closed automatically once
+--   they have had no activity (clock-in, break start or end) for
+--   organizations.attendance_auto_close_hours. The row is marked auto_closed
+--   so the member can correct the clock-out time.
+-- * Every change to a check-in that is not the member's own clock-in/out
+--   (manual entries, approved corrections, adjustments by owners and admins,
+--   auto-close) is recorded in attendance_audit_log.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'correction_requested'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'correction_requested';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'correction_approved'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'correction_approved';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'correction_rejected'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'correction_rejected';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'attendance_correction_type') THEN
+    CREATE TYPE public.attendance_correction_type AS ENUM ('missing_clock_in', 'missing_clock_out', 'wrong_time');
+  END IF;
+END $$;
+
+-- ---------------------------------------------------------------------------
+-- Auto-close
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS attendance_auto_close_hours SMALLINT DEFAULT 16;
+
+ALTER TABLE public.organizations
+DROP CONSTRAINT IF EXISTS organizations_attendance_auto_close_hours_check;
+
+ALTER TABLE public.organizations
+ADD CONSTRAINT organizations_attendance_auto_close_hours_check
+  CHECK (attendance_auto_close_hours IS NULL OR attendance_auto_close_hours BETWEEN 1 AND 48);
+
+COMMENT ON COLUMN public.organizations.attendance_auto_close_hours IS
+  'Open attendance sessions are closed after this many hours without activity; NULL never closes them';
+
+ALTER TABLE public.attendance_checkins
+ADD COLUMN IF NOT EXISTS auto_closed BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.attendance_checkins.auto_closed IS
+  'True when the session was closed automatically instead of by a clock-out';
+
+-- ---------------------------------------------------------------------------
+-- Audit trail
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.attendance_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkin_id UUID,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- NULL when the change was made by the system (auto-close)
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('manual_entry', 'correction', 'adjustment', 'auto_close', 'deletion')),
+  old_clock_in_at TIMESTAMP WITH TIME ZONE,
+  old_clock_out_at TIMESTAMP WITH TIME ZONE,
+  new_clock_in_at TIMESTAMP WITH TIME ZONE,
+  new_clock_out_at TIMESTAMP WITH TIME ZONE,
+  local_date DATE,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_org
+ON public.attendance_audit_log(organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_checkin
+ON public.attendance_audit_log(checkin_id);
+
+-- Functions that edit attendance on someone's behalf name the change (and
+-- its reason) for the audit trigger for the rest of their transaction
+CREATE OR REPLACE FUNCTION public.set_attendance_audit_context(p_action TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SET search_path = 'public'
+AS $$
+  SELECT set_config('app.attendance_audit_action', p_action, true),
+         set_config('app.attendance_audit_reason', COALESCE(p_reason, ''), true);
+$$;
+
+COMMENT ON FUNCTION public.set_attendance_audit_context(TEXT, TEXT) IS
+  'Names the attendance change being made in this transaction for the audit trail';
+
+REVOKE EXECUTE ON FUNCTION public.set_attendance_audit_context(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Members clocking themselves in and out are not audited; every other
+-- insert, change of times or deletion is
+CREATE OR REPLACE FUNCTION public.audit_attendance_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_action TEXT := NULLIF(current_setting('app.attendance_audit_action', true), '');
+  v_reason TEXT := NULLIF(current_setting('app.attendance_audit_reason', true), '');
+  v_row public.attendance_checkins;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.clock_in_at IS NOT DISTINCT FROM NEW.clock_in_at
+     AND OLD.clock_out_at IS NOT DISTINCT FROM NEW.clock_out_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_action IS NULL THEN
+    IF auth.uid() = v_row.user_id AND TG_OP <> 'DELETE' AND v_row.source <> 'manual' THEN
+      RETURN v_row;
+    END IF;
+
+    v_action := CASE TG_OP
+      WHEN 'DELETE' THEN 'deletion'
+      WHEN 'INSERT' THEN 'manual_entry'
+      ELSE 'adjustment'
+    END;
+  END IF;
+
+  INSERT INTO public.attendance_audit_log (
+    checkin_id, organization_id, user_id, changed_by, action,
+    old_clock_in_at, old_clock_out_at, new_clock_in_at, new_clock_out_at, local_date, reason
+  )
+  VALUES (
+    v_row.id, v_row.org_id, v_row.user_id, auth.uid(), v_action,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.clock_in_at END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.clock_out_at END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.clock_in_at END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.clock_out_at END,
+    v_row.local_date,
+    COALESCE(v_reason, v_row.note)
+  );
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS audit_attendance_change_trigger ON public.attendance_checkins;
+
+CREATE TRIGGER audit_attendance_change_trigger
+  AFTER INSERT OR UPDATE OF clock_in_at, clock_out_at OR DELETE ON public.attendance_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_attendance_change();
+
+COMMENT ON FUNCTION public.audit_attendance_change() IS
+  'Records manual entries, corrections, adjustments, auto-closes and deletions of check-ins';
+
+-- Owners and admins fix the times of a check-in directly, giving a reason
+CREATE OR REPLACE FUNCTION public.adjust_attendance(
+  p_checkin UUID,
+  p_clock_in TIMESTAMP WITH TIME ZONE,
+  p_clock_out TIMESTAMP WITH TIME ZONE,
+  p_reason TEXT
+)
+RETURNS public.attendance_checkins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_checkin public.attendance_checkins;
+  v_manager_role public.user_role;
+BEGIN
+  SELECT * INTO v_checkin
+  FROM public.attendance_checkins
+  WHERE id = p_checkin
+  FOR UPDATE;
+
+  IF v_checkin.id IS NULL THEN
+    RAISE EXCEPTION 'Attendance not found'
+      USING HINT = 'attendance_not_found';
+  END IF;
+
+  v_manager_role := public.get_org_role(v_checkin.org_id, auth.uid());
+
+  IF v_manager_role IS NULL
+    OR v_manager_role NOT IN ('owner', 'admin')
+    OR (v_checkin.user_id <> auth.uid()
+      AND NOT public.can_manage_roles(v_checkin.org_id, v_manager_role, public.get_org_role(v_checkin.org_id, v_checkin.user_id)))
+  THEN
+    RAISE EXCEPTION 'Not allowed to adjust attendance for this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required'
+      USING HINT = 'reason_required';
+  END IF;
+
+  IF p_clock_out IS NOT NULL AND p_clock_out < p_clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in'
+      USING HINT = 'invalid_range';
+  END IF;
+
+  IF p_clock_in > now() OR p_clock_out > now() THEN
+    RAISE EXCEPTION 'Attendance cannot be recorded in the future'
+      USING HINT = 'future_attendance';
+  END IF;
+
+  IF public.calculate_local_date(p_clock_in, v_checkin.org_id) <> v_checkin.local_date
+    AND EXISTS (
+      SELECT 1 FROM public.attendance_checkins
+      WHERE org_id = v_checkin.org_id
+        AND user_id = v_checkin.user_id
+        AND id <> v_checkin.id
+        AND local_date = public.calculate_local_date(p_clock_in, v_checkin.org_id)
+    )
+  THEN
+    RAISE EXCEPTION 'The member already has attendance on this date'
+      USING HINT = 'attendance_exists';
+  END IF;
+
+  PERFORM public.set_attendance_audit_context('adjustment', p_reason);
+
+  UPDATE public.attendance_checkins
+  SET clock_in_at = p_clock_in,
+      clock_out_at = p_clock_out,
+      auto_closed = false,
+      updated_at = now()
+  WHERE id = p_checkin
+  RETURNING * INTO v_checkin;
+
+  -- Breaks outside the new times no longer apply
+  DELETE FROM public.attendance_breaks
+  WHERE checkin_id = p_checkin
+    AND (started_at < p_clock_in OR (p_clock_out IS NOT NULL AND COALESCE(ended_at, started_at) > p_clock_out));
+
+  RETURN v_checkin;
+END;
+$$;
+
+COMMENT ON FUNCTION public.adjust_attendance(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) IS
+  'Changes the clock-in and clock-out times of a check-in on behalf of an owner or admin';
+
+-- Closes sessions without activity for longer than the organization allows.
+-- The last activity is the clock-in or the latest start or end of a break;
+-- the session and any break in progress end when the limit was reached.
+CREATE OR REPLACE FUNCTION public.close_stale_attendance()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_stale RECORD;
+  v_closed integer := 0;
+BEGIN
+  PERFORM public.set_attendance_audit_context('auto_close', 'Session closed automatically');
+
+  FOR v_stale IN
+    SELECT c.id,
+           GREATEST(c.clock_in_at, MAX(b.started_at), MAX(b.ended_at))
+             + make_interval(hours => o.attendance_auto_close_hours) AS cutoff
+    FROM public.attendance_checkins c
+    JOIN public.organizations o ON o.id = c.org_id
+    LEFT JOIN public.attendance_breaks b ON b.checkin_id = c.id
+    WHERE c.clock_out_at IS NULL
+      AND o.attendance_auto_close_hours IS NOT NULL
+    GROUP BY c.id, c.clock_in_at, o.attendance_auto_close_hours
+    HAVING GREATEST(c.clock_in_at, MAX(b.started_at), MAX(b.ended_at))
+             + make_interval(hours => o.attendance_auto_close_hours) <= now()
+  LOOP
+    UPDATE public.attendance_breaks
+    SET ended_at = v_stale.cutoff
+    WHERE checkin_id = v_stale.id
+      AND ended_at IS NULL;
+
+    UPDATE public.attendance_checkins
+    SET clock_out_at = v_stale.cutoff,
+        auto_closed = true,
+        updated_at = now()
+    WHERE id = v_stale.id
+      AND clock_out_at IS NULL;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$;
+
+COMMENT ON FUNCTION public.close_stale_attendance() IS
+  'Closes attendance sessions and their open breaks once they have had no activity for the organization''s auto-close limit';
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_attendance() FROM PUBLIC, anon, authenticated;
+
+-- Run every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('close-stale-attendance', '*/15 * * * *', 'SELECT public.close_stale_attendance();');
+  END IF;
+END $$;
+
+-- ---------------------------------------------------------------------------
+-- Correction requests
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.attendance_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The check-in being corrected; NULL for a missing clock-in
+  checkin_id UUID REFERENCES public.attendance_checkins(id) ON DELETE SET NULL,
+  local_date DATE NOT NULL,
+  correction_type public.attendance_correction_type NOT NULL,
+  requested_clock_in_at TIMESTAMP WITH TIME ZONE,
+  requested_clock_out_at TIMESTAMP WITH TIME ZONE,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status public.request_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_corrections_org_status
+ON public.attendance_corrections(organization_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_corrections_user
+ON public.attendance_corrections(user_id, local_date);
+
+-- One open request per member and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_corrections_one_pending
+ON public.attendance_corrections(organization_id, user_id, local_date)
+WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_attendance_corrections_updated_at ON public.attendance_corrections;
+
+CREATE TRIGGER update_attendance_corrections_updated_at
+  BEFORE UPDATE ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Links the request to the day's check-in and checks that the requested
+-- times fit the kind of correction
+CREATE OR REPLACE FUNCTION public.validate_attendance_correction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_checkin public.attendance_checkins;
+  v_clock_in TIMESTAMP WITH TIME ZONE;
+  v_clock_out TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_checkin
+  FROM public.attendance_checkins
+  WHERE org_id = NEW.organization_id
+    AND user_id = NEW.user_id
+    AND local_date = NEW.local_date
+  ORDER BY clock_in_at
+  LIMIT 1;
+
+  NEW.checkin_id := v_checkin.id;
+
+  IF NEW.local_date > public.calculate_local_date(now(), NEW.organization_id) THEN
+    RAISE EXCEPTION 'Attendance cannot be corrected in the future'
+      USING HINT = 'future_attendance';
+  END IF;
+
+  IF NEW.correction_type = 'missing_clock_in' THEN
+    IF v_checkin.id IS NOT NULL THEN
+      RAISE EXCEPTION 'There is already attendance on this date'
+        USING HINT = 'attendance_exists';
+    END IF;
+    IF NEW.requested_clock_in_at IS NULL THEN
+      RAISE EXCEPTION 'The clock-in time is required'
+        USING HINT = 'missing_time';
+    END IF;
+  ELSE
+    IF v_checkin.id IS NULL THEN
+      RAISE EXCEPTION 'There is no attendance on this date'
+        USING HINT = 'attendance_not_found';
+    END IF;
+    IF NEW.correction_type = 'missing_clock_out' AND NEW.requested_clock_out_at IS NULL THEN
+      RAISE EXCEPTION 'The clock-out time is required'
+        USING HINT = 'missing_time';
+    END IF;
+    IF NEW.correction_type = 'missing_clock_out' AND v_checkin.clock_out_at IS NOT NULL AND NOT v_checkin.auto_closed THEN
+      RAISE EXCEPTION 'This attendance already has a clock-out'
+        USING HINT = 'already_clocked_out';
+    END IF;
+    IF NEW.correction_type = 'wrong_time'
+       AND NEW.requested_clock_in_at IS NULL AND NEW.requested_clock_out_at IS NULL THEN
+      RAISE EXCEPTION 'At least one corrected time is required'
+        USING HINT = 'missing_time';
+    END IF;
+  END IF;
+
+  IF NEW.requested_clock_in_at IS NOT NULL
+     AND public.calculate_local_date(NEW.requested_clock_in_at, NEW.organization_id) <> NEW.local_date THEN
+    RAISE EXCEPTION 'The clock-in time must be on the corrected date'
+      USING HINT = 'wrong_date';
+  END IF;
+
+  v_clock_in := COALESCE(NEW.requested_clock_in_at, v_checkin.clock_in_at);
+  v_clock_out := COALESCE(NEW.requested_clock_out_at, v_checkin.clock_out_at);
+
+  IF v_clock_out IS NOT NULL AND v_clock_out < v_clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in'
+      USING HINT = 'invalid_range';
+  END IF;
+
+  IF v_clock_in > now() OR v_clock_out > now() THEN
+    RAISE EXCEPTION 'Attendance cannot be corrected in the future'
+      USING HINT = 'future_attendance';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS validate_attendance_correction_trigger ON public.attendance_corrections;
+
+CREATE TRIGGER validate_attendance_correction_trigger
+  BEFORE INSERT ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_attendance_correction();
+
+COMMENT ON FUNCTION public.validate_attendance_correction() IS
+  'Links a correction request to its check-in and validates the requested times';
+
+-- Approve or reject a pending request. Approval applies the requested times,
+-- creating the check-in for a missing clock-in. Corrections are reviewed by
+-- the same people as the member's leave.
+CREATE OR REPLACE FUNCTION public.review_attendance_correction(
+  p_correction UUID,
+  p_status public.request_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.attendance_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_correction public.attendance_corrections;
+  v_checkin public.attendance_checkins;
+BEGIN
+  SELECT * INTO v_correction
+  FROM public.attendance_corrections
+  WHERE id = p_correction
+  FOR UPDATE;
+
+  IF v_correction.id IS NULL THEN
+    RAISE EXCEPTION 'Correction request not found';
+  END IF;
+
+  IF NOT public.can_review_leave(v_correction.organization_id, v_correction.user_id) THEN
+    RAISE EXCEPTION 'Not allowed to review this correction request'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF v_correction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Correction request is already %', v_correction.status
+      USING HINT = 'already_reviewed';
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Correction requests can only be approved or rejected';
+  END IF;
+
+  IF p_status = 'approved' THEN
+    PERFORM public.set_attendance_audit_context('correction', v_correction.reason);
+
+    IF v_correction.correction_type = 'missing_clock_in' THEN
+      IF EXISTS (
+        SELECT 1 FROM public.attendance_checkins
+        WHERE org_id = v_correction.organization_id
+          AND user_id = v_correction.user_id
+          AND local_date = v_correction.local_date
+      ) THEN
+        RAISE EXCEPTION 'The member already has attendance on this date'
+          USING HINT = 'attendance_exists';
+      END IF;
+
+      INSERT INTO public.attendance_checkins (org_id, user_id, clock_in_at, clock_out_at, source, entered_by, note)
+      VALUES (
+        v_correction.organization_id,
+        v_correction.user_id,
+        v_correction.requested_clock_in_at,
+        v_correction.requested_clock_out_at,
+        'manual',
+        auth.uid(),
+        v_correction.reason
+      )
+      RETURNING * INTO v_checkin;
+    ELSE
+      SELECT * INTO v_checkin
+      FROM public.attendance_checkins
+      WHERE id = v_correction.checkin_id
+      FOR UPDATE;
+
+      IF v_checkin.id IS NULL THEN
+        RAISE EXCEPTION 'The attendance to correct no longer exists'
+          USING HINT = 'attendance_not_found';
+      END IF;
+
+      -- End a break in progress when the session gets its clock-out
+      IF v_correction.requested_clock_out_at IS NOT NULL THEN
+        UPDATE public.attendance_breaks
+        SET ended_at = GREATEST(started_at, v_correction.requested_clock_out_at)
+        WHERE checkin_id = v_checkin.id
+          AND ended_at IS NULL;
+      END IF;
+
+      UPDATE public.attendance_checkins
+      SET clock_in_at = COALESCE(v_correction.requested_clock_in_at, clock_in_at),
+          clock_out_at = COALESCE(v_correction.requested_clock_out_at, clock_out_at),
+          auto_closed = auto_closed AND v_correction.requested_clock_out_at IS NULL,
+          updated_at = now()
+      WHERE id = v_checkin.id
+      RETURNING * INTO v_checkin;
+    END IF;
+  END IF;
+
+  UPDATE public.attendance_corrections
+  SET status = p_status,
+      checkin_id = COALESCE(v_checkin.id, checkin_id),
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(p_note), '')
+  WHERE id = p_correction
+  RETURNING * INTO v_correction;
+
+  RETURN v_correction;
+END;
+$$;
+
+COMMENT ON FUNCTION public.review_attendance_correction(UUID, public.request_status, TEXT) IS
+  'Approves (and applies) or rejects a pending attendance correction request';
+
+-- Notify the reviewers of a new request
+CREATE OR REPLACE FUNCTION public.notify_correction_requested()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_requester_name TEXT;
+  v_requester_role user_role;
+  v_reviewer UUID;
+BEGIN
+  SELECT full_name INTO v_requester_name FROM public.users WHERE id = NEW.user_id;
+  v_requester_role := public.get_org_role(NEW.organization_id, NEW.user_id);
+
+  FOR v_reviewer IN
+    SELECT om.user_id
+    FROM public.organization_members om
+    WHERE om.organization_id = NEW.organization_id
+      AND om.user_id <> NEW.user_id
+      AND (
+        (om.role IN ('owner', 'admin')
+          AND public.can_manage_roles(NEW.organization_id, om.role, v_requester_role))
+        OR (om.role = 'supervisor'
+          AND v_requester_role = 'employee'
+          AND EXISTS (
+            SELECT 1
+            FROM public.teams t
+            JOIN public.team_members tm ON tm.team_id = t.id
+            WHERE t.organization_id = NEW.organization_id
+              AND t.supervisor_id = om.user_id
+              AND tm.user_id = NEW.user_id
+          ))
+      )
+  LOOP
+    INSERT INTO public.notifications (user_id, type, payload)
+    VALUES (
+      v_reviewer,
+      'correction_requested',
+      jsonb_build_object(
+        'correction_id', NEW.id,
+        'correction_type', NEW.correction_type,
+        'local_date', NEW.local_date,
+        'requester_id', NEW.user_id,
+        'requester_name', v_requester_name,
+        'message', COALESCE(v_requester_name, 'A member') || ' requested an attendance correction for '
+          || to_char(NEW.local_date, 'Mon DD')
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_correction_requested_trigger ON public.attendance_corrections;
+
+CREATE TRIGGER notify_correction_requested_trigger
+  AFTER INSERT ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_correction_requested();
+
+COMMENT ON FUNCTION public.notify_correction_requested() IS
+  'Notifies everyone who can review a new attendance correction request';
+
+-- Notify the member when their request is reviewed
+CREATE OR REPLACE FUNCTION public.notify_correction_reviewed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_reviewer_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('approved', 'rejected') OR OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_reviewer_name FROM public.users WHERE id = NEW.reviewed_by;
+
+  INSERT INTO public.notifications (user_id, type, payload)
+  VALUES (
+    NEW.user_id,
+    CASE WHEN NEW.status = 'approved' THEN 'correction_approved'::notification_type ELSE 'correction_rejected'::notification_type END,
+    jsonb_build_object(
+      'correction_id', NEW.id,
+      'correction_type', NEW.correction_type,
+      'local_date', NEW.local_date,
+      'decider_name', v_reviewer_name,
+      'decision_note', NEW.review_note,
+      'status', NEW.status,
+      'message', 'Your attendance correction for ' || to_char(NEW.local_date, 'Mon DD')
+        || ' was ' || NEW.status::text
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS notify_correction_reviewed_trigger ON public.attendance_corrections;
+
+CREATE TRIGGER notify_correction_reviewed_trigger
+  AFTER UPDATE OF status ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_correction_reviewed();
+
+COMMENT ON FUNCTION public.notify_correction_reviewed() IS
+  'Notifies the member when their attendance correction is approved or rejected';
+
+-- RLS policies
+ALTER TABLE public.attendance_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "attendance_corrections_select_own_or_reviewer" ON public.attendance_corrections;
+DROP POLICY IF EXISTS "attendance_corrections_insert_own" ON public.attendance_corrections;
+DROP POLICY IF EXISTS "attendance_corrections_delete_own_pending" ON public.attendance_corrections;
+
+CREATE POLICY "attendance_corrections_select_own_or_reviewer"
+ON public.attendance_corrections FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR public.can_review_leave(organization_id, user_id)
+);
+
+-- Status changes go through review_attendance_correction()
+CREATE POLICY "attendance_corrections_insert_own"
+ON public.attendance_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND public.is_org_member(organization_id, auth.uid())
+);
+
+-- Members withdraw requests that have not been reviewed yet
+CREATE POLICY "attendance_corrections_delete_own_pending"
+ON public.attendance_corrections FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'pending');
+
+-- The audit trail is read-only; members see the entries about themselves
+DROP POLICY IF EXISTS "attendance_audit_log_select" ON public.attendance_audit_log;
+
+CREATE POLICY "attendance_audit_log_select"
+ON public.attendance_audit_log FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR public.get_org_role(organization_id, auth.uid()) IN ('owner', 'admin')
+);
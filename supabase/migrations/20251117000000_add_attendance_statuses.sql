@@ -0,0 +1,206 @@
+-- Migration: Attendance statuses
+-- Mirrors src/lib/attendanceStatus.ts so the dashboards and the attendance
+-- pages agree on who was early, on time, late or absent. A member's shift on
+-- a date comes from their effective work schedule, otherwise the
+-- organization's work hours on its working weekdays; a shift whose end is not
+-- after its start ends on the next day. A clock-in shortly after midnight
+-- inside the previous day's night shift belongs to that shift.
+--
+-- Per member and date the status is
+--   early / on-time / late  clocked in, judged against the shift start
+--   absent                  no clock-in once the shift is over, or a clock-in
+--                           after the shift ended
+--   excused                 no clock-in on a holiday or approved leave
+--   day-off                 no clock-in and no shift
+--   upcoming                no clock-in yet, but the shift is not over
+
+-- The shift of a member starting on a date, with the thresholds it is judged
+-- by; no row on a day off. Holidays are not considered here.
+CREATE OR REPLACE FUNCTION public.get_member_shift(p_org UUID, p_user UUID, p_date DATE)
+RETURNS TABLE (
+  shift_start TIMESTAMP WITH TIME ZONE,
+  shift_end TIMESTAMP WITH TIME ZONE,
+  early_threshold_minutes INTEGER,
+  late_threshold_minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_timezone TEXT := public.get_org_timezone(p_org);
+  v_schedule UUID := (SELECT s.schedule_id FROM public.member_work_schedules(p_org, p_user) s);
+  v_weekday SMALLINT := extract(dow FROM p_date)::smallint;
+  v_start TIME;
+  v_end TIME;
+BEGIN
+  IF v_schedule IS NOT NULL THEN
+    SELECT d.start_time, d.end_time, s.early_threshold_minutes, s.late_threshold_minutes
+    INTO v_start, v_end, early_threshold_minutes, late_threshold_minutes
+    FROM public.work_schedule_days d
+    JOIN public.work_schedules s ON s.id = d.schedule_id
+    WHERE d.schedule_id = v_schedule
+      AND d.weekday = v_weekday;
+  ELSE
+    SELECT o.work_start_time, o.work_end_time, COALESCE(o.early_threshold_minutes, 15), COALESCE(o.late_threshold_minutes, 15)
+    INTO v_start, v_end, early_threshold_minutes, late_threshold_minutes
+    FROM public.organizations o
+    WHERE o.id = p_org
+      AND v_weekday = ANY (COALESCE(o.working_weekdays, '{1,2,3,4,5}'));
+
+    IF FOUND THEN
+      v_start := COALESCE(v_start, '09:00');
+      v_end := COALESCE(v_end, '17:00');
+    END IF;
+  END IF;
+
+  IF v_start IS NULL THEN
+    RETURN;
+  END IF;
+
+  shift_start := (p_date + v_start) AT TIME ZONE v_timezone;
+  shift_end := ((p_date + CASE WHEN v_end <= v_start THEN 1 ELSE 0 END) + v_end) AT TIME ZONE v_timezone;
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_member_shift(UUID, UUID, DATE) IS
+  'Returns the start and end of a member''s shift starting on a date, or no row on a day off';
+
+-- Per-day attendance status of every member (or one member) in a date range
+CREATE OR REPLACE FUNCTION public.get_attendance_statuses(
+  p_org UUID,
+  p_from DATE,
+  p_to DATE,
+  p_user UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  local_date DATE,
+  status TEXT,
+  checkin_id UUID,
+  clock_in_at TIMESTAMP WITH TIME ZONE,
+  clock_out_at TIMESTAMP WITH TIME ZONE,
+  worked_minutes INTEGER,
+  overtime BOOLEAN,
+  missing_clock_out BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_member UUID;
+  v_date DATE;
+  v_checkin public.attendance_checkins;
+  v_shift RECORD;
+  v_clock_in_date DATE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_minutes NUMERIC;
+BEGIN
+  IF NOT public.is_org_member(p_org, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this organization'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'The date range must be at most a year'
+      USING HINT = 'invalid_range';
+  END IF;
+
+  FOR v_member IN
+    SELECT om.user_id
+    FROM public.organization_members om
+    WHERE om.organization_id = p_org
+      AND (p_user IS NULL OR om.user_id = p_user)
+  LOOP
+    FOR v_date IN SELECT d::date FROM generate_series(p_from, p_to, interval '1 day') AS d
+    LOOP
+      SELECT * INTO v_checkin
+      FROM public.attendance_checkins c
+      WHERE c.org_id = p_org
+        AND c.user_id = v_member
+        AND c.local_date = v_date
+      ORDER BY c.clock_in_at
+      LIMIT 1;
+
+      user_id := v_member;
+      local_date := v_date;
+      checkin_id := v_checkin.id;
+      clock_in_at := v_checkin.clock_in_at;
+      clock_out_at := v_checkin.clock_out_at;
+      overtime := false;
+      missing_clock_out := false;
+      worked_minutes := 0;
+
+      IF v_checkin.id IS NULL THEN
+        SELECT * INTO v_shift FROM public.get_member_shift(p_org, v_member, v_date);
+
+        IF EXISTS (SELECT 1 FROM public.holidays h WHERE h.organization_id = p_org AND h.holiday_date = v_date)
+          OR EXISTS (
+            SELECT 1 FROM public.leave_requests lr
+            WHERE lr.organization_id = p_org
+              AND lr.user_id = v_member
+              AND lr.status = 'approved'
+              AND v_date BETWEEN lr.start_date AND lr.end_date
+          )
+        THEN
+          status := 'excused';
+        ELSIF v_shift.shift_end IS NULL THEN
+          status := 'day-off';
+        ELSIF now() > v_shift.shift_end THEN
+          status := 'absent';
+        ELSE
+          status := 'upcoming';
+        END IF;
+      ELSE
+        -- The shift the clock-in belongs to: the previous day's night shift
+        -- while it lasts, otherwise the shift of the clock-in's own date
+        v_clock_in_date := public.calculate_local_date(v_checkin.clock_in_at, p_org);
+        SELECT * INTO v_shift FROM public.get_member_shift(p_org, v_member, v_clock_in_date - 1);
+
+        IF v_shift.shift_end IS NULL OR v_checkin.clock_in_at >= v_shift.shift_end THEN
+          SELECT * INTO v_shift FROM public.get_member_shift(p_org, v_member, v_clock_in_date);
+        END IF;
+
+        v_minutes := extract(epoch FROM v_checkin.clock_in_at - v_shift.shift_start) / 60;
+
+        IF v_shift.shift_end IS NULL THEN
+          status := 'on-time';
+        ELSIF v_checkin.clock_in_at > v_shift.shift_end THEN
+          status := 'absent';
+        ELSIF v_minutes <= -v_shift.early_threshold_minutes THEN
+          status := 'early';
+        ELSIF v_minutes <= v_shift.late_threshold_minutes THEN
+          status := 'on-time';
+        ELSE
+          status := 'late';
+        END IF;
+
+        missing_clock_out := v_checkin.clock_out_at IS NULL OR v_checkin.auto_closed;
+        overtime := NOT missing_clock_out
+          AND (v_shift.shift_end IS NULL OR v_checkin.clock_out_at > v_shift.shift_end);
+
+        -- Worked time excludes breaks; open sessions and breaks count up to now
+        v_end := COALESCE(v_checkin.clock_out_at, now());
+        worked_minutes := GREATEST(0, floor((
+          extract(epoch FROM v_end - v_checkin.clock_in_at)
+          - COALESCE((
+              SELECT sum(GREATEST(0, extract(epoch FROM COALESCE(b.ended_at, v_end) - b.started_at)))
+              FROM public.attendance_breaks b
+              WHERE b.checkin_id = v_checkin.id
+            ), 0)
+        ) / 60))::integer;
+      END IF;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_attendance_statuses(UUID, DATE, DATE, UUID) IS
+  'Returns the attendance status of each member (or one member) on each date of a range';
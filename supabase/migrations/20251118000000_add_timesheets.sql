@@ -0,0 +1,499 @@
+-- Migration: Payroll timesheets
+-- A timesheet covers one member over one pay period (a week or two weeks,
+-- organizations.timesheet_period, counted from timesheet_period_anchor). Per
+-- local date it combines the attendance from get_attendance_statuses with the
+-- time spent on tasks (time_logs) and splits the attended time into regular
+-- hours, up to the length of the member's shift, and overtime beyond it.
+--
+-- The people who review a member's leave approve their timesheet once the
+-- period is over. Approval keeps a copy of the days in timesheet_entries and
+-- locks the period: the member's attendance in it can no longer be changed or
+-- corrected until an owner or admin reopens the timesheet.
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS timesheet_period TEXT NOT NULL DEFAULT 'weekly',
+ADD COLUMN IF NOT EXISTS timesheet_period_anchor DATE NOT NULL DEFAULT '2025-01-06';
+
+ALTER TABLE public.organizations
+DROP CONSTRAINT IF EXISTS organizations_timesheet_period_check;
+
+ALTER TABLE public.organizations
+ADD CONSTRAINT organizations_timesheet_period_check
+  CHECK (timesheet_period IN ('weekly', 'biweekly'));
+
+COMMENT ON COLUMN public.organizations.timesheet_period IS
+  'Length of a pay period: weekly or biweekly';
+COMMENT ON COLUMN public.organizations.timesheet_period_anchor IS
+  'First day of any pay period; later periods follow on from it';
+
+CREATE TABLE IF NOT EXISTS public.timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  attendance_minutes INTEGER NOT NULL DEFAULT 0,
+  task_minutes INTEGER NOT NULL DEFAULT 0,
+  regular_minutes INTEGER NOT NULL DEFAULT 0,
+  overtime_minutes INTEGER NOT NULL DEFAULT 0,
+  approved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  note TEXT,
+  UNIQUE (organization_id, user_id, period_start),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_org_period
+ON public.timesheets(organization_id, period_start);
+
+-- The days of an approved timesheet as they were when it was approved
+CREATE TABLE IF NOT EXISTS public.timesheet_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  timesheet_id UUID NOT NULL REFERENCES public.timesheets(id) ON DELETE CASCADE,
+  local_date DATE NOT NULL,
+  status TEXT NOT NULL,
+  clock_in_at TIMESTAMP WITH TIME ZONE,
+  clock_out_at TIMESTAMP WITH TIME ZONE,
+  scheduled_minutes INTEGER NOT NULL DEFAULT 0,
+  attendance_minutes INTEGER NOT NULL DEFAULT 0,
+  task_minutes INTEGER NOT NULL DEFAULT 0,
+  regular_minutes INTEGER NOT NULL DEFAULT 0,
+  overtime_minutes INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (timesheet_id, local_date)
+);
+
+-- The pay period containing a date
+CREATE OR REPLACE FUNCTION public.get_timesheet_period(p_org UUID, p_date DATE)
+RETURNS TABLE (period_start DATE, period_end DATE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_length INTEGER;
+  v_anchor DATE;
+BEGIN
+  SELECT CASE WHEN o.timesheet_period = 'biweekly' THEN 14 ELSE 7 END, o.timesheet_period_anchor
+  INTO v_length, v_anchor
+  FROM public.organizations o
+  WHERE o.id = p_org;
+
+  v_length := COALESCE(v_length, 7);
+  period_start := p_date - (((p_date - COALESCE(v_anchor, DATE '2025-01-06')) % v_length) + v_length) % v_length;
+  period_end := period_start + v_length - 1;
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_timesheet_period(UUID, DATE) IS
+  'Returns the first and last day of the pay period containing a date';
+
+-- Minutes a member spent on the organization's tasks per local date. A task
+-- is worked on from a "start" log until the next log of the member on the
+-- task; time still running is not counted until it is paused or completed.
+CREATE OR REPLACE FUNCTION public.get_task_minutes(p_org UUID, p_user UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (local_date DATE, task_minutes INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_user IS DISTINCT FROM auth.uid() AND NOT public.can_review_leave(p_org, p_user) THEN
+    RAISE EXCEPTION 'Not allowed to view the time of this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.local_date, floor(sum(extract(epoch FROM s.ended_at - s.started_at)) / 60)::integer
+  FROM (
+    SELECT
+      public.calculate_local_date(tl.timestamp, p_org) AS local_date,
+      tl.action,
+      tl.timestamp AS started_at,
+      lead(tl.timestamp) OVER (PARTITION BY tl.task_id ORDER BY tl.timestamp) AS ended_at
+    FROM public.time_logs tl
+    JOIN public.tasks t ON t.id = tl.task_id
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE p.organization_id = p_org
+      AND tl.user_id = p_user
+  ) s
+  WHERE s.action = 'start'
+    AND s.ended_at IS NOT NULL
+    AND s.local_date BETWEEN p_from AND p_to
+  GROUP BY s.local_date;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_task_minutes(UUID, UUID, DATE, DATE) IS
+  'Returns the minutes a member logged on tasks on each date of a range';
+
+-- The days of a member's timesheet, computed from the current attendance.
+-- Regular time is attended time up to the length of the shift; the rest is
+-- overtime, except on days without a real clock-out.
+CREATE OR REPLACE FUNCTION public.get_timesheet(p_org UUID, p_user UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  local_date DATE,
+  status TEXT,
+  clock_in_at TIMESTAMP WITH TIME ZONE,
+  clock_out_at TIMESTAMP WITH TIME ZONE,
+  missing_clock_out BOOLEAN,
+  scheduled_minutes INTEGER,
+  attendance_minutes INTEGER,
+  task_minutes INTEGER,
+  regular_minutes INTEGER,
+  overtime_minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_user IS DISTINCT FROM auth.uid() AND NOT public.can_review_leave(p_org, p_user) THEN
+    RAISE EXCEPTION 'Not allowed to view the timesheet of this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 62 THEN
+    RAISE EXCEPTION 'A timesheet covers at most two months'
+      USING HINT = 'invalid_range';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.local_date,
+    s.status,
+    s.clock_in_at,
+    s.clock_out_at,
+    s.missing_clock_out,
+    shift.minutes,
+    s.worked_minutes,
+    COALESCE(tm.task_minutes, 0),
+    LEAST(s.worked_minutes, shift.minutes),
+    CASE WHEN s.missing_clock_out THEN 0 ELSE GREATEST(0, s.worked_minutes - shift.minutes) END
+  FROM public.get_attendance_statuses(p_org, p_from, p_to, p_user) s
+  LEFT JOIN public.get_task_minutes(p_org, p_user, p_from, p_to) tm ON tm.local_date = s.local_date
+  CROSS JOIN LATERAL (
+    SELECT COALESCE((
+      SELECT floor(extract(epoch FROM ms.shift_end - ms.shift_start) / 60)::integer
+      FROM public.get_member_shift(p_org, p_user, s.local_date) ms
+    ), 0) AS minutes
+  ) shift
+  ORDER BY s.local_date;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_timesheet(UUID, UUID, DATE, DATE) IS
+  'Returns attended, task, regular and overtime minutes of a member on each date of a range';
+
+-- Totals of the pay period for every member the current user reviews, from
+-- the approved timesheet where there is one
+CREATE OR REPLACE FUNCTION public.get_timesheet_summaries(p_org UUID, p_period_start DATE)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  timesheet_id UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  attendance_minutes INTEGER,
+  task_minutes INTEGER,
+  regular_minutes INTEGER,
+  overtime_minutes INTEGER,
+  open_days INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_period RECORD;
+  v_member RECORD;
+  v_timesheet public.timesheets;
+BEGIN
+  SELECT * INTO v_period FROM public.get_timesheet_period(p_org, p_period_start);
+
+  FOR v_member IN
+    SELECT om.user_id, u.full_name, u.email
+    FROM public.organization_members om
+    JOIN public.users u ON u.id = om.user_id
+    WHERE om.organization_id = p_org
+      AND public.can_review_leave(p_org, om.user_id)
+    ORDER BY u.full_name
+  LOOP
+    SELECT * INTO v_timesheet
+    FROM public.timesheets t
+    WHERE t.organization_id = p_org
+      AND t.user_id = v_member.user_id
+      AND t.period_start = v_period.period_start;
+
+    user_id := v_member.user_id;
+    full_name := v_member.full_name;
+    email := v_member.email;
+    timesheet_id := v_timesheet.id;
+    approved_at := v_timesheet.approved_at;
+
+    IF v_timesheet.id IS NOT NULL THEN
+      attendance_minutes := v_timesheet.attendance_minutes;
+      task_minutes := v_timesheet.task_minutes;
+      regular_minutes := v_timesheet.regular_minutes;
+      overtime_minutes := v_timesheet.overtime_minutes;
+      open_days := 0;
+    ELSE
+      SELECT
+        COALESCE(sum(d.attendance_minutes), 0)::integer,
+        COALESCE(sum(d.task_minutes), 0)::integer,
+        COALESCE(sum(d.regular_minutes), 0)::integer,
+        COALESCE(sum(d.overtime_minutes), 0)::integer,
+        count(*) FILTER (WHERE d.clock_in_at IS NOT NULL AND d.clock_out_at IS NULL)::integer
+      INTO attendance_minutes, task_minutes, regular_minutes, overtime_minutes, open_days
+      FROM public.get_timesheet(p_org, v_member.user_id, v_period.period_start, v_period.period_end) d;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_timesheet_summaries(UUID, DATE) IS
+  'Returns the pay period totals of every member the current user reviews';
+
+-- Approves a member's timesheet for a finished pay period and locks it
+CREATE OR REPLACE FUNCTION public.approve_timesheet(
+  p_org UUID,
+  p_user UUID,
+  p_period_start DATE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.timesheets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_period RECORD;
+  v_timesheet public.timesheets;
+BEGIN
+  IF NOT public.can_review_leave(p_org, p_user) THEN
+    RAISE EXCEPTION 'Not allowed to approve the timesheet of this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  SELECT * INTO v_period FROM public.get_timesheet_period(p_org, p_period_start);
+
+  IF v_period.period_start <> p_period_start THEN
+    RAISE EXCEPTION 'Timesheets are approved for whole pay periods'
+      USING HINT = 'invalid_period';
+  END IF;
+
+  IF v_period.period_end >= public.calculate_local_date(now(), p_org) THEN
+    RAISE EXCEPTION 'The pay period is not over yet'
+      USING HINT = 'period_not_over';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheets
+    WHERE organization_id = p_org
+      AND user_id = p_user
+      AND period_start = p_period_start
+  ) THEN
+    RAISE EXCEPTION 'The timesheet is already approved'
+      USING HINT = 'already_approved';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_checkins
+    WHERE org_id = p_org
+      AND user_id = p_user
+      AND local_date BETWEEN v_period.period_start AND v_period.period_end
+      AND clock_out_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'The member is still clocked in during this period'
+      USING HINT = 'open_session';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_corrections
+    WHERE organization_id = p_org
+      AND user_id = p_user
+      AND local_date BETWEEN v_period.period_start AND v_period.period_end
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Attendance corrections in this period are waiting for review'
+      USING HINT = 'pending_corrections';
+  END IF;
+
+  INSERT INTO public.timesheets (organization_id, user_id, period_start, period_end, approved_by, note)
+  VALUES (p_org, p_user, v_period.period_start, v_period.period_end, auth.uid(), NULLIF(btrim(p_note), ''))
+  RETURNING * INTO v_timesheet;
+
+  INSERT INTO public.timesheet_entries (
+    timesheet_id, local_date, status, clock_in_at, clock_out_at,
+    scheduled_minutes, attendance_minutes, task_minutes, regular_minutes, overtime_minutes
+  )
+  SELECT
+    v_timesheet.id, d.local_date, d.status, d.clock_in_at, d.clock_out_at,
+    d.scheduled_minutes, d.attendance_minutes, d.task_minutes, d.regular_minutes, d.overtime_minutes
+  FROM public.get_timesheet(p_org, p_user, v_period.period_start, v_period.period_end) d;
+
+  UPDATE public.timesheets t
+  SET attendance_minutes = totals.attendance_minutes,
+      task_minutes = totals.task_minutes,
+      regular_minutes = totals.regular_minutes,
+      overtime_minutes = totals.overtime_minutes
+  FROM (
+    SELECT
+      COALESCE(sum(e.attendance_minutes), 0)::integer AS attendance_minutes,
+      COALESCE(sum(e.task_minutes), 0)::integer AS task_minutes,
+      COALESCE(sum(e.regular_minutes), 0)::integer AS regular_minutes,
+      COALESCE(sum(e.overtime_minutes), 0)::integer AS overtime_minutes
+    FROM public.timesheet_entries e
+    WHERE e.timesheet_id = v_timesheet.id
+  ) totals
+  WHERE t.id = v_timesheet.id
+  RETURNING t.* INTO v_timesheet;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+COMMENT ON FUNCTION public.approve_timesheet(UUID, UUID, DATE, TEXT) IS
+  'Approves and locks a member''s timesheet for a finished pay period';
+
+-- Owners and admins reopen an approved timesheet so its attendance can be
+-- changed again; it has to be approved again afterwards
+CREATE OR REPLACE FUNCTION public.reopen_timesheet(p_timesheet UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_timesheet public.timesheets;
+BEGIN
+  SELECT * INTO v_timesheet
+  FROM public.timesheets
+  WHERE id = p_timesheet
+  FOR UPDATE;
+
+  IF v_timesheet.id IS NULL THEN
+    RAISE EXCEPTION 'Timesheet not found'
+      USING HINT = 'timesheet_not_found';
+  END IF;
+
+  IF COALESCE(public.get_org_role(v_timesheet.organization_id, auth.uid())::text, '') NOT IN ('owner', 'admin')
+    OR NOT public.can_review_leave(v_timesheet.organization_id, v_timesheet.user_id)
+  THEN
+    RAISE EXCEPTION 'Only owners and admins can reopen a timesheet'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  DELETE FROM public.timesheets WHERE id = p_timesheet;
+END;
+$$;
+
+COMMENT ON FUNCTION public.reopen_timesheet(UUID) IS
+  'Removes the approval of a timesheet and unlocks its attendance';
+
+CREATE OR REPLACE FUNCTION public.is_timesheet_locked(p_org UUID, p_user UUID, p_date DATE)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.timesheets
+    WHERE organization_id = p_org
+      AND user_id = p_user
+      AND p_date BETWEEN period_start AND period_end
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_timesheet_locked(UUID, UUID, DATE) IS
+  'True when the date is in an approved timesheet of the member';
+
+-- Check-ins in an approved period cannot be added, changed or removed. This
+-- runs before local_date is set, so the date is taken from the clock-in.
+CREATE OR REPLACE FUNCTION public.prevent_locked_attendance_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_timesheet_locked(OLD.org_id, OLD.user_id, OLD.local_date) THEN
+    RAISE EXCEPTION 'The timesheet of this period is approved'
+      USING HINT = 'period_locked';
+  END IF;
+
+  IF TG_OP <> 'DELETE'
+    AND public.is_timesheet_locked(NEW.org_id, NEW.user_id, public.calculate_local_date(NEW.clock_in_at, NEW.org_id))
+  THEN
+    RAISE EXCEPTION 'The timesheet of this period is approved'
+      USING HINT = 'period_locked';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS prevent_locked_attendance_change_trigger ON public.attendance_checkins;
+
+CREATE TRIGGER prevent_locked_attendance_change_trigger
+  BEFORE INSERT OR UPDATE OF clock_in_at, clock_out_at OR DELETE ON public.attendance_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_locked_attendance_change();
+
+COMMENT ON FUNCTION public.prevent_locked_attendance_change() IS
+  'Rejects changes to check-ins in a period with an approved timesheet';
+
+CREATE OR REPLACE FUNCTION public.prevent_locked_attendance_correction()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_timesheet_locked(NEW.organization_id, NEW.user_id, NEW.local_date) THEN
+    RAISE EXCEPTION 'The timesheet of this period is approved'
+      USING HINT = 'period_locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS prevent_locked_attendance_correction_trigger ON public.attendance_corrections;
+
+CREATE TRIGGER prevent_locked_attendance_correction_trigger
+  BEFORE INSERT ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_locked_attendance_correction();
+
+COMMENT ON FUNCTION public.prevent_locked_attendance_correction() IS
+  'Rejects correction requests for dates in an approved timesheet';
+
+-- RLS policies: timesheets are written through approve_timesheet() and
+-- reopen_timesheet() only
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timesheet_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "timesheets_select_own_or_reviewer" ON public.timesheets;
+DROP POLICY IF EXISTS "timesheet_entries_select_own_or_reviewer" ON public.timesheet_entries;
+
+CREATE POLICY "timesheets_select_own_or_reviewer"
+ON public.timesheets FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR public.can_review_leave(organization_id, user_id)
+);
+
+CREATE POLICY "timesheet_entries_select_own_or_reviewer"
+ON public.timesheet_entries FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.timesheets t
+    WHERE t.id = timesheet_id
+      AND (t.user_id = auth.uid() OR public.can_review_leave(t.organization_id, t.user_id))
+  )
+);
@@ -0,0 +1,410 @@
+-- Migration: Task timer and manual time entries
+-- Time on a task is tracked per member in time_logs: 'start' or 'resume' opens
+-- a segment, 'pause' or 'complete' closes it. The database now stamps those
+-- logs itself and stores the length of each closed segment in duration, so
+-- the timer keeps running across reloads and devices and totals no longer
+-- depend on the client's clock. A member runs one timer at a time.
+--
+-- Members can also log time they forgot to track ('manual' logs, with a note).
+-- Every log with a duration covers the `duration` seconds before its
+-- timestamp. Tasks get an optional estimate to compare the time spent with.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'timelog_action')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_enum
+      WHERE enumlabel = 'manual'
+      AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'timelog_action')
+    ) THEN
+    ALTER TYPE timelog_action ADD VALUE 'manual';
+  END IF;
+END $$;
+
+ALTER TABLE public.time_logs
+ADD COLUMN IF NOT EXISTS note TEXT;
+
+COMMENT ON COLUMN public.time_logs.note IS
+  'What the time was spent on, for manual entries';
+
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS estimated_hours NUMERIC(6,2);
+
+ALTER TABLE public.tasks
+DROP CONSTRAINT IF EXISTS tasks_estimated_hours_check;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_estimated_hours_check
+  CHECK (estimated_hours IS NULL OR estimated_hours > 0);
+
+COMMENT ON COLUMN public.tasks.estimated_hours IS
+  'Hours the task is expected to take, compared with the time logged on it';
+
+-- The running timer in the header follows changes made in other tabs
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'time_logs'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.time_logs;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_time_logs_task_user_timestamp
+ON public.time_logs(task_id, user_id, timestamp);
+
+CREATE INDEX IF NOT EXISTS idx_time_logs_user_timestamp
+ON public.time_logs(user_id, timestamp);
+
+-- Durations of the segments closed before this migration
+UPDATE public.time_logs tl
+SET duration = GREATEST(0, floor(extract(epoch FROM tl.timestamp - s.previous_at)))::integer
+FROM (
+  SELECT
+    id,
+    lag(timestamp) OVER w AS previous_at,
+    lag(action::text) OVER w AS previous_action
+  FROM public.time_logs
+  WINDOW w AS (PARTITION BY task_id, user_id ORDER BY timestamp)
+) s
+WHERE s.id = tl.id
+  AND tl.duration IS NULL
+  AND tl.action::text IN ('pause', 'complete')
+  AND s.previous_action IN ('start', 'resume');
+
+-- When the member's timer on the task started, or NULL when it isn't running
+CREATE OR REPLACE FUNCTION public.get_task_timer_start(p_task UUID, p_user UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT CASE WHEN tl.action::text IN ('start', 'resume') THEN tl.timestamp END
+  FROM public.time_logs tl
+  WHERE tl.task_id = p_task
+    AND tl.user_id = p_user
+    AND tl.action::text <> 'manual'
+  ORDER BY tl.timestamp DESC
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION public.get_task_timer_start(UUID, UUID) IS
+  'Returns when the member''s running timer on a task started, NULL when it is not running';
+
+-- The assignee and collaborators of a task log time on it
+CREATE OR REPLACE FUNCTION public.can_log_task_time(p_task UUID, p_user UUID DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = p_task AND assignee_id = p_user
+  ) OR public.is_task_collaborator(p_task, p_user);
+$$;
+
+COMMENT ON FUNCTION public.can_log_task_time(UUID, UUID) IS
+  'True when the user is the assignee or a collaborator of the task';
+
+-- Stamps timer logs with the server time and computes the length of the
+-- segment a pause or completion closes
+CREATE OR REPLACE FUNCTION public.set_time_log_duration()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_running_since TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.action::text = 'manual' THEN
+    IF NEW.duration IS NULL OR NEW.duration <= 0 OR NEW.duration > 86400 THEN
+      RAISE EXCEPTION 'A time entry lasts between one minute and 24 hours'
+        USING HINT = 'invalid_duration';
+    END IF;
+
+    IF NEW.timestamp > now() THEN
+      RAISE EXCEPTION 'Time can''t be logged in the future'
+        USING HINT = 'future_time';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  NEW.timestamp := now();
+  NEW.note := NULL;
+  v_running_since := public.get_task_timer_start(NEW.task_id, NEW.user_id);
+
+  IF NEW.action::text IN ('start', 'resume') THEN
+    IF v_running_since IS NOT NULL THEN
+      RAISE EXCEPTION 'The timer is already running on this task'
+        USING HINT = 'timer_running';
+    END IF;
+
+    NEW.duration := NULL;
+    NEW.action := CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.time_logs
+        WHERE task_id = NEW.task_id
+          AND user_id = NEW.user_id
+          AND action::text = 'start'
+      ) THEN 'resume'
+      ELSE 'start'
+    END;
+  ELSIF v_running_since IS NOT NULL THEN
+    NEW.duration := GREATEST(0, floor(extract(epoch FROM NEW.timestamp - v_running_since)))::integer;
+  ELSIF NEW.action::text = 'pause' THEN
+    RAISE EXCEPTION 'The timer is not running on this task'
+      USING HINT = 'timer_not_running';
+  ELSE
+    -- Completing a paused task closes no segment
+    NEW.duration := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS set_time_log_duration ON public.time_logs;
+
+CREATE TRIGGER set_time_log_duration
+BEFORE INSERT ON public.time_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.set_time_log_duration();
+
+COMMENT ON FUNCTION public.set_time_log_duration() IS
+  'Stamps timer logs with the server time and stores the duration of the segment a pause or completion closes';
+
+-- Starts (or resumes) the current user's timer on a task, pausing the timer
+-- running on any other task
+CREATE OR REPLACE FUNCTION public.start_task_timer(p_task UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.can_log_task_time(p_task, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the assignee and collaborators can track time on this task'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  v_started_at := public.get_task_timer_start(p_task, auth.uid());
+  IF v_started_at IS NOT NULL THEN
+    RETURN v_started_at;
+  END IF;
+
+  INSERT INTO public.time_logs (task_id, user_id, action)
+  SELECT r.task_id, auth.uid(), 'pause'
+  FROM (
+    SELECT DISTINCT tl.task_id
+    FROM public.time_logs tl
+    WHERE tl.user_id = auth.uid()
+      AND tl.task_id <> p_task
+  ) r
+  WHERE public.get_task_timer_start(r.task_id, auth.uid()) IS NOT NULL;
+
+  INSERT INTO public.time_logs (task_id, user_id, action)
+  VALUES (p_task, auth.uid(), 'start')
+  RETURNING timestamp INTO v_started_at;
+
+  RETURN v_started_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.start_task_timer(UUID) IS
+  'Starts or resumes the current user''s timer on a task and pauses their other running timer';
+
+-- Pauses the current user's timer on a task, or logs its completion.
+-- Returns the seconds of the segment it closed, if any.
+CREATE OR REPLACE FUNCTION public.stop_task_timer(p_task UUID, p_action TEXT DEFAULT 'pause')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_duration INTEGER;
+BEGIN
+  IF p_action NOT IN ('pause', 'complete') THEN
+    RAISE EXCEPTION 'A timer is stopped by pausing or completing the task'
+      USING HINT = 'invalid_action';
+  END IF;
+
+  IF NOT public.can_log_task_time(p_task, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the assignee and collaborators can track time on this task'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF p_action = 'pause' AND public.get_task_timer_start(p_task, auth.uid()) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.time_logs (task_id, user_id, action)
+  VALUES (p_task, auth.uid(), p_action)
+  RETURNING duration INTO v_duration;
+
+  RETURN v_duration;
+END;
+$$;
+
+COMMENT ON FUNCTION public.stop_task_timer(UUID, TEXT) IS
+  'Pauses the current user''s timer on a task or logs its completion; returns the seconds tracked';
+
+-- Logs time the current user spent on a task without the timer
+CREATE OR REPLACE FUNCTION public.log_task_time(
+  p_task UUID,
+  p_started_at TIMESTAMP WITH TIME ZONE,
+  p_minutes INTEGER,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT public.can_log_task_time(p_task, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the assignee and collaborators can log time on this task'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  INSERT INTO public.time_logs (task_id, user_id, action, timestamp, duration, note)
+  VALUES (
+    p_task,
+    auth.uid(),
+    'manual',
+    p_started_at + make_interval(mins => p_minutes),
+    p_minutes * 60,
+    NULLIF(trim(p_note), '')
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.log_task_time(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, TEXT) IS
+  'Logs a manual time entry of the current user on a task';
+
+-- Time logged on each task by everyone, and when the current user's timer
+-- on it started if it is running
+CREATE OR REPLACE FUNCTION public.get_task_time_totals(p_tasks UUID[])
+RETURNS TABLE (task_id UUID, total_seconds BIGINT, running_since TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    COALESCE((
+      SELECT sum(tl.duration)
+      FROM public.time_logs tl
+      WHERE tl.task_id = t.id
+    ), 0)::bigint,
+    public.get_task_timer_start(t.id, auth.uid())
+  FROM public.tasks t
+  WHERE t.id = ANY(p_tasks)
+    AND public.can_view_project(t.project_id, auth.uid());
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_task_time_totals(UUID[]) IS
+  'Returns the seconds logged on each task and when the current user''s timer on it started';
+
+-- The task the current user's timer is running on in an organization
+CREATE OR REPLACE FUNCTION public.get_running_task_timer(p_org UUID)
+RETURNS TABLE (
+  task_id UUID,
+  task_title TEXT,
+  project_id UUID,
+  project_name TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  total_seconds BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.title,
+    p.id,
+    p.name,
+    s.started_at,
+    COALESCE((
+      SELECT sum(tl.duration)
+      FROM public.time_logs tl
+      WHERE tl.task_id = t.id
+    ), 0)::bigint
+  FROM (
+    SELECT DISTINCT tl.task_id
+    FROM public.time_logs tl
+    WHERE tl.user_id = auth.uid()
+  ) r
+  JOIN public.tasks t ON t.id = r.task_id
+  JOIN public.projects p ON p.id = t.project_id
+  CROSS JOIN LATERAL (
+    SELECT public.get_task_timer_start(t.id, auth.uid()) AS started_at
+  ) s
+  WHERE p.organization_id = p_org
+    AND s.started_at IS NOT NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_running_task_timer(UUID) IS
+  'Returns the task the current user''s timer is running on in an organization, if any';
+
+-- Task time per local date now comes from the stored durations, counted on
+-- the date each segment or manual entry started
+CREATE OR REPLACE FUNCTION public.get_task_minutes(p_org UUID, p_user UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (local_date DATE, task_minutes INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_user IS DISTINCT FROM auth.uid() AND NOT public.can_review_leave(p_org, p_user) THEN
+    RAISE EXCEPTION 'Not allowed to view the time of this member'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.local_date, floor(sum(s.duration) / 60)::integer
+  FROM (
+    SELECT
+      public.calculate_local_date(tl.timestamp - make_interval(secs => tl.duration), p_org) AS local_date,
+      tl.duration
+    FROM public.time_logs tl
+    JOIN public.tasks t ON t.id = tl.task_id
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE p.organization_id = p_org
+      AND tl.user_id = p_user
+      AND tl.duration IS NOT NULL
+  ) s
+  WHERE s.local_date BETWEEN p_from AND p_to
+  GROUP BY s.local_date;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_task_minutes(UUID, UUID, DATE, DATE) IS
+  'Returns the minutes a member logged on tasks on each date of a range';
@@ -0,0 +1,65 @@
+-- Migration: Estimate vs actual report
+-- Compares the hours tasks were estimated to take (tasks.estimated_hours)
+-- with the time logged on them in time_logs, so owners and admins can
+-- calibrate planning. The report returns one row per task; Analytics groups
+-- them by project, phase, assignee or task type.
+
+CREATE OR REPLACE FUNCTION public.get_estimate_report(p_org UUID, p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  task_id UUID,
+  title TEXT,
+  task_type TEXT,
+  status TEXT,
+  project_id UUID,
+  project_name TEXT,
+  phase_id UUID,
+  phase_name TEXT,
+  assignee_id UUID,
+  assignee_name TEXT,
+  estimated_hours NUMERIC,
+  actual_seconds BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF COALESCE(public.get_org_role(p_org, auth.uid())::text, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can view the estimate report'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.title,
+    COALESCE(t.task_type, 'task'),
+    t.status::text,
+    p.id,
+    p.name,
+    ph.id,
+    ph.name,
+    t.assignee_id,
+    u.full_name,
+    t.estimated_hours,
+    COALESCE(l.actual_seconds, 0)::bigint
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  LEFT JOIN public.phases ph ON ph.id = t.phase_id
+  LEFT JOIN public.users u ON u.id = t.assignee_id
+  LEFT JOIN (
+    SELECT tl.task_id, sum(tl.duration) AS actual_seconds
+    FROM public.time_logs tl
+    WHERE tl.duration IS NOT NULL
+    GROUP BY tl.task_id
+  ) l ON l.task_id = t.id
+  WHERE p.organization_id = p_org
+    AND (p_since IS NULL OR t.created_at >= p_since)
+    AND (t.estimated_hours IS NOT NULL OR l.actual_seconds > 0);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_estimate_report(UUID, TIMESTAMP WITH TIME ZONE) IS
+  'Returns the estimated hours and the seconds logged of each task created since a date that has either';
@@ -0,0 +1,345 @@
+-- Migration: Scheduled task deadline job
+-- send_due_date_reminders() existed but nothing ran it, and nothing moved
+-- past-due tasks to 'overdue'. process_task_deadlines() now does both every
+-- five minutes through pg_cron:
+--   - Reminders (task_due_reminder) go to the assignee and collaborators at
+--     the organization's offsets before the due time
+--     (organizations.due_reminder_offsets, minutes; 24 hours and 1 hour by
+--     default). Each offset is sent once per due date, so extending a
+--     deadline starts the reminders over; when several offsets have passed
+--     at once only the closest one is sent.
+--   - Open tasks past their due time become 'overdue'; the assignee and
+--     collaborators are told, and so are the supervisors of the assignee's
+--     teams (or the task's creator when no team supervisor is found) unless
+--     the organization turned that off.
+-- Due dates picked as a calendar date are stored at midnight UTC; such tasks
+-- are due at the end of that day in the organization's time zone.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'task_overdue'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'task_overdue';
+  END IF;
+END $$;
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS due_reminder_offsets INTEGER[] NOT NULL DEFAULT '{1440,60}',
+ADD COLUMN IF NOT EXISTS notify_supervisor_on_overdue BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.organizations
+DROP CONSTRAINT IF EXISTS organizations_due_reminder_offsets_check;
+
+ALTER TABLE public.organizations
+ADD CONSTRAINT organizations_due_reminder_offsets_check
+  CHECK (
+    cardinality(due_reminder_offsets) <= 5
+    AND 0 < ALL (due_reminder_offsets)
+    AND 10080 >= ALL (due_reminder_offsets)
+  );
+
+COMMENT ON COLUMN public.organizations.due_reminder_offsets IS
+  'Minutes before a task is due at which its assignee and collaborators are reminded (at most a week)';
+COMMENT ON COLUMN public.organizations.notify_supervisor_on_overdue IS
+  'Whether the assignee''s supervisors are notified when a task becomes overdue';
+
+-- Reminders and overdue notices already sent, per due time
+CREATE TABLE IF NOT EXISTS public.task_deadline_notices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder', 'overdue')),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- The reminder offset in minutes; 0 for the overdue notice
+  offset_minutes INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, kind, due_at, offset_minutes)
+);
+
+-- Only the job reads and writes the notices
+ALTER TABLE public.task_deadline_notices ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.task_deadline_notices IS
+  'Due reminders and overdue notices sent for each task and due time';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_open_due_date
+ON public.tasks(due_date)
+WHERE status IN ('todo', 'in_progress') AND due_date IS NOT NULL;
+
+-- When a task is actually due
+CREATE OR REPLACE FUNCTION public.get_task_due_at(p_due_date TIMESTAMP WITH TIME ZONE, p_org UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT CASE
+    WHEN p_due_date = date_trunc('day', p_due_date AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+      THEN ((p_due_date AT TIME ZONE 'UTC')::date + 1)::timestamp AT TIME ZONE public.get_org_timezone(p_org)
+    ELSE p_due_date
+  END;
+$$;
+
+COMMENT ON FUNCTION public.get_task_due_at(TIMESTAMP WITH TIME ZONE, UUID) IS
+  'Returns when a task is due; date-only due dates end with the day in the organization''s time zone';
+
+-- "45 minutes", "3 hours", "2 days"
+CREATE OR REPLACE FUNCTION public.format_time_until(p_minutes INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_minutes < 60 THEN p_minutes || CASE WHEN p_minutes = 1 THEN ' minute' ELSE ' minutes' END
+    WHEN p_minutes < 2880 THEN round(p_minutes / 60.0) || CASE WHEN round(p_minutes / 60.0) = 1 THEN ' hour' ELSE ' hours' END
+    ELSE round(p_minutes / 1440.0) || ' days'
+  END;
+$$;
+
+COMMENT ON FUNCTION public.format_time_until(INTEGER) IS
+  'Formats a number of minutes for notification messages';
+
+-- Sends the reminders that are due. Returns the number of tasks reminded.
+DROP FUNCTION IF EXISTS public.send_due_date_reminders();
+
+CREATE OR REPLACE FUNCTION public.send_due_date_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  r RECORD;
+  v_minutes_left INTEGER;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT
+      t.id,
+      t.title,
+      t.task_type,
+      t.priority,
+      t.due_date,
+      t.assignee_id,
+      p.name AS project_name,
+      d.due_at,
+      (
+        SELECT min(o)
+        FROM unnest(org.due_reminder_offsets) o
+        WHERE d.due_at - make_interval(mins => o) <= now()
+      ) AS offset_minutes
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    JOIN public.organizations org ON org.id = p.organization_id
+    CROSS JOIN LATERAL (SELECT public.get_task_due_at(t.due_date, p.organization_id) AS due_at) d
+    WHERE t.due_date IS NOT NULL
+      AND t.status IN ('todo', 'in_progress')
+      AND d.due_at > now()
+      AND d.due_at <= now() + INTERVAL '7 days'
+  LOOP
+    CONTINUE WHEN r.offset_minutes IS NULL;
+
+    -- A closer reminder for this due time went out already
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.task_deadline_notices n
+      WHERE n.task_id = r.id
+        AND n.kind = 'reminder'
+        AND n.due_at = r.due_at
+        AND n.offset_minutes <= r.offset_minutes
+    );
+
+    INSERT INTO public.task_deadline_notices (task_id, kind, due_at, offset_minutes)
+    VALUES (r.id, 'reminder', r.due_at, r.offset_minutes);
+
+    v_minutes_left := GREATEST(1, ceil(extract(epoch FROM r.due_at - now()) / 60))::integer;
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    SELECT
+      recipient.user_id,
+      'task_due_reminder',
+      jsonb_build_object(
+        'task_id', r.id,
+        'task_title', r.title,
+        'task_type', COALESCE(r.task_type, 'task'),
+        'priority', r.priority,
+        'due_date', r.due_at,
+        'project_name', r.project_name,
+        'hours_until_due', round(v_minutes_left / 60.0, 1),
+        'message',
+          CASE
+            WHEN v_minutes_left <= 360 THEN '⚠️ Urgent: "' || r.title || '" is due in ' || public.format_time_until(v_minutes_left)
+            ELSE 'Reminder: "' || r.title || '" is due in ' || public.format_time_until(v_minutes_left)
+          END
+      )
+    FROM (
+      SELECT r.assignee_id AS user_id WHERE r.assignee_id IS NOT NULL
+      UNION
+      SELECT tc.user_id FROM public.task_collaborators tc WHERE tc.task_id = r.id
+    ) recipient;
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+COMMENT ON FUNCTION public.send_due_date_reminders() IS
+  'Reminds assignees and collaborators of tasks due within the organization''s reminder offsets; returns the number of tasks reminded';
+
+-- Moves open tasks past their due time to 'overdue' and notifies the people
+-- involved. Returns the number of tasks marked.
+CREATE OR REPLACE FUNCTION public.mark_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  r RECORD;
+  v_assignee_name TEXT;
+  v_marked INTEGER := 0;
+BEGIN
+  FOR r IN
+    UPDATE public.tasks t
+    SET status = 'overdue',
+        updated_at = now()
+    FROM public.projects p
+    JOIN public.organizations org ON org.id = p.organization_id
+    WHERE p.id = t.project_id
+      AND t.due_date IS NOT NULL
+      AND t.status IN ('todo', 'in_progress')
+      AND public.get_task_due_at(t.due_date, p.organization_id) <= now()
+    RETURNING
+      t.id,
+      t.title,
+      t.task_type,
+      t.priority,
+      t.assignee_id,
+      t.created_by,
+      p.organization_id,
+      p.name AS project_name,
+      org.notify_supervisor_on_overdue,
+      public.get_task_due_at(t.due_date, p.organization_id) AS due_at
+  LOOP
+    v_marked := v_marked + 1;
+
+    -- Tasks moved back into progress become overdue again without a second notice
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.task_deadline_notices n
+      WHERE n.task_id = r.id
+        AND n.kind = 'overdue'
+        AND n.due_at = r.due_at
+    );
+
+    INSERT INTO public.task_deadline_notices (task_id, kind, due_at)
+    VALUES (r.id, 'overdue', r.due_at);
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    SELECT
+      recipient.user_id,
+      'task_overdue',
+      jsonb_build_object(
+        'task_id', r.id,
+        'task_title', r.title,
+        'task_type', COALESCE(r.task_type, 'task'),
+        'priority', r.priority,
+        'due_date', r.due_at,
+        'project_name', r.project_name,
+        'message', '"' || r.title || '" is overdue'
+      )
+    FROM (
+      SELECT r.assignee_id AS user_id WHERE r.assignee_id IS NOT NULL
+      UNION
+      SELECT tc.user_id FROM public.task_collaborators tc WHERE tc.task_id = r.id
+    ) recipient;
+
+    CONTINUE WHEN r.assignee_id IS NULL OR NOT r.notify_supervisor_on_overdue;
+
+    SELECT full_name INTO v_assignee_name FROM public.users WHERE id = r.assignee_id;
+
+    INSERT INTO public.notifications (user_id, type, payload)
+    SELECT
+      supervisor.user_id,
+      'task_overdue',
+      jsonb_build_object(
+        'task_id', r.id,
+        'task_title', r.title,
+        'task_type', COALESCE(r.task_type, 'task'),
+        'priority', r.priority,
+        'due_date', r.due_at,
+        'project_name', r.project_name,
+        'assignee_id', r.assignee_id,
+        'assignee_name', v_assignee_name,
+        'message', '"' || r.title || '" assigned to ' || COALESCE(v_assignee_name, 'a member') || ' is overdue'
+      )
+    FROM (
+      SELECT t.supervisor_id AS user_id
+      FROM public.teams t
+      JOIN public.team_members m ON m.team_id = t.id
+      WHERE t.organization_id = r.organization_id
+        AND m.user_id = r.assignee_id
+        AND t.supervisor_id IS NOT NULL
+        AND t.supervisor_id <> r.assignee_id
+      UNION
+      -- Without a team supervisor, whoever created the task hears about it
+      SELECT r.created_by
+      WHERE r.created_by IS NOT NULL
+        AND r.created_by <> r.assignee_id
+        AND NOT EXISTS (
+          SELECT 1
+          FROM public.teams t
+          JOIN public.team_members m ON m.team_id = t.id
+          WHERE t.organization_id = r.organization_id
+            AND m.user_id = r.assignee_id
+            AND t.supervisor_id IS NOT NULL
+            AND t.supervisor_id <> r.assignee_id
+        )
+    ) supervisor
+    -- Collaborators were told above
+    WHERE NOT public.is_task_collaborator(r.id, supervisor.user_id);
+  END LOOP;
+
+  RETURN v_marked;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_overdue_tasks() IS
+  'Marks open tasks past their due time overdue and notifies assignees, collaborators and supervisors; returns the number of tasks marked';
+
+-- The scheduled job
+CREATE OR REPLACE FUNCTION public.process_task_deadlines()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_reminded INTEGER;
+  v_overdue INTEGER;
+BEGIN
+  v_reminded := public.send_due_date_reminders();
+  v_overdue := public.mark_overdue_tasks();
+  RETURN jsonb_build_object('reminded', v_reminded, 'overdue', v_overdue);
+END;
+$$;
+
+COMMENT ON FUNCTION public.process_task_deadlines() IS
+  'Sends due reminders and marks overdue tasks; run every five minutes';
+
+REVOKE EXECUTE ON FUNCTION public.send_due_date_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_tasks() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_task_deadlines() FROM PUBLIC, anon, authenticated;
+
+-- Run every five minutes where pg_cron is available. Elsewhere (e.g. a local
+-- database), run SELECT public.process_task_deadlines(); from psql or any
+-- scheduler as a privileged role.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-task-deadlines', '*/5 * * * *', 'SELECT public.process_task_deadlines();');
+  END IF;
+END $$;
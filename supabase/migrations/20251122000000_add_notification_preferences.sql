@@ -0,0 +1,222 @@
+-- Migration: Notification preferences and delivery channels
+-- Each user chooses, per notification type, whether it shows in the app,
+-- is emailed right away and/or is included in a daily digest email
+-- (notification_preferences). Types without a row keep the defaults: in-app
+-- only.
+-- Every notification trigger (notify_task_assigned, notify_points_earned, ...)
+-- inserts into notifications; route_notification() runs before each insert,
+-- queues the email and digest deliveries (notification_deliveries) and drops
+-- the in-app row when the user muted it. The send-notification-emails edge
+-- function sends the queued deliveries over SMTP; pg_cron calls it through
+-- pg_net with the Vault secrets project_url (e.g.
+-- https://<project>.supabase.co) and service_role_key.
+
+DO $$
+BEGIN
+  -- Created by earlier migrations but missing from some databases
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'points_earned'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'points_earned';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'member_joined'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'member_joined';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT false,
+  digest BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+COMMENT ON TABLE public.notification_preferences IS
+  'How each user receives each notification type; missing rows mean in-app only';
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Emails waiting to be sent, right away (email) or in the next digest (digest)
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'digest')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT
+);
+
+COMMENT ON TABLE public.notification_deliveries IS
+  'Email and digest deliveries of notifications, sent by the send-notification-emails edge function';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending
+ON public.notification_deliveries(channel, created_at)
+WHERE sent_at IS NULL;
+
+-- Queues the email and digest deliveries of a notification and skips the
+-- in-app row when the user turned it off
+CREATE OR REPLACE FUNCTION public.route_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_pref RECORD;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT np.in_app, np.email, np.digest INTO v_pref
+  FROM public.notification_preferences np
+  WHERE np.user_id = NEW.user_id
+    AND np.type = NEW.type;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_pref.email THEN
+    INSERT INTO public.notification_deliveries (user_id, type, payload, channel)
+    VALUES (NEW.user_id, NEW.type, NEW.payload, 'email');
+  END IF;
+
+  IF v_pref.digest THEN
+    INSERT INTO public.notification_deliveries (user_id, type, payload, channel)
+    VALUES (NEW.user_id, NEW.type, NEW.payload, 'digest');
+  END IF;
+
+  IF NOT v_pref.in_app THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.route_notification() IS
+  'Applies the recipient''s notification preferences to a new notification';
+
+DROP TRIGGER IF EXISTS route_notification_trigger ON public.notifications;
+
+CREATE TRIGGER route_notification_trigger
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_notification();
+
+-- Notifications now reach email and Web Push, so members may no longer insert
+-- them for other users; the notify_* triggers are SECURITY DEFINER and keep
+-- inserting for everyone
+DROP POLICY IF EXISTS "System can insert notifications for any user" ON public.notifications;
+DROP POLICY IF EXISTS "Users can insert their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can insert their own notifications"
+ON public.notifications
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- RLS policies: users manage their own preferences; deliveries are only read
+-- and written by the trigger and the edge function (service role)
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_preferences_select_own" ON public.notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_insert_own" ON public.notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_update_own" ON public.notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_delete_own" ON public.notification_preferences;
+
+CREATE POLICY "notification_preferences_select_own"
+ON public.notification_preferences FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "notification_preferences_insert_own"
+ON public.notification_preferences FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "notification_preferences_update_own"
+ON public.notification_preferences FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "notification_preferences_delete_own"
+ON public.notification_preferences FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Asks the send-notification-emails edge function to send the queued
+-- deliveries: p_mode 'email' for the instant emails, 'digest' for the daily
+-- digest. Does nothing until pg_net and the Vault secrets are set up.
+CREATE OR REPLACE FUNCTION public.send_notification_emails(p_mode TEXT DEFAULT 'email')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  IF p_mode NOT IN ('email', 'digest') THEN
+    RAISE EXCEPTION 'Unknown delivery mode %', p_mode;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/send-notification-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := jsonb_build_object('mode', p_mode)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.send_notification_emails(TEXT) IS
+  'Asks the send-notification-emails edge function to send the queued email or digest deliveries';
+
+REVOKE EXECUTE ON FUNCTION public.send_notification_emails(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Emails every minute and the digest daily at 08:00 UTC where pg_cron is
+-- available. Elsewhere, call the edge function from any scheduler with the
+-- service role key.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('send-notification-emails', '* * * * *', 'SELECT public.send_notification_emails(''email'');');
+    PERFORM cron.schedule('send-notification-digests', '0 8 * * *', 'SELECT public.send_notification_emails(''digest'');');
+  END IF;
+END $$;
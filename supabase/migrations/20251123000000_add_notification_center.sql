@@ -0,0 +1,44 @@
+-- Migration: Notification center
+-- The /notifications page pages through all of a user's notifications and
+-- lets them archive the ones they want out of the way (archived_at).
+-- Dashboards show the unread, unarchived notifications per category; the
+-- counts come from get_unread_notification_counts().
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.notifications.archived_at IS
+  'When the user archived the notification; archived notifications are hidden from the bell and the inbox';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications(user_id, type)
+WHERE read_at IS NULL AND archived_at IS NULL;
+
+-- The current user's unread notifications per type
+CREATE OR REPLACE FUNCTION public.get_unread_notification_counts()
+RETURNS TABLE (
+  type TEXT,
+  unread_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT n.type::text, count(*)
+  FROM public.notifications n
+  WHERE n.user_id = auth.uid()
+    AND n.read_at IS NULL
+    AND n.archived_at IS NULL
+  GROUP BY n.type;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_unread_notification_counts() IS
+  'Returns the number of unread, unarchived notifications of the current user per type';
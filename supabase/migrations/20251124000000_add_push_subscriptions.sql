@@ -0,0 +1,133 @@
+-- Migration: Browser push notifications
+-- Each browser a user turns push on in registers a Web Push subscription
+-- (push_subscriptions, one row per device). When a notification is stored,
+-- send_push_notification() asks the send-push-notification edge function to
+-- push it to the user's devices. Notifications muted in-app are never stored
+-- (route_notification()) and so are not pushed either.
+-- The call goes through the pg_net extension and needs two Vault secrets:
+-- project_url (e.g. https://<project>.supabase.co) and service_role_key.
+-- Without them, notifications are stored as before and nothing is pushed.
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE public.push_subscriptions IS
+  'Web Push subscriptions of each user''s browsers';
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user
+ON public.push_subscriptions(user_id);
+
+-- Hands a new notification to the push sender when its user has a device
+-- subscribed
+CREATE OR REPLACE FUNCTION public.send_push_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  IF NEW.user_id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id)
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    SELECT decrypted_secret INTO v_project_url
+    FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+    SELECT decrypted_secret INTO v_service_role_key
+    FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF v_project_url IS NOT NULL AND v_service_role_key IS NOT NULL THEN
+      PERFORM net.http_post(
+        url := v_project_url || '/functions/v1/send-push-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || v_service_role_key
+        ),
+        body := jsonb_build_object('notification_id', NEW.id)
+      );
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    -- Pushing is best effort; the notification is stored regardless
+    RAISE WARNING 'Could not push notification %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.send_push_notification() IS
+  'Asks the send-push-notification edge function to push a new notification to its user''s devices';
+
+DROP TRIGGER IF EXISTS send_push_notification_trigger ON public.notifications;
+
+CREATE TRIGGER send_push_notification_trigger
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.send_push_notification();
+
+-- Registers the current user's browser. A browser shared by several accounts
+-- has one subscription, which goes to whoever turned push on last.
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      created_at = now(),
+      last_used_at = NULL
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) IS
+  'Stores the Web Push subscription of the current user''s browser';
+
+-- RLS policies: users see and remove their own devices and register them
+-- through register_push_subscription(); the edge function uses the service
+-- role
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "push_subscriptions_select_own" ON public.push_subscriptions;
+DROP POLICY IF EXISTS "push_subscriptions_delete_own" ON public.push_subscriptions;
+
+CREATE POLICY "push_subscriptions_select_own"
+ON public.push_subscriptions FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "push_subscriptions_delete_own"
+ON public.push_subscriptions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
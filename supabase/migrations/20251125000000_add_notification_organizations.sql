@@ -0,0 +1,195 @@
+-- Migration: Organization-scoped notifications
+-- Members of several organizations used to see every organization's
+-- notifications wherever they were. Notifications now record the organization
+-- they are about (organization_id); the bell, the notification center and
+-- the unread counts only show the current organization's, and the
+-- organization selector shows each organization's unread count.
+-- The notify_* triggers keep inserting (user_id, type, payload):
+-- set_notification_organization() fills organization_id from the task,
+-- project, request or organization the payload refers to.
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.notifications.organization_id IS
+  'Organization the notification is about; NULL when it could not be resolved, in which case it shows in every organization';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_org_unread
+ON public.notifications(user_id, organization_id)
+WHERE read_at IS NULL AND archived_at IS NULL;
+
+-- Resolves the organization a notification payload refers to
+CREATE OR REPLACE FUNCTION public.get_notification_organization_id(p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_org UUID;
+BEGIN
+  IF p_payload IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Member joined and announcement notifications name it directly
+  v_org := (p_payload->>'organization_id')::uuid;
+
+  IF v_org IS NULL AND p_payload ? 'task_id' THEN
+    v_org := public.get_task_organization_id((p_payload->>'task_id')::uuid);
+  END IF;
+
+  IF v_org IS NULL AND p_payload ? 'project_id' THEN
+    SELECT organization_id INTO v_org
+    FROM public.projects WHERE id = (p_payload->>'project_id')::uuid;
+  END IF;
+
+  IF v_org IS NULL AND p_payload ? 'leave_request_id' THEN
+    SELECT organization_id INTO v_org
+    FROM public.leave_requests WHERE id = (p_payload->>'leave_request_id')::uuid;
+  END IF;
+
+  IF v_org IS NULL AND p_payload ? 'correction_id' THEN
+    SELECT organization_id INTO v_org
+    FROM public.attendance_corrections WHERE id = (p_payload->>'correction_id')::uuid;
+  END IF;
+
+  IF v_org IS NULL AND p_payload ? 'redemption_id' THEN
+    SELECT rw.organization_id INTO v_org
+    FROM public.redemptions r
+    JOIN public.rewards rw ON rw.id = r.reward_id
+    WHERE r.id = (p_payload->>'redemption_id')::uuid;
+  END IF;
+
+  RETURN v_org;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_notification_organization_id(JSONB) IS
+  'Returns the organization of the task, project, request or redemption a notification payload refers to';
+
+REVOKE EXECUTE ON FUNCTION public.get_notification_organization_id(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Sets the organization of every new notification from its payload, whatever
+-- the insert provided, and only to an organization the recipient belongs to
+CREATE OR REPLACE FUNCTION public.set_notification_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.organization_id := public.get_notification_organization_id(NEW.payload);
+
+  IF NEW.organization_id IS NOT NULL
+     AND NOT public.is_org_member(NEW.organization_id, NEW.user_id) THEN
+    NEW.organization_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.set_notification_organization() IS
+  'Sets organization_id of a new notification from its payload';
+
+DROP TRIGGER IF EXISTS set_notification_organization_trigger ON public.notifications;
+
+CREATE TRIGGER set_notification_organization_trigger
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_notification_organization();
+
+-- Backfill existing notifications
+UPDATE public.notifications
+SET organization_id = public.get_notification_organization_id(payload)
+WHERE organization_id IS NULL;
+
+-- Unread counts per type, now for one organization. Notifications without
+-- an organization count everywhere.
+DROP FUNCTION IF EXISTS public.get_unread_notification_counts();
+
+CREATE OR REPLACE FUNCTION public.get_unread_notification_counts(p_org UUID DEFAULT NULL)
+RETURNS TABLE (
+  type TEXT,
+  unread_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT n.type::text, count(*)
+  FROM public.notifications n
+  WHERE n.user_id = auth.uid()
+    AND n.read_at IS NULL
+    AND n.archived_at IS NULL
+    AND (p_org IS NULL OR n.organization_id = p_org OR n.organization_id IS NULL)
+  GROUP BY n.type;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_unread_notification_counts(UUID) IS
+  'Returns the number of unread, unarchived notifications of the current user per type, optionally for one organization';
+
+-- Unread counts per organization, for the organization selector and the
+-- bell's list of other organizations
+CREATE OR REPLACE FUNCTION public.get_unread_notification_counts_by_organization()
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  unread_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT o.id, o.name, count(*)
+  FROM public.notifications n
+  JOIN public.organizations o ON o.id = n.organization_id
+  JOIN public.organization_members om
+    ON om.organization_id = o.id AND om.user_id = n.user_id
+  WHERE n.user_id = auth.uid()
+    AND n.read_at IS NULL
+    AND n.archived_at IS NULL
+  GROUP BY o.id, o.name;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_unread_notification_counts_by_organization() IS
+  'Returns the number of unread, unarchived notifications of the current user per organization they belong to';
+
+-- Makes an organization the user's current one; the app opens it on the
+-- next visit
+CREATE OR REPLACE FUNCTION public.switch_organization(p_org_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only switch your own organization'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_org_id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this organization'
+      USING HINT = 'not_a_member';
+  END IF;
+
+  UPDATE public.organization_members
+  SET last_selected = (organization_id = p_org_id)
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.switch_organization(UUID, UUID) IS
+  'Marks the given organization as the user''s last selected one';
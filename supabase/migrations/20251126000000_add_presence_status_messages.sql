@@ -0,0 +1,79 @@
+-- Migration: Realtime presence and status messages
+-- Who is online is now tracked with Realtime Presence on one channel per
+-- organization: every open tab joins it, so members go offline when their
+-- last tab closes or stops sending heartbeats, without polling this table.
+-- user_presence keeps what a member chose, so it survives reloads and is
+-- shared by their tabs: a status (online, idle, do not disturb or appear
+-- offline), an optional status message and when both expire. current_task_id
+-- follows the member's running task timer: set_presence_current_task() keeps
+-- it in step with the timer logs.
+
+ALTER TABLE public.user_presence
+ADD COLUMN IF NOT EXISTS status_message TEXT,
+ADD COLUMN IF NOT EXISTS status_expires_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.user_presence
+DROP CONSTRAINT IF EXISTS user_presence_status_message_length_check;
+
+ALTER TABLE public.user_presence
+ADD CONSTRAINT user_presence_status_message_length_check
+CHECK (status_message IS NULL OR char_length(status_message) <= 100);
+
+COMMENT ON COLUMN public.user_presence.status IS
+  'Status the member chose; whether they are connected comes from Realtime Presence';
+
+COMMENT ON COLUMN public.user_presence.status_message IS
+  'Custom status message shown next to the member, e.g. "In a meeting"';
+
+COMMENT ON COLUMN public.user_presence.status_expires_at IS
+  'When the chosen status and message are cleared; NULL keeps them until changed';
+
+COMMENT ON COLUMN public.user_presence.current_task_id IS
+  'Task whose timer the member is running, if any';
+
+-- Statuses picked before this migration were written on every heartbeat and
+-- by clocking in and out; start everyone from online
+UPDATE public.user_presence
+SET status = 'online'
+WHERE status <> 'do_not_disturb';
+
+-- Starting or resuming a task's timer makes it the member's current task;
+-- pausing or completing it clears it. Members without a row yet start online.
+CREATE OR REPLACE FUNCTION public.set_presence_current_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.action::text IN ('start', 'resume') THEN
+    INSERT INTO public.user_presence (user_id, status, current_task_id)
+    VALUES (NEW.user_id, 'online', NEW.task_id)
+    ON CONFLICT (user_id) DO UPDATE SET current_task_id = EXCLUDED.current_task_id;
+  ELSIF NEW.action::text IN ('pause', 'complete') THEN
+    UPDATE public.user_presence
+    SET current_task_id = NULL
+    WHERE user_id = NEW.user_id
+      AND current_task_id = NEW.task_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.set_presence_current_task() IS
+  'Keeps user_presence.current_task_id on the task whose timer the member is running';
+
+DROP TRIGGER IF EXISTS set_presence_current_task_trigger ON public.time_logs;
+
+CREATE TRIGGER set_presence_current_task_trigger
+  AFTER INSERT ON public.time_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_presence_current_task();
+
+-- Backfill from the timers running now
+UPDATE public.user_presence up
+SET current_task_id = (
+  SELECT tl.task_id
+  FROM public.time_logs tl
+  WHERE tl.user_id = up.user_id
+    AND public.get_task_timer_start(tl.task_id, up.user_id) IS NOT NULL
+  ORDER BY tl.timestamp DESC
+  LIMIT 1
+);